@@ -0,0 +1,94 @@
+/**
+ * Translation of driver errors into the client error classes
+ * Shared by the SQLite, Turso and MongoDB adapters
+ */
+
+import {
+  ForeignKeyConstraintError,
+  NullConstraintError,
+  UniqueConstraintError,
+  WriteConflictError
+} from '../client/errors';
+
+/**
+ * Messages for SQLite result codes that have no structured error class
+ */
+const SQLITE_ERROR_MESSAGES: Record<string, string> = {
+  'SQLITE_CONSTRAINT': 'Constraint failed',
+  'SQLITE_READONLY': 'Database is in readonly mode',
+};
+
+/**
+ * Column names from a SQLite constraint message such as
+ * "UNIQUE constraint failed: user.team_id, user.email"
+ */
+function sqliteConstraintTarget(message: string): string[] | undefined {
+  const match = /constraint failed: (.+)$/i.exec(message);
+  if (!match) {
+    return undefined;
+  }
+  return match[1].split(',').map(column => column.trim().split('.').pop() as string);
+}
+
+/**
+ * Translate an error raised by bun:sqlite, better-sqlite3 or libsql
+ * Both drivers report extended result codes such as SQLITE_CONSTRAINT_UNIQUE
+ * Errors without a SQLite code (including already translated ones) pass through
+ *
+ * @param label Database name used in the message of untranslated codes
+ */
+export function translateSqliteError(error: any, label: string): Error {
+  if (typeof error?.code !== 'string' || !error.code.startsWith('SQLITE')) {
+    return error;
+  }
+
+  // libsql prefixes the message with the code
+  const message = String(error.message).replace(/^SQLITE_[A-Z_]+: /, '');
+  const code: string = error.code;
+
+  switch (code) {
+    case 'SQLITE_CONSTRAINT_UNIQUE':
+    case 'SQLITE_CONSTRAINT_PRIMARYKEY':
+      return new UniqueConstraintError(message, { target: sqliteConstraintTarget(message) });
+    case 'SQLITE_CONSTRAINT_FOREIGNKEY':
+      return new ForeignKeyConstraintError(message);
+    case 'SQLITE_CONSTRAINT_NOTNULL':
+      return new NullConstraintError(message, { target: sqliteConstraintTarget(message) });
+    case 'SQLITE_BUSY':
+    case 'SQLITE_LOCKED':
+      return new WriteConflictError(`${label} error: Database is locked`);
+  }
+
+  return new Error(`${label} error: ${SQLITE_ERROR_MESSAGES[code] || message}`);
+}
+
+/**
+ * Messages for MongoDB server error codes that have no structured error class
+ */
+const MONGODB_ERROR_MESSAGES: Record<number, string> = {
+  2: 'Bad value',
+  13: 'Unauthorized',
+  18: 'Authentication failed',
+};
+
+/**
+ * Translate an error raised by the MongoDB driver
+ * Errors without a numeric server code pass through
+ */
+export function translateMongoError(error: any): Error {
+  if (typeof error?.code !== 'number') {
+    return error;
+  }
+
+  switch (error.code) {
+    case 11000:
+    case 11001: {
+      const keys = error.keyPattern ?? error.keyValue;
+      return new UniqueConstraintError(error.message, { target: keys ? Object.keys(keys) : undefined });
+    }
+    case 112:
+      return new WriteConflictError(error.message);
+  }
+
+  return new Error(`MongoDB error: ${MONGODB_ERROR_MESSAGES[error.code] || error.message}`);
+}
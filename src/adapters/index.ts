@@ -1,6 +1,8 @@
 // Export types
 export * from './types';
 
+export type { StatementCacheStats } from './statement-cache';
+
 // Export base adapter
 export * from './base-adapter';
 
@@ -1,4 +1,4 @@
-import { MongoClient, Db, Collection, ClientSession } from 'mongodb';
+import { MongoClient, Db, Collection, ClientSession, Document, Filter, ObjectId } from 'mongodb';
 import { 
   ConnectionOptions, 
   QueryResult, 
@@ -6,6 +6,7 @@ import {
   TransactionOptions 
 } from './types';
 import { BaseDatabaseAdapter } from './base-adapter';
+import { translateMongoError } from './errors';
 
 /**
  * Transaction client implementation for MongoDB
@@ -38,22 +39,7 @@ class MongoTransactionClient implements TransactionClient {
   }
 
   private formatError(error: any): Error {
-    // Format MongoDB specific errors to match Prisma error format
-    if (error.code) {
-      // Map MongoDB error codes to more user-friendly messages
-      const errorMap: Record<number, string> = {
-        11000: 'Duplicate key error',
-        11001: 'Duplicate key error on update',
-        2: 'Bad value',
-        13: 'Unauthorized',
-        18: 'Authentication failed',
-        // Add more mappings as needed
-      };
-
-      const errorMessage = errorMap[error.code] || error.message;
-      return new Error(`MongoDB error: ${errorMessage}`);
-    }
-    return error;
+    return translateMongoError(error);
   }
 }
 
@@ -198,22 +184,7 @@ export class MongoDBAdapter extends BaseDatabaseAdapter {
   }
 
   private formatError(error: any): Error {
-    // Format MongoDB specific errors to match Prisma error format
-    if (error.code) {
-      // Map MongoDB error codes to more user-friendly messages
-      const errorMap: Record<number, string> = {
-        11000: 'Duplicate key error',
-        11001: 'Duplicate key error on update',
-        2: 'Bad value',
-        13: 'Unauthorized',
-        18: 'Authentication failed',
-        // Add more mappings as needed
-      };
-
-      const errorMessage = errorMap[error.code] || error.message;
-      return new Error(`MongoDB error: ${errorMessage}`);
-    }
-    return error;
+    return translateMongoError(error);
   }
 
   /**
@@ -259,6 +230,169 @@ export class MongoDBAdapter extends BaseDatabaseAdapter {
     return this.client;
   }
 
+  /**
+   * Translate a Prisma-style where object into a MongoDB query filter
+   * String operators become anchored, escaped $regex conditions; mode: 'insensitive'
+   * adds the 'i' regex option (also for equals, not, in and notIn)
+   * @param objectIdFields Fields declared @db.ObjectId, whose string values are matched as ObjectIds
+   */
+  buildFilter(where: Record<string, any> = {}, objectIdFields: string[] = []): Filter<Document> {
+    const filter: Record<string, any> = {};
+    const extra: Record<string, any>[] = [];
+
+    for (const [key, rawValue] of Object.entries(where)) {
+      if (rawValue === undefined) {
+        continue;
+      }
+      const value = objectIdFields.includes(key) ? this.toObjectIds(rawValue, true) : rawValue;
+
+      if (key === 'AND' || key === 'OR' || key === 'NOT') {
+        const items = (Array.isArray(value) ? value : [value]).map(item => this.buildFilter(item, objectIdFields));
+        if (items.length > 0) {
+          extra.push({ [key === 'AND' ? '$and' : key === 'OR' ? '$or' : '$nor']: items });
+        }
+        continue;
+      }
+
+      if (value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date) && !(value instanceof ObjectId)) {
+        const [first, ...rest] = this.buildFieldConditions(value);
+        if (Object.keys(first).length > 0) {
+          filter[key] = first;
+        }
+        // Several regex operators on one field cannot share a single $regex key
+        extra.push(...rest.map(condition => ({ [key]: condition })));
+      } else {
+        filter[key] = value;
+      }
+    }
+
+    return extra.length > 0 ? { ...filter, $and: extra } : filter;
+  }
+
+  /**
+   * Translate the operators of one field filter into MongoDB conditions
+   * Conditions are merged where possible; a new one starts when an operator key repeats
+   */
+  private buildFieldConditions(condition: Record<string, any>): Record<string, any>[] {
+    const insensitive = condition.mode === 'insensitive';
+    const options = insensitive ? 'i' : '';
+    const matchWhole = (value: any) =>
+      insensitive && typeof value === 'string' ? new RegExp(`^${this.escapeRegExp(value)}$`, 'i') : value;
+
+    const conditions: Record<string, any>[] = [{}];
+    const add = (operator: string, value: any) => {
+      let target = conditions.find(existing => !(operator in existing));
+      if (!target) {
+        target = {};
+        conditions.push(target);
+      }
+      target[operator] = value;
+    };
+    const addRegex = (pattern: string) => {
+      let target = conditions.find(existing => !('$regex' in existing));
+      if (!target) {
+        target = {};
+        conditions.push(target);
+      }
+      target.$regex = pattern;
+      target.$options = options;
+    };
+
+    for (const [operator, value] of Object.entries(condition)) {
+      if (value === undefined || operator === 'mode') {
+        continue;
+      }
+
+      switch (operator) {
+        case 'equals':
+          if (insensitive && typeof value === 'string') {
+            addRegex(`^${this.escapeRegExp(value)}$`);
+          } else {
+            add('$eq', value);
+          }
+          break;
+        case 'not':
+          if (insensitive && typeof value === 'string') {
+            add('$not', matchWhole(value));
+          } else {
+            add('$ne', value);
+          }
+          break;
+        case 'in':
+          add('$in', (value as any[]).map(matchWhole));
+          break;
+        case 'notIn':
+          add('$nin', (value as any[]).map(matchWhole));
+          break;
+        case 'contains':
+          addRegex(this.escapeRegExp(String(value)));
+          break;
+        case 'startsWith':
+          addRegex(`^${this.escapeRegExp(String(value))}`);
+          break;
+        case 'endsWith':
+          addRegex(`${this.escapeRegExp(String(value))}$`);
+          break;
+        case 'gt':
+        case 'gte':
+        case 'lt':
+        case 'lte':
+          add(`$${operator}`, value);
+          break;
+        default:
+          throw new Error(`Unsupported filter operator for MongoDB: ${operator}`);
+      }
+    }
+
+    return conditions;
+  }
+
+  /**
+   * A document to write, with the string values of @db.ObjectId fields converted to ObjectIds
+   */
+  buildDocument(data: Record<string, any>, objectIdFields: string[] = []): Document {
+    return Object.fromEntries(Object.entries(data).map(([key, value]) =>
+      [key, objectIdFields.includes(key) ? this.toObjectIds(value) : value]
+    ));
+  }
+
+  /**
+   * A document as it is returned, with the ObjectIds of @db.ObjectId fields as hex strings
+   */
+  readDocument<T = Record<string, any>>(document: Document, objectIdFields: string[] = []): T {
+    return Object.fromEntries(Object.entries(document).map(([key, value]) => {
+      if (!objectIdFields.includes(key)) {
+        return [key, value];
+      }
+      return [key, Array.isArray(value)
+        ? value.map(item => item instanceof ObjectId ? item.toHexString() : item)
+        : value instanceof ObjectId ? value.toHexString() : value];
+    })) as T;
+  }
+
+  /**
+   * Convert ObjectId hex strings to ObjectIds, in lists and, for filters, in operator objects
+   */
+  private toObjectIds(value: any, inOperators = false): any {
+    if (typeof value === 'string' && ObjectId.isValid(value) && value.length === 24) {
+      return new ObjectId(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.toObjectIds(item));
+    }
+    if (inOperators && value !== null && typeof value === 'object' && !(value instanceof ObjectId)) {
+      return Object.fromEntries(Object.entries(value).map(([operator, operand]) => [operator, this.toObjectIds(operand)]));
+    }
+    return value;
+  }
+
+  /**
+   * Escape regular expression metacharacters so a value matches literally
+   */
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
   /**
    * Introspection methods for MongoDB
    * These methods adapt MongoDB concepts to match the expected interface for db pull/push
@@ -509,6 +643,11 @@ export class MongoDBAdapter extends BaseDatabaseAdapter {
       return 'DateTime';
     }
 
+    // Introspection adds @db.ObjectId to String fields holding ObjectIds
+    if (value instanceof ObjectId) {
+      return 'ObjectId';
+    }
+
     if (Array.isArray(value)) {
       return 'Json'; // Arrays are represented as Json in Prisma for MongoDB
     }
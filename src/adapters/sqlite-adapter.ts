@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { drizzle } from 'drizzle-orm/bun-sqlite';
 // Conditional import for Bun SQLite - will be handled at runtime
 // import { Database } from 'bun:sqlite';
@@ -18,31 +19,65 @@ import type {
   TransactionOptions
 } from './types';
 import { BaseDatabaseAdapter } from './base-adapter';
+import { translateSqliteError } from './errors';
+import {
+  DEFAULT_STATEMENT_CACHE_SIZE,
+  isSchemaChange,
+  normalizeSql,
+  StatementCache,
+  StatementCacheStats
+} from './statement-cache';
+import { decodeRows, encodeParams } from './values';
+
+/**
+ * Whether a data-modifying statement returns rows through a RETURNING clause
+ */
+function hasReturningClause(query: string): boolean {
+  return /\breturning\b/i.test(query);
+}
 
 /**
  * Transaction client implementation for SQLite
  */
 class SQLiteTransactionClient implements TransactionClient {
-  constructor(private tx: Database) {}
+  constructor(private tx: Database, private statements: StatementCache<any>) {}
+
+  /**
+   * Prepared statement for a query, from the adapter's statement cache
+   */
+  private prepare(query: string): any {
+    return this.statements.get(normalizeSql(query), sql => this.tx.prepare(sql).safeIntegers(true));
+  }
 
   async execute<T = any>(query: string, params?: any[]): Promise<QueryResult<T>> {
+    params = params && encodeParams(params);
     try {
       let result;
 
       // Check if the query is a SELECT query
       if (query.trim().toLowerCase().startsWith('select')) {
-        const stmt = this.tx.query(query);
+        const stmt = this.prepare(query);
         result = stmt.all(params || []);
       } else {
         // For non-SELECT queries (INSERT, UPDATE, DELETE, CREATE, etc.)
+        // Statements with RETURNING are read with all() so their rows come back
+        const returning = hasReturningClause(query);
+        let rows: T[] = [];
+        let changes = 0;
+
         // For SQLite, we need to be careful with parameter binding
         // The query might use named parameters ($1, $2) or question marks (?)
         if (params && params.length > 0) {
           // For queries with question marks, we can use the prepare/run pattern
           if (query.includes('?')) {
             try {
-              const stmt = this.tx.prepare(query);
-              stmt.run(...params);
+              const stmt = this.prepare(query);
+              if (returning) {
+                rows = stmt.all(...params);
+                changes = rows.length;
+              } else {
+                changes = stmt.run(...params).changes;
+              }
             } catch (error) {
               console.error('Error executing prepared statement:', error);
               console.error('Query:', query);
@@ -71,8 +106,13 @@ class SQLiteTransactionClient implements TransactionClient {
               : params;
             
             try {
-              const stmt = this.tx.prepare(modifiedQuery);
-              stmt.run(...orderedParams);
+              const stmt = this.prepare(modifiedQuery);
+              if (returning) {
+                rows = stmt.all(...orderedParams);
+                changes = rows.length;
+              } else {
+                changes = stmt.run(...orderedParams).changes;
+              }
             } catch (error) {
               console.error('Error executing prepared statement with $ params:', error);
               console.error('Original query:', query);
@@ -82,16 +122,22 @@ class SQLiteTransactionClient implements TransactionClient {
               throw error;
             }
           }
+        } else if (returning) {
+          rows = this.prepare(query).all();
+          changes = rows.length;
         } else {
           // If no parameters, just run the query directly
-          this.tx.run(query);
+          changes = this.tx.run(query).changes;
+          if (isSchemaChange(query)) {
+            this.statements.clear();
+          }
         }
-        // For non-SELECT queries, return an empty array as data
-        return { data: [] as T[] };
+        // Non-SELECT queries only return data for a RETURNING clause
+        return { data: decodeRows(rows), changes };
       }
 
       return {
-        data: Array.isArray(result) ? result : [result]
+        data: decodeRows(Array.isArray(result) ? result : [result])
       };
     } catch (error) {
       throw this.formatError(error);
@@ -103,20 +149,7 @@ class SQLiteTransactionClient implements TransactionClient {
   }
 
   private formatError(error: any): Error {
-    // Format SQLite specific errors to match Prisma error format
-    if (error.code) {
-      // Map SQLite error codes to more user-friendly messages
-      const errorMap: Record<string, string> = {
-        'SQLITE_CONSTRAINT': 'Unique constraint failed',
-        'SQLITE_BUSY': 'Database is locked',
-        'SQLITE_READONLY': 'Database is in readonly mode',
-        // Add more mappings as needed
-      };
-
-      const errorMessage = errorMap[error.code] || error.message;
-      return new Error(`SQLite error: ${errorMessage}`);
-    }
-    return error;
+    return translateSqliteError(error, 'SQLite');
   }
 }
 
@@ -126,6 +159,14 @@ class SQLiteTransactionClient implements TransactionClient {
 export class SQLiteAdapter extends BaseDatabaseAdapter {
   private db: Database | null = null;
   private drizzleDb: any = null;
+  // Transactions share one connection, so they run one after another
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+  // The transaction whose callback is running, so a transaction started inside it joins it
+  private openTransaction = new AsyncLocalStorage<TransactionClient>();
+  private statements = new StatementCache<any>(
+    this.options.statementCacheSize ?? DEFAULT_STATEMENT_CACHE_SIZE,
+    statement => statement.finalize()
+  );
 
   async connect(): Promise<void> {
     if (this.isConnected) {
@@ -167,6 +208,7 @@ export class SQLiteAdapter extends BaseDatabaseAdapter {
     }
 
     try {
+      this.statements.clear();
       this.db.close();
       this.db = null;
       this.drizzleDb = null;
@@ -183,6 +225,7 @@ export class SQLiteAdapter extends BaseDatabaseAdapter {
       if (!this.db) {
         throw new Error('SQLite database connection is not initialized');
       }
+      params = params && encodeParams(params);
 
       // Handle multiple statements by splitting on semicolons
       // Exclude PRAGMA and SELECT statements from multi-statement handling
@@ -203,6 +246,9 @@ export class SQLiteAdapter extends BaseDatabaseAdapter {
           }
 
           this.db.run('COMMIT');
+          if (statements.some(isSchemaChange)) {
+            this.clearStatementCache();
+          }
           return { data: [] as T[] };
         } catch (error) {
           this.db.run('ROLLBACK');
@@ -211,7 +257,9 @@ export class SQLiteAdapter extends BaseDatabaseAdapter {
       }
 
       // Handle single statements
-      const stmt = this.db.query(query);
+      // Schema changes are not cached, and make the cached statements stale
+      const schemaChange = isSchemaChange(query);
+      const stmt = schemaChange ? this.db.prepare(query) : this.prepare(query);
       let result;
 
       // Check if the query is a SELECT query or PRAGMA command (both return data)
@@ -219,15 +267,22 @@ export class SQLiteAdapter extends BaseDatabaseAdapter {
         result = params ? stmt.all(params || []) : stmt.all();
 
 
+      } else if (hasReturningClause(query)) {
+        // INSERT/UPDATE/DELETE ... RETURNING hand back the affected rows
+        result = params ? stmt.all(params) : stmt.all();
+        return { data: decodeRows(result as T[]), changes: result.length };
       } else {
         // For non-SELECT queries (INSERT, UPDATE, DELETE, CREATE, etc.)
         result = params ? stmt.run(params || []) : stmt.run();
+        if (schemaChange) {
+          this.clearStatementCache();
+        }
         // For non-SELECT queries, return an empty array as data
-        return { data: [] as T[] };
+        return { data: [] as T[], changes: result?.changes };
       }
 
       return {
-        data: result as T[]
+        data: decodeRows(result as T[])
       };
     } catch (error) {
       throw this.formatError(error);
@@ -351,15 +406,35 @@ export class SQLiteAdapter extends BaseDatabaseAdapter {
       throw new Error('SQLite database connection is not initialized');
     }
 
+    // Waiting in the queue for the enclosing transaction would never end, so nested
+    // transactions (a model write inside $transaction) run in the open one
+    const current = this.openTransaction.getStore();
+    if (current) {
+      return fn(current);
+    }
+
+    const run = this.transactionQueue.then(() => this.runTransaction(fn));
+    this.transactionQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Run a transaction callback between BEGIN and COMMIT, rolling back on error
+   */
+  private async runTransaction<T>(fn: (tx: TransactionClient) => Promise<T>): Promise<T> {
+    if (!this.db) {
+      throw new Error('SQLite database connection is not initialized');
+    }
+
     // Begin transaction manually
     this.db.run('BEGIN TRANSACTION');
 
     try {
       // Create a transaction client
-      const txClient = new SQLiteTransactionClient(this.db);
+      const txClient = new SQLiteTransactionClient(this.db, this.statements);
 
       // Execute the transaction function
-      const result = await fn(txClient);
+      const result = await this.openTransaction.run(txClient, () => fn(txClient));
 
       // If we get here, commit the transaction
       this.db.run('COMMIT');
@@ -372,21 +447,32 @@ export class SQLiteAdapter extends BaseDatabaseAdapter {
     }
   }
 
-  private formatError(error: any): Error {
-    // Format SQLite specific errors to match Prisma error format
-    if (error.code) {
-      // Map SQLite error codes to more user-friendly messages
-      const errorMap: Record<string, string> = {
-        'SQLITE_CONSTRAINT': 'Unique constraint failed',
-        'SQLITE_BUSY': 'Database is locked',
-        'SQLITE_READONLY': 'Database is in readonly mode',
-        // Add more mappings as needed
-      };
+  /**
+   * Prepared statement for a single-statement query, from the statement cache
+   * Queries are keyed by their normalized text, so SQL built from one template shares an entry
+   * Integers are read as bigint, so values beyond Number.MAX_SAFE_INTEGER keep every digit
+   */
+  private prepare(query: string): any {
+    return this.statements.get(normalizeSql(query), sql => this.db!.prepare(sql).safeIntegers(true));
+  }
 
-      const errorMessage = errorMap[error.code] || error.message;
-      return new Error(`SQLite error: ${errorMessage}`);
-    }
-    return error;
+  /**
+   * Hit and miss counters of the prepared statement cache
+   */
+  getStatementCacheStats(): StatementCacheStats {
+    return this.statements.stats();
+  }
+
+  /**
+   * Drop all cached prepared statements
+   * Called after schema changes, since a statement prepared earlier keeps the old column list
+   */
+  clearStatementCache(): void {
+    this.statements.clear();
+  }
+
+  private formatError(error: any): Error {
+    return translateSqliteError(error, 'SQLite');
   }
 
   async enableFullTextSearch(tableName: string, columns: string[]): Promise<void> {
@@ -0,0 +1,138 @@
+/**
+ * Least-recently-used cache of prepared statements
+ * Used by the SQLite adapter; @libsql/client has no prepared statements, so the Turso adapter has no cache
+ */
+
+/**
+ * Number of statements kept when ConnectionOptions.statementCacheSize is not set
+ */
+export const DEFAULT_STATEMENT_CACHE_SIZE = 100;
+
+/**
+ * Counters of a statement cache, for diagnostics
+ */
+export interface StatementCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+  capacity: number;
+}
+
+/**
+ * Collapse whitespace outside string literals and quoted identifiers,
+ * so SQL built from the same template shares one cache entry
+ * Text containing comments is only trimmed, as a line comment would swallow the rest of the line
+ */
+export function normalizeSql(sql: string): string {
+  let normalized = '';
+  let quote: string | null = null;
+  let pendingSpace = false;
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+
+    if (quote) {
+      normalized += char;
+      if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if ((char === '-' && sql[i + 1] === '-') || (char === '/' && sql[i + 1] === '*')) {
+      return sql.trim();
+    }
+
+    if (/\s/.test(char)) {
+      pendingSpace = normalized.length > 0;
+      continue;
+    }
+
+    if (pendingSpace) {
+      normalized += ' ';
+      pendingSpace = false;
+    }
+    if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '[') {
+      quote = ']';
+    }
+    normalized += char;
+  }
+
+  return normalized;
+}
+
+/**
+ * Whether a statement changes the schema, which makes cached statements stale
+ * (a statement prepared before ALTER TABLE keeps the old column list)
+ */
+export function isSchemaChange(sql: string): boolean {
+  return /^\s*(create|alter|drop)\b/i.test(sql);
+}
+
+/**
+ * LRU cache of prepared statements keyed by SQL text
+ * A capacity of 0 disables caching; lookups then always miss
+ */
+export class StatementCache<S> {
+  private entries = new Map<string, S>();
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * @param capacity Maximum number of statements kept
+   * @param release Called with each statement that is evicted or cleared
+   */
+  constructor(
+    private readonly capacity: number = DEFAULT_STATEMENT_CACHE_SIZE,
+    private readonly release: (statement: S) => void = () => undefined
+  ) {}
+
+  /**
+   * Get the statement for an SQL text, preparing and caching it on a miss
+   */
+  get(sql: string, prepare: (sql: string) => S): S {
+    const cached = this.entries.get(sql);
+    if (cached !== undefined) {
+      this.hits++;
+      // Re-insert to mark the entry as most recently used
+      this.entries.delete(sql);
+      this.entries.set(sql, cached);
+      return cached;
+    }
+
+    this.misses++;
+    const statement = prepare(sql);
+    if (this.capacity <= 0) {
+      return statement;
+    }
+
+    if (this.entries.size >= this.capacity) {
+      const [oldestSql, oldest] = this.entries.entries().next().value as [string, S];
+      this.entries.delete(oldestSql);
+      this.release(oldest);
+    }
+    this.entries.set(sql, statement);
+    return statement;
+  }
+
+  /**
+   * Drop all cached statements; the counters are kept
+   */
+  clear(): void {
+    for (const statement of this.entries.values()) {
+      this.release(statement);
+    }
+    this.entries.clear();
+  }
+
+  stats(): StatementCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: this.entries.size,
+      capacity: Math.max(this.capacity, 0)
+    };
+  }
+}
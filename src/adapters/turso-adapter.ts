@@ -7,6 +7,8 @@ import {
   TransactionOptions 
 } from './types';
 import { BaseDatabaseAdapter } from './base-adapter';
+import { translateSqliteError } from './errors';
+import { decodeRows, encodeParams } from './values';
 
 /**
  * Transaction client implementation for TursoDB
@@ -18,11 +20,12 @@ class TursoTransactionClient implements TransactionClient {
     try {
       const result = await this.tx.execute({
         sql: query,
-        args: params || []
+        args: encodeParams(params)
       });
       
       return {
-        data: result.rows as T[]
+        data: decodeRows(result.rows as T[]),
+        changes: result.rowsAffected
       };
     } catch (error) {
       throw this.formatError(error);
@@ -34,20 +37,7 @@ class TursoTransactionClient implements TransactionClient {
   }
 
   private formatError(error: any): Error {
-    // Format TursoDB specific errors to match Prisma error format
-    if (error.code) {
-      // Map TursoDB error codes to more user-friendly messages
-      const errorMap: Record<string, string> = {
-        'SQLITE_CONSTRAINT': 'Unique constraint failed',
-        'SQLITE_BUSY': 'Database is locked',
-        'SQLITE_READONLY': 'Database is in readonly mode',
-        // Add more mappings as needed
-      };
-
-      const errorMessage = errorMap[error.code] || error.message;
-      return new Error(`TursoDB error: ${errorMessage}`);
-    }
-    return error;
+    return translateSqliteError(error, 'TursoDB');
   }
 }
 
@@ -76,9 +66,11 @@ export class TursoAdapter extends BaseDatabaseAdapter {
       }
 
       // Create libSQL client for TursoDB
+      // Integers come back as bigint so none lose precision; decodeRows narrows the safe ones
       this.client = createClient({
         url,
-        authToken
+        authToken,
+        intMode: 'bigint'
       });
 
       // Initialize Drizzle ORM with the TursoDB connection
@@ -118,11 +110,12 @@ export class TursoAdapter extends BaseDatabaseAdapter {
 
       const result = await this.client.execute({
         sql: query,
-        args: params || []
+        args: encodeParams(params)
       });
       
       return {
-        data: result.rows as T[]
+        data: decodeRows(result.rows as T[]),
+        changes: result.rowsAffected
       };
     } catch (error) {
       throw this.formatError(error);
@@ -155,19 +148,6 @@ export class TursoAdapter extends BaseDatabaseAdapter {
   }
 
   private formatError(error: any): Error {
-    // Format TursoDB specific errors to match Prisma error format
-    if (error.code) {
-      // Map TursoDB error codes to more user-friendly messages
-      const errorMap: Record<string, string> = {
-        'SQLITE_CONSTRAINT': 'Unique constraint failed',
-        'SQLITE_BUSY': 'Database is locked',
-        'SQLITE_READONLY': 'Database is in readonly mode',
-        // Add more mappings as needed
-      };
-
-      const errorMessage = errorMap[error.code] || error.message;
-      return new Error(`TursoDB error: ${errorMessage}`);
-    }
-    return error;
+    return translateSqliteError(error, 'TursoDB');
   }
 }
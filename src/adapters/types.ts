@@ -6,6 +6,10 @@
 export type QueryResult<T> = {
   data: T[];
   count?: number;
+  /**
+   * Rows inserted, updated or deleted by the statement, as reported by the driver
+   */
+  changes?: number;
 };
 
 export type TransactionOptions = {
@@ -31,6 +35,7 @@ export type ConnectionOptions = {
   connectionLimit?: number;
   authToken?: string; // For TursoDB
   authSource?: string; // For MongoDB
+  statementCacheSize?: number; // Prepared statements kept by the SQLite adapter, 0 disables the cache
 };
 
 /**
@@ -91,6 +96,12 @@ export interface DatabaseAdapter {
     operations: Array<() => Promise<T>>,
     options?: TransactionOptions
   ): Promise<T[]>;
+
+  /**
+   * Drop cached prepared statements after the schema changed
+   * Only implemented by adapters that cache statements
+   */
+  clearStatementCache?(): void;
 }
 
 /**
@@ -0,0 +1,33 @@
+/**
+ * Conversion of query parameters and result values for the SQLite and Turso adapters
+ * Integers are read as bigint by the drivers so none lose precision; the ones that fit
+ * in a number are handed back as numbers
+ */
+
+import { Decimal } from '../client/scalars';
+
+/**
+ * Parameters in the form the drivers bind: Decimal values are written as their exact text
+ */
+export function encodeParams(params: unknown[] | undefined): unknown[] {
+  return (params ?? []).map(param => param instanceof Decimal ? param.toString() : param);
+}
+
+/**
+ * Turn the bigint values of result rows back into numbers where that is exact
+ * Rows are changed in place
+ */
+export function decodeRows<T>(rows: T[]): T[] {
+  for (const row of rows as Record<string, unknown>[]) {
+    if (row === null || typeof row !== 'object') {
+      continue;
+    }
+    for (const key of Object.keys(row)) {
+      const value = row[key];
+      if (typeof value === 'bigint' && value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)) {
+        row[key] = Number(value);
+      }
+    }
+  }
+  return rows;
+}
@@ -27,6 +27,14 @@ interface BasicParser {
   parse: (input: string, options?: unknown) => unknown; // The structure of the AST will be defined by the grammar
 }
 
+// Where a validation message points: "(prisma/schema/user.prisma:3)", or "(Line 3)" when the file is unknown
+function formatPosition(item: { file?: string; line?: number }): string {
+    if (!item.line) {
+        return '';
+    }
+    return item.file ? ` (${path.relative(process.cwd(), item.file)}:${item.line})` : ` (Line ${item.line})`;
+}
+
 async function loadParser(): Promise<BasicParser> {
     try {
         // Use dynamic import for ES modules
@@ -49,6 +57,7 @@ Commands:
   init [directory]                    Initialize a new Drismify project
   generate [schema-path]              Generate client from schema
   validate [schema-path]              Validate schema syntax
+  format [schema-path] [--check]      Format schema files
 
   db push [--schema path]             Push schema to database
   db pull [--schema path]             Pull schema from database
@@ -121,27 +130,27 @@ async function main() {
                 if (result.warnings.length > 0) {
                     console.log("\nWarnings:");
                     for (const warning of result.warnings) {
-                        console.log(`  - ${warning.message}${warning.line ? ` (Line ${warning.line})` : ''}`);
+                        console.log(`  - ${warning.message}${formatPosition(warning)}`);
                     }
                 }
 
                 if (args.includes('--suggestions') && result.suggestions.length > 0) {
                     console.log("\nSuggestions:");
                     for (const suggestion of result.suggestions) {
-                        console.log(`  - ${suggestion.message}${suggestion.line ? ` (Line ${suggestion.line})` : ''}`);
+                        console.log(`  - ${suggestion.message}${formatPosition(suggestion)}`);
                     }
                 }
             } else {
                 console.error("Schema validation failed:");
 
                 for (const error of result.errors) {
-                    console.error(`  - ${error.message}${error.line ? ` (Line ${error.line})` : ''}`);
+                    console.error(`  - ${error.message}${formatPosition(error)}`);
                 }
 
                 if (args.includes('--suggestions') && result.suggestions.length > 0) {
                     console.log("\nSuggestions to fix errors:");
                     for (const suggestion of result.suggestions) {
-                        console.log(`  - ${suggestion.message}${suggestion.line ? ` (Line ${suggestion.line})` : ''}`);
+                        console.log(`  - ${suggestion.message}${formatPosition(suggestion)}`);
                     }
                 }
             }
@@ -151,15 +160,42 @@ async function main() {
             console.error(`Message: ${error.message}`);
             console.error(`Stack: ${error.stack}`);
         }
+    } else if (command === 'format') {
+        const schemaPath = path.resolve(args[1] && !args[1].startsWith('--') ? args[1] : './schema.prisma');
+        const check = args.includes('--check');
+        console.log(`${check ? 'Checking formatting of' : 'Formatting'} schema: ${schemaPath}`);
+
+        try {
+            // Import the format module
+            const { formatSchema } = await import('./cli/format.js');
+
+            const result = await formatSchema({ schemaPath, check });
+
+            if (check && result.changed.length > 0) {
+                console.error("These schema files are not formatted:");
+                for (const file of result.changed) {
+                    console.error(`  - ${path.relative(process.cwd(), file)}`);
+                }
+                process.exitCode = 1;
+            } else if (check) {
+                console.log("Schema is formatted.");
+            } else {
+                console.log(`Formatted ${result.changed.length} of ${result.files.length} schema file(s).`);
+            }
+        } catch (e: unknown) {
+            console.error("Failed to format schema:");
+            const error = e as Error;
+            console.error(`Message: ${error.message}`);
+            process.exitCode = 1;
+        }
     } else if (command === 'generate-schema' && prismaSchemaPathArg) {
         const pslPath = path.resolve(prismaSchemaPathArg);
         const drizzleSchemaOutPath = path.resolve(outputDrizzleSchemaPath);
         console.log(`Generating Drizzle schema from: ${pslPath}`);
         console.log(`Outputting to: ${drizzleSchemaOutPath}`);
         try {
-            const pslContent = fs.readFileSync(pslPath, 'utf-8');
-            const { parseSchema } = await import('./parser/index.js');
-            const pslAst = await parseSchema(pslContent) as any[]; // Assuming AST is an array
+            const { parseSchemaFile } = await import('./parser/index.js');
+            const pslAst = await parseSchemaFile(pslPath) as any[]; // Assuming AST is an array
             const drizzleSchemaContent = translatePslToDrizzleSchema(pslAst);
 
             // Ensure the output directory exists
@@ -506,6 +542,7 @@ async function main() {
         console.log("Available commands:");
         console.log("  init [directory] [provider]               - Initialize a new Drismify project.");
         console.log("  validate <path-to-prisma.schema>          - Validates the Prisma schema file.");
+        console.log("  format [schema-path] [--check]            - Formats the schema, or checks that it is formatted.");
         console.log("  generate-schema <path-to-prisma.schema> [output-path] - Generates Drizzle schema.");
         console.log("  generate-client <path-to-prisma.schema> [output-dir] - Generates client code.");
         console.log("  generate [schema-path] [output-dir] [--watch] - Generates client code.");
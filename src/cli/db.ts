@@ -55,12 +55,9 @@ export async function dbPush(options: DbOptions = {}): Promise<void> {
     throw new Error(`Schema file not found: ${schemaPath}`);
   }
   
-  // Read the schema file
-  const schemaContent = fs.readFileSync(schemaPath, 'utf-8');
-  
-  // Parse the schema
-  const { parseSchema } = await import('../parser/index.js');
-  const ast = await parseSchema(schemaContent);
+  // Parse the schema file or folder
+  const { parseSchemaFile } = await import('../parser/index.js');
+  const ast = await parseSchemaFile(schemaPath);
   
   // Extract datasource from the AST
   const datasource = ast.find((node: any) => node.type === 'datasource');
@@ -179,12 +176,14 @@ export async function dbPull(options: DbOptions = {}): Promise<void> {
     throw new Error(`Schema file not found: ${schemaPath}. Please create a schema file with datasource configuration first.`);
   }
 
-  // Read the existing schema file to get datasource configuration
-  const existingSchemaContent = fs.readFileSync(schemaPath, 'utf-8');
+  // Introspection writes a single schema file, which would duplicate the models of a schema folder
+  if (fs.statSync(schemaPath).isDirectory()) {
+    throw new Error(`db pull writes a single schema file; pass a .prisma file instead of the schema folder ${schemaPath}`);
+  }
 
   // Parse the existing schema to extract datasource
-  const { parseSchema } = await import('../parser/index.js');
-  const existingAst = await parseSchema(existingSchemaContent);
+  const { parseSchemaFile } = await import('../parser/index.js');
+  const existingAst = await parseSchemaFile(schemaPath);
 
   // Extract datasource from the AST
   const datasource = existingAst.find((node: any) => node.type === 'datasource');
@@ -253,12 +252,9 @@ export async function dbSeed(options: DbOptions = {}): Promise<void> {
     throw new Error(`Schema file not found: ${schemaPath}`);
   }
   
-  // Read the schema file
-  const schemaContent = fs.readFileSync(schemaPath, 'utf-8');
-  
-  // Parse the schema
-  const { parseSchema } = await import('../parser/index.js');
-  const ast = await parseSchema(schemaContent);
+  // Parse the schema file or folder
+  const { parseSchemaFile } = await import('../parser/index.js');
+  const ast = await parseSchemaFile(schemaPath);
   
   // Extract datasource from the AST
   const datasource = ast.find((node: any) => node.type === 'datasource');
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import { printSchema } from '../parser/printer';
+
+/**
+ * Options for schema formatting
+ */
+export interface FormatOptions {
+  /**
+   * Path to the schema file, or to a folder of schema files
+   */
+  schemaPath?: string;
+
+  /**
+   * Only report the files that are not formatted, without writing them
+   */
+  check?: boolean;
+}
+
+/**
+ * Formatting result
+ */
+export interface FormatResult {
+  /**
+   * Schema files that were looked at
+   */
+  files: string[];
+
+  /**
+   * Files whose formatting differs from the canonical one; with check they are left as they are
+   */
+  changed: string[];
+}
+
+/**
+ * Format Prisma schema source in the canonical layout
+ * Throws when the printed schema would parse differently from the source, instead of changing its meaning
+ */
+export async function formatSchemaSource(source: string): Promise<string> {
+  const { parseSchema } = await import('../parser/index.js');
+  const ast = await parseSchema(source);
+  // Nothing to lay out, and comments need a declaration to be kept on
+  if (ast.length === 0) {
+    return source;
+  }
+  const formatted = printSchema(ast);
+
+  if (normalizedJson(await parseSchema(formatted)) !== normalizedJson(ast)) {
+    throw new Error('Formatting would change the meaning of the schema');
+  }
+  return formatted;
+}
+
+// JSON of an AST with attributes sorted, since the printer puts them in its own order
+function normalizedJson(ast: unknown): string {
+  return JSON.stringify(ast, (key, value) => key === 'attributes' && Array.isArray(value)
+    ? value.map(attribute => JSON.stringify(attribute)).sort()
+    : value);
+}
+
+/**
+ * Format a schema file, or each file of a schema folder
+ */
+export async function formatSchema(options: FormatOptions = {}): Promise<FormatResult> {
+  const {
+    schemaPath = 'schema.prisma',
+    check = false
+  } = options;
+
+  // Check if the schema file exists
+  if (!fs.existsSync(schemaPath)) {
+    throw new Error(`Schema file not found: ${schemaPath}`);
+  }
+
+  const { parseSchemaFile, schemaFilePaths } = await import('../parser/index.js');
+  const files = schemaFilePaths(schemaPath);
+  const changed: string[] = [];
+  for (const file of files) {
+    // Parse each file alone first, so syntax errors name the file and line
+    await parseSchemaFile(file);
+
+    const source = fs.readFileSync(file, 'utf-8');
+    let formatted: string;
+    try {
+      formatted = await formatSchemaSource(source);
+    } catch (error: any) {
+      throw new Error(`${file}: ${error.message}`);
+    }
+
+    if (formatted !== source) {
+      changed.push(file);
+      if (!check) {
+        fs.writeFileSync(file, formatted);
+      }
+    }
+  }
+
+  return { files, changed };
+}
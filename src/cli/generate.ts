@@ -66,12 +66,9 @@ export async function generateClient(options: GenerateOptions = {}): Promise<voi
     throw new Error(`Schema file not found: ${schemaPath}`);
   }
 
-  // Read the schema file
-  const schemaContent = fs.readFileSync(schemaPath, 'utf-8');
-
-  // Parse the schema
-  const { parseSchema } = await import('../parser/index.js');
-  const ast = await parseSchema(schemaContent);
+  // Parse the schema file or folder
+  const { parseSchemaFile, schemaLocation } = await import('../parser/index.js');
+  const ast = await parseSchemaFile(schemaPath);
 
   // Extract generator from the AST
   const generatorNode = ast.find((node: { type: string; [key: string]: unknown }) => node.type === 'generator') as { type: string; assignments?: { output?: string } } | undefined;
@@ -80,8 +77,9 @@ export async function generateClient(options: GenerateOptions = {}): Promise<voi
   let clientOutputDir = outputDir; // outputDir is from GenerateOptions, potentially passed by CLI
   if (!clientOutputDir && generatorNode?.assignments?.output) {
     // If outputDir is not provided via options, use the one from the schema's generator block.
-    // This path is relative to the schema file, so resolve it.
-    clientOutputDir = path.resolve(path.dirname(schemaPath), generatorNode.assignments.output);
+    // This path is relative to the schema file declaring the generator, so resolve it.
+    const generatorFile = schemaLocation(generatorNode)?.file ?? schemaPath;
+    clientOutputDir = path.resolve(path.dirname(generatorFile), generatorNode.assignments.output);
   }
 
   if (!clientOutputDir) {
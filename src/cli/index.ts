@@ -4,3 +4,4 @@ export * from './db';
 export * from './validate';
 export * from './generate';
 export * from './migrate';
+export * from './format';
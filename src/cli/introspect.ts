@@ -4,6 +4,8 @@ import { DatabaseAdapter } from '../adapters';
 import { SQLiteAdapter } from '../adapters/sqlite-adapter';
 import { TursoAdapter } from '../adapters/turso-adapter';
 import { MongoDBAdapter } from '../adapters/mongodb-adapter';
+import { nativeTypeOfSqlType } from '../generator/native-types';
+import { printSchema, type PslAttributeAst, type PslBlockAst, type PslFieldAst } from '../parser/printer';
 
 /**
  * Introspection options
@@ -150,6 +152,7 @@ interface SchemaGenerationOptions {
 
 /**
  * Generate a Prisma schema from database schema information
+ * The schema is built as an AST and written by the schema printer, so it is laid out as `drismify format` would
  */
 function generatePrismaSchema(options: SchemaGenerationOptions): string {
   const {
@@ -163,23 +166,26 @@ function generatePrismaSchema(options: SchemaGenerationOptions): string {
     url,
     saveComments
   } = options;
-  
-  let schema = '';
-  
+
+  const ast: PslBlockAst[] = [];
+
   // Add generator
-  schema += `generator client {\n  provider = "drismify"\n}\n\n`;
-  
+  ast.push({ type: 'generator', name: 'client', assignments: { provider: 'drismify' } });
+
   // Add datasource
-  schema += `datasource db {\n  provider = "${provider}"\n  url      = ${provider === 'sqlite' ? `"file:${url}"` : `env("DATABASE_URL")`}\n}\n\n`;
-  
+  ast.push({
+    type: 'datasource',
+    name: 'db',
+    assignments: { provider, url: provider === 'sqlite' ? `file:${url}` : 'env("DATABASE_URL")' }
+  });
+
   // Add models
   for (const table of tables) {
     const tableName = table.name;
     const modelName = toPascalCase(tableName);
-    
-    // Start model definition
-    schema += `model ${modelName} {\n`;
-    
+    const fields: PslFieldAst[] = [];
+    const attributes: PslAttributeAst[] = [];
+
     // Add columns
     const tableColumns = columns.filter(column => column.table === tableName);
 
@@ -189,28 +195,26 @@ function generatePrismaSchema(options: SchemaGenerationOptions): string {
       const isOptional = column.isNullable && !column.isPrimaryKey;
       const isAutoIncrement = column.isAutoIncrement;
       const isPrimaryKey = column.isPrimaryKey;
-
-      let line = `  ${fieldName} ${fieldType}`;
-
-      // Add optional modifier
-      if (isOptional) {
-        line = line.replace(fieldType, `${fieldType}?`);
-      }
+      const fieldAttributes: PslAttributeAst[] = [];
 
       // Add field modifiers
       if (isPrimaryKey) {
-        line += ' @id';
+        fieldAttributes.push({ name: 'id', args: null });
 
         // For MongoDB, add ObjectId mapping for _id field
         if (provider === 'mongodb' && column.name === '_id') {
-          line += ' @default(auto()) @map("_id") @db.ObjectId';
+          fieldAttributes.push(
+            { name: 'default', args: { function: 'auto', args: [] } },
+            { name: 'map', args: '_id' },
+            { name: 'db.ObjectId', args: null }
+          );
         }
       }
 
       if (isAutoIncrement && provider !== 'mongodb') {
-        line += ' @default(autoincrement())';
+        fieldAttributes.push({ name: 'default', args: { function: 'autoincrement', args: [] } });
       } else if (column.defaultValue !== null && column.defaultValue !== undefined) {
-        line += ` @default(${formatDefaultValue(column.defaultValue, fieldType)})`;
+        fieldAttributes.push({ name: 'default', args: defaultValueArgs(column.defaultValue, fieldType) });
       }
 
       // Add unique constraint for single-field unique constraints
@@ -222,67 +226,84 @@ function generatePrismaSchema(options: SchemaGenerationOptions): string {
       );
 
       if (singleFieldUnique) {
-        const uniqueName = singleFieldUnique.isNamed && singleFieldUnique.name ?
-          `, name: "${singleFieldUnique.name}"` : '';
-        line += ` @unique${uniqueName ? `(${uniqueName})` : ''}`;
+        const named = singleFieldUnique.isNamed && singleFieldUnique.name;
+        fieldAttributes.push({ name: 'unique', args: named ? { name: singleFieldUnique.name } : null });
       }
 
       // Add column mapping if different from field name
-      if (column.name !== fieldName) {
-        line += ` @map("${column.name}")`;
+      if (column.name !== fieldName && !fieldAttributes.some(attr => attr.name === 'map')) {
+        fieldAttributes.push({ name: 'map', args: column.name });
+      }
+
+      // Add the native type of columns declared with a type other than the default
+      if (provider === 'mongodb') {
+        if (column.type === 'ObjectId' && column.name !== '_id') {
+          fieldAttributes.push({ name: 'db.ObjectId', args: null });
+        }
+      } else if (column.type && !DEFAULT_COLUMN_TYPES.has(column.type.trim().toUpperCase())) {
+        const native = nativeTypeOfSqlType(column.type);
+        if (native) {
+          fieldAttributes.push({ name: `db.${native.name}`, args: native.args.length > 0 ? native.args : null });
+        }
       }
 
-      schema += `${line}\n`;
+      fields.push({
+        name: fieldName,
+        type: { name: fieldType, optional: isOptional, isArray: false },
+        attributes: fieldAttributes
+      });
     }
-    
+
     // Add relations
     const tableRelations = foreignKeys.filter(fk => fk.foreignTable === tableName || fk.referencedTable === tableName);
-    
+
     for (const relation of tableRelations) {
       if (relation.foreignTable === tableName) {
         // This table references another table (many-to-one)
         const referencedModelName = toPascalCase(relation.referencedTable);
-        const fieldName = toCamelCase(referencedModelName);
-
-        // Build relation attributes
-        let relationAttrs = `fields: [${toCamelCase(relation.foreignKey)}], references: [${toCamelCase(relation.referencedColumn)}]`;
+        const relationArgs: Record<string, unknown> = {
+          fields: [toCamelCase(relation.foreignKey)],
+          references: [toCamelCase(relation.referencedColumn)]
+        };
 
         // Add referential actions if they exist and are not default
         if (relation.onDelete && relation.onDelete !== 'NO ACTION') {
-          relationAttrs += `, onDelete: ${mapSqlReferentialActionToPrisma(relation.onDelete)}`;
+          relationArgs.onDelete = mapSqlReferentialActionToPrisma(relation.onDelete);
         }
         if (relation.onUpdate && relation.onUpdate !== 'NO ACTION') {
-          relationAttrs += `, onUpdate: ${mapSqlReferentialActionToPrisma(relation.onUpdate)}`;
+          relationArgs.onUpdate = mapSqlReferentialActionToPrisma(relation.onUpdate);
         }
 
         // Add relation name if available
         if (relation.name) {
-          relationAttrs += `, name: "${relation.name}"`;
+          relationArgs.name = relation.name;
         }
 
-        schema += `  ${fieldName} ${referencedModelName} @relation(${relationAttrs})\n`;
+        fields.push({
+          name: toCamelCase(referencedModelName),
+          type: { name: referencedModelName, optional: false, isArray: false },
+          attributes: [{ name: 'relation', args: relationArgs }]
+        });
       } else {
         // Another table references this table (one-to-many)
         const foreignModelName = toPascalCase(relation.foreignTable);
-        const fieldName = toCamelCase(foreignModelName) + 's';
 
-        schema += `  ${fieldName} ${foreignModelName}[] @relation("${relation.name}")\n`;
+        fields.push({
+          name: toCamelCase(foreignModelName) + 's',
+          type: { name: foreignModelName, optional: false, isArray: true },
+          attributes: relation.name ? [{ name: 'relation', args: relation.name }] : []
+        });
       }
     }
-    
+
     // Add indexes
     const tableIndexes = indexes.filter(index => index.table === tableName);
 
     for (const index of tableIndexes) {
-      const isUnique = index.isUnique;
-      const columns = index.columns.map(col => toCamelCase(col)).join(', ');
-      const indexName = index.name ? `, name: "${index.name}"` : '';
-
-      if (isUnique) {
-        schema += `  @@unique([${columns}]${indexName})\n`;
-      } else {
-        schema += `  @@index([${columns}]${indexName})\n`;
-      }
+      attributes.push({
+        name: index.isUnique ? 'unique' : 'index',
+        args: { fields: index.columns.map(col => toCamelCase(col)), ...(index.name && { name: index.name }) }
+      });
     }
 
     // Add unique constraints (from table-level constraints, excluding single-field ones already handled)
@@ -291,53 +312,66 @@ function generatePrismaSchema(options: SchemaGenerationOptions): string {
     );
 
     for (const constraint of tableUniqueConstraints) {
-      const columns = constraint.columns.map(col => toCamelCase(col)).join(', ');
-      const constraintName = constraint.isNamed && constraint.name ? `, name: "${constraint.name}"` : '';
-
-      schema += `  @@unique([${columns}]${constraintName})\n`;
+      attributes.push({
+        name: 'unique',
+        args: {
+          fields: constraint.columns.map(col => toCamelCase(col)),
+          ...(constraint.isNamed && constraint.name && { name: constraint.name })
+        }
+      });
     }
 
     // Add check constraints
     const tableCheckConstraints = checkConstraints.filter(constraint => constraint.table === tableName);
 
     for (const constraint of tableCheckConstraints) {
-      const constraintName = constraint.isNamed && constraint.name ? `, name: "${constraint.name}"` : '';
-
-      schema += `  @@check(${constraint.expression}${constraintName})\n`;
+      attributes.push({
+        name: 'check',
+        args: { constraint: constraint.expression, ...(constraint.isNamed && constraint.name && { name: constraint.name }) }
+      });
     }
-    
+
     // Add table mapping
-    schema += `  @@map("${tableName}")\n`;
-    
-    // Close model definition
-    schema += `}\n\n`;
+    attributes.push({ name: 'map', args: tableName });
+
+    ast.push({ type: 'model', name: modelName, fields, attributes });
   }
-  
+
   // Add comments if requested
   if (saveComments) {
-    schema += '// Relation explanations:\n';
-    
-    for (const relation of foreignKeys) {
-      schema += `// ${toPascalCase(relation.foreignTable)}.${toCamelCase(relation.foreignKey)} -> ${toPascalCase(relation.referencedTable)}.${toCamelCase(relation.referencedColumn)}\n`;
-    }
+    ast[ast.length - 1].afterComments = [
+      '// Relation explanations:',
+      ...foreignKeys.map(relation =>
+        `// ${toPascalCase(relation.foreignTable)}.${toCamelCase(relation.foreignKey)} -> ${toPascalCase(relation.referencedTable)}.${toCamelCase(relation.referencedColumn)}`
+      )
+    ];
   }
-  
-  return schema;
+
+  return printSchema(ast);
 }
 
+/**
+ * Declared column types that need no @db.* attribute: the types migrations create and their plain synonyms
+ */
+const DEFAULT_COLUMN_TYPES = new Set(['TEXT', 'INTEGER', 'INT', 'REAL', 'BLOB', 'BOOLEAN', 'BOOL', 'TIMESTAMP', 'DATETIME', 'JSON']);
+
 /**
  * Map SQL type to Prisma type
  */
 function mapSqlTypeToPrismaType(sqlType: string): string {
   const type = sqlType.toLowerCase();
   
-  if (type.includes('int')) {
+  if (type.includes('bigint')) {
+    return 'BigInt';
+  } else if (type.includes('decimal') || type.includes('numeric')) {
+    return 'Decimal';
+  } else if (type.includes('int')) {
     return 'Int';
   } else if (type.includes('char') || type.includes('text') || type.includes('varchar')) {
     return 'String';
   } else if (type.includes('bool')) {
     return 'Boolean';
-  } else if (type.includes('float') || type.includes('double') || type.includes('decimal') || type.includes('numeric')) {
+  } else if (type.includes('float') || type.includes('double') || type.includes('real')) {
     return 'Float';
   } else if (type.includes('date') || type.includes('time') || type.includes('timestamp')) {
     return 'DateTime';
@@ -351,28 +385,16 @@ function mapSqlTypeToPrismaType(sqlType: string): string {
 }
 
 /**
- * Format default value for Prisma schema
+ * The @default argument for a column default, as the parser would give it for the field type
+ * Numbers stay text so BigInt and Decimal defaults keep every digit; the printer writes them unquoted
  */
-function formatDefaultValue(value: any, type: string): string {
-  if (value === null) {
-    return 'null';
-  }
-  
-  if (type === 'String') {
-    return `"${value}"`;
-  } else if (type === 'Boolean') {
-    return value ? 'true' : 'false';
-  } else if (type === 'Int' || type === 'Float') {
-    return value.toString();
-  } else if (type === 'DateTime') {
-    if (value.toLowerCase() === 'now()') {
-      return 'now()';
-    } else {
-      return `"${value}"`;
-    }
-  } else {
-    return `"${value}"`;
+function defaultValueArgs(value: any, type: string): unknown {
+  if (type === 'Boolean') {
+    return value ? true : false;
+  } else if (type === 'DateTime' && String(value).toLowerCase() === 'now()') {
+    return { function: 'now', args: [] };
   }
+  return value.toString();
 }
 
 /**
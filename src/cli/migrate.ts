@@ -95,12 +95,9 @@ export async function migrateDev(options: MigrateOptions = {}): Promise<void> {
   if (!createOnly && !skipMigrate) {
     console.log('Applying migration...');
     
-    // Read the schema file
-    const schemaContent = fs.readFileSync(schemaPath, 'utf-8');
-    
-    // Parse the schema
-    const { parseSchema } = await import('../parser/index.js');
-    const ast = await parseSchema(schemaContent);
+    // Parse the schema file or folder
+    const { parseSchemaFile } = await import('../parser/index.js');
+    const ast = await parseSchemaFile(schemaPath);
     
     // Extract datasource from the AST
     const datasource = ast.find((node: any) => node.type === 'datasource');
@@ -181,12 +178,9 @@ export async function migrateDeploy(options: MigrateOptions = {}): Promise<void>
   
   console.log(`Applying migrations from: ${migrationsDir}`);
   
-  // Read the schema file
-  const schemaContent = fs.readFileSync(schemaPath, 'utf-8');
-  
-  // Parse the schema
-  const { parseSchema } = await import('../parser/index.js');
-  const ast = await parseSchema(schemaContent);
+  // Parse the schema file or folder
+  const { parseSchemaFile } = await import('../parser/index.js');
+  const ast = await parseSchemaFile(schemaPath);
   
   // Extract datasource from the AST
   const datasource = ast.find((node: any) => node.type === 'datasource');
@@ -272,12 +266,9 @@ export async function migrateReset(options: MigrateOptions = {}): Promise<void>
   
   console.log(`Resetting database with migrations from: ${migrationsDir}`);
   
-  // Read the schema file
-  const schemaContent = fs.readFileSync(schemaPath, 'utf-8');
-  
-  // Parse the schema
-  const { parseSchema } = await import('../parser/index.js');
-  const ast = await parseSchema(schemaContent);
+  // Parse the schema file or folder
+  const { parseSchemaFile } = await import('../parser/index.js');
+  const ast = await parseSchemaFile(schemaPath);
   
   // Extract datasource from the AST
   const datasource = ast.find((node: any) => node.type === 'datasource');
@@ -334,12 +325,9 @@ export async function migrateStatus(options: MigrateOptions = {}): Promise<void>
   
   console.log(`Checking migration status from: ${migrationsDir}`);
   
-  // Read the schema file
-  const schemaContent = fs.readFileSync(schemaPath, 'utf-8');
-  
-  // Parse the schema
-  const { parseSchema } = await import('../parser/index.js');
-  const ast = await parseSchema(schemaContent);
+  // Parse the schema file or folder
+  const { parseSchemaFile } = await import('../parser/index.js');
+  const ast = await parseSchemaFile(schemaPath);
   
   // Extract datasource from the AST
   const datasource = ast.find((node: any) => node.type === 'datasource');
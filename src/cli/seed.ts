@@ -4,6 +4,7 @@ import { spawn } from 'child_process';
 import { DatabaseAdapter } from '../adapters';
 import { createAdapterFromDatasource } from '../adapters';
 import { MigrationManager } from '../migrations';
+import { mappedName } from '../generator/mapped-names';
 
 /**
  * Seed options
@@ -58,12 +59,9 @@ export async function runSeed(options: SeedOptions): Promise<void> {
     throw new Error(`Schema file not found: ${schemaPath}`);
   }
   
-  // Read the schema file
-  const schemaContent = fs.readFileSync(schemaPath, 'utf-8');
-  
-  // Parse the schema
-  const parser = require('../parser/generatedParser.js');
-  const ast = parser.parse(schemaContent);
+  // Parse the schema file or folder
+  const { parseSchemaFile } = await import('../parser/index.js');
+  const ast = await parseSchemaFile(schemaPath);
   
   // Extract datasource from the AST
   const datasource = ast.find((node: any) => node.type === 'datasource');
@@ -208,12 +206,9 @@ async function runFactorySeeding(options: FactoryOptions): Promise<void> {
     console.log(`Running factory seeding with ${count} records per model...`);
   }
   
-  // Read the schema file
-  const schemaContent = fs.readFileSync(schemaPath, 'utf-8');
-  
-  // Parse the schema
-  const parser = require('../parser/generatedParser.js');
-  const ast = parser.parse(schemaContent);
+  // Parse the schema file or folder
+  const { parseSchemaFile } = await import('../parser/index.js');
+  const ast = await parseSchemaFile(schemaPath);
   
   // Extract models from the AST
   const models = ast.filter((node: any) => node.type === 'model');
@@ -237,7 +232,7 @@ async function runFactorySeeding(options: FactoryOptions): Promise<void> {
     // Generate and insert data for each model
     for (const model of models) {
       const modelName = model.name;
-      const tableName = toSnakeCase(modelName);
+      const tableName = mappedName(model.attributes) ?? toSnakeCase(modelName);
       
       if (debug) {
         console.log(`Generating ${count} records for model ${modelName}...`);
@@ -276,7 +271,7 @@ function generateTestData(fields: any[]): any {
   const data: any = {};
   
   for (const field of fields) {
-    const fieldName = field.name;
+    const fieldName = mappedName(field.attributes) ?? field.name;
     const fieldType = field.type.name;
     const isOptional = field.type.optional;
     
@@ -296,6 +291,12 @@ function generateTestData(fields: any[]): any {
       case 'Float':
         data[fieldName] = Math.random() * 1000;
         break;
+      case 'BigInt':
+        data[fieldName] = BigInt(Math.floor(Math.random() * 1000));
+        break;
+      case 'Decimal':
+        data[fieldName] = (Math.random() * 1000).toFixed(2);
+        break;
       case 'Boolean':
         data[fieldName] = Math.random() > 0.5;
         break;
@@ -3,6 +3,7 @@ import * as path from 'path';
 import * as http from 'http';
 import { spawn } from 'child_process';
 import { createAdapterFromDatasource } from '../adapters';
+import { mappedName } from '../generator/mapped-names';
 
 /**
  * Studio options
@@ -45,12 +46,10 @@ export async function startStudio(options: StudioOptions): Promise<void> {
     throw new Error(`Schema file not found: ${schemaPath}`);
   }
   
-  // Read the schema file
-  const schemaContent = fs.readFileSync(schemaPath, 'utf-8');
-  
-  // Parse the schema
-  const parser = require('../parser/generatedParser.js');
-  const ast = parser.parse(schemaContent);
+  // Read and parse the schema file or folder
+  const { parseSchemaFile, readSchemaContent } = await import('../parser/index.js');
+  const schemaContent = readSchemaContent(schemaPath);
+  const ast = await parseSchemaFile(schemaPath);
   
   // Extract datasource from the AST
   const datasource = ast.find((node: any) => node.type === 'datasource');
@@ -135,7 +134,8 @@ export async function startStudio(options: StudioOptions): Promise<void> {
       } else if (pathname.startsWith('/api/data/')) {
         // Handle data requests
         const modelName = pathname.replace('/api/data/', '');
-        const tableName = toSnakeCase(modelName);
+        const model = models.find((m: any) => m.name === modelName);
+        const tableName = (model && mappedName(model.attributes)) ?? toSnakeCase(modelName);
         
         if (req.method === 'GET') {
           try {
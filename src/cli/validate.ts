@@ -6,7 +6,7 @@ import * as path from 'path';
  */
 export interface ValidateOptions {
   /**
-   * Path to the schema file
+   * Path to the schema file, or to a folder of schema files
    */
   schemaPath?: string;
 
@@ -60,6 +60,11 @@ export interface ValidationError {
    */
   message: string;
 
+  /**
+   * Schema file, for schemas split over a folder of files
+   */
+  file?: string;
+
   /**
    * Line number
    */
@@ -85,6 +90,11 @@ export interface ValidationWarning {
    */
   message: string;
 
+  /**
+   * Schema file, for schemas split over a folder of files
+   */
+  file?: string;
+
   /**
    * Line number
    */
@@ -110,6 +120,11 @@ export interface ValidationSuggestion {
    */
   message: string;
 
+  /**
+   * Schema file, for schemas split over a folder of files
+   */
+  file?: string;
+
   /**
    * Line number
    */
@@ -126,6 +141,11 @@ export interface ValidationSuggestion {
   fix?: string;
 }
 
+/**
+ * Built-in field types; any other field type must be a model, view, enum or composite type
+ */
+const SCALAR_TYPES = new Set(['String', 'Boolean', 'Int', 'BigInt', 'Float', 'Decimal', 'DateTime', 'Json', 'Bytes', 'Unsupported']);
+
 /**
  * Validate a Prisma schema
  */
@@ -152,14 +172,17 @@ export async function validateSchema(options: ValidateOptions = {}): Promise<Val
     };
   }
 
-  // Read the schema file
-  const schemaContent = fs.readFileSync(schemaPath, 'utf-8');
+  // Parse the schema file or folder
+  const { parseSchemaFile, schemaLocation, SchemaFileError, DuplicateDefinitionError } = await import('../parser/index.js');
 
-  // Parse the schema
-  const parser = await import('../parser/generatedParser.js');
+  // File and position of a declaration, for pointing errors at it
+  const at = (node: any) => {
+    const location = schemaLocation(node);
+    return location ? { file: location.file, line: location.line, column: location.column } : {};
+  };
 
   try {
-    const ast = parser.parse(schemaContent);
+    const ast = await parseSchemaFile(schemaPath);
 
     // Basic validation
     const errors: ValidationError[] = [];
@@ -191,7 +214,8 @@ datasource db {
       if (!provider) {
         errors.push({
           message: 'No provider specified in datasource',
-          code: 'NO_PROVIDER'
+          code: 'NO_PROVIDER',
+          ...at(datasource)
         });
 
         if (suggestions) {
@@ -208,7 +232,8 @@ datasource db {
       } else if (provider !== 'sqlite' && provider !== 'turso' && provider !== 'libsql') {
         warnings.push({
           message: `Provider "${provider}" may not be fully supported. Supported providers are: sqlite, turso, libsql`,
-          code: 'UNSUPPORTED_PROVIDER'
+          code: 'UNSUPPORTED_PROVIDER',
+          ...at(datasource)
         });
       }
 
@@ -217,7 +242,8 @@ datasource db {
       if (!url) {
         errors.push({
           message: 'No URL specified in datasource',
-          code: 'NO_URL'
+          code: 'NO_URL',
+          ...at(datasource)
         });
 
         if (suggestions) {
@@ -259,7 +285,8 @@ generator client {
       if (!provider) {
         errors.push({
           message: 'No provider specified in generator',
-          code: 'NO_GENERATOR_PROVIDER'
+          code: 'NO_GENERATOR_PROVIDER',
+          ...at(generator)
         });
 
         if (suggestions) {
@@ -276,13 +303,17 @@ generator client {
       } else if (provider !== 'drismify-client-js' && provider !== 'prisma-client-js') {
         warnings.push({
           message: `Provider "${provider}" may not be fully supported. Supported providers are: drismify-client-js, prisma-client-js`,
-          code: 'UNSUPPORTED_GENERATOR_PROVIDER'
+          code: 'UNSUPPORTED_GENERATOR_PROVIDER',
+          ...at(generator)
         });
       }
     }
 
     // Check for models
     const models = ast.filter((node: any) => node.type === 'model');
+    const declaredTypes = new Set(
+      ast.filter((node: any) => ['model', 'view', 'enum', 'type'].includes(node.type)).map((node: any) => node.name)
+    );
     if (models.length === 0) {
       warnings.push({
         message: 'No models found in the schema',
@@ -310,7 +341,8 @@ model User {
         if (!model.fields || model.fields.length === 0) {
           errors.push({
             message: `Model "${model.name}" has no fields`,
-            code: 'MODEL_NO_FIELDS'
+            code: 'MODEL_NO_FIELDS',
+            ...at(model)
           });
 
           if (suggestions) {
@@ -334,7 +366,8 @@ model ${model.name} {
           if (!idField) {
             warnings.push({
               message: `Model "${model.name}" has no ID field`,
-              code: 'MODEL_NO_ID'
+              code: 'MODEL_NO_ID',
+              ...at(model)
             });
 
             if (suggestions) {
@@ -344,6 +377,17 @@ model ${model.name} {
               });
             }
           }
+
+          // Check that relation and enum fields name a declared type, in any file of the schema
+          for (const field of model.fields) {
+            if (!SCALAR_TYPES.has(field.type.name) && !declaredTypes.has(field.type.name)) {
+              errors.push({
+                message: `Field "${field.name}" in model "${model.name}" has unknown type "${field.type.name}"`,
+                code: 'UNKNOWN_FIELD_TYPE',
+                ...at(field)
+              });
+            }
+          }
         }
       }
     }
@@ -356,7 +400,8 @@ model ${model.name} {
         if (model.name && !/^[A-Z][a-zA-Z0-9]*$/.test(model.name)) {
           warnings.push({
             message: `Model name "${model.name}" should be PascalCase`,
-            code: 'MODEL_NAME_CONVENTION'
+            code: 'MODEL_NAME_CONVENTION',
+            ...at(model)
           });
 
           if (suggestions) {
@@ -380,7 +425,8 @@ model ${model.name} {
             if (field.name && !/^[a-z][a-zA-Z0-9]*$/.test(field.name)) {
               warnings.push({
                 message: `Field name "${field.name}" in model "${model.name}" should be camelCase`,
-                code: 'FIELD_NAME_CONVENTION'
+                code: 'FIELD_NAME_CONVENTION',
+                ...at(field)
               });
 
               if (suggestions) {
@@ -412,25 +458,26 @@ model ${model.name} {
       suggestions: validationSuggestions
     };
   } catch (error: any) {
-    // Parse error
-    const location = error.location;
+    // Parse error, or a name defined twice across the schema files
+    const location = error instanceof SchemaFileError
+      ? { file: error.file, line: error.line, column: error.column }
+      : { line: error.location?.start.line, column: error.location?.start.column };
+    const duplicate = error instanceof DuplicateDefinitionError;
 
     return {
       valid: false,
       errors: [
         {
-          message: error.message,
-          line: location?.start.line,
-          column: location?.start.column,
-          code: 'PARSE_ERROR'
+          message: error instanceof SchemaFileError ? error.reason : error.message,
+          ...location,
+          code: duplicate ? 'DUPLICATE_DEFINITION' : 'PARSE_ERROR'
         }
       ],
       warnings: [],
       suggestions: suggestions ? [
         {
-          message: 'Fix the syntax error in your schema',
-          line: location?.start.line,
-          column: location?.start.column
+          message: duplicate ? 'Rename or remove one of the definitions' : 'Fix the syntax error in your schema',
+          ...location
         }
       ] : []
     };
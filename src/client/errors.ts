@@ -0,0 +1,94 @@
+/**
+ * Errors thrown by the model and view clients and by the database adapters
+ * Codes follow Prisma's query engine error reference, so callers can map them the same way
+ */
+
+import { stringifyValue } from './scalars';
+
+/**
+ * Details attached to a known request error, as in Prisma's `error.meta`
+ * target lists the columns (or fields) involved in a constraint violation
+ */
+export interface KnownRequestErrorMeta {
+  modelName?: string;
+  target?: string[];
+  cause?: string;
+}
+
+/**
+ * Base class of all errors carrying a Prisma error code
+ * Branch on the subclass (or on `code`) instead of matching messages
+ */
+export class KnownRequestError extends Error {
+  readonly meta: KnownRequestErrorMeta;
+
+  constructor(message: string, readonly code: string, meta: KnownRequestErrorMeta = {}) {
+    super(message);
+    this.name = 'KnownRequestError';
+    this.meta = meta;
+  }
+
+  /**
+   * Model the failing operation ran on, when known
+   */
+  get modelName(): string | undefined {
+    return this.meta.modelName;
+  }
+}
+
+/**
+ * Thrown when an operation requires a record that does not exist (Prisma P2025)
+ * Raised by findUniqueOrThrow, findFirstOrThrow, update and delete
+ */
+export class NotFoundError extends KnownRequestError {
+  constructor(
+    modelName: string,
+    readonly where: unknown,
+    cause = `No ${modelName} found`
+  ) {
+    super(where === undefined ? cause : `${cause} for where ${stringifyValue(where)}`, 'P2025', { modelName, cause });
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Thrown when a write violates a unique constraint (Prisma P2002)
+ */
+export class UniqueConstraintError extends KnownRequestError {
+  constructor(message: string, meta: KnownRequestErrorMeta = {}) {
+    super(message, 'P2002', meta);
+    this.name = 'UniqueConstraintError';
+  }
+}
+
+/**
+ * Thrown when a write violates a foreign key constraint (Prisma P2003)
+ * SQLite does not report which key failed, so target is only set when the database names it
+ */
+export class ForeignKeyConstraintError extends KnownRequestError {
+  constructor(message: string, meta: KnownRequestErrorMeta = {}) {
+    super(message, 'P2003', meta);
+    this.name = 'ForeignKeyConstraintError';
+  }
+}
+
+/**
+ * Thrown when a write stores null in a required column (Prisma P2011)
+ */
+export class NullConstraintError extends KnownRequestError {
+  constructor(message: string, meta: KnownRequestErrorMeta = {}) {
+    super(message, 'P2011', meta);
+    this.name = 'NullConstraintError';
+  }
+}
+
+/**
+ * Thrown when a write conflicts with another transaction or the database is locked (Prisma P2034)
+ * The operation can be retried
+ */
+export class WriteConflictError extends KnownRequestError {
+  constructor(message: string, meta: KnownRequestErrorMeta = {}) {
+    super(message, 'P2034', meta);
+    this.name = 'WriteConflictError';
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Deferred query promise behind the fluent relation API
+ * `client.user.findUnique({ where }).posts()` must only run the posts query,
+ * so the findUnique query is held back while relation accessors can still be called
+ */
+
+/**
+ * A promise for a query result that starts its query on the next microtask
+ *
+ * Calling `hold()` before then keeps the query from starting until the promise
+ * itself is awaited (or `then` is called), so a relation accessor chained onto it
+ * can run a single query with this one as a subquery instead.
+ */
+export class FluentPromise<R> extends Promise<R> {
+  // then() and catch() return plain promises, not deferred ones
+  static get [Symbol.species](): PromiseConstructor {
+    return Promise;
+  }
+
+  private started = false;
+  private held = false;
+  private start: () => void = () => undefined;
+
+  /**
+   * Create a promise for a query
+   */
+  static defer<R>(query: () => Promise<R>): FluentPromise<R> {
+    let resolve!: (value: R) => void;
+    let reject!: (reason: unknown) => void;
+    const promise = new FluentPromise<R>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    promise.start = () => {
+      if (promise.started) return;
+      promise.started = true;
+      query().then(resolve, reject);
+    };
+    queueMicrotask(() => {
+      if (!promise.held) promise.start();
+    });
+
+    return promise;
+  }
+
+  /**
+   * Keep the query from starting on its own
+   */
+  hold(): void {
+    this.held = true;
+  }
+
+  then<TResult1 = R, TResult2 = never>(
+    onfulfilled?: ((value: R) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    this.start();
+    return super.then(onfulfilled, onrejected);
+  }
+}
@@ -6,3 +6,9 @@ export * from './base-client';
 
 // Export model client
 export * from './model-client';
+
+// Export client errors
+export * from './errors';
+
+// Export BigInt and Decimal scalars
+export * from './scalars';
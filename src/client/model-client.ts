@@ -2,6 +2,150 @@ import type { DatabaseAdapter, TransactionClient } from '../adapters';
 import type { ExtensionContext } from '../extensions';
 import type { ModelClient } from './types';
 import type { PslModelAst, PslFieldAst } from '../generator';
+import { mappedName, quoteIdentifier } from '../generator/mapped-names';
+import { buildPatternCondition, comparisonOperands, type QueryMode } from './string-filters';
+import { KnownRequestError, NotFoundError } from './errors';
+import { FluentPromise } from './fluent-promise';
+import { Decimal, decodeScalar, stringifyValue } from './scalars';
+
+/**
+ * Join metadata for a relation field, derived from `@relation(fields, references)`
+ * localFields are columns on this model, foreignFields the matching columns on the related model
+ */
+interface ResolvedRelation {
+  fieldAst: PslFieldAst;
+  relatedClient: BaseModelClient<unknown, unknown, unknown, unknown, unknown, unknown, unknown, unknown>;
+  localFields: string[];
+  foreignFields: string[];
+  isList: boolean;
+}
+
+/**
+ * Arguments accepted for a relation inside select or include
+ */
+interface RelationLoadArgs {
+  where?: Record<string, unknown>;
+  orderBy?: unknown;
+  take?: number;
+  skip?: number;
+  select?: Record<string, unknown>;
+  include?: Record<string, unknown>;
+}
+
+/**
+ * A select/include pair split into SQL columns and relations loaded afterwards
+ * hiddenFields are join columns fetched only to resolve relations, and counts
+ * the to-many relations counted into `_count`
+ */
+interface RecordSelection {
+  columns: string;
+  relations: Record<string, unknown>;
+  hiddenFields: string[];
+  counts?: Record<string, unknown>;
+}
+
+/**
+ * Column alias holding the number of related records in a relation count query
+ */
+const RELATION_COUNT_COLUMN = '__drismify_count';
+
+/**
+ * The query a fluent relation accessor reads its parent record from
+ */
+interface FluentParentQuery {
+  where?: Record<string, unknown>;
+  orderBy?: unknown;
+  skip?: number;
+  distinct?: string[];
+}
+
+/**
+ * findUnique calls on the same single-field unique key with the same select and include,
+ * waiting to be loaded together with one `WHERE field IN (...)` query
+ */
+interface UniqueBatch {
+  field: string;
+  select?: Record<string, unknown>;
+  include?: Record<string, unknown>;
+  requests: Array<{ value: unknown; resolve: (record: unknown) => void; reject: (error: unknown) => void }>;
+}
+
+/**
+ * Filter key holding a condition on the parent record of a fluent relation query
+ * The value adds its parameters to the query values and returns the SQL condition;
+ * symbol keys are skipped when the rest of the filter is compiled
+ */
+const FLUENT_PARENT = Symbol('fluentParent');
+
+/**
+ * One ORDER BY term: a column or correlated subquery with its direction and null placement
+ */
+interface OrderByTerm {
+  expression: string;
+  direction: 'asc' | 'desc';
+  nulls?: 'first' | 'last';
+}
+
+/**
+ * Column alias used to number rows within a partition (per parent relation, per distinct group)
+ */
+const ROW_NUMBER_COLUMN = '__drismify_row_number';
+
+/**
+ * Records read per query by findManyStream when no batchSize is given
+ */
+const STREAM_BATCH_SIZE = 1000;
+
+/**
+ * Most key values bound in one `IN (...)` list when loading relations or findUnique batches,
+ * and most values bound by one multi-row INSERT of createManyAndReturn
+ * Keeps each query under SQLite's bound parameter limit (999 before SQLite 3.32),
+ * with room left for the parameters of a relation filter
+ */
+const IN_LIST_BATCH_SIZE = 500;
+
+/**
+ * Split key tuples into batches of at most IN_LIST_BATCH_SIZE bound values
+ */
+function batchKeys<V>(keys: V[], valuesPerKey: number = 1): V[][] {
+  const size = Math.max(1, Math.floor(IN_LIST_BATCH_SIZE / valuesPerKey));
+  const batches: V[][] = [];
+  for (let start = 0; start < keys.length; start += size) {
+    batches.push(keys.slice(start, start + size));
+  }
+  return batches;
+}
+
+/**
+ * Timestamp written to @updatedAt fields, in UTC as 'YYYY-MM-DD HH:MM:SS.SSS'
+ * SQLite has no date type; this is the text CURRENT_TIMESTAMP writes for @default(now())
+ * with milliseconds added, so both kinds of timestamp columns sort and compare alike
+ */
+function updatedAtNow(): string {
+  return new Date().toISOString().slice(0, 23).replace('T', ' ');
+}
+
+/**
+ * Run a callback at the end of the current event-loop tick, after all pending microtasks,
+ * the way DataLoader schedules its batches; runtimes without setImmediate use setTimeout
+ */
+function afterTick(callback: () => void): void {
+  if (typeof setImmediate === 'function') {
+    setImmediate(callback);
+  } else {
+    setTimeout(callback, 0);
+  }
+}
+
+/**
+ * Operators accepted in place of a value in update data, applied in the UPDATE statement
+ */
+const ATOMIC_UPDATE_OPERATORS = ['set', 'increment', 'decrement', 'multiply', 'divide', 'push'];
+
+/**
+ * Field types the arithmetic update operators apply to
+ */
+const NUMERIC_FIELD_TYPES = ['Int', 'Float', 'BigInt', 'Decimal'];
 
 /**
  * Base model client implementation
@@ -28,6 +172,8 @@ export class BaseModelClient<
 > {
   protected db!: DatabaseAdapter | TransactionClient;
   protected whereValues: unknown[] = [];
+  // Pending findUnique batches, keyed by field and select/include shape
+  private uniqueBatches = new Map<string, UniqueBatch>();
 
   /**
    * Model name for extension context
@@ -46,11 +192,8 @@ export class BaseModelClient<
     this.db = this.initializeDatabaseAdapter(client, dbInstance);
     
     // Set the model name for extension context
-    // Extract model name from the table name (convert snake_case to PascalCase)
-    this.$name = this.tableName
-      .split('_')
-      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
-      .join('');
+    // The table name may come from @@map, so the name is read from the model itself
+    this.$name = this.modelAst.name;
   }
 
   /**
@@ -253,9 +396,10 @@ export class BaseModelClient<
           }
         } else {
           // Scalar field or direct FK value, add to parentCreateData
-          parentCreateData[fieldName] = fieldValue;
+          parentCreateData[fieldName] = this.encodeFieldValue(fieldName, fieldValue);
         }
       }
+      Object.assign(parentCreateData, this.updatedAtStamps(parentCreateData));
       
       const columns = Object.keys(parentCreateData).filter(k => {
           // Exclude any remaining relational operation objects that weren't processed into FKs
@@ -291,12 +435,12 @@ export class BaseModelClient<
 
       if (columnKeys.length > 0) {
         const query = `
-          INSERT INTO ${this.tableName} (${columns})
+          INSERT INTO ${this.tableName} (${columnKeys.map(key => this.column(key)).join(', ')})
           VALUES (${placeholders})
-          RETURNING *
+          RETURNING ${this.buildSelectClause()}
         `;
         const result = await executor.execute<T & {id?: unknown}>(query, finalValuesForSql);
-        createdRecord = result.data[0];
+        createdRecord = this.decodeRecords(result.data)[0];
       } else {
         this.logQuery('info', { message: 'Parent record has no direct scalar data to insert. ID might not be generated unless table has defaults or is special.' });
          if (postCreateOperations.length > 0) { // No ID generated, but post ops exist
@@ -305,10 +449,10 @@ export class BaseModelClient<
            // This assumes the table has an auto-incrementing ID or similar.
            try {
               this.logQuery('info', { message: `Attempting to insert an empty row into ${this.tableName} to get an ID for post-create operations.` });
-              const emptyInsertQuery = `INSERT INTO ${this.tableName} DEFAULT VALUES RETURNING *`; // This is SQL standard, but support varies.
+              const emptyInsertQuery = `INSERT INTO ${this.tableName} DEFAULT VALUES RETURNING ${this.buildSelectClause()}`; // This is SQL standard, but support varies.
               const result = await executor.execute<T & {id?: unknown}>(emptyInsertQuery, []);
               if (result.data && result.data.length > 0 && result.data[0].id !== undefined) {
-                  createdRecord = result.data[0];
+                  createdRecord = this.decodeRecords(result.data)[0];
                   this.logQuery('info', { message: `Successfully inserted empty row and got ID: ${createdRecord.id}` });
               } else {
                   this.logQuery('error', { message: `Failed to get an ID by inserting an empty row into ${this.tableName}. Post-create operations might fail.` });
@@ -426,7 +570,7 @@ export class BaseModelClient<
 
               if (relatedRecordDataToCreate && fkOnRelatedModel) {
                   const dataForRelatedCreate = { ...relatedRecordDataToCreate, [fkOnRelatedModel]: newParentId };
-                  this.logQuery('info', { message: `Post-create: Creating related ${relatedModelName} for ${fieldName} with data ${JSON.stringify(dataForRelatedCreate)}` });
+                  this.logQuery('info', { message: `Post-create: Creating related ${relatedModelName} for ${fieldName} with data ${stringifyValue(dataForRelatedCreate)}` });
                   await relatedModelClient.withTransaction(executor as TransactionClient).create(dataForRelatedCreate as CreateInput);
               } else if (relatedRecordDataToCreate && !fkOnRelatedModel) {
                   this.logQuery('warn', { message: `Post-create: Cannot create related ${relatedModelName} for ${fieldName} as FK on related model could not be determined.` });
@@ -438,10 +582,10 @@ export class BaseModelClient<
     };
 
     if ((this.db as DatabaseAdapter).transaction) {
-      return (this.db as DatabaseAdapter).transaction(txClient => executeCreate(txClient));
+      return this.attributeErrors((this.db as DatabaseAdapter).transaction(txClient => executeCreate(txClient)));
     }
     // Already in a transaction or no transaction support on adapter, execute directly
-    return executeCreate(this.db as TransactionClient);
+    return this.attributeErrors(executeCreate(this.db as TransactionClient));
   }
 
   /**
@@ -454,14 +598,16 @@ export class BaseModelClient<
       return { count: 0 };
     }
 
-    const columns = Object.keys(data[0] as Record<string, unknown>).join(', ');
+    const now = updatedAtNow();
+    data = (data as Record<string, unknown>[]).map(item => ({ ...item, ...this.updatedAtStamps(item, now) })) as CreateInput[];
+    const columns = Object.keys(data[0] as Record<string, unknown>).map(field => this.column(field)).join(', ');
     const queries = [];
 
     for (const item of data) {
       const placeholders = Object.keys(item as Record<string, unknown>)
         .map((_, i) => `$${i + 1}`)
         .join(', ');
-      const values = Object.values(item as Record<string, unknown>);
+      const values = Object.entries(item as Record<string, unknown>).map(([field, value]) => this.encodeFieldValue(field, value));
 
       queries.push({
         query: `
@@ -477,52 +623,262 @@ export class BaseModelClient<
         this.logQuery('error', { message: 'Batch operation not supported by the current DB adapter/transaction client.' });
         throw new Error('Batch operation not supported.');
     }
-    const results = await currentDb.batch(queries);
-    return { count: results.length };
+    const results = await this.attributeErrors(currentDb.batch(queries));
+    return { count: results.reduce((count, result) => count + (result.changes ?? 1), 0) };
+  }
+
+  /**
+   * Create multiple records and return them
+   * Consecutive records with the same columns are inserted by one multi-row INSERT ... RETURNING
+   */
+  async createManyAndReturn(args: {
+    data: CreateInput[];
+    select?: SelectInput;
+    include?: IncludeInput;
+  }): Promise<T[]> {
+    this.logQuery('createManyAndReturn', args);
+
+    const now = updatedAtNow();
+    const rows = (args.data as Record<string, unknown>[]).map(item => ({
+      ...Object.fromEntries(Object.entries(item)
+        .filter(([, value]) => value !== undefined)
+        .map(([field, value]) => [field, this.encodeFieldValue(field, value)])),
+      ...this.updatedAtStamps(item, now)
+    }));
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const selection = this.buildSelection(args.select as Record<string, unknown>, args.include as Record<string, unknown>);
+
+    // SQLite has no DEFAULT keyword in VALUES, so rows are grouped by their column list
+    const groups: Array<{ columns: string[]; rows: Record<string, unknown>[] }> = [];
+    for (const row of rows) {
+      const columns = Object.keys(row);
+      const last = groups[groups.length - 1];
+      if (last && last.columns.join(',') === columns.join(',')) {
+        last.rows.push(row);
+      } else {
+        groups.push({ columns, rows: [row] });
+      }
+    }
+
+    const executeCreate = async (executor: DatabaseAdapter | TransactionClient): Promise<T[]> => {
+      const created: T[] = [];
+
+      // Large groups are split so no INSERT binds more values than SQLite allows
+      for (const group of groups) {
+        for (const rows of batchKeys(group.rows, group.columns.length)) {
+          const values: unknown[] = [];
+          const tuples = rows.map(row => `(${group.columns.map(column => {
+            values.push(row[column]);
+            return `$${values.length}`;
+          }).join(', ')})`);
+          const query = group.columns.length > 0
+            ? `INSERT INTO ${this.tableName} (${group.columns.map(field => this.column(field)).join(', ')}) VALUES ${tuples.join(', ')} RETURNING ${selection.columns}`
+            : `INSERT INTO ${this.tableName} DEFAULT VALUES RETURNING ${selection.columns}`;
+
+          // A row without any columns can only be inserted one at a time
+          const repeat = group.columns.length > 0 ? 1 : rows.length;
+          for (let i = 0; i < repeat; i++) {
+            const result = await executor.execute<T>(query, values);
+            created.push(...this.decodeRecords(result.data));
+          }
+        }
+      }
+
+      return created;
+    };
+
+    const created = await this.attributeErrors((this.db as DatabaseAdapter).transaction
+      ? (this.db as DatabaseAdapter).transaction(txClient => executeCreate(txClient))
+      : executeCreate(this.db as TransactionClient));
+
+    await this.applySelection(created as Record<string, unknown>[], selection);
+    return created;
   }
 
   /**
    * Find a record by its unique identifier
+   * Relations can be chained onto the result, e.g. `findUnique({ where }).posts()`
    */
-  async findUnique(args: {
+  findUnique(args: {
+    where: WhereUniqueInput;
+    select?: SelectInput;
+    include?: IncludeInput
+  }): Promise<T | null> {
+    return this.withFluentRelations(() => this.queryUnique(args), { where: args.where as Record<string, unknown> });
+  }
+
+  /**
+   * Run the findUnique query
+   */
+  protected async queryUnique(args: {
     where: WhereUniqueInput;
     select?: SelectInput;
     include?: IncludeInput
   }): Promise<T | null> {
     this.logQuery('findUnique', args);
 
-    const { where, select } = args;
+    const { where, select, include } = args;
+
+    const batchField = this.batchableUniqueField(where as Record<string, unknown>);
+    if (batchField) {
+      return this.loadBatched(batchField, (where as Record<string, unknown>)[batchField], args) as Promise<T | null>;
+    }
     
     // Reset the whereValues before building the where clause
     this.whereValues = [];
     
     const whereClause = this.buildWhereClause(where as Record<string, unknown>);
     const values = [...this.whereValues];
-    const selectClause = this.buildSelectClause(select);
+    const selection = this.buildSelection(select as Record<string, unknown>, include as Record<string, unknown>);
 
     const query = `
-      SELECT ${selectClause} FROM ${this.tableName}
+      SELECT ${selection.columns} FROM ${this.tableName}
       WHERE ${whereClause}
       LIMIT 1
     `;
 
     const result = await this.db.execute<T>(query, values);
+    this.decodeRecords(result.data);
+    await this.applySelection(result.data as Record<string, unknown>[], selection);
     return result.data.length > 0 ? result.data[0] : null;
   }
 
+  /**
+   * The field a findUnique where can be batched on: a single @id or @unique field
+   * compared with a plain string or number; null when the where is anything else
+   */
+  protected batchableUniqueField(where: Record<string, unknown>): string | null {
+    const keys = Object.keys(where);
+    if (keys.length !== 1 || Object.getOwnPropertySymbols(where).length > 0) {
+      return null;
+    }
+
+    const [field] = keys;
+    const value = where[field];
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return null;
+    }
+    return this.uniqueConstraints().some(c => c.fields.length === 1 && c.fields[0] === field) ? field : null;
+  }
+
+  /**
+   * Queue a findUnique on a unique field, to be loaded with the other calls made in the same tick
+   * Calls are grouped by field and select/include shape; each group runs once the microtask
+   * queue has drained, so calls a few awaits apart still share it
+   */
+  protected loadBatched(
+    field: string,
+    value: unknown,
+    args: { select?: SelectInput; include?: IncludeInput }
+  ): Promise<unknown> {
+    const key = stringifyValue([field, args.select ?? null, args.include ?? null]);
+
+    let batch = this.uniqueBatches.get(key);
+    if (!batch) {
+      const newBatch: UniqueBatch = {
+        field,
+        select: args.select as Record<string, unknown>,
+        include: args.include as Record<string, unknown>,
+        requests: [],
+      };
+      this.uniqueBatches.set(key, newBatch);
+      afterTick(() => {
+        this.uniqueBatches.delete(key);
+        this.runUniqueBatch(newBatch);
+      });
+      batch = newBatch;
+    }
+
+    const requests = batch.requests;
+    return new Promise((resolve, reject) => {
+      requests.push({ value, resolve, reject });
+    });
+  }
+
+  /**
+   * Load every record of a findUnique batch with one query per IN_LIST_BATCH_SIZE keys
+   * and hand each caller its record
+   */
+  private async runUniqueBatch(batch: UniqueBatch): Promise<void> {
+    try {
+      const selection = this.buildSelection(batch.select, batch.include, [batch.field]);
+      const records: Record<string, unknown>[] = [];
+      for (const values of batchKeys([...new Set(batch.requests.map(request => request.value))])) {
+        const query = `
+          SELECT ${selection.columns} FROM ${this.tableName}
+          WHERE ${this.column(batch.field)} IN (${values.map((_, i) => `$${i + 1}`).join(', ')})
+        `;
+        const result = await this.db.execute<Record<string, unknown>>(query, values);
+        records.push(...this.decodeRecords(result.data));
+      }
+
+      // Index by the key before applySelection strips it when it was not selected
+      const recordsByKey = new Map(records.map(record => [String(record[batch.field]), record]));
+      await this.applySelection(records, selection);
+
+      for (const request of batch.requests) {
+        const record = recordsByKey.get(String(request.value));
+        request.resolve(record ? { ...record } : null);
+      }
+    } catch (error) {
+      for (const request of batch.requests) {
+        request.reject(error);
+      }
+    }
+  }
+
+  /**
+   * Find a record by its unique identifier, throwing a NotFoundError if there is none
+   */
+  async findUniqueOrThrow(args: {
+    where: WhereUniqueInput;
+    select?: SelectInput;
+    include?: IncludeInput
+  }): Promise<T> {
+    const record = await this.findUnique(args);
+    if (record === null) {
+      throw new NotFoundError(this.modelAst.name, args.where);
+    }
+    return record;
+  }
+
   /**
    * Find the first record that matches the filter
+   * Relations can be chained onto the result, e.g. `findFirst({ where }).author()`
    */
-  async findFirst(args: {
+  findFirst(args: {
     where?: WhereInput;
     orderBy?: OrderByInput | OrderByInput[];
     select?: SelectInput;
     include?: IncludeInput;
     skip?: number;
+    distinct?: Array<keyof T & string>;
   } = {}): Promise<T | null> {
+    return this.withFluentRelations(() => this.queryFirst(args), {
+      where: args.where as Record<string, unknown>,
+      orderBy: args.orderBy,
+      skip: args.skip,
+      distinct: args.distinct,
+    });
+  }
+
+  /**
+   * Run the findFirst query
+   */
+  protected async queryFirst(args: {
+    where?: WhereInput;
+    orderBy?: OrderByInput | OrderByInput[];
+    select?: SelectInput;
+    include?: IncludeInput;
+    skip?: number;
+    distinct?: Array<keyof T & string>;
+  }): Promise<T | null> {
     this.logQuery('findFirst', args);
 
-    const { where, orderBy, skip, select } = args;
+    const { where, orderBy, skip, select, include, distinct } = args;
     
     // Reset the whereValues before building the where clause
     this.whereValues = [];
@@ -530,21 +886,45 @@ export class BaseModelClient<
     const whereClause = where ? `WHERE ${this.buildWhereClause(where as Record<string, unknown>)}` : '';
     const orderByClause = orderBy ? this.buildOrderByClause(orderBy) : '';
     const skipClause = skip ? `OFFSET ${skip}` : '';
-    const selectClause = this.buildSelectClause(select);
+    const selection = this.buildSelection(select as Record<string, unknown>, include as Record<string, unknown>);
     const values = [...this.whereValues];
 
+    const fromClause = distinct && distinct.length > 0
+      ? this.buildDistinctSource(distinct, whereClause, orderByClause)
+      : `${this.tableName}
+      ${whereClause}`;
+
     const query = `
-      SELECT ${selectClause} FROM ${this.tableName}
-      ${whereClause}
+      SELECT ${selection.columns} FROM ${fromClause}
       ${orderByClause}
       LIMIT 1
       ${skipClause}
     `;
 
     const result = await this.db.execute<T>(query, values);
+    this.stripRowNumbers(this.decodeRecords(result.data) as Record<string, unknown>[]);
+    await this.applySelection(result.data as Record<string, unknown>[], selection);
     return result.data.length > 0 ? result.data[0] : null;
   }
 
+  /**
+   * Find the first record that matches the filter, throwing a NotFoundError if there is none
+   */
+  async findFirstOrThrow(args: {
+    where?: WhereInput;
+    orderBy?: OrderByInput | OrderByInput[];
+    select?: SelectInput;
+    include?: IncludeInput;
+    skip?: number;
+    distinct?: Array<keyof T & string>;
+  } = {}): Promise<T> {
+    const record = await this.findFirst(args);
+    if (record === null) {
+      throw new NotFoundError(this.modelAst.name, args.where);
+    }
+    return record;
+  }
+
   /**
    * Find many records that match the filter
    */
@@ -555,32 +935,121 @@ export class BaseModelClient<
     include?: IncludeInput;
     skip?: number;
     take?: number;
+    cursor?: WhereUniqueInput;
+    distinct?: Array<keyof T & string>;
   } = {}): Promise<T[]> {
     this.logQuery('findMany', args);
 
-    const { where, orderBy, skip, take, select } = args;
+    const { where, orderBy, skip, take, select, include, cursor, distinct } = args;
     
     // Reset the whereValues before building the where clause
     this.whereValues = [];
     
-    const whereClause = where ? `WHERE ${this.buildWhereClause(where as Record<string, unknown>)}` : '';
-    const orderByClause = orderBy ? this.buildOrderByClause(orderBy) : '';
-    const skipClause = skip ? `OFFSET ${skip}` : '';
-    const takeClause = take ? `LIMIT ${take}` : '';
-    const selectClause = this.buildSelectClause(select);
+    const conditions = where ? [this.buildWhereClause(where as Record<string, unknown>)] : [];
     const values = [...this.whereValues];
 
+    // A negative take reads the page before the cursor: walk the ordering backwards, then flip the rows
+    const backwards = take !== undefined && take < 0;
+    let orderByClause = orderBy ? this.buildOrderByClause(orderBy) : '';
+    if (cursor || backwards) {
+      const orderings = this.keysetOrderings(orderBy, backwards);
+      if (cursor) {
+        conditions.push(this.buildCursorCondition(cursor as Record<string, unknown>, orderings, values));
+      }
+      orderByClause = this.buildKeysetOrderByClause(orderings);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const skipClause = skip ? `OFFSET ${skip}` : '';
+    // SQLite only accepts OFFSET after a LIMIT, so an unbounded LIMIT -1 is used for skip without take
+    const takeClause = take ? `LIMIT ${Math.abs(take)}` : (skip ? 'LIMIT -1' : '');
+    const selection = this.buildSelection(select as Record<string, unknown>, include as Record<string, unknown>);
+
+    // Distinct groups keep their first row in the caller's ordering, even when paging backwards
+    const fromClause = distinct && distinct.length > 0
+      ? this.buildDistinctSource(distinct, whereClause, this.buildOrderByClause(orderBy))
+      : `${this.tableName}
+      ${whereClause}`;
+
     const query = `
-      SELECT ${selectClause} FROM ${this.tableName}
-      ${whereClause}
+      SELECT ${selection.columns} FROM ${fromClause}
       ${orderByClause}
       ${takeClause}
       ${skipClause}
     `;
 
     const result = await this.db.execute<T>(query, values);
-    return result.data;
+    this.stripRowNumbers(this.decodeRecords(result.data) as Record<string, unknown>[]);
+    const records = backwards ? [...result.data].reverse() : result.data;
+    await this.applySelection(records as Record<string, unknown>[], selection);
+    return records;
+  }
+
+  /**
+   * Iterate over all records that match the filter with bounded memory
+   * Records are read batchSize at a time with keyset pagination on orderBy plus the
+   * primary key, so each batch is an indexed range scan instead of a growing OFFSET
+   */
+  async *findManyStream(args: {
+    where?: WhereInput;
+    orderBy?: OrderByInput | OrderByInput[];
+    select?: SelectInput;
+    include?: IncludeInput;
+    batchSize?: number;
+  } = {}): AsyncGenerator<T, void, undefined> {
+    this.logQuery('findManyStream', args);
+
+    const { where, orderBy, select, include, batchSize = STREAM_BATCH_SIZE } = args;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(`findManyStream batchSize must be a positive integer; got ${batchSize}`);
+    }
+
+    const orderings = this.keysetOrderings(orderBy);
+    const orderByClause = this.buildKeysetOrderByClause(orderings);
+    const selection = this.buildSelection(
+      select as Record<string, unknown>,
+      include as Record<string, unknown>,
+      orderings.map(([field]) => field)
+    );
+
+    let lastRow: Record<string, unknown> | null = null;
+    while (true) {
+      this.whereValues = [];
+      const conditions = where ? [this.buildWhereClause(where as Record<string, unknown>)] : [];
+      const values = [...this.whereValues];
+      if (lastRow) {
+        conditions.push(this.buildKeysetAfterCondition(lastRow, orderings, values));
+      }
+      const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const query = `
+        SELECT ${selection.columns} FROM ${this.tableName}
+        ${whereClause}
+        ${orderByClause}
+        LIMIT ${batchSize}
+      `;
+
+      const result = await this.db.execute<T>(query, values);
+      const records = this.decodeRecords(result.data) as Record<string, unknown>[];
+      if (records.length === 0) {
+        return;
+      }
+
+      // Keep the ordering values before hidden columns are stripped
+      const last = records[records.length - 1];
+      lastRow = Object.fromEntries(orderings.map(([field]) => [field, last[field]]));
+
+      await this.applySelection(records, selection);
+      for (const record of records) {
+        yield record as T;
+      }
+
+      if (records.length < batchSize) {
+        return;
+      }
+    }
   }
+
   /**
    * Update a record by its unique identifier
    */
@@ -705,7 +1174,7 @@ export class BaseModelClient<
               const itemsToCreate = Array.isArray(fieldValueCreate) ? fieldValueCreate : [fieldValueCreate];
               for (const itemToCreate of itemsToCreate) {
                 const createData = { ...itemToCreate, [fkOnRelatedModel as string]: parentId };
-                this.logQuery('info', { message: `Processing to-many create for ${fieldName}: creating ${relatedModelName} with data ${JSON.stringify(createData)}` });
+                this.logQuery('info', { message: `Processing to-many create for ${fieldName}: creating ${relatedModelName} with data ${stringifyValue(createData)}` });
                 await relatedModelClient.withTransaction(executor as TransactionClient).create(createData as CreateInput);
               }
               delete updateDataPayload[fieldName];
@@ -761,7 +1230,7 @@ export class BaseModelClient<
               for (const op of opsToUpdateMany) {
                 if (op.where && op.data && fkOnRelatedModel) {
                   const finalNestedWhere = { ...(op.where as Record<string, unknown>), [fkOnRelatedModel]: parentId };
-                  this.logQuery('info', { message: `Processing to-many updateMany for ${fieldName}: updating ${relatedModelName} with where ${JSON.stringify(finalNestedWhere)} and data ${JSON.stringify(op.data)}` });
+                  this.logQuery('info', { message: `Processing to-many updateMany for ${fieldName}: updating ${relatedModelName} with where ${stringifyValue(finalNestedWhere)} and data ${stringifyValue(op.data)}` });
                   await relatedModelClient.withTransaction(executor as TransactionClient).updateMany({
                     where: finalNestedWhere as WhereInput,
                     data: op.data,
@@ -780,7 +1249,7 @@ export class BaseModelClient<
               for (const condition of conditions) {
                 if (typeof condition === 'object' && condition !== null && fkOnRelatedModel) {
                   const finalNestedWhere = { ...(condition as Record<string, unknown>), [fkOnRelatedModel]: parentId };
-                  this.logQuery('info', { message: `Processing to-many deleteMany for ${fieldName}: deleting ${relatedModelName} with where ${JSON.stringify(finalNestedWhere)}` });
+                  this.logQuery('info', { message: `Processing to-many deleteMany for ${fieldName}: deleting ${relatedModelName} with where ${stringifyValue(finalNestedWhere)}` });
                   await relatedModelClient.withTransaction(executor as TransactionClient).deleteMany({
                     where: finalNestedWhere as WhereInput,
                   });
@@ -794,8 +1263,10 @@ export class BaseModelClient<
       
       const finalUpdateData = Object.fromEntries(
         Object.entries(updateDataPayload)
-          .filter(([_, v]) => typeof v !== 'object' || v === null)
+          .filter(([k, v]) => typeof v !== 'object' || v === null || this.isScalarUpdateValue(k, v))
       );
+      // Every update stamps @updatedAt, also one that only writes related records
+      Object.assign(finalUpdateData, this.updatedAtStamps(finalUpdateData));
 
       if (Object.keys(finalUpdateData).length === 0) {
         this.logQuery('info', { message: 'Update operation resulted in no direct scalar fields to update. Fetching current record.' });
@@ -809,59 +1280,31 @@ export class BaseModelClient<
         // Let's ensure setClause is not empty.
         if (Object.keys(finalUpdateData).length === 0) {
              // Re-fetch and return if no data to update. This matches Prisma behavior somewhat.
-            const existingRecord = await executor.execute<T>(`SELECT * FROM ${this.tableName} WHERE ${this.buildWhereClause(where as Record<string, unknown>)} LIMIT 1`, [...this.whereValues]);
-            if(existingRecord.data.length === 0) throw new Error(`Record not found for update: ${JSON.stringify(where)}`);
-            return existingRecord.data[0];
+            const existingRecord = await executor.execute<T>(`SELECT ${this.buildSelectClause()} FROM ${this.tableName} WHERE ${this.buildWhereClause(where as Record<string, unknown>)} LIMIT 1`, [...this.whereValues]);
+            if(existingRecord.data.length === 0) throw new NotFoundError(this.modelAst.name, where, 'Record to update not found');
+            return this.decodeRecords(existingRecord.data)[0];
         }
       }
 
-      const whereClause = this.buildWhereClause(where as Record<string, unknown>);
-      const whereValuesParams = [...this.whereValues]; // Capture whereValues after buildWhereClause
-
-      let paramIndex = 1;
-      const setParts: string[] = [];
-      const setValues: unknown[] = [];
-
-      for (const [key, value] of Object.entries(finalUpdateData)) {
-        setParts.push(`${key} = $${paramIndex++}`);
-        setValues.push(value);
-      }
-      const setClause = setParts.join(', ');
-      
-      const allValues = [...setValues, ...whereValuesParams];
+      // SET values come first, so the where placeholders continue their numbering
+      const allValues: unknown[] = [];
+      const setClause = this.buildSetAssignments(finalUpdateData, allValues).join(', ');
+      const whereClause = this.buildFilterCondition(where as Record<string, unknown>, allValues) || '1=1';
 
-      // SQLite doesn't support RETURNING clause, so we need to handle it differently
-      // First, get the record that will be updated
-      const selectQuery = `
-        SELECT * FROM ${this.tableName}
-        WHERE ${whereClause}
-        LIMIT 1
-      `;
-      
-      const recordToUpdate = await executor.execute<T>(selectQuery, whereValuesParams);
-      
-      if (recordToUpdate.data.length === 0) {
-        throw new Error(`Record not found for update: ${JSON.stringify(where)}`);
-      }
-      
-      // Then perform the update
       const updateQuery = `
         UPDATE ${this.tableName}
         SET ${setClause}
         WHERE ${whereClause}
+        RETURNING ${this.buildSelectClause()}
       `;
 
-      // Execute the update query
-      await executor.execute(updateQuery, allValues);
-      
-      // For the result, we'll return the original record with the updated fields
-      const originalRecord = recordToUpdate.data[0];
-      const updatedRecord = { ...originalRecord };
-      
-      // Apply the updates to our record
-      Object.entries(data as Record<string, unknown>).forEach(([key, value]) => {
-        (updatedRecord as Record<string, unknown>)[key] = value;
-      });
+      const result = await executor.execute<T>(updateQuery, allValues);
+
+      if (result.data.length === 0) {
+        throw new NotFoundError(this.modelAst.name, where, 'Record to update not found');
+      }
+
+      const updatedRecord = this.decodeRecords(result.data)[0];
       
       // Apply field selection if provided
       if (args.select && Object.keys(args.select).length > 0) {
@@ -882,13 +1325,86 @@ export class BaseModelClient<
     };
 
     if ((this.db as DatabaseAdapter).transaction) {
-      return (this.db as DatabaseAdapter).transaction(txClient => executeUpdate(txClient));
+      return this.attributeErrors((this.db as DatabaseAdapter).transaction(txClient => executeUpdate(txClient)));
     }
     // This else clause can be omitted because previous branches break early.
-    return executeUpdate(this.db as TransactionClient);
+    return this.attributeErrors(executeUpdate(this.db as TransactionClient));
     // The 'return result.data[0]' was unreachable and 'result' was not defined in this scope.
   }
 
+  /**
+   * Create a record, or update it if the unique `where` already matches one
+   * Compiles to a single INSERT ... ON CONFLICT DO UPDATE when `where` names a unique
+   * constraint; other upserts read and then write inside a transaction
+   */
+  async upsert(args: {
+    where: WhereUniqueInput;
+    create: CreateInput;
+    update: UpdateInput;
+    select?: SelectInput;
+    include?: IncludeInput;
+  }): Promise<T> {
+    this.logQuery('upsert', args);
+
+    const where = this.expandUniqueWhere(args.where as Record<string, unknown>);
+    const now = updatedAtNow();
+    const create = { ...(args.create as Record<string, unknown>), ...this.updatedAtStamps(args.create as Record<string, unknown>, now) };
+    const update = { ...(args.update as Record<string, unknown>), ...this.updatedAtStamps(args.update as Record<string, unknown>, now) };
+    const conflictFields = this.nativeUpsertTarget(where, create, update);
+
+    if (conflictFields) {
+      const selection = this.buildSelection(args.select as Record<string, unknown>, args.include as Record<string, unknown>);
+      const values: unknown[] = [];
+      const insertColumns = Object.keys(create).filter(column => create[column] !== undefined);
+      const updateColumns = Object.keys(update).filter(column => update[column] !== undefined);
+      const insertPlaceholders = insertColumns.map(column => {
+        values.push(this.encodeFieldValue(column, create[column]));
+        return `$${values.length}`;
+      });
+      // DO UPDATE needs at least one assignment for RETURNING to yield the existing row
+      const setParts = updateColumns.length > 0
+        ? this.buildSetAssignments(update, values)
+        : [`${this.column(conflictFields[0])} = ${this.tableName}.${this.column(conflictFields[0])}`];
+
+      const query = `
+        INSERT INTO ${this.tableName} (${insertColumns.map(field => this.column(field)).join(', ')})
+        VALUES (${insertPlaceholders.join(', ')})
+        ON CONFLICT (${conflictFields.map(field => this.column(field)).join(', ')}) DO UPDATE SET ${setParts.join(', ')}
+        RETURNING ${selection.columns}
+      `;
+
+      // A unique violation on another column still fails, and is attributed like other writes
+      const result = await this.attributeErrors(this.db.execute<T>(query, values));
+      await this.applySelection(this.decodeRecords(result.data) as Record<string, unknown>[], selection);
+      return result.data[0];
+    }
+
+    const executeUpsert = async (executor: DatabaseAdapter | TransactionClient): Promise<T> => {
+      const client = this.withTransaction(executor as TransactionClient);
+      const existing = await client.findFirst({ where: where as WhereInput });
+      const written = existing
+        ? await client.update({ where: where as WhereUniqueInput, data: args.update })
+        : await client.create(args.create);
+
+      if (!args.select && !args.include) {
+        return written;
+      }
+
+      // Re-read through the primary key so select and include are applied as in findUnique
+      const primaryKeyFields = this.primaryKeyFields();
+      const key = primaryKeyFields.length > 0
+        ? Object.fromEntries(primaryKeyFields.map(field => [field, (written as Record<string, unknown>)[field]]))
+        : where;
+      return (await client.findUnique({ where: key as WhereUniqueInput, select: args.select, include: args.include })) as T;
+    };
+
+    if ((this.db as DatabaseAdapter).transaction) {
+      return this.attributeErrors((this.db as DatabaseAdapter).transaction(txClient => executeUpsert(txClient)));
+    }
+    // Already in a transaction
+    return this.attributeErrors(executeUpsert(this.db as TransactionClient));
+  }
+
   /**
    * Update multiple records that match the filter
    */
@@ -898,35 +1414,56 @@ export class BaseModelClient<
   }): Promise<{ count: number }> {
     this.logQuery('updateMany', args);
 
-    const { where, data } = args;
-    let whereClause = '';
-    let whereValues: unknown[] = [];
+    const { where } = args;
+    const data = { ...(args.data as Record<string, unknown>), ...this.updatedAtStamps(args.data as Record<string, unknown>) };
 
-    // Reset the whereValues before building the where clause
-    this.whereValues = [];
-    
-    if (where) {
-      whereClause = `WHERE ${this.buildWhereClause(where as Record<string, unknown>)}`;
-      whereValues = [...this.whereValues];
-    }
+    // SET values come first, so the where placeholders continue their numbering
+    const values: unknown[] = [];
+    const setClause = this.buildSetAssignments(data, values).join(', ');
+    const whereCondition = where ? this.buildFilterCondition(where as Record<string, unknown>, values) : '';
+    const whereClause = whereCondition ? `WHERE ${whereCondition}` : '';
 
-    const setClause = Object.keys(data as Record<string, unknown>)
-      .map((key, i) => `${key} = $${i + 1}`)
-      .join(', ');
+    const query = `
+      UPDATE ${this.tableName}
+      SET ${setClause}
+      ${whereClause}
+    `;
+    // TODO: Wrap updateMany in transaction similar to create if nested writes are needed for updateMany
+    const result = await this.attributeErrors((this.db as DatabaseAdapter).execute(query, values));
+    return { count: result.changes ?? result.data.length };
+  }
+
+  /**
+   * Update multiple records that match the filter and return them
+   */
+  async updateManyAndReturn(args: {
+    where?: WhereInput;
+    data: UpdateInput;
+    select?: SelectInput;
+    include?: IncludeInput;
+  }): Promise<T[]> {
+    this.logQuery('updateManyAndReturn', args);
+
+    const { where } = args;
+    const data = { ...(args.data as Record<string, unknown>), ...this.updatedAtStamps(args.data as Record<string, unknown>) };
+    const selection = this.buildSelection(args.select as Record<string, unknown>, args.include as Record<string, unknown>);
 
-    const values = [
-      ...Object.values(data as Record<string, unknown>),
-      ...whereValues
-    ];
+    // SET values come first, so the where placeholders continue their numbering
+    const values: unknown[] = [];
+    const setClause = this.buildSetAssignments(data, values).join(', ');
+    const whereCondition = where ? this.buildFilterCondition(where as Record<string, unknown>, values) : '';
+    const whereClause = whereCondition ? `WHERE ${whereCondition}` : '';
 
     const query = `
       UPDATE ${this.tableName}
       SET ${setClause}
       ${whereClause}
+      RETURNING ${selection.columns}
     `;
-    // TODO: Wrap updateMany in transaction similar to create if nested writes are needed for updateMany
-    const result = await (this.db as DatabaseAdapter).execute(query, values);
-    return { count: result.data.length };
+
+    const result = await this.attributeErrors(this.db.execute<T>(query, values));
+    await this.applySelection(this.decodeRecords(result.data) as Record<string, unknown>[], selection);
+    return result.data;
   }
 
   /**
@@ -949,7 +1486,7 @@ export class BaseModelClient<
 
     // First, get the record that will be deleted
     const selectQuery = `
-      SELECT * FROM ${this.tableName}
+      SELECT ${this.buildSelectClause()} FROM ${this.tableName}
       WHERE ${whereClause}
       LIMIT 1
     `;
@@ -957,11 +1494,11 @@ export class BaseModelClient<
     const recordToDelete = await (this.db as DatabaseAdapter).execute<T>(selectQuery, values);
     
     if (recordToDelete.data.length === 0) {
-      throw new Error(`Record not found for delete: ${JSON.stringify(where)}`);
+      throw new NotFoundError(this.modelAst.name, where, 'Record to delete does not exist');
     }
     
     // Store the record before deletion
-    const deletedRecord = recordToDelete.data[0];
+    const deletedRecord = this.decodeRecords(recordToDelete.data)[0];
     
     // Then perform the delete operation
     const deleteQuery = `
@@ -969,7 +1506,7 @@ export class BaseModelClient<
       WHERE ${whereClause}
     `;
     
-    await (this.db as DatabaseAdapter).execute(deleteQuery, values);
+    await this.attributeErrors((this.db as DatabaseAdapter).execute(deleteQuery, values));
     
     // Apply field selection if provided
     if (args.select && Object.keys(args.select).length > 0) {
@@ -1012,8 +1549,8 @@ export class BaseModelClient<
       ${whereClause}
     `;
     // TODO: Wrap deleteMany in transaction similar to create
-    const result = await (this.db as DatabaseAdapter).execute(query, values);
-    return { count: result.data.length };
+    const result = await this.attributeErrors((this.db as DatabaseAdapter).execute(query, values));
+    return { count: result.changes ?? result.data.length };
   }
 
   /**
@@ -1044,33 +1581,736 @@ export class BaseModelClient<
   }
 
   /**
-   * Build a WHERE clause from a filter object
-   * Supports advanced filtering operations like:
-   * - contains, startsWith, endsWith
-   * - gt, gte, lt, lte
-   * - in, notIn
-   * - not
+   * Load the relations requested through include or a relation select onto the given records
+   * Each relation is fetched with a single batched IN query for all records,
+   * and nested selections are resolved the same way one level at a time
+   */
+  protected async includeRelations(records: Record<string, unknown>[], include: Record<string, unknown>): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    for (const [fieldName, includeArgs] of Object.entries(include)) {
+      if (!includeArgs) continue;
+
+      const relation = this.resolveRelation(fieldName);
+      if (!relation) {
+        this.logQuery('warn', { message: `Cannot include ${fieldName}: it is not a resolvable relation on ${this.modelAst.name}.` });
+        continue;
+      }
+
+      const { relatedClient, localFields, foreignFields, isList } = relation;
+      const relationArgs = (typeof includeArgs === 'object' ? includeArgs : {}) as RelationLoadArgs;
+
+      // Collect the distinct join keys of the parent records, skipping null foreign keys
+      const keyOf = (record: Record<string, unknown>, fields: string[]) => stringifyValue(fields.map(f => record[f]));
+      const parentKeys = new Map<string, unknown[]>();
+      for (const record of records) {
+        const keyValues = localFields.map(f => record[f]);
+        if (keyValues.some(v => v === null || v === undefined)) continue;
+        parentKeys.set(keyOf(record, localFields), keyValues);
+      }
+
+      const relatedByKey = new Map<string, Record<string, unknown>[]>();
+      if (parentKeys.size > 0) {
+        const { records: relatedRecords, hiddenFields } = await relatedClient
+          .withTransaction(this.db as TransactionClient)
+          .findRelated(foreignFields, [...parentKeys.values()], relationArgs);
+
+        for (const relatedRecord of relatedRecords) {
+          const key = keyOf(relatedRecord, foreignFields);
+          const group = relatedByKey.get(key);
+          if (group) {
+            group.push(relatedRecord);
+          } else {
+            relatedByKey.set(key, [relatedRecord]);
+          }
+        }
+
+        // Join columns that were not selected are only needed for grouping
+        for (const relatedRecord of relatedRecords) {
+          for (const hiddenField of hiddenFields) {
+            delete relatedRecord[hiddenField];
+          }
+        }
+      }
+
+      for (const record of records) {
+        const related = relatedByKey.get(keyOf(record, localFields)) ?? [];
+        record[fieldName] = isList ? related : (related[0] ?? null);
+      }
+    }
+  }
+
+  /**
+   * Set `_count` on each record to the number of related records of each counted relation
+   * Every relation is counted with one grouped query over all the parent keys
+   */
+  protected async countRelations(records: Record<string, unknown>[], counts: Record<string, unknown>): Promise<void> {
+    for (const record of records) {
+      record._count = {};
+    }
+    if (records.length === 0) {
+      return;
+    }
+
+    for (const [fieldName, countArgs] of Object.entries(counts)) {
+      const relation = this.resolveRelation(fieldName);
+      if (!relation) continue;
+
+      const { relatedClient, localFields, foreignFields } = relation;
+      const keyOf = (record: Record<string, unknown>, fields: string[]) => stringifyValue(fields.map(f => record[f]));
+      const parentKeys = new Map<string, unknown[]>();
+      for (const record of records) {
+        const keyValues = localFields.map(f => record[f]);
+        if (keyValues.some(v => v === null || v === undefined)) continue;
+        parentKeys.set(keyOf(record, localFields), keyValues);
+      }
+
+      const countByKey = new Map<string, number>();
+      if (parentKeys.size > 0) {
+        const where = typeof countArgs === 'object' ? (countArgs as { where?: Record<string, unknown> }).where : undefined;
+        const rows = await relatedClient
+          .withTransaction(this.db as TransactionClient)
+          .countRelated(foreignFields, [...parentKeys.values()], where);
+        for (const row of rows) {
+          countByKey.set(keyOf(row, foreignFields), Number(row[RELATION_COUNT_COLUMN]));
+        }
+      }
+
+      for (const record of records) {
+        (record._count as Record<string, number>)[fieldName] = countByKey.get(keyOf(record, localFields)) ?? 0;
+      }
+    }
+  }
+
+  /**
+   * Count the records of this model for each of a batch of parent keys
+   * @returns One row per key that has records, holding the key fields and the count
+   */
+  protected async countRelated(
+    keyFields: string[],
+    keyTuples: unknown[][],
+    where?: Record<string, unknown>
+  ): Promise<Record<string, unknown>[]> {
+    const rows: Record<string, unknown>[] = [];
+    for (const batch of batchKeys(keyTuples, keyFields.length)) {
+      const keyWhere = this.buildKeyWhere(keyFields, batch);
+
+      this.whereValues = [];
+      const whereClause = this.buildWhereClause(where ? { AND: [keyWhere, where] } : keyWhere);
+      const values = [...this.whereValues];
+
+      const query = `
+        SELECT ${this.buildSelectClause(Object.fromEntries(keyFields.map(f => [f, true])) as SelectInput)}, COUNT(*) AS ${RELATION_COUNT_COLUMN} FROM ${this.tableName}
+        WHERE ${whereClause}
+        GROUP BY ${keyFields.map(f => this.column(f)).join(', ')}
+      `;
+      const result = await this.db.execute<Record<string, unknown>>(query, values);
+      rows.push(...this.decodeRecords(result.data));
+    }
+    return rows;
+  }
+
+  /**
+   * Build the filter matching records whose key fields equal one of a batch of key tuples
+   */
+  protected buildKeyWhere(keyFields: string[], keyTuples: unknown[][]): Record<string, unknown> {
+    return keyFields.length === 1
+      ? { [keyFields[0]]: { in: keyTuples.map(tuple => tuple[0]) } }
+      : { OR: keyTuples.map(tuple => Object.fromEntries(keyFields.map((f, i) => [f, tuple[i]]))) };
+  }
+
+  /**
+   * Fetch the records of this model that belong to a batch of parent keys
+   * Relation-level take/skip are applied per parent with a ROW_NUMBER() window,
+   * so only the requested slice of each child collection is read
+   * @returns The records, and the key fields the caller must strip after grouping
+   */
+  protected async findRelated(
+    keyFields: string[],
+    keyTuples: unknown[][],
+    args: RelationLoadArgs
+  ): Promise<{ records: Record<string, unknown>[]; hiddenFields: string[] }> {
+    const selection = this.buildSelection(args.select, args.include, keyFields);
+    const records: Record<string, unknown>[] = [];
+
+    // Each parent's records come from a single batch, so per-parent order and take/skip hold
+    for (const batch of batchKeys(keyTuples, keyFields.length)) {
+      const keyWhere = this.buildKeyWhere(keyFields, batch);
+      const where = args.where ? { AND: [keyWhere, args.where] } : keyWhere;
+
+      this.whereValues = [];
+      const whereClause = this.buildWhereClause(where);
+      const values = [...this.whereValues];
+      const orderByClause = args.orderBy ? this.buildOrderByClause(args.orderBy as OrderByInput) : '';
+
+      let query: string;
+      if (args.take !== undefined || args.skip !== undefined) {
+        const windowOrder = orderByClause || `ORDER BY ${(this.primaryKeyFields().length > 0 ? this.primaryKeyFields().map(f => this.column(f)) : ['rowid']).join(', ')}`;
+        const lowerBound = Number(args.skip ?? 0);
+        const upperBound = args.take !== undefined ? ` AND ${ROW_NUMBER_COLUMN} <= ${lowerBound + Number(args.take)}` : '';
+
+        query = `
+          SELECT * FROM (
+            SELECT ${selection.columns}, ROW_NUMBER() OVER (PARTITION BY ${keyFields.map(f => this.column(f)).join(', ')} ${windowOrder}) AS ${ROW_NUMBER_COLUMN}
+            FROM ${this.tableName}
+            WHERE ${whereClause}
+          )
+          WHERE ${ROW_NUMBER_COLUMN} > ${lowerBound}${upperBound}
+          ORDER BY ${ROW_NUMBER_COLUMN}
+        `;
+      } else {
+        query = `
+          SELECT ${selection.columns} FROM ${this.tableName}
+          WHERE ${whereClause}
+          ${orderByClause}
+        `;
+      }
+
+      const result = await this.db.execute<Record<string, unknown>>(query, values);
+      records.push(...this.decodeRecords(result.data));
+    }
+    this.stripRowNumbers(records);
+
+    // Keep the key fields until the parent has grouped the records
+    await this.applySelection(records, {
+      ...selection,
+      hiddenFields: selection.hiddenFields.filter(f => !keyFields.includes(f)),
+    });
+
+    return { records, hiddenFields: selection.hiddenFields.filter(f => keyFields.includes(f)) };
+  }
+
+  /**
+   * Wrap a findUnique or findFirst query in a FluentPromise with one accessor per relation
+   * An accessor queries the related records directly, selecting the parent through a
+   * subquery built from the parent's arguments, so the parent query itself never runs
+   */
+  protected withFluentRelations(query: () => Promise<T | null>, parent: FluentParentQuery): Promise<T | null> {
+    const promise = FluentPromise.defer(query);
+
+    for (const fieldAst of this.modelAst.fields) {
+      if (!this.isRelationField(fieldAst.name)) continue;
+
+      Object.defineProperty(promise, fieldAst.name, {
+        value: (args: RelationLoadArgs = {}) => {
+          const relation = this.resolveRelation(fieldAst.name);
+          if (!relation) {
+            throw new Error(`Cannot resolve the relation '${fieldAst.name}' on ${this.modelAst.name}`);
+          }
+          promise.hold();
+
+          const { relatedClient, localFields, foreignFields } = relation;
+          const foreignColumns = foreignFields.map(f => relatedClient.column(f));
+          const keyColumns = foreignColumns.length === 1 ? foreignColumns[0] : `(${foreignColumns.join(', ')})`;
+          const where = {
+            ...(args.where ?? {}),
+            [FLUENT_PARENT]: (values: unknown[]) => `${keyColumns} IN (${this.buildParentSubquery(parent, localFields, values)})`,
+          };
+
+          return relation.isList
+            ? relatedClient.findMany({ ...args, where })
+            : relatedClient.findFirst({ where, select: args.select, include: args.include });
+        },
+      });
+    }
+
+    return promise;
+  }
+
+  /**
+   * Build the subquery selecting the given fields of the record a fluent query starts from
+   */
+  protected buildParentSubquery(parent: FluentParentQuery, columns: string[], values: unknown[]): string {
+    const condition = parent.where ? this.buildFilterCondition(parent.where, values) : '';
+    const whereClause = condition ? `WHERE ${condition}` : '';
+    const orderByClause = parent.orderBy ? this.buildOrderByClause(parent.orderBy as OrderByInput) : '';
+    const fromClause = parent.distinct && parent.distinct.length > 0
+      ? this.buildDistinctSource(parent.distinct, whereClause, orderByClause)
+      : `${this.tableName} ${whereClause}`;
+
+    return `SELECT ${columns.map(f => this.column(f)).join(', ')} FROM ${fromClause} ${orderByClause} LIMIT 1${parent.skip ? ` OFFSET ${parent.skip}` : ''}`;
+  }
+
+  /**
+   * Build a FROM source holding only the first row of each distinct group
+   * Rows are ranked with the query's own ordering (or the primary key), so the
+   * row kept for each group is deterministic and matches the orderBy
+   */
+  protected buildDistinctSource(distinct: string[], whereClause: string, orderByClause: string): string {
+    for (const field of distinct) {
+      if (!this.modelAst.fields.some(f => f.name === field) || this.isRelationField(field)) {
+        throw new Error(`Cannot use '${field}' in distinct: it is not a scalar field of ${this.modelAst.name}.`);
+      }
+    }
+
+    const primaryKeyFields = this.primaryKeyFields();
+    const windowOrder = orderByClause || (primaryKeyFields.length > 0 ? `ORDER BY ${primaryKeyFields.map(f => this.column(f)).join(', ')}` : '');
+
+    return `(
+        SELECT *, ROW_NUMBER() OVER (PARTITION BY ${distinct.map(f => this.column(f)).join(', ')} ${windowOrder}) AS ${ROW_NUMBER_COLUMN}
+        FROM ${this.tableName}
+        ${whereClause}
+      ) AS ${this.tableName}
+      WHERE ${ROW_NUMBER_COLUMN} = 1`;
+  }
+
+  /**
+   * Whether a field of this model is a scalar Decimal field
+   */
+  protected isDecimalField(fieldName: string): boolean {
+    const fieldAst = this.modelAst.fields.find(f => f.name === fieldName);
+    return fieldAst?.type.name === 'Decimal' && !fieldAst.type.isArray;
+  }
+
+  /**
+   * A value as it is bound for a field: Decimal fields take a Decimal, so the stored text
+   * is always canonical and equality filters match it exactly
+   */
+  protected encodeFieldValue(fieldName: string, value: unknown): unknown {
+    if (this.isDecimalField(fieldName) && (typeof value === 'string' || typeof value === 'number' || typeof value === 'bigint')) {
+      return new Decimal(value);
+    }
+    return value;
+  }
+
+  /**
+   * Convert the BigInt and Decimal fields of fetched records to bigint and Decimal values
+   * Records are changed in place
+   */
+  protected decodeRecords<R>(records: R[]): R[] {
+    const scalarFields = this.modelAst.fields.filter(f => !f.type.isArray && (f.type.name === 'BigInt' || f.type.name === 'Decimal'));
+    if (scalarFields.length === 0) {
+      return records;
+    }
+    for (const record of records as Record<string, unknown>[]) {
+      for (const field of scalarFields) {
+        if (field.name in record) {
+          record[field.name] = decodeScalar(field.type.name, record[field.name]);
+        }
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Remove the window row number helper column from fetched records
+   */
+  protected stripRowNumbers(records: Record<string, unknown>[]): void {
+    for (const record of records) {
+      delete record[ROW_NUMBER_COLUMN];
+    }
+  }
+
+  /**
+   * Split select and include into the SQL column list and the relations to load
+   * Join columns needed by selected relations (and any requiredFields) are fetched
+   * even when not selected, and reported as hidden so they can be stripped later
+   */
+  protected buildSelection(
+    select?: Record<string, unknown>,
+    include?: Record<string, unknown>,
+    requiredFields: string[] = []
+  ): RecordSelection {
+    const scalarSelect: Record<string, boolean> = {};
+    const relations: Record<string, unknown> = {};
+    const { _count: includeCount, ...includeRelations } = include ?? {};
+    const counts = this.relationCountSelection(select?._count ?? includeCount);
+
+    for (const [field, value] of Object.entries(select ?? {})) {
+      if (!value || field === '_count') continue;
+      if (this.isRelationField(field)) {
+        relations[field] = value;
+      } else {
+        scalarSelect[field] = true;
+      }
+    }
+
+    if (Object.keys(scalarSelect).length === 0 && Object.keys(relations).length === 0 && !select?._count) {
+      return { columns: this.buildSelectClause(), relations: includeRelations, hiddenFields: [], counts };
+    }
+
+    const neededFields = [...requiredFields];
+    for (const relationName of [...Object.keys(relations), ...Object.keys(counts ?? {})]) {
+      neededFields.push(...(this.resolveRelation(relationName)?.localFields ?? []));
+    }
+    const hiddenFields = [...new Set(neededFields)].filter(f => !scalarSelect[f]);
+    for (const hiddenField of hiddenFields) {
+      scalarSelect[hiddenField] = true;
+    }
+
+    return {
+      columns: this.buildSelectClause(scalarSelect as SelectInput),
+      relations,
+      hiddenFields,
+      counts,
+    };
+  }
+
+  /**
+   * Normalize a `_count` selection to the counted relations and their arguments
+   * `true` counts every to-many relation; `{ select: { comments: true } }` picks relations,
+   * each optionally with `{ where }` to count only matching records
+   */
+  protected relationCountSelection(count: unknown): Record<string, unknown> | undefined {
+    if (!count) {
+      return undefined;
+    }
+
+    if (count === true) {
+      return Object.fromEntries(this.modelAst.fields
+        .filter(f => f.type.isArray && this.isRelationField(f.name))
+        .map(f => [f.name, true]));
+    }
+
+    const selected = (count as { select?: Record<string, unknown> }).select ?? {};
+    const counts: Record<string, unknown> = {};
+    for (const [fieldName, args] of Object.entries(selected)) {
+      if (!args) continue;
+      const relation = this.resolveRelation(fieldName);
+      if (!relation || !relation.isList) {
+        throw new Error(`Cannot count '${fieldName}': it is not a to-many relation of ${this.modelAst.name}`);
+      }
+      counts[fieldName] = args;
+    }
+    return counts;
+  }
+
+  /**
+   * Load the selected relations onto the records, then strip hidden join columns
+   */
+  protected async applySelection(records: Record<string, unknown>[], selection: RecordSelection): Promise<void> {
+    if (Object.keys(selection.relations).length > 0) {
+      await this.includeRelations(records, selection.relations);
+    }
+    if (selection.counts) {
+      await this.countRelations(records, selection.counts);
+    }
+
+    if (selection.hiddenFields.length > 0) {
+      for (const record of records) {
+        for (const hiddenField of selection.hiddenFields) {
+          delete record[hiddenField];
+        }
+      }
+    }
+  }
+
+  /**
+   * Names of the fields that make up this model's primary key (@id or @@id)
+   */
+  protected primaryKeyFields(): string[] {
+    const idFields = this.modelAst.fields
+      .filter(f => f.attributes.some(attr => attr.name === 'id'))
+      .map(f => f.name);
+    if (idFields.length > 0) return idFields;
+
+    // @@id([a, b]) is not post-processed by the parser, so its args may be the raw "[a, b]" string
+    const compoundIdArgs = this.modelAst.attributes.find(attr => attr.name === 'id')?.args;
+    if (typeof compoundIdArgs === 'string') {
+      return compoundIdArgs.replace(/[[\]]/g, '').split(',').map(f => f.trim()).filter(f => f.length > 0);
+    }
+    return compoundIdArgs?.fields ?? [];
+  }
+
+  /**
+   * Whether an update value for a scalar field is an atomic operator ({ increment: 1 })
+   * or a list value, both of which are written by buildSetAssignments
+   */
+  protected isScalarUpdateValue(fieldName: string, value: unknown): boolean {
+    const fieldAst = this.modelAst.fields.find(f => f.name === fieldName);
+    if (!fieldAst || this.isRelationField(fieldName) || value === null || typeof value !== 'object') {
+      return false;
+    }
+    if (Array.isArray(value)) {
+      return fieldAst.type.isArray || fieldAst.type.name === 'Json';
+    }
+
+    const keys = Object.keys(value);
+    return keys.length === 1 && ATOMIC_UPDATE_OPERATORS.includes(keys[0]);
+  }
+
+  /**
+   * Build the SET assignments of an UPDATE, binding values onto the shared array
+   * Atomic operators compile to expressions on the current column value, so concurrent
+   * updates never lose writes: increment → col = col + ?, push → json_insert(col, '$[#]', ...)
+   */
+  protected buildSetAssignments(data: Record<string, unknown>, values: unknown[]): string[] {
+    const bind = (value: unknown) => {
+      values.push(Array.isArray(value) ? JSON.stringify(value) : value);
+      return `$${values.length}`;
+    };
+
+    return Object.entries(data)
+      .filter(([, value]) => value !== undefined)
+      .map(([field, value]) => {
+        const column = this.column(field);
+        if (!this.isScalarUpdateValue(field, value) || Array.isArray(value)) {
+          return `${column} = ${bind(this.encodeFieldValue(field, value))}`;
+        }
+
+        const fieldAst = this.modelAst.fields.find(f => f.name === field)!;
+        const [operator, operand] = Object.entries(value as Record<string, unknown>)[0];
+
+        if (operator === 'set') {
+          return `${column} = ${bind(this.encodeFieldValue(field, operand))}`;
+        }
+
+        if (operator === 'push') {
+          if (!fieldAst.type.isArray && fieldAst.type.name !== 'Json') {
+            throw new Error(`Cannot push to '${field}': it is not a list or Json field of ${this.modelAst.name}.`);
+          }
+          const items = Array.isArray(operand) ? operand : [operand];
+          const appended = items.reduce<string>(
+            (list, item) => `json_insert(${list}, '$[#]', json(${bind(JSON.stringify(item))}))`,
+            `COALESCE(${column}, '[]')`
+          );
+          return `${column} = ${appended}`;
+        }
+
+        if (!NUMERIC_FIELD_TYPES.includes(fieldAst.type.name) || fieldAst.type.isArray) {
+          throw new Error(`Cannot ${operator} '${field}': it is not a numeric field of ${this.modelAst.name}.`);
+        }
+        if (fieldAst.type.name === 'Decimal') {
+          // SQLite arithmetic on the stored text would round through a float
+          throw new Error(`Cannot ${operator} '${field}': arithmetic on Decimal fields is not exact in SQLite; set the computed Decimal instead.`);
+        }
+
+        switch (operator) {
+          case 'increment':
+            return `${column} = ${column} + ${bind(operand)}`;
+          case 'decrement':
+            return `${column} = ${column} - ${bind(operand)}`;
+          case 'multiply':
+            return `${column} = ${column} * ${bind(operand)}`;
+          default:
+            // SQLite divides two integers as integers; Float columns may hold integer values
+            return fieldAst.type.name === 'Float'
+              ? `${column} = ${column} / CAST(${bind(operand)} AS REAL)`
+              : `${column} = ${column} / ${bind(operand)}`;
+        }
+      });
+  }
+
+  /**
+   * Unique constraints of this model: @id, @unique, @@id and @@unique
+   * name is the key used for the constraint in a WhereUniqueInput (a_b for compound keys)
+   */
+  protected uniqueConstraints(): Array<{ name: string; fields: string[] }> {
+    const constraints: Array<{ name: string; fields: string[] }> = [];
+
+    for (const field of this.modelAst.fields) {
+      if (field.attributes.some(attr => attr.name === 'id' || attr.name === 'unique')) {
+        constraints.push({ name: field.name, fields: [field.name] });
+      }
+    }
+
+    for (const attr of this.modelAst.attributes) {
+      if (attr.name !== 'id' && attr.name !== 'unique') continue;
+
+      const fields: string[] = typeof attr.args === 'string'
+        ? attr.args.replace(/[[\]]/g, '').split(',').map(f => f.trim()).filter(f => f.length > 0)
+        : attr.args?.fields ?? [];
+      if (fields.length > 0) {
+        const name = typeof attr.args === 'object' && attr.args?.name ? attr.args.name : fields.join('_');
+        constraints.push({ name, fields });
+      }
+    }
+
+    return constraints;
+  }
+
+  /**
+   * Flatten compound unique keys ({ a_b: { a, b } }) into plain field filters
+   */
+  protected expandUniqueWhere(where: Record<string, unknown>): Record<string, unknown> {
+    const expanded: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(where)) {
+      const compound = this.uniqueConstraints().find(c => c.fields.length > 1 && c.name === key);
+      if (compound && value !== null && typeof value === 'object') {
+        Object.assign(expanded, value);
+      } else {
+        expanded[key] = value;
+      }
+    }
+
+    return expanded;
+  }
+
+  /**
+   * Conflict columns for a native upsert, or null when it has to read then write
+   * The where must be exactly one unique constraint with plain values, the create data
+   * must insert those same values, and both payloads may only hold scalar fields
+   */
+  protected nativeUpsertTarget(
+    where: Record<string, unknown>,
+    create: Record<string, unknown>,
+    update: Record<string, unknown>
+  ): string[] | null {
+    const whereFields = Object.keys(where).filter(key => where[key] !== undefined);
+    const constraint = this.uniqueConstraints().find(c =>
+      c.fields.length === whereFields.length && c.fields.every(f => whereFields.includes(f))
+    );
+    if (!constraint) {
+      return null;
+    }
+
+    const isPlainValue = (value: unknown) =>
+      value === null || typeof value !== 'object' || value instanceof Date || value instanceof Decimal;
+    if (!constraint.fields.every(f => where[f] !== null && isPlainValue(where[f]) && create[f] === where[f])) {
+      return null;
+    }
+
+    const isScalarPayload = (payload: Record<string, unknown>) =>
+      Object.entries(payload).every(([field, value]) => {
+        const fieldAst = this.modelAst.fields.find(f => f.name === field);
+        if (!fieldAst || this.isRelationField(field)) return false;
+        return isPlainValue(value) || fieldAst.type.name === 'Json';
+      });
+    const isScalarUpdate = Object.entries(update).every(([field, value]) =>
+      this.isScalarUpdateValue(field, value) || isScalarPayload({ [field]: value })
+    );
+
+    return isScalarPayload(create) && isScalarUpdate ? constraint.fields : null;
+  }
+
+  /**
+   * Values for the @updatedAt fields a write payload leaves unset
+   * Fields the caller sets explicitly, even to null, are kept as given
+   */
+  protected updatedAtStamps(data: Record<string, unknown>, now: string = updatedAtNow()): Record<string, string> {
+    return Object.fromEntries(this.modelAst.fields
+      .filter(f => f.attributes.some(attr => attr.name === 'updatedAt') && data[f.name] === undefined)
+      .map(f => [f.name, now]));
+  }
+
+  /**
+   * Whether a field on this model points at another model with a client
+   */
+  protected isRelationField(fieldName: string): boolean {
+    const fieldAst = this.modelAst.fields.find(f => f.name === fieldName);
+    return !!fieldAst && this.getRelatedModelClient(fieldAst.type.name) !== null;
+  }
+
+  /**
+   * Look up the model client registered on the main client for a model name
+   */
+  protected getRelatedModelClient(
+    modelName: string
+  ): BaseModelClient<unknown, unknown, unknown, unknown, unknown, unknown, unknown, unknown> | null {
+    const relatedModelClientKey = modelName.charAt(0).toLowerCase() + modelName.slice(1);
+    const relatedClient = this.client[relatedModelClientKey];
+    return relatedClient instanceof BaseModelClient ? relatedClient : null;
+  }
+
+  /**
+   * Resolve a relation field to its related model client and join columns
+   * Uses the @relation(fields, references) of this field, or of the back-relation
+   * field on the related model when the foreign key lives on the other side
+   */
+  protected resolveRelation(fieldName: string): ResolvedRelation | null {
+    const fieldAst = this.modelAst.fields.find(f => f.name === fieldName);
+    if (!fieldAst) return null;
+
+    const relatedModelName = fieldAst.type.name;
+    const relatedClient = this.getRelatedModelClient(relatedModelName);
+    if (!relatedClient) return null;
+
+    const relationArgs = (field: PslFieldAst): Record<string, any> => {
+      const args = field.attributes.find(attr => attr.name === 'relation')?.args;
+      // @relation("Name") is parsed as a bare string holding the relation name
+      return typeof args === 'string' ? { name: args } : (args ?? {});
+    };
+
+    const ownArgs = relationArgs(fieldAst);
+    if (ownArgs.fields?.length > 0) {
+      return {
+        fieldAst,
+        relatedClient,
+        localFields: ownArgs.fields,
+        foreignFields: ownArgs.references ?? ['id'],
+        isList: fieldAst.type.isArray,
+      };
+    }
+
+    for (const relatedFieldAst of relatedClient.modelAst.fields) {
+      if (relatedFieldAst.type.name !== this.modelAst.name) continue;
+      if (relatedModelName === this.modelAst.name && relatedFieldAst.name === fieldAst.name) continue; // Self-relation: skip this same field
+
+      const backArgs = relationArgs(relatedFieldAst);
+      if (ownArgs.name && backArgs.name && ownArgs.name !== backArgs.name) continue;
+
+      if (backArgs.fields?.length > 0) {
+        return {
+          fieldAst,
+          relatedClient,
+          localFields: backArgs.references ?? ['id'],
+          foreignFields: backArgs.fields,
+          isList: fieldAst.type.isArray,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Build a WHERE clause from a filter object
+   * Supports advanced filtering operations like:
+   * - contains, startsWith, endsWith
+   * - gt, gte, lt, lte
+   * - in, notIn
+   * - not
    * - AND, OR
+   * - some, every, none (to-many relations) and is, isNot (to-one relations)
    */
   protected buildWhereClause(filter: Record<string, unknown>): string {
-    // const conditions: string[] = []; // Not used directly here
-    // const values: unknown[] = []; // Not used directly here
+    const values: unknown[] = [];
+    const condition = this.buildFilterCondition(filter, values);
+
+    // Store the processed values in the class scope for query execution
+    this.whereValues = values;
+
+    return condition || '1=1'; // Ensure a valid condition string is always returned
+  }
 
+  /**
+   * Build the condition for a filter object, appending its parameters to values
+   * tableRef is how this model's table is referenced in the surrounding SQL, and
+   * depth the relation subquery nesting level, used to keep subquery aliases unique
+   */
+  protected buildFilterCondition(
+    filter: Record<string, unknown>,
+    values: unknown[],
+    tableRef: string = this.tableName,
+    depth = 0
+  ): string {
     // Helper function to handle nested conditions recursively
-    const processFilter = (currentFilter: Record<string, unknown>, parentKey = ''): { condition: string; values: unknown[] } => {
+    // Values are collected into one shared array so placeholders stay numbered
+    // in order of appearance, even inside nested AND/OR/NOT groups
+    const processFilter = (currentFilter: Record<string, unknown>, parentKey = '', localValues: unknown[] = values): { condition: string; values: unknown[] } => {
       const conditions: string[] = [];
-      const localValues: unknown[] = []; // Renamed to avoid conflict with this.whereValues
 
       for (const [key, value] of Object.entries(currentFilter)) {
         // Skip undefined values
         if (value === undefined) continue;
 
+        // Handle relation filters (some/every/none, is/isNot) as EXISTS subqueries
+        if (!parentKey && (value === null || (typeof value === 'object' && !Array.isArray(value)))) {
+          const relation = this.resolveRelation(key);
+          if (relation) {
+            conditions.push(this.buildRelationFilter(relation, value as Record<string, unknown> | null, localValues, tableRef, depth));
+            continue;
+          }
+        }
+
         // Handle logical operators (AND, OR)
         if (key === 'AND' || key === 'OR') {
           if (Array.isArray(value) && value.length > 0) {
             const nestedConditions = value.map(condition => {
-              const result = processFilter(condition as Record<string, unknown>);
-              localValues.push(...result.values);
+              const result = processFilter(condition as Record<string, unknown>, '', localValues);
               return `(${result.condition})`;
             });
             conditions.push(`(${nestedConditions.join(` ${key} `)})`);
@@ -1080,67 +2320,65 @@ export class BaseModelClient<
 
         // Handle NOT operator
         if (key === 'NOT') {
-          const result = processFilter(value as Record<string, unknown>);
-          localValues.push(...result.values);
+          const result = processFilter(value as Record<string, unknown>, '', localValues);
           conditions.push(`NOT (${result.condition})`);
           continue;
         }
 
         // Handle regular field conditions or nested operators
-        const fieldName = parentKey ? `${parentKey}.${key}` : key;
+        const fieldName = parentKey ? `${parentKey}.${key}` : this.column(key);
         
-        if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+        if (value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Decimal)) {
+          // String operators compare case-insensitively when mode is 'insensitive'
+          const mode = (value as Record<string, unknown>).mode as QueryMode | undefined;
+          const bind = (bindValue: unknown) => {
+            localValues.push(this.encodeFieldValue(key, bindValue));
+            return `$${localValues.length}`;
+          };
+          // Decimal text is compared by its numeric value in range filters
+          const rangeColumn = this.isDecimalField(key) ? `CAST(${fieldName} AS REAL)` : fieldName;
+
           // Handle nested operators for a field
           for (const [op, opValue] of Object.entries(value as Record<string, unknown>)) {
             // Skip undefined values
-            if (opValue === undefined) continue;
+            if (opValue === undefined || op === 'mode') continue;
 
             switch (op) {
-              case 'equals':
-                localValues.push(opValue);
-                conditions.push(`${fieldName} = $${localValues.length}`);
+              case 'equals': {
+                const [column, operand] = comparisonOperands(fieldName, opValue, mode);
+                conditions.push(`${column} = ${bind(operand)}`);
                 break;
+              }
               case 'not':
                 if (opValue === null) {
                   conditions.push(`${fieldName} IS NOT NULL`);
                 } else {
-                  localValues.push(opValue);
-                  conditions.push(`${fieldName} <> $${localValues.length}`);
+                  const [column, operand] = comparisonOperands(fieldName, opValue, mode);
+                  conditions.push(`${column} <> ${bind(operand)}`);
                 }
                 break;
               case 'contains':
-                localValues.push(`%${opValue}%`);
-                conditions.push(`${fieldName} LIKE $${localValues.length}`);
-                break;
               case 'startsWith':
-                localValues.push(`${opValue}%`);
-                conditions.push(`${fieldName} LIKE $${localValues.length}`);
-                break;
               case 'endsWith':
-                localValues.push(`%${opValue}`);
-                conditions.push(`${fieldName} LIKE $${localValues.length}`);
+                conditions.push(buildPatternCondition(fieldName, op, opValue, mode, bind));
                 break;
               case 'gt':
-                localValues.push(opValue);
-                conditions.push(`${fieldName} > $${localValues.length}`);
+                conditions.push(`${rangeColumn} > ${bind(opValue)}`);
                 break;
               case 'gte':
-                localValues.push(opValue);
-                conditions.push(`${fieldName} >= $${localValues.length}`);
+                conditions.push(`${rangeColumn} >= ${bind(opValue)}`);
                 break;
               case 'lt':
-                localValues.push(opValue);
-                conditions.push(`${fieldName} < $${localValues.length}`);
+                conditions.push(`${rangeColumn} < ${bind(opValue)}`);
                 break;
               case 'lte':
-                localValues.push(opValue);
-                conditions.push(`${fieldName} <= $${localValues.length}`);
+                conditions.push(`${rangeColumn} <= ${bind(opValue)}`);
                 break;
               case 'in':
                 if (Array.isArray(opValue) && opValue.length > 0) {
-                  const placeholders = opValue.map((_, i) => `$${localValues.length + i + 1}`).join(', ');
-                  localValues.push(...opValue);
-                  conditions.push(`${fieldName} IN (${placeholders})`);
+                  const operands = opValue.map(item => comparisonOperands(fieldName, item, mode));
+                  const placeholders = operands.map(([, operand]) => bind(operand)).join(', ');
+                  conditions.push(`${operands[0][0]} IN (${placeholders})`);
                 } else if (Array.isArray(opValue) && opValue.length === 0) {
                   // Empty IN clause should match nothing
                   conditions.push('1 = 0');
@@ -1148,9 +2386,9 @@ export class BaseModelClient<
                 break;
               case 'notIn':
                 if (Array.isArray(opValue) && opValue.length > 0) {
-                  const placeholders = opValue.map((_, i) => `$${localValues.length + i + 1}`).join(', ');
-                  localValues.push(...opValue);
-                  conditions.push(`${fieldName} NOT IN (${placeholders})`);
+                  const operands = opValue.map(item => comparisonOperands(fieldName, item, mode));
+                  const placeholders = operands.map(([, operand]) => bind(operand)).join(', ');
+                  conditions.push(`${operands[0][0]} NOT IN (${placeholders})`);
                 } else if (Array.isArray(opValue) && opValue.length === 0) {
                   // Empty NOT IN clause should match everything
                   conditions.push('1 = 1');
@@ -1159,9 +2397,8 @@ export class BaseModelClient<
               default:
                 // Handle nested objects
                 if (opValue !== null && typeof opValue === 'object') {
-                  const nestedResult = processFilter({ [op]: opValue as Record<string, unknown> }, fieldName);
+                  const nestedResult = processFilter({ [op]: opValue as Record<string, unknown> }, fieldName, localValues);
                   conditions.push(nestedResult.condition);
-                  localValues.push(...nestedResult.values);
                 }
             }
           }
@@ -1170,7 +2407,7 @@ export class BaseModelClient<
           conditions.push(`${fieldName} IS NULL`);
         } else {
           // Handle simple equality
-          localValues.push(value);
+          localValues.push(this.encodeFieldValue(key, value));
           conditions.push(`${fieldName} = $${localValues.length}`);
         }
       }
@@ -1181,59 +2418,343 @@ export class BaseModelClient<
       };
     };
 
-    const result = processFilter(filter);
-    
-    // Store the processed values in the class scope for query execution
-    this.whereValues = result.values;
-    
-    return result.condition || '1=1'; // Ensure a valid condition string is always returned
+    // A fluent parent condition comes first, so its placeholders are numbered first
+    const parentCondition = (filter as { [FLUENT_PARENT]?: (values: unknown[]) => string })[FLUENT_PARENT];
+    const conditions = parentCondition ? [parentCondition(values)] : [];
+    const condition = processFilter(filter).condition;
+    if (condition) {
+      conditions.push(condition);
+    }
+    return conditions.join(' AND ');
+  }
+
+  /**
+   * Build an EXISTS / NOT EXISTS condition for a filter on a relation field
+   * To-many relations accept some, every and none; to-one relations accept is and isNot,
+   * or a plain where object (or null) as shorthand for is
+   */
+  protected buildRelationFilter(
+    relation: ResolvedRelation,
+    filter: Record<string, unknown> | null,
+    values: unknown[],
+    tableRef: string,
+    depth: number
+  ): string {
+    const { relatedClient, localFields, foreignFields, isList } = relation;
+    const alias = `rel_${depth + 1}`;
+    const joinCondition = foreignFields
+      .map((f, i) => `${alias}.${relatedClient.column(f)} = ${tableRef}.${this.column(localFields[i])}`)
+      .join(' AND ');
+
+    const exists = (where: unknown, negateWhere = false): string => {
+      let condition = '';
+      if (where && typeof where === 'object') {
+        condition = relatedClient.buildFilterCondition(where as Record<string, unknown>, values, alias, depth + 1);
+      }
+      if (condition && negateWhere) {
+        condition = `NOT COALESCE((${condition}), 0)`;
+      }
+      return `EXISTS (SELECT 1 FROM ${relatedClient.tableName} AS ${alias} WHERE ${joinCondition}${condition ? ` AND ${condition}` : ''})`;
+    };
+
+    const conditions: string[] = [];
+    if (isList) {
+      for (const [op, where] of Object.entries(filter ?? {})) {
+        if (where === undefined) continue;
+        switch (op) {
+          case 'some':
+            conditions.push(exists(where));
+            break;
+          case 'none':
+            conditions.push(`NOT ${exists(where)}`);
+            break;
+          case 'every':
+            conditions.push(`NOT ${exists(where, true)}`);
+            break;
+          default:
+            throw new Error(`Unknown filter '${op}' on to-many relation ${relation.fieldAst.name}. Use some, every or none.`);
+        }
+      }
+    } else if (filter === null) {
+      conditions.push(`NOT ${exists(null)}`);
+    } else if ('is' in filter || 'isNot' in filter) {
+      if (filter.is !== undefined) {
+        conditions.push(filter.is === null ? `NOT ${exists(null)}` : exists(filter.is));
+      }
+      if (filter.isNot !== undefined) {
+        conditions.push(filter.isNot === null ? exists(null) : `NOT ${exists(filter.isNot)}`);
+      }
+    } else {
+      conditions.push(exists(filter));
+    }
+
+    return conditions.length > 0 ? conditions.join(' AND ') : '1=1';
   }
 
   /**
    * Build an ORDER BY clause from an orderBy object or array
    */
   protected buildOrderByClause(orderBy?: OrderByInput | OrderByInput[]): string {
-    if (!orderBy) {
+    const terms = this.orderByTerms(orderBy);
+    if (terms.length === 0) {
       return '';
     }
 
+    return `ORDER BY ${terms
+      .map(term => `${term.expression} ${term.direction.toUpperCase()}${term.nulls ? ` NULLS ${term.nulls.toUpperCase()}` : ''}`)
+      .join(', ')}`;
+  }
+
+  /**
+   * Compile an orderBy argument into ORDER BY terms, validating every field against the model
+   * Scalars accept 'asc' | 'desc' or { sort, nulls }; to-one relations accept a nested orderBy
+   * and to-many relations { _count }, both compiled to correlated subqueries
+   */
+  protected orderByTerms(orderBy: unknown, tableRef: string = this.tableName, depth = 0): OrderByTerm[] {
+    const items = Array.isArray(orderBy) ? orderBy : orderBy ? [orderBy] : [];
+    const terms: OrderByTerm[] = [];
+
+    for (const item of items as Record<string, unknown>[]) {
+      for (const [field, value] of Object.entries(item)) {
+        if (value === undefined) continue;
+
+        if (!this.modelAst.fields.some(f => f.name === field)) {
+          throw new Error(`Cannot order by '${field}': it is not a field of ${this.modelAst.name}.`);
+        }
+
+        const relation = this.isRelationField(field) ? this.resolveRelation(field) : null;
+        if (!relation) {
+          if (typeof value === 'string') {
+            terms.push({ expression: this.sortExpression(field, tableRef), direction: this.sortDirection(field, value) });
+          } else if (value !== null && typeof value === 'object' && 'sort' in value) {
+            const { sort, nulls } = value as { sort: string; nulls?: OrderByTerm['nulls'] };
+            if (nulls !== undefined && nulls !== 'first' && nulls !== 'last') {
+              throw new Error(`Invalid nulls placement '${nulls}' for '${field}': expected 'first' or 'last'.`);
+            }
+            terms.push({ expression: this.sortExpression(field, tableRef), direction: this.sortDirection(field, sort), nulls });
+          } else {
+            throw new Error(`Invalid orderBy for '${field}' of ${this.modelAst.name}: expected 'asc', 'desc' or { sort, nulls }.`);
+          }
+          continue;
+        }
+
+        const alias = `ord_${depth + 1}`;
+        const relatedTable = relation.relatedClient.tableName;
+        const joinCondition = relation.foreignFields
+          .map((foreignField, i) => `${alias}.${relation.relatedClient.column(foreignField)} = ${tableRef}.${this.column(relation.localFields[i])}`)
+          .join(' AND ');
+        const nested = (value ?? {}) as Record<string, unknown>;
+
+        if (relation.isList) {
+          const entries = Object.entries(nested);
+          if (entries.length !== 1 || entries[0][0] !== '_count') {
+            throw new Error(`Cannot order by list relation '${field}' of ${this.modelAst.name}: only { _count: 'asc' | 'desc' } is supported.`);
+          }
+          terms.push({
+            expression: `(SELECT COUNT(*) FROM ${relatedTable} AS ${alias} WHERE ${joinCondition})`,
+            direction: this.sortDirection(field, entries[0][1]),
+          });
+          continue;
+        }
+
+        for (const term of relation.relatedClient.orderByTerms(nested, alias, depth + 1)) {
+          terms.push({ ...term, expression: `(SELECT ${term.expression} FROM ${relatedTable} AS ${alias} WHERE ${joinCondition})` });
+        }
+      }
+    }
+
+    return terms;
+  }
+
+  /**
+   * Normalize a sort direction, rejecting anything other than asc or desc
+   */
+  protected sortDirection(field: string, direction: unknown): 'asc' | 'desc' {
+    const normalized = typeof direction === 'string' ? direction.toLowerCase() : direction;
+    if (normalized !== 'asc' && normalized !== 'desc') {
+      throw new Error(`Invalid sort direction for '${field}': expected 'asc' or 'desc'.`);
+    }
+    return normalized;
+  }
+
+  /**
+   * Flatten an orderBy argument into [field, direction] pairs
+   * Only plain scalar orderings qualify, since keyset pagination compares column values
+   */
+  protected orderByEntries(orderBy?: OrderByInput | OrderByInput[]): Array<[string, 'asc' | 'desc']> {
+    if (!orderBy) {
+      return [];
+    }
+
     const orderByArray = Array.isArray(orderBy) ? orderBy : [orderBy];
+    return orderByArray.flatMap(item =>
+      Object.entries(item as Record<string, unknown>).map(([field, direction]) => {
+        if (!this.modelAst.fields.some(f => f.name === field) || this.isRelationField(field) || typeof direction !== 'string') {
+          throw new Error(`Cursor pagination on ${this.modelAst.name} only supports ordering by scalar fields with 'asc' or 'desc'; got '${field}'.`);
+        }
+        return [field, this.sortDirection(field, direction)] as [string, 'asc' | 'desc'];
+      })
+    );
+  }
 
-    if (orderByArray.length === 0) {
-      return '';
+  /**
+   * The total ordering used for keyset pagination: the requested orderBy,
+   * tie-broken on the primary key so every row has a unique position
+   * @param reverse Flip every direction, for reading backwards from a cursor
+   */
+  protected keysetOrderings(orderBy: OrderByInput | OrderByInput[] | undefined, reverse = false): Array<[string, 'asc' | 'desc']> {
+    const orderings = this.orderByEntries(orderBy);
+    const primaryKeyFields = this.primaryKeyFields();
+    if (primaryKeyFields.length === 0) {
+      throw new Error(`Cursor pagination on ${this.modelAst.name} requires an @id or @@id field to order by.`);
     }
 
-    const orderByItems = orderByArray.map((item) => {
-      const entries = Object.entries(item as Record<string, 'asc' | 'desc'>);
-      return entries.map(([field, direction]) => `${field} ${direction.toUpperCase()}`).join(', ');
+    for (const idField of primaryKeyFields) {
+      if (!orderings.some(([field]) => field === idField)) {
+        orderings.push([idField, 'asc']);
+      }
+    }
+
+    return reverse
+      ? orderings.map(([field, direction]) => [field, direction === 'asc' ? 'desc' : 'asc'] as [string, 'asc' | 'desc'])
+      : orderings;
+  }
+
+  /**
+   * Build the keyset condition selecting the cursor row and every row after it in the given ordering
+   * The cursor row's values are read with uncorrelated subqueries, so no extra round trip is needed
+   */
+  protected buildCursorCondition(
+    cursor: Record<string, unknown>,
+    orderings: Array<[string, 'asc' | 'desc']>,
+    values: unknown[]
+  ): string {
+    const cursorAlias = 'cursor_row';
+    const cursorRows = (expression: string) =>
+      `SELECT ${expression} FROM ${this.tableName} AS ${cursorAlias} WHERE ${this.buildFilterCondition(cursor, values, cursorAlias) || '1=1'} LIMIT 1`;
+
+    // Without a cursor row, a NULL from the subqueries would read as a NULL value
+    const exists = `EXISTS (${cursorRows('1')})`;
+    const keyset = this.buildKeysetCondition(orderings, field => `(${cursorRows(this.sortExpression(field, cursorAlias))})`, true);
+    return `(${exists} AND ${keyset})`;
+  }
+
+  /**
+   * Build the keyset condition selecting every row after the given one in the given ordering
+   */
+  protected buildKeysetAfterCondition(
+    row: Record<string, unknown>,
+    orderings: Array<[string, 'asc' | 'desc']>,
+    values: unknown[]
+  ): string {
+    return this.buildKeysetCondition(orderings, field => {
+      values.push(row[field] ?? null);
+      // Decimal values are bound as text and compared with the CAST of their column
+      return this.isDecimalField(field) ? `CAST($${values.length} AS REAL)` : `$${values.length}`;
+    }, false);
+  }
+
+  /**
+   * Expand a keyset comparison with a reference row into (a after r) OR (a IS r AND b after r) OR ...
+   * Values are compared NULL-aware, following SQLite's ordering of NULL before any value
+   * (first in ascending, last in descending order); a row-value comparison such as
+   * (a, b) > (?, ?) is NULL, and drops rows, when the reference row holds a NULL
+   * @param reference SQL of the reference row's value of a field, comparable with its sortExpression;
+   *   called for each use in the order the uses appear in the text, so it can bind placeholders
+   * @param inclusive Also select the reference row itself
+   */
+  private buildKeysetCondition(
+    orderings: Array<[string, 'asc' | 'desc']>,
+    reference: (field: string) => string,
+    inclusive: boolean
+  ): string {
+    const same = (field: string) => `${this.sortExpression(field)} IS ${reference(field)}`;
+
+    const branches = orderings.map(([field, direction], i) => {
+      const parts = orderings.slice(0, i).map(([previousField]) => same(previousField));
+      const column = this.sortExpression(field);
+      parts.push(direction === 'asc'
+        ? `(${column} > ${reference(field)} OR (${reference(field)} IS NULL AND ${column} IS NOT NULL))`
+        : `(${column} < ${reference(field)} OR (${column} IS NULL AND ${reference(field)} IS NOT NULL))`);
+      return `(${parts.join(' AND ')})`;
     });
+    if (inclusive) {
+      branches.push(`(${orderings.map(([field]) => same(field)).join(' AND ')})`);
+    }
 
-    return `ORDER BY ${orderByItems.join(', ')}`;
+    return `(${branches.join(' OR ')})`;
+  }
+
+  /**
+   * Build the ORDER BY clause of a keyset ordering
+   */
+  protected buildKeysetOrderByClause(orderings: Array<[string, 'asc' | 'desc']>): string {
+    return `ORDER BY ${orderings.map(([field, direction]) => `${this.sortExpression(field)} ${direction.toUpperCase()}`).join(', ')}`;
+  }
+
+  /**
+   * Expression a field is sorted and range-compared by
+   * Decimal fields are stored as text, so they are read as numbers to order by value
+   */
+  protected sortExpression(field: string, tableRef: string = this.tableName): string {
+    const column = `${tableRef}.${this.column(field)}`;
+    return this.isDecimalField(field) ? `CAST(${column} AS REAL)` : column;
+  }
+
+  /**
+   * Database column of a field: its @map name, or the field name itself
+   */
+  protected column(field: string): string {
+    const fieldAst = this.modelAst.fields.find(f => f.name === field);
+    const mapped = fieldAst ? mappedName(fieldAst.attributes) : undefined;
+    return mapped === undefined ? field : quoteIdentifier(mapped);
   }
 
   /**
    * Build a SELECT clause from a select object
-   * If no select object is provided, returns '*' (all fields)
+   * Columns renamed with @map are aliased back to their field names, so rows always
+   * come back keyed by field. Without a select object every scalar field is selected,
+   * which is '*' unless some column is mapped
    */
   protected buildSelectClause(select?: SelectInput): string {
-    if (!select) {
-      return '*';
-    }
-
-    // Convert the select object to an array of field names
     // In Prisma, select is an object where keys are field names and values are booleans
     // e.g., { id: true, name: true } means select id and name fields
-    const selectedFields = Object.entries(select as Record<string, boolean>)
+    const selectedFields = Object.entries((select ?? {}) as Record<string, boolean>)
       .filter(([_, include]) => include) // Only include fields where the value is true
       .map(([field]) => field);
 
     if (selectedFields.length === 0) {
       // If no fields are selected or all are false, return all fields
-      return '*';
+      const mapped = this.modelAst.fields.some(f => mappedName(f.attributes) !== undefined);
+      if (!mapped) {
+        return '*';
+      }
+      selectedFields.push(...this.modelAst.fields
+        .filter(f => !this.isRelationField(f.name) && !f.attributes.some(attr => attr.name === 'relation'))
+        .map(f => f.name));
     }
 
-    // Return the comma-separated list of field names
-    return selectedFields.join(', ');
+    return selectedFields
+      .map(field => {
+        const column = this.column(field);
+        return column === field ? field : `${column} AS ${quoteIdentifier(field)}`;
+      })
+      .join(', ');
+  }
+
+  /**
+   * Await a write, naming this model in any structured database error it raises
+   * Errors from nested writes keep the model name set by the related client
+   */
+  private async attributeErrors<R>(operation: Promise<R>): Promise<R> {
+    try {
+      return await operation;
+    } catch (error) {
+      if (error instanceof KnownRequestError && error.meta.modelName === undefined) {
+        error.meta.modelName = this.modelAst.name;
+      }
+      throw error;
+    }
   }
 
   /**
@@ -0,0 +1,166 @@
+/**
+ * BigInt and Decimal scalar values
+ * SQLite stores BigInt fields as INTEGER and Decimal fields as TEXT, so both round-trip exactly
+ */
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * An exact decimal number, the value type of Decimal fields
+ * Values are kept as an integer coefficient and a scale, so no digit is lost to floating point
+ */
+export class Decimal {
+  private readonly coefficient: bigint;
+  private readonly scale: number;
+
+  constructor(value: string | number | bigint | Decimal) {
+    if (value instanceof Decimal) {
+      this.coefficient = value.coefficient;
+      this.scale = value.scale;
+      return;
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new Error(`Invalid Decimal value: ${value}`);
+    }
+
+    const text = String(value).trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match || (!match[2] && !match[3])) {
+      throw new Error(`Invalid Decimal value: ${JSON.stringify(text)}`);
+    }
+
+    const [, sign, integerDigits, fractionDigits = '', exponent = '0'] = match;
+    let coefficient = BigInt(`${integerDigits}${fractionDigits}` || '0');
+    let scale = fractionDigits.length - parseInt(exponent, 10);
+    if (scale < 0) {
+      coefficient *= 10n ** BigInt(-scale);
+      scale = 0;
+    }
+    // Trailing zeros after the point carry no value, so 1.50 and 1.5 are the same Decimal
+    while (scale > 0 && coefficient % 10n === 0n) {
+      coefficient /= 10n;
+      scale--;
+    }
+
+    this.coefficient = sign === '-' ? -coefficient : coefficient;
+    this.scale = scale;
+  }
+
+  /**
+   * Whether a value is a Decimal
+   */
+  static isDecimal(value: unknown): value is Decimal {
+    return value instanceof Decimal;
+  }
+
+  /**
+   * Compare with another value: -1, 0 or 1
+   */
+  comparedTo(other: string | number | bigint | Decimal): number {
+    const that = new Decimal(other);
+    const scale = Math.max(this.scale, that.scale);
+    const left = this.coefficient * 10n ** BigInt(scale - this.scale);
+    const right = that.coefficient * 10n ** BigInt(scale - that.scale);
+    return left === right ? 0 : left < right ? -1 : 1;
+  }
+
+  equals(other: string | number | bigint | Decimal): boolean {
+    return this.comparedTo(other) === 0;
+  }
+
+  /**
+   * The exact sum with another value
+   */
+  plus(other: string | number | bigint | Decimal): Decimal {
+    const that = new Decimal(other);
+    const scale = Math.max(this.scale, that.scale);
+    const sum = this.coefficient * 10n ** BigInt(scale - this.scale) + that.coefficient * 10n ** BigInt(scale - that.scale);
+    return new Decimal(Decimal.format(sum, scale));
+  }
+
+  /**
+   * The quotient by another value, rounded half away from zero to a number of decimal places
+   * Quotients such as 1 / 3 have no exact decimal form, so some rounding cannot be avoided
+   */
+  dividedBy(other: string | number | bigint | Decimal, decimalPlaces: number = 20): Decimal {
+    const that = new Decimal(other);
+    if (that.coefficient === 0n) {
+      throw new Error('Decimal division by zero');
+    }
+
+    // (a / 10^sa) / (b / 10^sb) scaled by 10^decimalPlaces, as an integer division
+    let numerator = this.coefficient * 10n ** BigInt(decimalPlaces + that.scale);
+    let denominator = that.coefficient * 10n ** BigInt(this.scale);
+    if (denominator < 0n) {
+      numerator = -numerator;
+      denominator = -denominator;
+    }
+    const magnitude = numerator < 0n ? -numerator : numerator;
+    const rounded = (2n * magnitude + denominator) / (2n * denominator);
+    return new Decimal(Decimal.format(numerator < 0n ? -rounded : rounded, decimalPlaces));
+  }
+
+  /**
+   * Format with a fixed number of decimal places, rounding half away from zero
+   */
+  toFixed(decimalPlaces: number = 0): string {
+    if (!Number.isInteger(decimalPlaces) || decimalPlaces < 0) {
+      throw new Error(`toFixed decimalPlaces must be a non-negative integer; got ${decimalPlaces}`);
+    }
+
+    let coefficient = this.coefficient;
+    if (decimalPlaces >= this.scale) {
+      coefficient *= 10n ** BigInt(decimalPlaces - this.scale);
+    } else {
+      const divisor = 10n ** BigInt(this.scale - decimalPlaces);
+      const magnitude = coefficient < 0n ? -coefficient : coefficient;
+      const rounded = (magnitude + divisor / 2n) / divisor;
+      coefficient = coefficient < 0n ? -rounded : rounded;
+    }
+    return Decimal.format(coefficient, decimalPlaces);
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toString(): string {
+    return Decimal.format(this.coefficient, this.scale);
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private static format(coefficient: bigint, scale: number): string {
+    const negative = coefficient < 0n;
+    const digits = (negative ? -coefficient : coefficient).toString().padStart(scale + 1, '0');
+    const integerPart = digits.slice(0, digits.length - scale);
+    const fractionPart = scale > 0 ? `.${digits.slice(digits.length - scale)}` : '';
+    return `${negative ? '-' : ''}${integerPart}${fractionPart}`;
+  }
+}
+
+/**
+ * Convert a value read from the database into the JavaScript type of its field:
+ * bigint for BigInt fields and Decimal for Decimal fields
+ */
+export function decodeScalar(typeName: string, value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  if (typeName === 'BigInt' && (typeof value === 'number' || typeof value === 'string')) {
+    return BigInt(value);
+  }
+  if (typeName === 'Decimal' && (typeof value === 'number' || typeof value === 'string' || typeof value === 'bigint')) {
+    return new Decimal(value);
+  }
+  return value;
+}
+
+/**
+ * JSON.stringify that writes bigint values as strings instead of throwing
+ */
+export function stringifyValue(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => typeof item === 'bigint' ? item.toString() : item);
+}
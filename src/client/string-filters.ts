@@ -0,0 +1,80 @@
+/**
+ * String filter compilation shared by the model and view clients
+ * Builds SQLite/Turso conditions for equals, contains, startsWith and endsWith
+ * in the default (case-sensitive) and insensitive query modes
+ */
+
+/**
+ * Query mode of a string filter, as in Prisma
+ */
+export type QueryMode = 'default' | 'insensitive';
+
+/**
+ * Operators that compare a string column against a pattern
+ */
+const PATTERN_OPERATORS = ['contains', 'startsWith', 'endsWith'] as const;
+
+type PatternOperator = typeof PATTERN_OPERATORS[number];
+
+/**
+ * Escape the LIKE wildcards % and _ (and the escape character itself)
+ * Patterns built from the result must be used with ESCAPE '\'
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+/**
+ * Escape the GLOB wildcards *, ? and [ by wrapping them in a character class
+ */
+export function escapeGlobPattern(value: string): string {
+  return value.replace(/[*?[]/g, char => `[${char}]`);
+}
+
+/**
+ * Whether an operator is one of contains, startsWith or endsWith
+ */
+export function isPatternOperator(operator: string): operator is PatternOperator {
+  return (PATTERN_OPERATORS as readonly string[]).includes(operator);
+}
+
+/**
+ * Build a condition for contains, startsWith or endsWith
+ *
+ * The default mode uses GLOB, which is case-sensitive for all characters
+ * (LIKE only folds ASCII letters, so it is neither sensitive nor insensitive).
+ * The insensitive mode lowercases both sides and uses LIKE; SQLite's lower()
+ * only folds ASCII letters unless the ICU extension is loaded.
+ *
+ * @param bind Adds a value to the query parameters and returns its placeholder
+ */
+export function buildPatternCondition(
+  column: string,
+  operator: PatternOperator,
+  value: unknown,
+  mode: QueryMode | undefined,
+  bind: (value: unknown) => string
+): string {
+  const text = String(value);
+
+  if (mode === 'insensitive') {
+    const escaped = escapeLikePattern(text.toLowerCase());
+    const pattern = operator === 'contains' ? `%${escaped}%` : operator === 'startsWith' ? `${escaped}%` : `%${escaped}`;
+    return `lower(${column}) LIKE ${bind(pattern)} ESCAPE '\\'`;
+  }
+
+  const escaped = escapeGlobPattern(text);
+  const pattern = operator === 'contains' ? `*${escaped}*` : operator === 'startsWith' ? `${escaped}*` : `*${escaped}`;
+  return `${column} GLOB ${bind(pattern)}`;
+}
+
+/**
+ * Column expression and value to use for an equality-style comparison
+ * In insensitive mode both sides are lowercased; other values pass through unchanged
+ */
+export function comparisonOperands(column: string, value: unknown, mode: QueryMode | undefined): [string, unknown] {
+  if (mode === 'insensitive' && typeof value === 'string') {
+    return [`lower(${column})`, value.toLowerCase()];
+  }
+  return [column, value];
+}
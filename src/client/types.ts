@@ -57,11 +57,25 @@ export interface ModelClient<T, CreateInput, UpdateInput, WhereInput, WhereUniqu
    */
   createMany(data: CreateInput[]): Promise<{ count: number }>;
 
+  /**
+   * Create multiple records and return them
+   */
+  createManyAndReturn(args: {
+    data: CreateInput[];
+    select?: SelectInput;
+    include?: IncludeInput;
+  }): Promise<T[]>;
+
   /**
    * Find a record by its unique identifier
    */
   findUnique(args: { where: WhereUniqueInput; select?: SelectInput; include?: IncludeInput }): Promise<T | null>;
 
+  /**
+   * Find a record by its unique identifier, throwing a NotFoundError if there is none
+   */
+  findUniqueOrThrow(args: { where: WhereUniqueInput; select?: SelectInput; include?: IncludeInput }): Promise<T>;
+
   /**
    * Find the first record that matches the filter
    */
@@ -71,8 +85,21 @@ export interface ModelClient<T, CreateInput, UpdateInput, WhereInput, WhereUniqu
     select?: SelectInput;
     include?: IncludeInput;
     skip?: number;
+    distinct?: Array<keyof T & string>;
   }): Promise<T | null>;
 
+  /**
+   * Find the first record that matches the filter, throwing a NotFoundError if there is none
+   */
+  findFirstOrThrow(args?: {
+    where?: WhereInput;
+    orderBy?: OrderByInput | OrderByInput[];
+    select?: SelectInput;
+    include?: IncludeInput;
+    skip?: number;
+    distinct?: Array<keyof T & string>;
+  }): Promise<T>;
+
   /**
    * Find all records that match the filter
    */
@@ -84,8 +111,20 @@ export interface ModelClient<T, CreateInput, UpdateInput, WhereInput, WhereUniqu
     skip?: number;
     take?: number;
     cursor?: WhereUniqueInput;
+    distinct?: Array<keyof T & string>;
   }): Promise<T[]>;
 
+  /**
+   * Iterate over all records that match the filter, reading them in batches
+   */
+  findManyStream(args?: {
+    where?: WhereInput;
+    orderBy?: OrderByInput | OrderByInput[];
+    select?: SelectInput;
+    include?: IncludeInput;
+    batchSize?: number;
+  }): AsyncIterable<T>;
+
   /**
    * Update a record by its unique identifier
    */
@@ -96,6 +135,17 @@ export interface ModelClient<T, CreateInput, UpdateInput, WhereInput, WhereUniqu
     include?: IncludeInput;
   }): Promise<T>;
 
+  /**
+   * Create a record, or update it if the unique where already matches one
+   */
+  upsert(args: {
+    where: WhereUniqueInput;
+    create: CreateInput;
+    update: UpdateInput;
+    select?: SelectInput;
+    include?: IncludeInput;
+  }): Promise<T>;
+
   /**
    * Update multiple records that match the filter
    */
@@ -104,6 +154,16 @@ export interface ModelClient<T, CreateInput, UpdateInput, WhereInput, WhereUniqu
     data: UpdateInput;
   }): Promise<{ count: number }>;
 
+  /**
+   * Update multiple records that match the filter and return them
+   */
+  updateManyAndReturn(args: {
+    where?: WhereInput;
+    data: UpdateInput;
+    select?: SelectInput;
+    include?: IncludeInput;
+  }): Promise<T[]>;
+
   /**
    * Delete a record by its unique identifier
    */
@@ -1,5 +1,13 @@
 import { DatabaseAdapter, TransactionClient } from '../adapters';
 import { PslViewAst } from '../generator/client-generator';
+import { mappedName, quoteIdentifier } from '../generator/mapped-names';
+import { buildPatternCondition, comparisonOperands, isPatternOperator, type QueryMode } from './string-filters';
+import { NotFoundError } from './errors';
+
+/**
+ * Column alias used to keep the first row of each distinct group
+ */
+const DISTINCT_ROW_NUMBER = '__drismify_row_number';
 
 /**
  * Base view client interface
@@ -11,19 +19,33 @@ export interface ViewClient<T, WhereInput, WhereUniqueInput, OrderByInput, Selec
     take?: number;
     skip?: number;
     select?: SelectInput;
+    distinct?: Array<keyof T & string>;
   }): Promise<T[]>;
 
   findFirst(args?: {
     where?: WhereInput;
     orderBy?: OrderByInput;
     select?: SelectInput;
+    distinct?: Array<keyof T & string>;
   }): Promise<T | null>;
 
+  findFirstOrThrow(args?: {
+    where?: WhereInput;
+    orderBy?: OrderByInput;
+    select?: SelectInput;
+    distinct?: Array<keyof T & string>;
+  }): Promise<T>;
+
   findUnique(args: {
     where: WhereUniqueInput;
     select?: SelectInput;
   }): Promise<T | null>;
 
+  findUniqueOrThrow(args: {
+    where: WhereUniqueInput;
+    select?: SelectInput;
+  }): Promise<T>;
+
   count(args?: {
     where?: WhereInput;
   }): Promise<number>;
@@ -77,26 +99,39 @@ export class BaseViewClient<T, WhereInput, WhereUniqueInput, OrderByInput, Selec
     take?: number;
     skip?: number;
     select?: SelectInput;
+    distinct?: Array<keyof T & string>;
   }): Promise<T[]> {
     this.logQuery('query', { method: 'findMany', args });
 
-    let query = `SELECT ${this.buildSelectClause(args?.select)} FROM ${this.tableName}`;
     const params: any[] = [];
-
-    // Add WHERE clause
+    let whereClause = '';
     if (args?.where) {
-      const whereClause = this.buildWhereClause(args.where, params);
-      if (whereClause) {
-        query += ` WHERE ${whereClause}`;
+      whereClause = this.buildWhereClause(args.where, params);
+    }
+    const orderByClause = args?.orderBy ? this.buildOrderByClause(args.orderBy) : '';
+
+    let query = `SELECT ${this.buildSelectClause(args?.select)} FROM ${this.tableName}`;
+
+    if (args?.distinct && args.distinct.length > 0) {
+      // Keep the first row of each distinct group, ranked by the requested ordering
+      for (const field of args.distinct) {
+        if (!this.viewAst.fields.some(f => f.name === field)) {
+          throw new Error(`Cannot use '${field}' in distinct: it is not a field of view ${this.viewAst.name}.`);
+        }
       }
+      const windowOrder = orderByClause ? ` ORDER BY ${orderByClause}` : '';
+      query = `SELECT ${this.buildSelectClause(args?.select)} FROM (` +
+        `SELECT *, ROW_NUMBER() OVER (PARTITION BY ${args.distinct.map(field => this.column(field)).join(', ')}${windowOrder}) AS ${DISTINCT_ROW_NUMBER}` +
+        ` FROM ${this.tableName}${whereClause ? ` WHERE ${whereClause}` : ''}` +
+        `) AS ${this.tableName} WHERE ${DISTINCT_ROW_NUMBER} = 1`;
+    } else if (whereClause) {
+      // Add WHERE clause
+      query += ` WHERE ${whereClause}`;
     }
 
     // Add ORDER BY clause
-    if (args?.orderBy) {
-      const orderByClause = this.buildOrderByClause(args.orderBy);
-      if (orderByClause) {
-        query += ` ORDER BY ${orderByClause}`;
-      }
+    if (orderByClause) {
+      query += ` ORDER BY ${orderByClause}`;
     }
 
     // Add LIMIT and OFFSET
@@ -111,6 +146,9 @@ export class BaseViewClient<T, WhereInput, WhereUniqueInput, OrderByInput, Selec
     }
 
     const result = await this.db.execute<T>(query, params);
+    for (const record of result.data as Record<string, unknown>[]) {
+      delete record[DISTINCT_ROW_NUMBER];
+    }
     return result.data;
   }
 
@@ -121,6 +159,7 @@ export class BaseViewClient<T, WhereInput, WhereUniqueInput, OrderByInput, Selec
     where?: WhereInput;
     orderBy?: OrderByInput;
     select?: SelectInput;
+    distinct?: Array<keyof T & string>;
   }): Promise<T | null> {
     this.logQuery('query', { method: 'findFirst', args });
 
@@ -132,6 +171,22 @@ export class BaseViewClient<T, WhereInput, WhereUniqueInput, OrderByInput, Selec
     return results.length > 0 ? results[0] : null;
   }
 
+  /**
+   * Find first record, throwing a NotFoundError if there is none
+   */
+  async findFirstOrThrow(args?: {
+    where?: WhereInput;
+    orderBy?: OrderByInput;
+    select?: SelectInput;
+    distinct?: Array<keyof T & string>;
+  }): Promise<T> {
+    const record = await this.findFirst(args);
+    if (record === null) {
+      throw new NotFoundError(this.viewAst.name, args?.where);
+    }
+    return record;
+  }
+
   /**
    * Find unique record
    */
@@ -156,6 +211,20 @@ export class BaseViewClient<T, WhereInput, WhereUniqueInput, OrderByInput, Selec
     return result.data.length > 0 ? result.data[0] : null;
   }
 
+  /**
+   * Find unique record, throwing a NotFoundError if there is none
+   */
+  async findUniqueOrThrow(args: {
+    where: WhereUniqueInput;
+    select?: SelectInput;
+  }): Promise<T> {
+    const record = await this.findUnique(args);
+    if (record === null) {
+      throw new NotFoundError(this.viewAst.name, args.where);
+    }
+    return record;
+  }
+
   /**
    * Count records
    */
@@ -179,23 +248,37 @@ export class BaseViewClient<T, WhereInput, WhereUniqueInput, OrderByInput, Selec
     return result.data[0]?.count || 0;
   }
 
+  /**
+   * Database column of a field: its @map name, or the field name itself
+   */
+  protected column(field: string): string {
+    const fieldAst = this.viewAst.fields.find(f => f.name === field);
+    const mapped = fieldAst ? mappedName(fieldAst.attributes) : undefined;
+    return mapped === undefined ? field : quoteIdentifier(mapped);
+  }
+
   /**
    * Build a SELECT clause from a select object
+   * Columns renamed with @map are aliased back to their field names
    */
   protected buildSelectClause(select?: SelectInput): string {
-    if (!select) {
-      return '*';
-    }
-
-    const selectedFields = Object.entries(select as Record<string, boolean>)
+    const selectedFields = Object.entries((select ?? {}) as Record<string, boolean>)
       .filter(([_, include]) => include)
       .map(([field]) => field);
 
     if (selectedFields.length === 0) {
-      return '*';
+      if (!this.viewAst.fields.some(f => mappedName(f.attributes) !== undefined)) {
+        return '*';
+      }
+      selectedFields.push(...this.viewAst.fields.map(f => f.name));
     }
 
-    return selectedFields.join(', ');
+    return selectedFields
+      .map(field => {
+        const column = this.column(field);
+        return column === field ? field : `${column} AS ${quoteIdentifier(field)}`;
+      })
+      .join(', ');
   }
 
   /**
@@ -211,15 +294,19 @@ export class BaseViewClient<T, WhereInput, WhereUniqueInput, OrderByInput, Selec
 
       if (typeof value === 'object' && !Array.isArray(value)) {
         // Handle operators like { gt: 5 }, { contains: 'text' }, etc.
+        const mode = value.mode as QueryMode | undefined;
         for (const [operator, operatorValue] of Object.entries(value)) {
-          const condition = this.buildOperatorCondition(field, operator, operatorValue, params);
+          if (operator === 'mode') {
+            continue;
+          }
+          const condition = this.buildOperatorCondition(this.column(field), operator, operatorValue, params, mode);
           if (condition) {
             conditions.push(condition);
           }
         }
       } else {
         // Simple equality
-        conditions.push(`${field} = ?`);
+        conditions.push(`${this.column(field)} = ?`);
         params.push(value);
       }
     }
@@ -234,15 +321,27 @@ export class BaseViewClient<T, WhereInput, WhereUniqueInput, OrderByInput, Selec
     field: string,
     operator: string,
     value: any,
-    params: any[]
+    params: any[],
+    mode?: QueryMode
   ): string | null {
+    const bind = (bindValue: unknown) => {
+      params.push(bindValue);
+      return '?';
+    };
+
+    if (isPatternOperator(operator)) {
+      return buildPatternCondition(field, operator, value, mode, bind);
+    }
+
     switch (operator) {
-      case 'equals':
-        params.push(value);
-        return `${field} = ?`;
-      case 'not':
-        params.push(value);
-        return `${field} != ?`;
+      case 'equals': {
+        const [column, operand] = comparisonOperands(field, value, mode);
+        return `${column} = ${bind(operand)}`;
+      }
+      case 'not': {
+        const [column, operand] = comparisonOperands(field, value, mode);
+        return `${column} != ${bind(operand)}`;
+      }
       case 'gt':
         params.push(value);
         return `${field} > ?`;
@@ -255,27 +354,18 @@ export class BaseViewClient<T, WhereInput, WhereUniqueInput, OrderByInput, Selec
       case 'lte':
         params.push(value);
         return `${field} <= ?`;
-      case 'contains':
-        params.push(`%${value}%`);
-        return `${field} LIKE ?`;
-      case 'startsWith':
-        params.push(`${value}%`);
-        return `${field} LIKE ?`;
-      case 'endsWith':
-        params.push(`%${value}`);
-        return `${field} LIKE ?`;
       case 'in':
         if (Array.isArray(value) && value.length > 0) {
-          const placeholders = value.map(() => '?').join(', ');
-          params.push(...value);
-          return `${field} IN (${placeholders})`;
+          const operands = value.map(item => comparisonOperands(field, item, mode));
+          const placeholders = operands.map(([, operand]) => bind(operand)).join(', ');
+          return `${operands[0][0]} IN (${placeholders})`;
         }
         return null;
       case 'notIn':
         if (Array.isArray(value) && value.length > 0) {
-          const placeholders = value.map(() => '?').join(', ');
-          params.push(...value);
-          return `${field} NOT IN (${placeholders})`;
+          const operands = value.map(item => comparisonOperands(field, item, mode));
+          const placeholders = operands.map(([, operand]) => bind(operand)).join(', ');
+          return `${operands[0][0]} NOT IN (${placeholders})`;
         }
         return null;
       default:
@@ -289,7 +379,7 @@ export class BaseViewClient<T, WhereInput, WhereUniqueInput, OrderByInput, Selec
    */
   protected buildOrderByClause(orderBy: Record<string, 'asc' | 'desc'>): string {
     const orderClauses = Object.entries(orderBy)
-      .map(([field, direction]) => `${field} ${direction.toUpperCase()}`)
+      .map(([field, direction]) => `${this.column(field)} ${direction.toUpperCase()}`)
       .join(', ');
 
     return orderClauses;
@@ -5,6 +5,7 @@
 
 import { Extension } from './types';
 import { DrismifyClient } from '../client/base-client';
+import { Decimal, decodeScalar } from '../client/scalars';
 
 /**
  * Aggregation field options
@@ -30,6 +31,36 @@ export interface AggregateFieldOptions {
    * Field to aggregate on
    */
   _count?: boolean | string[];
+  /**
+   * Fields whose distinct non-null values are counted
+   */
+  _countDistinct?: string[];
+}
+
+/**
+ * Aggregate options
+ */
+export interface AggregateOptions extends AggregateFieldOptions {
+  /**
+   * WHERE clause to filter records
+   */
+  where?: any;
+  /**
+   * Order of the records, used with take and skip
+   */
+  orderBy?: any;
+  /**
+   * Number of records to skip
+   */
+  skip?: number;
+  /**
+   * Number of records to take
+   */
+  take?: number;
+  /**
+   * Record to start at
+   */
+  cursor?: any;
 }
 
 /**
@@ -60,24 +91,32 @@ export interface GroupByOptions<T = any> {
    * Fields to aggregate
    */
   _count?: boolean | string[];
+  /**
+   * Fields whose distinct non-null values are counted
+   */
+  _countDistinct?: string[];
   /**
    * WHERE clause to filter records
    */
   where?: any;
   /**
-   * Fields to order by
+   * Filter on aggregate values of the groups
+   */
+  having?: Record<string, any>;
+  /**
+   * Fields or aggregates to order the groups by
    */
   orderBy?: any;
   /**
-   * Number of records to skip
+   * Number of groups to skip
    */
   skip?: number;
   /**
-   * Number of records to take
+   * Number of groups to take
    */
   take?: number;
   /**
-   * Record to start after
+   * Record to start at, in primary key order
    */
   cursor?: any;
 }
@@ -106,6 +145,10 @@ export interface AggregateResult<T = any> {
    * Count of records
    */
   _count: number | Partial<Record<keyof T, number>> | null;
+  /**
+   * Count of distinct values, only present when requested
+   */
+  _countDistinct?: Partial<Record<keyof T, number>> | null;
 }
 
 /**
@@ -119,200 +162,424 @@ export interface GroupByResult<T = any> extends AggregateResult<T> {
 }
 
 /**
- * Calculate the sum of a field in an array of records
+ * Field types SUM and AVG apply to
  */
-function calculateSum(data: any[], field: string): number | null {
-  if (!data || data.length === 0) return null;
+const NUMERIC_FIELD_TYPES = ['Int', 'Float', 'BigInt', 'Decimal'];
 
-  let sum = 0;
-  let validValues = 0;
+/**
+ * Aggregate functions, keyed by the result property they fill
+ */
+const AGGREGATE_FUNCTIONS = {
+  _sum: 'SUM',
+  _avg: 'AVG',
+  _min: 'MIN',
+  _max: 'MAX',
+  _count: 'COUNT',
+  _countDistinct: 'COUNT',
+} as const;
 
-  for (const item of data) {
-    const value = item[field];
-    if (typeof value === 'number') {
-      sum += value;
-      validValues++;
-    }
-  }
+type AggregateKey = keyof typeof AGGREGATE_FUNCTIONS;
 
-  return validValues > 0 ? sum : null;
-}
+/**
+ * Aggregates of Decimal fields that are computed exactly on the digits of the column text,
+ * since SQLite would compute them on floating point numbers and lose digits
+ */
+const EXACT_DECIMAL_AGGREGATES: AggregateKey[] = ['_sum', '_avg', '_min', '_max'];
 
 /**
- * Calculate the average of a field in an array of records
+ * Digits per part when Decimal text is split into integers; sums of 9-digit parts
+ * stay far below SQLite's 64-bit integer limit
  */
-function calculateAvg(data: any[], field: string): number | null {
-  if (!data || data.length === 0) return null;
+const DECIMAL_PART_DIGITS = 9;
 
-  let sum = 0;
-  let validValues = 0;
+/**
+ * The most digits before and after the point among the values of a Decimal field
+ * Exact Decimal aggregates pad every value to these widths
+ */
+interface DecimalDigits {
+  integer: number;
+  fraction: number;
+}
 
-  for (const item of data) {
-    const value = item[field];
-    if (typeof value === 'number') {
-      sum += value;
-      validValues++;
-    }
-  }
+/**
+ * One aggregate column of the generated SELECT, read back into result[key][field]
+ * field is undefined for _count: true, which counts rows
+ */
+interface AggregateColumn {
+  key: AggregateKey;
+  field?: string;
+  fieldType?: string;
+  expression: string;
+  alias: string;
+  /**
+   * Fraction digits of an exact Decimal _sum or _avg, whose expression yields its part sums
+   */
+  fractionDigits?: number;
+}
 
-  return validValues > 0 ? sum / validValues : null;
+/**
+ * The model client internals an aggregation query is compiled with
+ * Extension methods run with the model client as `this`
+ */
+interface AggregationModel {
+  tableName: string;
+  modelAst: { name: string; fields: Array<{ name: string; type: { name: string; isArray?: boolean } }> };
+  db: { execute<R = any>(query: string, params?: unknown[]): Promise<{ data: R[] }> };
+  isRelationField(fieldName: string): boolean;
+  column(field: string): string;
+  buildSelectClause(select?: Record<string, boolean>): string;
+  buildFilterCondition(filter: Record<string, unknown>, values: unknown[]): string;
+  buildOrderByClause(orderBy: unknown): string;
+  buildCursorCondition(cursor: Record<string, unknown>, orderings: Array<[string, 'asc' | 'desc']>, values: unknown[]): string;
+  keysetOrderings(orderBy: unknown): Array<[string, 'asc' | 'desc']>;
+  buildKeysetOrderByClause(orderings: Array<[string, 'asc' | 'desc']>): string;
 }
 
 /**
- * Find the minimum value of a field in an array of records
+ * Check that a name is a scalar field of the model, so it can be used as a column
  */
-function calculateMin(data: any[], field: string): any {
-  if (!data || data.length === 0) return null;
-
-  let min: any = null;
-  let hasValue = false;
-
-  for (const item of data) {
-    const value = item[field];
-    if (value !== undefined && value !== null) {
-      if (!hasValue || value < min) {
-        min = value;
-        hasValue = true;
-      }
-    }
+function assertScalarField(model: AggregationModel, field: string, usage: string): void {
+  const fieldAst = model.modelAst.fields.find(f => f.name === field);
+  if (!fieldAst || model.isRelationField(field)) {
+    throw new Error(`Cannot use '${field}' in ${usage}: it is not a scalar field of ${model.modelAst.name}`);
+  }
+  if ((usage === '_sum' || usage === '_avg') && !NUMERIC_FIELD_TYPES.includes(fieldAst.type.name)) {
+    throw new Error(`Cannot use '${field}' in ${usage}: it is not a numeric field of ${model.modelAst.name}`);
   }
-
-  return hasValue ? min : null;
 }
 
 /**
- * Find the maximum value of a field in an array of records
+ * SQL expression computing an aggregate of a field (or of all rows for _count without a field)
  */
-function calculateMax(data: any[], field: string): any {
-  if (!data || data.length === 0) return null;
-
-  let max: any = null;
-  let hasValue = false;
-
-  for (const item of data) {
-    const value = item[field];
-    if (value !== undefined && value !== null) {
-      if (!hasValue || value > max) {
-        max = value;
-        hasValue = true;
-      }
-    }
+function aggregateExpression(model: AggregationModel, key: AggregateKey, field?: string): string {
+  if (field === undefined) {
+    return 'COUNT(*)';
   }
-
-  return hasValue ? max : null;
+  assertScalarField(model, field, key);
+  // Decimal text would compare as strings, so MIN and MAX read it as a number; results are
+  // computed exactly instead (see decimalAggregateExpression), this is only used by having and orderBy
+  const column = (key === '_min' || key === '_max') && model.modelAst.fields.find(f => f.name === field)?.type.name === 'Decimal'
+    ? `CAST(${model.column(field)} AS REAL)`
+    : model.column(field);
+  return key === '_countDistinct' ? `COUNT(DISTINCT ${column})` : `${AGGREGATE_FUNCTIONS[key]}(${column})`;
 }
 
 /**
- * Count records or field values in an array of records
+ * The Decimal fields the options request exact aggregates of
  */
-function calculateCount(data: any[], field?: string): number | null {
-  if (!data) return null;
-  
-  if (!field) {
-    return data.length;
-  }
+function exactDecimalFields(model: AggregationModel, options: AggregateFieldOptions): string[] {
+  const fields = EXACT_DECIMAL_AGGREGATES.flatMap(key => (options[key] as string[] | undefined) ?? []);
+  return [...new Set(fields)].filter(field => model.modelAst.fields.find(f => f.name === field)?.type.name === 'Decimal');
+}
 
-  let count = 0;
-  for (const item of data) {
-    if (item[field] !== undefined && item[field] !== null) {
-      count++;
-    }
+/**
+ * Read the digit widths of Decimal fields with one query over the table
+ */
+async function decimalDigits(model: AggregationModel, fields: string[]): Promise<Map<string, DecimalDigits>> {
+  const digits = new Map<string, DecimalDigits>();
+  if (fields.length === 0) {
+    return digits;
   }
 
-  return count;
+  const selectList = fields.map((field, i) => {
+    const { integerPart, fractionPart } = decimalTextParts(model.column(field));
+    return `MAX(length(${integerPart})) AS __integer_${i}, MAX(length(${fractionPart})) AS __fraction_${i}`;
+  }).join(', ');
+  const result = await model.db.execute<Record<string, unknown>>(`SELECT ${selectList} FROM ${model.tableName}`);
+  const row = result.data[0] ?? {};
+  fields.forEach((field, i) => {
+    digits.set(field, { integer: Number(row[`__integer_${i}`] ?? 1), fraction: Number(row[`__fraction_${i}`] ?? 0) });
+  });
+  return digits;
 }
 
 /**
- * Group records by specified fields
+ * SQL expressions splitting canonical Decimal text ('-12.5') into its sign and digits
  */
-function groupRecords<T = any>(data: T[], groupByFields: (keyof T)[]): Record<string, T[]> {
-  const result: Record<string, T[]> = {};
+function decimalTextParts(column: string): { negative: string; integerPart: string; fractionPart: string } {
+  const magnitude = `ltrim(${column}, '-')`;
+  return {
+    negative: `substr(${column}, 1, 1) = '-'`,
+    integerPart: `CASE WHEN instr(${magnitude}, '.') > 0 THEN substr(${magnitude}, 1, instr(${magnitude}, '.') - 1) ELSE ${magnitude} END`,
+    fractionPart: `CASE WHEN instr(${magnitude}, '.') > 0 THEN substr(${magnitude}, instr(${magnitude}, '.') + 1) ELSE '' END`,
+  };
+}
 
-  if (!data || data.length === 0 || !groupByFields || groupByFields.length === 0) {
-    return result;
+/**
+ * SQL expression computing an exact aggregate of a Decimal field
+ * Every value's digits are padded to the same width and cut into DECIMAL_PART_DIGITS-digit parts.
+ * _sum and _avg yield the sum of each signed part (and the count, for _avg) as 's1,s2,...',
+ * combined by decimalSum; _min and _max pick the value with the lowest or highest sort key,
+ * '1' and the padded digits for positive values, '0' and the nines' complement for negative ones
+ */
+function decimalAggregateExpression(model: AggregationModel, key: AggregateKey, field: string, digits: DecimalDigits): string {
+  const column = model.column(field);
+  const { negative, integerPart, fractionPart } = decimalTextParts(column);
+  const totalDigits = Math.ceil((digits.integer + digits.fraction) / DECIMAL_PART_DIGITS) * DECIMAL_PART_DIGITS;
+  const integerDigits = totalDigits - digits.fraction;
+  const padded = `substr('${'0'.repeat(integerDigits)}' || ${integerPart}, -${integerDigits})`
+    + ` || substr(${fractionPart} || '${'0'.repeat(digits.fraction)}', 1, ${digits.fraction})`;
+  const parts = Array.from(
+    { length: totalDigits / DECIMAL_PART_DIGITS },
+    (_, i) => `CAST(substr(${padded}, ${i * DECIMAL_PART_DIGITS + 1}, ${DECIMAL_PART_DIGITS}) AS INTEGER)`
+  );
+
+  if (key === '_min' || key === '_max') {
+    const complement = parts.map(part => `printf('%0${DECIMAL_PART_DIGITS}d', ${'9'.repeat(DECIMAL_PART_DIGITS)} - ${part})`).join(' || ');
+    const sortKey = `CASE WHEN ${negative} THEN '0' || ${complement} ELSE '1' || ${padded} END`;
+    return `substr(${AGGREGATE_FUNCTIONS[key]}(${sortKey} || ${column}), ${totalDigits + 2})`;
   }
 
-  for (const record of data) {
-    // Create a key based on the groupBy fields
-    const key = groupByFields.map(field => {
-      const value = record[field];
-      if (typeof value === 'object') {
-        return JSON.stringify(value);
-      }
-      return String(value);
-    }).join('|');
+  const sums = parts.map(part => `SUM(CASE WHEN ${negative} THEN -${part} ELSE ${part} END)`);
+  if (key === '_avg') {
+    sums.push(`COUNT(${column})`);
+  }
+  return sums.join(` || ',' || `);
+}
 
-    if (!result[key]) {
-      result[key] = [];
+/**
+ * List the aggregate columns requested by the options
+ */
+function aggregateColumns(model: AggregationModel, options: AggregateFieldOptions, digits: Map<string, DecimalDigits>): AggregateColumn[] {
+  const columns: AggregateColumn[] = [];
+  const add = (key: AggregateKey, field?: string) => {
+    const fieldType = model.modelAst.fields.find(f => f.name === field)?.type.name;
+    let expression = aggregateExpression(model, key, field);
+    let fractionDigits: number | undefined;
+    if (fieldType === 'Decimal' && EXACT_DECIMAL_AGGREGATES.includes(key)) {
+      expression = decimalAggregateExpression(model, key, field!, digits.get(field!)!);
+      fractionDigits = key === '_sum' || key === '_avg' ? digits.get(field!)!.fraction : undefined;
     }
+    columns.push({ key, field, fieldType, expression, alias: `__aggregate_${columns.length}`, fractionDigits });
+  };
 
-    result[key].push(record);
+  for (const key of ['_sum', '_avg', '_min', '_max', '_countDistinct'] as const) {
+    for (const field of options[key] ?? []) {
+      add(key, field);
+    }
+  }
+  if (options._count === true) {
+    add('_count');
+  } else if (Array.isArray(options._count)) {
+    for (const field of options._count) {
+      add('_count', field);
+    }
   }
 
-  return result;
+  return columns;
 }
 
 /**
- * Process the aggregation for a dataset
+ * Read the aggregate columns of a result row back into the AggregateResult shape
+ * Aggregates that were not requested are null
  */
-function processAggregation<T = any>(data: T[], options: AggregateFieldOptions): AggregateResult<T> {
-  const result: AggregateResult<T> = {
+function readAggregates(row: Record<string, unknown>, options: AggregateFieldOptions, columns: AggregateColumn[]): AggregateResult {
+  const result: AggregateResult = {
     _sum: null,
     _avg: null,
     _min: null,
     _max: null,
     _count: null,
   };
+  if (options._countDistinct !== undefined) {
+    result._countDistinct = null;
+  }
 
-  // Process sum fields
-  if (options._sum && options._sum.length > 0) {
-    result._sum = {} as any;
-    for (const field of options._sum) {
-      (result._sum as any)[field] = calculateSum(data, field);
+  for (const column of columns) {
+    let value = row[column.alias] ?? null;
+    if (column.fractionDigits !== undefined) {
+      value = decimalSum(value, column.fractionDigits, column.key === '_avg');
+    } else if (column.key === '_sum' || column.key === '_min' || column.key === '_max') {
+      value = decodeScalar(column.fieldType, value);
+    }
+    if (column.field === undefined) {
+      result._count = value as number;
+    } else {
+      const aggregates = (result[column.key] ?? {}) as Record<string, unknown>;
+      (result as unknown as Record<string, unknown>)[column.key] = { ...aggregates, [column.field]: value };
     }
   }
 
-  // Process avg fields
-  if (options._avg && options._avg.length > 0) {
-    result._avg = {} as any;
-    for (const field of options._avg) {
-      (result._avg as any)[field] = calculateAvg(data, field);
-    }
+  return result;
+}
+
+/**
+ * Combine the part sums of an exact Decimal _sum or _avg (see decimalAggregateExpression)
+ * Sums are exact; averages are rounded to 20 decimal places
+ */
+function decimalSum(partSums: unknown, fractionDigits: number, average: boolean): Decimal | null {
+  if (partSums === null) {
+    return null;
+  }
+  const parts = String(partSums).split(',').map(part => BigInt(part));
+  const count = average ? parts.pop()! : 1n;
+  const coefficient = parts.reduce((total, part) => total * 10n ** BigInt(DECIMAL_PART_DIGITS) + part, 0n);
+  const sum = new Decimal(`${coefficient}e-${fractionDigits}`);
+  return average ? sum.dividedBy(count) : sum;
+}
+
+/**
+ * Compile the where filter (and an optional cursor) into a WHERE clause
+ * The cursor selects its row and every row after it in the orderBy of the rows
+ */
+function buildWhere(model: AggregationModel, where: any, cursor: any, orderBy: any, values: unknown[]): string {
+  const conditions: string[] = [];
+  if (where) {
+    const condition = model.buildFilterCondition(where, values);
+    if (condition) conditions.push(condition);
+  }
+  if (cursor) {
+    conditions.push(model.buildCursorCondition(cursor, model.keysetOrderings(orderBy), values));
+  }
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
+/**
+ * Compile LIMIT and OFFSET; SQLite needs a LIMIT before OFFSET
+ */
+function buildLimit(take?: number, skip?: number): string {
+  const limit = take !== undefined ? `LIMIT ${Number(take)}` : (skip ? 'LIMIT -1' : '');
+  return skip ? `${limit} OFFSET ${Number(skip)}` : limit;
+}
+
+/**
+ * Compile a comparison filter on an aggregate or group value, e.g. { gt: 10 }
+ * A plain value is shorthand for equals
+ */
+function buildComparison(expression: string, filter: unknown, values: unknown[]): string {
+  const bind = (value: unknown) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  if (filter === null) {
+    return `${expression} IS NULL`;
+  }
+  if (typeof filter !== 'object' || Array.isArray(filter)) {
+    return `${expression} = ${bind(filter)}`;
   }
 
-  // Process min fields
-  if (options._min && options._min.length > 0) {
-    result._min = {} as any;
-    for (const field of options._min) {
-      (result._min as any)[field] = calculateMin(data, field);
+  const conditions: string[] = [];
+  for (const [operator, value] of Object.entries(filter as Record<string, unknown>)) {
+    if (value === undefined) continue;
+    switch (operator) {
+      case 'equals':
+        conditions.push(value === null ? `${expression} IS NULL` : `${expression} = ${bind(value)}`);
+        break;
+      case 'not':
+        conditions.push(value === null ? `${expression} IS NOT NULL` : `${expression} <> ${bind(value)}`);
+        break;
+      case 'gt':
+        conditions.push(`${expression} > ${bind(value)}`);
+        break;
+      case 'gte':
+        conditions.push(`${expression} >= ${bind(value)}`);
+        break;
+      case 'lt':
+        conditions.push(`${expression} < ${bind(value)}`);
+        break;
+      case 'lte':
+        conditions.push(`${expression} <= ${bind(value)}`);
+        break;
+      case 'in':
+      case 'notIn': {
+        const list = value as unknown[];
+        if (list.length === 0) {
+          conditions.push(operator === 'in' ? '1 = 0' : '1 = 1');
+        } else {
+          conditions.push(`${expression} ${operator === 'in' ? 'IN' : 'NOT IN'} (${list.map(bind).join(', ')})`);
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unknown operator '${operator}' in having`);
     }
   }
+  return conditions.length > 0 ? conditions.join(' AND ') : '1 = 1';
+}
 
-  // Process max fields
-  if (options._max && options._max.length > 0) {
-    result._max = {} as any;
-    for (const field of options._max) {
-      (result._max as any)[field] = calculateMax(data, field);
+/**
+ * Compile a having filter into a HAVING condition
+ * Fields take aggregate filters ({ views: { _sum: { gt: 10 } } }); fields in `by`
+ * can also be compared directly ({ country: 'DE' }); AND, OR and NOT combine them
+ */
+function buildHaving(model: AggregationModel, having: Record<string, unknown>, by: string[], values: unknown[]): string {
+  const conditions: string[] = [];
+
+  for (const [key, filter] of Object.entries(having)) {
+    if (filter === undefined) continue;
+
+    if (key === 'AND' || key === 'OR') {
+      const nested = (Array.isArray(filter) ? filter : [filter])
+        .map(item => `(${buildHaving(model, item as Record<string, unknown>, by, values) || '1 = 1'})`);
+      if (nested.length > 0) conditions.push(`(${nested.join(` ${key} `)})`);
+      continue;
+    }
+    if (key === 'NOT') {
+      conditions.push(`NOT (${buildHaving(model, filter as Record<string, unknown>, by, values) || '1 = 1'})`);
+      continue;
+    }
+
+    const isAggregateFilter = filter !== null && typeof filter === 'object' && !Array.isArray(filter)
+      && Object.keys(filter).some(name => name in AGGREGATE_FUNCTIONS);
+    if (!isAggregateFilter) {
+      if (!by.includes(key)) {
+        throw new Error(`Cannot filter '${key}' in having: it is not in by. Use an aggregate filter such as { _count: { gt: 1 } }`);
+      }
+      conditions.push(buildComparison(model.column(key), filter, values));
+      continue;
+    }
+
+    for (const [aggregate, comparison] of Object.entries(filter as Record<string, unknown>)) {
+      if (!(aggregate in AGGREGATE_FUNCTIONS)) {
+        throw new Error(`Unknown aggregate '${aggregate}' in having on '${key}'`);
+      }
+      conditions.push(buildComparison(aggregateExpression(model, aggregate as AggregateKey, key), comparison, values));
     }
   }
 
-  // Process count
-  if (options._count !== undefined) {
-    if (typeof options._count === 'boolean' && options._count) {
-      result._count = data.length;
-    } else if (Array.isArray(options._count) && options._count.length > 0) {
-      result._count = {} as any;
-      for (const field of options._count) {
-        (result._count as any)[field] = calculateCount(data, field);
+  return conditions.join(' AND ');
+}
+
+/**
+ * Compile the orderBy of a groupBy query
+ * Terms are fields in `by` ({ country: 'asc' }) or aggregates ({ _sum: { views: 'desc' } });
+ * `_count: 'desc'` orders by the number of rows in each group
+ */
+function buildGroupOrderBy(model: AggregationModel, orderBy: any, by: string[]): string {
+  const direction = (value: unknown): string => {
+    if (value !== 'asc' && value !== 'desc') {
+      throw new Error(`Invalid sort direction '${String(value)}' in groupBy orderBy. Use 'asc' or 'desc'.`);
+    }
+    return value.toUpperCase();
+  };
+
+  const terms: string[] = [];
+  for (const entry of Array.isArray(orderBy) ? orderBy : [orderBy]) {
+    for (const [key, value] of Object.entries(entry ?? {})) {
+      if (key in AGGREGATE_FUNCTIONS) {
+        if (typeof value === 'string') {
+          terms.push(`${aggregateExpression(model, key as AggregateKey)} ${direction(value)}`);
+          continue;
+        }
+        for (const [field, fieldDirection] of Object.entries(value as Record<string, unknown>)) {
+          terms.push(`${aggregateExpression(model, key as AggregateKey, field)} ${direction(fieldDirection)}`);
+        }
+      } else {
+        if (!by.includes(key)) {
+          throw new Error(`Cannot order groups by '${key}': it is not in by`);
+        }
+        terms.push(`${model.column(key)} ${direction(value)}`);
       }
     }
   }
 
-  return result;
+  return terms.length > 0 ? `ORDER BY ${terms.join(', ')}` : '';
 }
 
 /**
  * Create an extension that adds aggregation capabilities to all models
+ * aggregate and groupBy compile to a single SQL query, so rows are never loaded into memory
  */
 export function createAggregateExtension(): Extension {
   return {
@@ -321,88 +588,67 @@ export function createAggregateExtension(): Extension {
       $allModels: {
         /**
          * Aggregate data with various aggregation functions
+         * where, orderBy, cursor, take and skip select the rows that are aggregated
          */
-        async aggregate(this: any, options: AggregateFieldOptions = {}): Promise<AggregateResult> {
-          // First get all the data
-          const data = await this.findMany({});
+        async aggregate(this: any, options: AggregateOptions = {}): Promise<AggregateResult> {
+          const model = this as AggregationModel;
+          const columns = aggregateColumns(model, options, await decimalDigits(model, exactDecimalFields(model, options)));
+          if (columns.length === 0) {
+            return readAggregates({}, options, columns);
+          }
+
+          const values: unknown[] = [];
+          const whereClause = buildWhere(model, options.where, options.cursor, options.orderBy, values);
+          const orderByClause = options.cursor
+            ? model.buildKeysetOrderByClause(model.keysetOrderings(options.orderBy))
+            : (options.orderBy ? model.buildOrderByClause(options.orderBy) : '');
+          const source = options.take !== undefined || options.skip !== undefined
+            ? `(SELECT * FROM ${model.tableName} ${whereClause} ${orderByClause} ${buildLimit(options.take, options.skip)})`
+            : `${model.tableName} ${whereClause}`;
 
-          // Process the aggregations
-          return processAggregation(data, options);
+          const selectList = columns.map(column => `${column.expression} AS ${column.alias}`).join(', ');
+          const result = await model.db.execute<Record<string, unknown>>(`SELECT ${selectList} FROM ${source}`, values);
+
+          return readAggregates(result.data[0] ?? {}, options, columns);
         },
 
         /**
          * Group data by specified fields and apply aggregations
+         * having filters groups, and orderBy, take and skip apply to the groups
          */
         async groupBy(this: any, options: GroupByOptions): Promise<GroupByResult[]> {
           if (!options.by || options.by.length === 0) {
             throw new Error('groupBy requires at least one field to group by');
           }
 
-          // Get filtered data if where clause is provided
-          const queryOptions = {};
-          
-          if (options.where) queryOptions['where'] = options.where;
-          if (options.orderBy) queryOptions['orderBy'] = options.orderBy;
-          if (options.skip) queryOptions['skip'] = options.skip;
-          if (options.take) queryOptions['take'] = options.take;
-          if (options.cursor) queryOptions['cursor'] = options.cursor;
-          
-          const data = await this.findMany(queryOptions);
-
-          // Group the data by the specified fields
-          const groupedData = groupRecords(data, options.by);
-
-          // Process each group with the aggregation functions
-          const result: GroupByResult[] = [];
-
-          for (const [key, group] of Object.entries(groupedData)) {
-            // Extract the grouped values
-            const keyParts = key.split('|');
-            const groupEntry: any = {};
-
-            // Add the group by fields to the result
-            for (let i = 0; i < options.by.length; i++) {
-              const field = options.by[i];
-              let value = keyParts[i];
-
-              // Try to parse the value if it's a number or boolean
-              if (value === 'true') {
-                value = true;
-              } else if (value === 'false') {
-                value = false;
-              } else if (!isNaN(Number(value))) {
-                value = Number(value);
-              } else {
-                // Try to parse as JSON for objects
-                try {
-                  value = JSON.parse(value);
-                } catch (e) {
-                  // Keep as string if not valid JSON
-                }
-              }
-
-              groupEntry[field] = value;
-            }
-
-            // Add the aggregations
-            const aggregateOptions: AggregateFieldOptions = {
-              _sum: options._sum,
-              _avg: options._avg,
-              _min: options._min,
-              _max: options._max,
-              _count: options._count,
-            };
-
-            const aggregation = processAggregation(group, aggregateOptions);
-
-            // Combine group data with aggregations
-            result.push({
-              ...groupEntry,
-              ...aggregation,
-            });
+          const model = this as AggregationModel;
+          const by = options.by as string[];
+          for (const field of by) {
+            assertScalarField(model, field, 'groupBy');
           }
-
-          return result;
+          const columns = aggregateColumns(model, options, await decimalDigits(model, exactDecimalFields(model, options)));
+
+          const values: unknown[] = [];
+          const whereClause = buildWhere(model, options.where, options.cursor, undefined, values);
+          const havingCondition = options.having ? buildHaving(model, options.having, by, values) : '';
+          const byColumns = model.buildSelectClause(Object.fromEntries(by.map(field => [field, true])));
+          const selectList = [byColumns, ...columns.map(column => `${column.expression} AS ${column.alias}`)].join(', ');
+
+          const query = `
+            SELECT ${selectList} FROM ${model.tableName}
+            ${whereClause}
+            GROUP BY ${by.map(field => model.column(field)).join(', ')}
+            ${havingCondition ? `HAVING ${havingCondition}` : ''}
+            ${options.orderBy ? buildGroupOrderBy(model, options.orderBy, by) : ''}
+            ${buildLimit(options.take, options.skip)}
+          `;
+          const result = await model.db.execute<Record<string, unknown>>(query, values);
+
+          const byTypes = by.map(field => model.modelAst.fields.find(f => f.name === field)!.type.name);
+          return result.data.map(row => ({
+            ...Object.fromEntries(by.map((field, i) => [field, decodeScalar(byTypes[i], row[field])])),
+            ...readAggregates(row, options, columns),
+          }));
         }
       }
     }
@@ -10,7 +10,8 @@ import * as advancedExtensions from "./advanced";
 export * from "./types";
 export * from "./advanced";
 export * from "./internal-utils";
-// Note: aggregation and json extensions temporarily excluded due to build issues
+export * from "./aggregation";
+// Note: json extensions temporarily excluded due to build issues
 
 // Result extension utilities
 export interface ComputedFieldOptions {
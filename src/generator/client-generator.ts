@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { mappedName, quoteIdentifier } from './mapped-names';
 
 // Import types from our parser
 export interface PslModelAst {
@@ -7,6 +8,7 @@ export interface PslModelAst {
   name: string;
   fields: PslFieldAst[];
   attributes: PslAttributeAst[];
+  documentation?: string;
 }
 
 export interface PslFieldAst {
@@ -17,6 +19,7 @@ export interface PslFieldAst {
     isArray: boolean;
   };
   attributes: PslAttributeAst[];
+  documentation?: string;
 }
 
 export interface PslAttributeAst {
@@ -28,12 +31,14 @@ interface PslEnumAst {
   type: 'enum';
   name: string;
   values: string[];
+  documentation?: string;
 }
 
 interface PslTypeAst {
   type: 'type';
   name: string;
   fields: PslFieldAst[];
+  documentation?: string;
 }
 
 export interface PslViewAst {
@@ -41,6 +46,7 @@ export interface PslViewAst {
   name: string;
   fields: PslFieldAst[];
   attributes: PslAttributeAst[];
+  documentation?: string;
 }
 
 type PslAstNode = PslModelAst | PslEnumAst | PslTypeAst | PslViewAst | { type: string; [key: string]: any };
@@ -113,15 +119,12 @@ export class ClientGenerator {
   }
 
   /**
-   * Generate a client from a Prisma schema file
+   * Generate a client from a Prisma schema file or a folder of schema files
    */
   async generateFromSchemaFile(schemaPath: string): Promise<void> {
-    // Read the schema file
-    const schemaContent = fs.readFileSync(schemaPath, 'utf-8');
-
     // Parse the schema
-    const { parseSchema } = await import('../parser/index.js');
-    const ast = await parseSchema(schemaContent) as PslAstNode[];
+    const { parseSchemaFile } = await import('../parser/index.js');
+    const ast = await parseSchemaFile(schemaPath) as PslAstNode[];
 
     // Generate the client
     await this.generateFromAst(ast);
@@ -198,12 +201,12 @@ export class PrismaClient extends DrismifyClient {
   ${models.map(model => {
     const modelName = model.name;
     const modelVarName = modelName.charAt(0).toLowerCase() + modelName.slice(1);
-    return `public readonly ${modelVarName}: ${modelName};`;
+    return `${this.docComment(model.documentation, '  ').trimStart()}public readonly ${modelVarName}: ${modelName};`;
   }).join('\n  ')}
   ${views.map(view => {
     const viewName = view.name;
     const viewVarName = viewName.charAt(0).toLowerCase() + viewName.slice(1);
-    return `public readonly ${viewVarName}: ${viewName};`;
+    return `${this.docComment(view.documentation, '  ').trimStart()}public readonly ${viewVarName}: ${viewName};`;
   }).join('\n  ')}
 
   constructor(options: ClientOptions = { datasources: { db: {} } }) {
@@ -212,13 +215,13 @@ export class PrismaClient extends DrismifyClient {
     ${models.map(model => {
       const modelName = model.name;
       const modelVarName = modelName.charAt(0).toLowerCase() + modelName.slice(1);
-      const tableName = this.toSnakeCase(modelName);
+      const tableName = this.tableNameOf(model);
       return `this.${modelVarName} = new ${modelName}(this, ${JSON.stringify(model)}, '${tableName}', this.options.debug || false, this.options.log || []);`;
     }).join('\n    ')}
     ${views.map(view => {
       const viewName = view.name;
       const viewVarName = viewName.charAt(0).toLowerCase() + viewName.slice(1);
-      const tableName = this.toSnakeCase(viewName);
+      const tableName = this.tableNameOf(view);
       return `this.${viewVarName} = new ${viewName}(this, ${JSON.stringify(view)}, '${tableName}', this.options.debug || false, this.options.log || []);`;
     }).join('\n    ')}
   }
@@ -243,7 +246,7 @@ export * from './types';
     const enumTypes = enums.map(enumDef => {
       const enumName = enumDef.name;
       const enumValues = enumDef.values.map(value => `'${value}'`).join(' | ');
-      return `export type ${enumName} = ${enumValues};`;
+      return `${this.docComment(enumDef.documentation)}export type ${enumName} = ${enumValues};`;
     }).join('\n\n');
 
     const modelTypes = models.map(model => {
@@ -252,10 +255,10 @@ export * from './types';
         const fieldName = field.name;
         const fieldType = this.mapFieldType(field.type, enums, types);
         const isOptional = field.type.optional ? '?' : '';
-        return `  ${fieldName}${isOptional}: ${fieldType};`;
+        return `${this.docComment(field.documentation, '  ')}  ${fieldName}${isOptional}: ${fieldType};`;
       }).join('\n');
 
-      return `export type ${modelName} = {\n${fields}\n};`;
+      return `${this.docComment(model.documentation)}export type ${modelName} = {\n${fields}\n};`;
     }).join('\n\n');
 
     const inputTypes = models.map(model => {
@@ -265,21 +268,22 @@ export * from './types';
       const createFields = model.fields.map(field => {
         const fieldName = field.name;
         const fieldType = this.mapFieldType(field.type, enums, types);
-        const isOptional = field.type.optional ? '?' : '';
+        // The client stamps @updatedAt fields when they are left out
+        const isOptional = field.type.optional || field.attributes.some(attr => attr.name === 'updatedAt') ? '?' : '';
         return `  ${fieldName}${isOptional}: ${fieldType};`;
       }).join('\n');
 
       // Generate update input type
       const updateFields = model.fields.map(field => {
         const fieldName = field.name;
-        const fieldType = this.mapFieldType(field.type, enums, types);
+        const fieldType = this.updateFieldType(field, models, enums, types);
         return `  ${fieldName}?: ${fieldType};`;
       }).join('\n');
 
       // Generate where input type
       const whereFields = model.fields.map(field => {
         const fieldName = field.name;
-        const fieldType = this.mapFieldType(field.type, enums, types);
+        const fieldType = this.whereFieldType(field, enums, types);
         return `  ${fieldName}?: ${fieldType};`;
       }).join('\n');
 
@@ -295,9 +299,18 @@ export * from './types';
       // Generate order by input type
       const orderByFields = model.fields.map(field => {
         const fieldName = field.name;
-        return `  ${fieldName}?: 'asc' | 'desc';`;
+        if (models.some(m => m.name === field.type.name)) {
+          return field.type.isArray
+            ? `  ${fieldName}?: { _count?: SortOrder };`
+            : `  ${fieldName}?: ${field.type.name}OrderByInput;`;
+        }
+        return `  ${fieldName}?: SortOrder | SortOrderInput;`;
       }).join('\n');
 
+      // Generate the relation _count selection
+      const countType = this.relationCountType(model, models);
+      const countField = countType ? `\n  _count?: boolean | ${countType};` : '';
+
       return `
 export type ${modelName}CreateInput = {
 ${createFields}
@@ -320,13 +333,26 @@ ${orderByFields}
 };
 
 export type ${modelName}SelectInput = {
-${model.fields.map(field => `  ${field.name}?: boolean;`).join('\n')}
+${model.fields.map(field => models.some(m => m.name === field.type.name)
+  ? `  ${field.name}?: boolean | ${this.relationArgsType(field.type.name)};`
+  : `  ${field.name}?: boolean;`).join('\n')}${countField}
 };
 
 export type ${modelName}IncludeInput = {
 ${model.fields
   .filter(field => field.type.isArray || models.some(m => m.name === field.type.name))
-  .map(field => `  ${field.name}?: boolean;`)
+  .map(field => models.some(m => m.name === field.type.name)
+    ? `  ${field.name}?: boolean | ${this.relationArgsType(field.type.name)};`
+    : `  ${field.name}?: boolean;`)
+  .join('\n')}${countField}
+};
+
+export type ${modelName}Fluent = {
+${model.fields
+  .filter(field => models.some(m => m.name === field.type.name))
+  .map(field => field.type.isArray
+    ? `  ${field.name}(args?: ${this.relationArgsType(field.type.name)}): Promise<${field.type.name}[]>;`
+    : `  ${field.name}(args?: { select?: ${field.type.name}SelectInput; include?: ${field.type.name}IncludeInput }): Promise<${field.type.name} | null> & ${field.type.name}Fluent;`)
   .join('\n')}
 };
 `;
@@ -339,10 +365,10 @@ ${model.fields
         const fieldName = field.name;
         const fieldType = this.mapFieldType(field.type, enums, types);
         const isOptional = field.type.optional ? '?' : '';
-        return `  ${fieldName}${isOptional}: ${fieldType};`;
+        return `${this.docComment(field.documentation, '  ')}  ${fieldName}${isOptional}: ${fieldType};`;
       }).join('\n');
 
-      return `export type ${viewName} = {\n${fields}\n};`;
+      return `${this.docComment(view.documentation)}export type ${viewName} = {\n${fields}\n};`;
     }).join('\n\n');
 
     // Generate view input types (read-only, so no create/update)
@@ -352,7 +378,7 @@ ${model.fields
       // Generate where input type
       const whereFields = view.fields.map(field => {
         const fieldName = field.name;
-        const fieldType = this.mapFieldType(field.type, enums, types);
+        const fieldType = this.whereFieldType(field, enums, types);
         return `  ${fieldName}?: ${fieldType};`;
       }).join('\n');
 
@@ -397,13 +423,64 @@ ${view.fields.map(field => `  ${field.name}?: boolean;`).join('\n')}
         const fieldName = field.name;
         const fieldType = this.mapFieldType(field.type, enums, types);
         const isOptional = field.type.optional ? '?' : '';
-        return `  ${fieldName}${isOptional}: ${fieldType};`;
+        return `${this.docComment(field.documentation, '  ')}  ${fieldName}${isOptional}: ${fieldType};`;
       }).join('\n');
 
-      return `export type ${typeName} = {\n${fields}\n};`;
+      return `${this.docComment(typeDef.documentation)}export type ${typeName} = {\n${fields}\n};`;
     }).join('\n\n');
 
-    const content = `
+    const filterTypes = `export type QueryMode = 'default' | 'insensitive';
+
+export type SortOrder = 'asc' | 'desc';
+
+export type SortOrderInput = {
+  sort: SortOrder;
+  nulls?: 'first' | 'last';
+};
+
+export type StringFilter = {
+  equals?: string;
+  not?: string | null;
+  in?: string[];
+  notIn?: string[];
+  lt?: string;
+  lte?: string;
+  gt?: string;
+  gte?: string;
+  contains?: string;
+  startsWith?: string;
+  endsWith?: string;
+  mode?: QueryMode;
+};
+
+export type NumberFieldUpdateOperationsInput = {
+  set?: number;
+  increment?: number;
+  decrement?: number;
+  multiply?: number;
+  divide?: number;
+};
+
+export type BigIntFieldUpdateOperationsInput = {
+  set?: bigint;
+  increment?: bigint;
+  decrement?: bigint;
+  multiply?: bigint;
+  divide?: bigint;
+};
+
+export type ListFieldUpdateOperationsInput<T> = {
+  set?: T[];
+  push?: T | T[];
+};`;
+
+    // Decimal fields are typed with the runtime Decimal class
+    const usesDecimal = [...models, ...types, ...views].some(node => node.fields.some(field => field.type.name === 'Decimal'));
+    const scalarImports = usesDecimal ? `import { Decimal } from '../../src/client/scalars';\n` : '';
+
+    const content = `${scalarImports}
+${filterTypes}
+
 ${enumTypes}
 
 ${compositeTypes}
@@ -430,7 +507,7 @@ ${viewInputTypes}
     types: PslTypeAst[]
   ): Promise<void> {
     const modelName = model.name;
-    const tableName = this.toSnakeCase(modelName);
+    const tableName = this.tableNameOf(model);
 
     const content = `
 import { DatabaseAdapter, TransactionClient } from '../../src/adapters';
@@ -444,11 +521,12 @@ import {
   ${modelName}WhereUniqueInput,
   ${modelName}OrderByInput,
   ${modelName}SelectInput,
-  ${modelName}IncludeInput
+  ${modelName}IncludeInput,
+  ${modelName}Fluent
 } from '../types';
 
 /**
- * ${modelName} model client
+ * ${modelName} model client${this.docLines(model.documentation)}
  */
 export class ${modelName} extends BaseModelClient<
   ${modelName},
@@ -470,6 +548,31 @@ export class ${modelName} extends BaseModelClient<
   ) {
     super(client, modelAst, '${tableName}', debug, log, dbInstance);
   }
+
+  /**
+   * Find a record by its unique identifier; relations can be chained onto the result
+   */
+  findUnique(args: {
+    where: ${modelName}WhereUniqueInput;
+    select?: ${modelName}SelectInput;
+    include?: ${modelName}IncludeInput;
+  }): Promise<${modelName} | null> & ${modelName}Fluent {
+    return super.findUnique(args) as Promise<${modelName} | null> & ${modelName}Fluent;
+  }
+
+  /**
+   * Find the first record that matches the filter; relations can be chained onto the result
+   */
+  findFirst(args: {
+    where?: ${modelName}WhereInput;
+    orderBy?: ${modelName}OrderByInput | ${modelName}OrderByInput[];
+    select?: ${modelName}SelectInput;
+    include?: ${modelName}IncludeInput;
+    skip?: number;
+    distinct?: Array<keyof ${modelName} & string>;
+  } = {}): Promise<${modelName} | null> & ${modelName}Fluent {
+    return super.findFirst(args) as Promise<${modelName} | null> & ${modelName}Fluent;
+  }
 }
 `;
 
@@ -493,7 +596,7 @@ export class ${modelName} extends BaseModelClient<
     views: PslViewAst[]
   ): Promise<void> {
     const viewName = view.name;
-    const tableName = this.toSnakeCase(viewName);
+    const tableName = this.tableNameOf(view);
 
     const content = `
 import { DatabaseAdapter, TransactionClient } from '../../src/adapters';
@@ -622,6 +725,10 @@ main().catch(console.error);
       case 'Int':
       case 'Float':
         return isArray ? 'number[]' : 'number';
+      case 'BigInt':
+        return isArray ? 'bigint[]' : 'bigint';
+      case 'Decimal':
+        return isArray ? 'Decimal[]' : 'Decimal';
       case 'Boolean':
         return isArray ? 'boolean[]' : 'boolean';
       case 'DateTime':
@@ -636,6 +743,80 @@ main().catch(console.error);
     }
   }
 
+  /**
+   * JSDoc block for a /// doc comment, or an empty string when there is none
+   */
+  private docComment(documentation: string | undefined, indent = ''): string {
+    return documentation ? `${indent}/**${this.docLines(documentation, indent)}\n${indent} */\n` : '';
+  }
+
+  /**
+   * The lines of a /// doc comment as JSDoc lines, each on a new line, so they can extend an existing block
+   */
+  private docLines(documentation: string | undefined, indent = ''): string {
+    if (!documentation) {
+      return '';
+    }
+    return documentation
+      .replace(/\*\//g, '*\\/')
+      .split('\n')
+      .map(line => `\n${indent} * ${line}`.trimEnd())
+      .join('');
+  }
+
+  /**
+   * Type of a field in an update input; numbers and scalar lists also accept atomic operations
+   */
+  private updateFieldType(field: PslFieldAst, models: PslModelAst[], enums: PslEnumAst[], types: PslTypeAst[]): string {
+    const fieldType = this.mapFieldType(field.type, enums, types);
+    if (models.some(m => m.name === field.type.name)) {
+      return fieldType;
+    }
+    if (field.type.isArray) {
+      const itemType = this.mapFieldType({ ...field.type, isArray: false }, enums, types);
+      return `${fieldType} | ListFieldUpdateOperationsInput<${itemType}>`;
+    }
+    if (field.type.name === 'BigInt') {
+      return `${fieldType} | BigIntFieldUpdateOperationsInput`;
+    }
+    return field.type.name === 'Int' || field.type.name === 'Float'
+      ? `${fieldType} | NumberFieldUpdateOperationsInput`
+      : fieldType;
+  }
+
+  /**
+   * Type of a field in a where input; scalar String fields also accept a StringFilter
+   */
+  private whereFieldType(field: PslFieldAst, enums: PslEnumAst[], types: PslTypeAst[]): string {
+    const fieldType = this.mapFieldType(field.type, enums, types);
+    return field.type.name === 'String' && !field.type.isArray ? `${fieldType} | StringFilter` : fieldType;
+  }
+
+  /**
+   * Type of the arguments a relation accepts inside select or include
+   */
+  private relationArgsType(relatedModelName: string): string {
+    return `{ where?: ${relatedModelName}WhereInput; orderBy?: ${relatedModelName}OrderByInput | ${relatedModelName}OrderByInput[]; take?: number; skip?: number; select?: ${relatedModelName}SelectInput; include?: ${relatedModelName}IncludeInput }`;
+  }
+
+  /**
+   * Type of the `_count` selection of a model, or null when it has no to-many relations
+   */
+  private relationCountType(model: PslModelAst, models: PslModelAst[]): string | null {
+    const countable = model.fields.filter(field => field.type.isArray && models.some(m => m.name === field.type.name));
+    if (countable.length === 0) {
+      return null;
+    }
+    return `{ select?: { ${countable.map(field => `${field.name}?: boolean | { where?: ${field.type.name}WhereInput }`).join('; ')} } }`;
+  }
+
+  /**
+   * Table name of a model or view: its @@map name, or the snake_case model name
+   */
+  private tableNameOf(model: PslModelAst | PslViewAst): string {
+    return quoteIdentifier(mappedName(model.attributes) ?? this.toSnakeCase(model.name));
+  }
+
   /**
    * Convert a string from PascalCase to snake_case
    */
@@ -1,2 +1,8 @@
 // Export client generator
 export * from './client-generator';
+
+// Export @map and @@map name helpers
+export * from './mapped-names';
+
+// Export @db.* native type helpers
+export * from './native-types';
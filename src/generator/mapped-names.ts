@@ -0,0 +1,46 @@
+/**
+ * Database names given by @map and @@map
+ * The client, the generator, the schema differ and the Drizzle translator all read
+ * table and column names through these helpers, so a mapping applies everywhere
+ */
+
+interface MappableAttribute {
+  name: string;
+  args: any;
+}
+
+/**
+ * The name given by a @map or @@map attribute, or undefined when there is none
+ * The parser keeps @map("name") as the bare string and @map(name: "name") as raw text
+ */
+export function mappedName(attributes: MappableAttribute[]): string | undefined {
+  const args = attributes.find(attr => attr.name === 'map')?.args;
+  if (typeof args === 'string') {
+    const named = /^\s*name\s*:\s*"([^"]*)"\s*$/.exec(args);
+    return named ? named[1] : args;
+  }
+  if (args && typeof args === 'object' && typeof args.name === 'string') {
+    return args.name;
+  }
+  return undefined;
+}
+
+/**
+ * Quote an identifier for SQLite when it is not a plain word,
+ * so mapped names such as "First Name" or "order" can be used in queries
+ */
+export function quoteIdentifier(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !SQL_KEYWORDS.has(name.toLowerCase())
+    ? name
+    : `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Keywords that cannot be used as bare column or table names
+ */
+const SQL_KEYWORDS = new Set([
+  'select', 'from', 'where', 'group', 'order', 'by', 'limit', 'offset', 'table', 'index',
+  'create', 'drop', 'alter', 'insert', 'update', 'delete', 'values', 'set', 'and', 'or',
+  'not', 'null', 'join', 'on', 'as', 'in', 'is', 'default', 'check', 'unique', 'primary',
+  'key', 'references', 'foreign', 'constraint', 'case', 'when', 'then', 'else', 'end',
+]);
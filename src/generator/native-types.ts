@@ -0,0 +1,109 @@
+/**
+ * Native database type attributes such as @db.VarChar(255), @db.Decimal(10, 2) or @db.ObjectId
+ * The parser keeps them as attributes named "db.<Type>" whose args list the type arguments
+ */
+
+interface NativeTypeAttribute {
+  name: string;
+  args: any;
+}
+
+/**
+ * A native type: its name without the datasource prefix and its arguments
+ */
+export interface NativeType {
+  name: string;
+  args: Array<string | number>;
+}
+
+/**
+ * Native type names whose SQL spelling is not simply the upper-cased name
+ */
+const SQL_TYPE_NAMES: Record<string, string> = {
+  DoublePrecision: 'DOUBLE PRECISION',
+  UnsignedInt: 'INT UNSIGNED',
+  UnsignedBigInt: 'BIGINT UNSIGNED',
+  UnsignedSmallInt: 'SMALLINT UNSIGNED',
+  UnsignedTinyInt: 'TINYINT UNSIGNED',
+  UnsignedMediumInt: 'MEDIUMINT UNSIGNED',
+};
+
+/**
+ * Native type names in Prisma's spelling, keyed by their upper-cased SQL name
+ */
+const PRISMA_TYPE_NAMES: Record<string, string> = Object.fromEntries([
+  'Text', 'TinyText', 'MediumText', 'LongText', 'VarChar', 'Char', 'NVarChar', 'NChar', 'NText', 'Citext',
+  'Integer', 'Int', 'SmallInt', 'TinyInt', 'MediumInt', 'BigInt', 'Decimal', 'Money', 'Real', 'Double', 'Float',
+  'Date', 'Time', 'Timetz', 'Timestamp', 'Timestamptz', 'DateTime', 'DateTime2', 'Json', 'JsonB',
+  'Blob', 'TinyBlob', 'MediumBlob', 'LongBlob', 'ByteA', 'Binary', 'VarBinary', 'Bit', 'VarBit', 'Uuid', 'Xml', 'Inet',
+].map(name => [name.toUpperCase(), name]).concat(
+  Object.entries(SQL_TYPE_NAMES).map(([name, sql]) => [sql, name])
+));
+
+/**
+ * The native type given by a @db.* attribute, or undefined when there is none
+ */
+export function nativeType(attributes: NativeTypeAttribute[]): NativeType | undefined {
+  const attribute = attributes.find(attr => /^\w+\.\w+$/.test(attr.name));
+  if (!attribute) {
+    return undefined;
+  }
+  return {
+    name: attribute.name.slice(attribute.name.indexOf('.') + 1),
+    args: Array.isArray(attribute.args) ? attribute.args : [],
+  };
+}
+
+/**
+ * Names of the fields declared with a native type, such as the @db.ObjectId fields of a MongoDB model
+ */
+export function nativeTypeFields(fields: Array<{ name: string; attributes: NativeTypeAttribute[] }>, typeName: string): string[] {
+  return fields.filter(field => nativeType(field.attributes)?.name === typeName).map(field => field.name);
+}
+
+/**
+ * SQL column type of a native type: VarChar(255) → VARCHAR(255), DoublePrecision → DOUBLE PRECISION
+ */
+export function nativeSqlType(type: NativeType): string {
+  const name = SQL_TYPE_NAMES[type.name] ?? type.name.toUpperCase();
+  return type.args.length > 0 ? `${name}(${type.args.join(', ')})` : name;
+}
+
+/**
+ * The native type of a declared SQL column type: VARCHAR(255) → VarChar with args [255]
+ */
+export function nativeTypeOfSqlType(sqlType: string): NativeType | undefined {
+  const match = /^\s*([A-Za-z][A-Za-z0-9 ]*?)\s*(?:\((.*)\))?\s*$/.exec(sqlType);
+  if (!match) {
+    return undefined;
+  }
+  const sqlName = match[1].toUpperCase().replace(/\s+/g, ' ');
+  const name = PRISMA_TYPE_NAMES[sqlName]
+    ?? sqlName.split(' ').map(word => word.charAt(0) + word.slice(1).toLowerCase()).join('');
+  const args = match[2]?.split(',').map(arg => arg.trim()).filter(arg => arg.length > 0) ?? [];
+  return { name, args: args.map(arg => /^\d+$/.test(arg) ? Number(arg) : arg) };
+}
+
+/**
+ * The @db.* attribute for a declared SQL column type: VARCHAR(255) → @db.VarChar(255)
+ */
+export function nativeTypeAttribute(sqlType: string): string {
+  const type = nativeTypeOfSqlType(sqlType);
+  if (!type) {
+    return '';
+  }
+  return type.args.length > 0 ? `@db.${type.name}(${type.args.join(', ')})` : `@db.${type.name}`;
+}
+
+/**
+ * Column affinity SQLite gives a declared type, following its rules in order:
+ * INT → INTEGER; CHAR, CLOB or TEXT → TEXT; BLOB or no type → BLOB; REAL, FLOA or DOUB → REAL; else NUMERIC
+ */
+export function sqliteAffinity(sqlType: string): 'INTEGER' | 'TEXT' | 'BLOB' | 'REAL' | 'NUMERIC' {
+  const type = sqlType.toUpperCase();
+  if (type.includes('INT')) return 'INTEGER';
+  if (type.includes('CHAR') || type.includes('CLOB') || type.includes('TEXT')) return 'TEXT';
+  if (type.includes('BLOB') || type.trim() === '') return 'BLOB';
+  if (type.includes('REAL') || type.includes('FLOA') || type.includes('DOUB')) return 'REAL';
+  return 'NUMERIC';
+}
@@ -91,32 +91,25 @@ export class MigrationGenerator {
     newSchemaPath: string,
     name: string
   ): Promise<string | null> {
-    // Read the schema files
-    const oldSchemaContent = fs.readFileSync(oldSchemaPath, 'utf-8');
-    const newSchemaContent = fs.readFileSync(newSchemaPath, 'utf-8');
-    
     // Parse the schemas
-    const parser = require('../parser/generatedParser.js');
-    const oldAst = parser.parse(oldSchemaContent) as PslAstNode[];
-    const newAst = parser.parse(newSchemaContent) as PslAstNode[];
+    const { parseSchemaFile } = await import('../parser/index.js');
+    const oldAst = await parseSchemaFile(oldSchemaPath) as PslAstNode[];
+    const newAst = await parseSchemaFile(newSchemaPath) as PslAstNode[];
     
     // Generate the migration
     return this.generateMigration(oldAst, newAst, name);
   }
   
   /**
-   * Generate a migration from a schema file
+   * Generate a migration from a schema file or a folder of schema files
    */
   async generateMigrationFromSchemaFile(
     schemaPath: string,
     name: string
   ): Promise<string | null> {
-    // Read the schema file
-    const schemaContent = fs.readFileSync(schemaPath, 'utf-8');
-
     // Parse the schema
-    const parser = require('../parser/generatedParser.js');
-    const ast = parser.parse(schemaContent) as PslAstNode[];
+    const { parseSchemaFile } = await import('../parser/index.js');
+    const ast = await parseSchemaFile(schemaPath) as PslAstNode[];
 
     // Find the latest migration file
     const migrationFiles = fs.readdirSync(this.options.migrationsDir)
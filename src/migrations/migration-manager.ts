@@ -228,7 +228,9 @@ export class MigrationManager {
       }
 
       // Execute the migration SQL
+      // Statements prepared before the schema change would keep the old column lists
       await this.adapter.executeRaw(migration.sql);
+      this.adapter.clearStatementCache?.();
 
       // Record the migration
       await this.recordMigration(migration);
@@ -342,6 +344,7 @@ export class MigrationManager {
 
         try {
           await this.adapter.executeRaw(`DROP TABLE IF EXISTS ${table}`);
+          this.adapter.clearStatementCache?.();
 
           results.push({
             name: `drop_table_${table}`,
@@ -1,4 +1,6 @@
 import { SchemaChange, SchemaChangeType } from './types';
+import { mappedName, quoteIdentifier } from '../generator/mapped-names';
+import { nativeSqlType, nativeType, sqliteAffinity } from '../generator/native-types';
 
 // Import types from our parser
 interface PslModelAst {
@@ -52,6 +54,7 @@ export interface SchemaDifferOptions {
  */
 export class SchemaDiffer {
   private options: SchemaDifferOptions;
+  private models = new Map<string, PslModelAst>();
 
   constructor(options: SchemaDifferOptions = {}) {
     this.options = options;
@@ -83,6 +86,9 @@ export class SchemaDiffer {
       newModelMap.set(model.name, model);
     }
 
+    // Foreign keys resolve the referenced table and column names through these models
+    this.models = new Map([...oldModelMap, ...newModelMap]);
+
     // Find added models
     for (const model of newModels) {
       if (!oldModelMap.has(model.name)) {
@@ -103,8 +109,8 @@ export class SchemaDiffer {
       if (!newModelMap.has(model.name)) {
         tableChanges.push({
           type: SchemaChangeType.DROP_TABLE,
-          tableName: this.toSnakeCase(model.name),
-          sql: `DROP TABLE IF EXISTS ${this.toSnakeCase(model.name)};`
+          tableName: this.tableNameOf(model),
+          sql: `DROP TABLE IF EXISTS ${quoteIdentifier(this.tableNameOf(model))};`
         });
       }
     }
@@ -138,7 +144,7 @@ export class SchemaDiffer {
    * Generate CREATE TABLE changes for a model
    */
   private generateCreateTableChanges(model: PslModelAst): SchemaChange[] {
-    const tableName = this.toSnakeCase(model.name);
+    const tableName = this.tableNameOf(model);
     const columns: string[] = [];
     const primaryKey: string[] = [];
     const uniqueConstraints: string[] = [];
@@ -153,8 +159,8 @@ export class SchemaDiffer {
         continue;
       }
 
-      const columnName = this.toSnakeCase(field.name);
-      const columnType = this.mapFieldTypeToSqlType(field.type);
+      const columnName = quoteIdentifier(this.columnNameOf(model, field.name));
+      const columnType = this.columnTypeOf(field);
       let columnDef = `${columnName} ${columnType}`;
 
       // Add constraints
@@ -189,13 +195,16 @@ export class SchemaDiffer {
       // Check for relation/foreign key
       const relationAttr = field.attributes.find(attr => attr.name === 'relation');
       if (relationAttr && relationAttr.args && relationAttr.args.fields && relationAttr.args.references) {
-        const referencedTable = this.toSnakeCase(field.type.name);
+        const referencedModel = this.models.get(field.type.name);
+        const referencedTable = referencedModel ? this.tableNameOf(referencedModel) : this.toSnakeCase(field.type.name);
         const fieldName = relationAttr.args.fields[0];
-        const referencedField = relationAttr.args.references[0];
+        const referencedField = referencedModel
+          ? this.columnNameOf(referencedModel, relationAttr.args.references[0])
+          : this.toSnakeCase(relationAttr.args.references[0]);
 
         // Build foreign key constraint with referential actions
         const constraintName = relationAttr.args.name ? `CONSTRAINT ${relationAttr.args.name} ` : '';
-        let foreignKeyConstraint = `${constraintName}FOREIGN KEY ("${this.toSnakeCase(fieldName)}") REFERENCES "${referencedTable}"("${this.toSnakeCase(referencedField)}")`;
+        let foreignKeyConstraint = `${constraintName}FOREIGN KEY ("${this.columnNameOf(model, fieldName)}") REFERENCES "${referencedTable}"("${referencedField}")`;
 
         // Add referential actions if specified
         if (relationAttr.args.onDelete) {
@@ -209,22 +218,7 @@ export class SchemaDiffer {
       }
 
       // Check for default value
-      const defaultAttr = field.attributes.find(attr => attr.name === 'default');
-      if (defaultAttr) {
-        if (defaultAttr.args && typeof defaultAttr.args === 'object' && defaultAttr.args.type === 'function') {
-          if (defaultAttr.args.name === 'now') {
-            columnDef += ' DEFAULT CURRENT_TIMESTAMP';
-          } else if (defaultAttr.args.name === 'uuid') {
-            columnDef += ' DEFAULT (uuid())';
-          } else if (defaultAttr.args.name === 'cuid') {
-            columnDef += ' DEFAULT (cuid())';
-          }
-        } else if (typeof defaultAttr.args === 'string') {
-          columnDef += ` DEFAULT '${defaultAttr.args}'`;
-        } else if (typeof defaultAttr.args === 'boolean' || typeof defaultAttr.args === 'number') {
-          columnDef += ` DEFAULT ${defaultAttr.args}`;
-        }
-      }
+      columnDef += this.defaultClause(field);
 
       columns.push(columnDef);
     }
@@ -236,11 +230,11 @@ export class SchemaDiffer {
           const indexName = attr.args.name || `idx_${tableName}_${attr.args.fields.join('_')}`;
           indexes.push({
             name: indexName,
-            columns: attr.args.fields.map((f: string) => this.toSnakeCase(f))
+            columns: attr.args.fields.map((f: string) => quoteIdentifier(this.columnNameOf(model, f)))
           });
         } else if (attr.name === 'unique' && attr.args && attr.args.fields && Array.isArray(attr.args.fields)) {
           const constraintName = attr.args.name ? `CONSTRAINT ${attr.args.name} ` : '';
-          uniqueConstraints.push(`${constraintName}UNIQUE (${attr.args.fields.map((f: string) => this.toSnakeCase(f)).join(', ')})`);
+          uniqueConstraints.push(`${constraintName}UNIQUE (${attr.args.fields.map((f: string) => quoteIdentifier(this.columnNameOf(model, f))).join(', ')})`);
         } else if (attr.name === 'check' && attr.args && attr.args.constraint) {
           const constraintName = attr.args.name ? `CONSTRAINT ${attr.args.name} ` : '';
           checkConstraints.push(`${constraintName}CHECK (${attr.args.constraint})`);
@@ -279,7 +273,7 @@ export class SchemaDiffer {
         type: SchemaChangeType.CREATE_INDEX,
         tableName,
         indexName: index.name,
-        sql: `CREATE INDEX ${index.name} ON ${tableName} (${index.columns.join(', ')});`
+        sql: `CREATE INDEX ${index.name} ON ${quoteIdentifier(tableName)} (${index.columns.join(', ')});`
       });
     }
 
@@ -291,7 +285,7 @@ export class SchemaDiffer {
    */
   private diffModels(oldModel: PslModelAst, newModel: PslModelAst): SchemaChange[] {
     const changes: SchemaChange[] = [];
-    const tableName = this.toSnakeCase(newModel.name);
+    const tableName = this.tableNameOf(newModel);
 
     // Create maps for faster lookup
     const oldFieldMap = new Map<string, PslFieldAst>();
@@ -311,8 +305,8 @@ export class SchemaDiffer {
     // Find added fields
     for (const field of newModel.fields) {
       if (!field.type.isArray && !oldFieldMap.has(field.name)) {
-        const columnName = this.toSnakeCase(field.name);
-        const columnType = this.mapFieldTypeToSqlType(field.type);
+        const columnName = this.columnNameOf(newModel, field.name);
+        const columnType = this.columnTypeOf(field);
         let columnDef = `${columnType}`;
 
         // Add constraints
@@ -321,28 +315,13 @@ export class SchemaDiffer {
         }
 
         // Check for default value
-        const defaultAttr = field.attributes.find(attr => attr.name === 'default');
-        if (defaultAttr) {
-          if (defaultAttr.args && typeof defaultAttr.args === 'object' && defaultAttr.args.type === 'function') {
-            if (defaultAttr.args.name === 'now') {
-              columnDef += ' DEFAULT CURRENT_TIMESTAMP';
-            } else if (defaultAttr.args.name === 'uuid') {
-              columnDef += ' DEFAULT (uuid())';
-            } else if (defaultAttr.args.name === 'cuid') {
-              columnDef += ' DEFAULT (cuid())';
-            }
-          } else if (typeof defaultAttr.args === 'string') {
-            columnDef += ` DEFAULT '${defaultAttr.args}'`;
-          } else if (typeof defaultAttr.args === 'boolean' || typeof defaultAttr.args === 'number') {
-            columnDef += ` DEFAULT ${defaultAttr.args}`;
-          }
-        }
+        columnDef += this.defaultClause(field);
 
         changes.push({
           type: SchemaChangeType.ALTER_TABLE_ADD_COLUMN,
           tableName,
           columnName,
-          sql: `ALTER TABLE ${tableName} ADD COLUMN ${columnName} ${columnDef};`
+          sql: `ALTER TABLE ${quoteIdentifier(tableName)} ADD COLUMN ${quoteIdentifier(columnName)} ${columnDef};`
         });
       }
     }
@@ -367,7 +346,7 @@ export class SchemaDiffer {
           type: SchemaChangeType.CREATE_INDEX,
           tableName,
           indexName: newIndex.name,
-          sql: `CREATE INDEX ${newIndex.name} ON ${tableName} (${newIndex.columns.join(', ')});`
+          sql: `CREATE INDEX ${newIndex.name} ON ${quoteIdentifier(tableName)} (${newIndex.columns.join(', ')});`
         });
       }
     }
@@ -393,7 +372,7 @@ export class SchemaDiffer {
    * Extract indexes from a model
    */
   private extractIndexes(model: PslModelAst): { name: string; columns: string[] }[] {
-    const tableName = this.toSnakeCase(model.name);
+    const tableName = this.tableNameOf(model);
     const indexes: { name: string; columns: string[] }[] = [];
 
     if (model.attributes) {
@@ -402,7 +381,7 @@ export class SchemaDiffer {
           const indexName = attr.args.name || `idx_${tableName}_${attr.args.fields.join('_')}`;
           indexes.push({
             name: indexName,
-            columns: attr.args.fields.map((f: string) => this.toSnakeCase(f))
+            columns: attr.args.fields.map((f: string) => quoteIdentifier(this.columnNameOf(model, f)))
           });
         }
       }
@@ -411,6 +390,55 @@ export class SchemaDiffer {
     return indexes;
   }
 
+  /**
+   * DEFAULT clause for a field's @default value, or an empty string
+   * BigInt defaults too large for a JavaScript number arrive from the parser as text and are
+   * written as integer literals; Decimal defaults are written as text to match the column
+   */
+  private defaultClause(field: PslFieldAst): string {
+    const defaultAttr = field.attributes.find(attr => attr.name === 'default');
+    if (!defaultAttr) {
+      return '';
+    }
+
+    const args = defaultAttr.args;
+    if (args && typeof args === 'object' && args.type === 'function') {
+      if (args.name === 'now') {
+        return ' DEFAULT CURRENT_TIMESTAMP';
+      } else if (args.name === 'uuid') {
+        return ' DEFAULT (uuid())';
+      } else if (args.name === 'cuid') {
+        return ' DEFAULT (cuid())';
+      }
+    } else if (field.type.name === 'BigInt' && /^\d+$/.test(String(args))) {
+      return ` DEFAULT ${args}`;
+    } else if (field.type.name === 'Decimal' && (typeof args === 'number' || typeof args === 'string')) {
+      return ` DEFAULT '${args}'`;
+    } else if (typeof args === 'string') {
+      return ` DEFAULT '${args}'`;
+    } else if (typeof args === 'boolean' || typeof args === 'number') {
+      return ` DEFAULT ${args}`;
+    }
+    return '';
+  }
+
+  /**
+   * SQL column type of a field: its @db.* native type when SQLite gives that the same
+   * affinity as the default type, so stored values keep their representation
+   * (@db.VarChar(255) on a String is kept; @db.Decimal(10, 2) would turn Decimal text into floats)
+   */
+  private columnTypeOf(field: PslFieldAst): string {
+    const defaultType = this.mapFieldTypeToSqlType(field.type);
+    const native = nativeType(field.attributes);
+    if (native) {
+      const sqlType = nativeSqlType(native);
+      if (sqliteAffinity(sqlType) === sqliteAffinity(defaultType)) {
+        return sqlType;
+      }
+    }
+    return defaultType;
+  }
+
   /**
    * Map a field type to a SQL type
    */
@@ -422,6 +450,10 @@ export class SchemaDiffer {
         return 'TEXT';
       case 'Int':
         return 'INTEGER';
+      case 'BigInt':
+        return 'INTEGER'; // SQLite integers are 64-bit
+      case 'Decimal':
+        return 'TEXT'; // Kept as text, as NUMERIC affinity would round through a float
       case 'Float':
         return 'REAL';
       case 'Boolean':
@@ -438,6 +470,21 @@ export class SchemaDiffer {
     }
   }
 
+  /**
+   * Table name of a model: its @@map name, or the model name in snake_case
+   */
+  private tableNameOf(model: PslModelAst): string {
+    return mappedName(model.attributes) ?? this.toSnakeCase(model.name);
+  }
+
+  /**
+   * Column name of a model field: its @map name, or the field name in snake_case
+   */
+  private columnNameOf(model: PslModelAst, fieldName: string): string {
+    const field = model.fields.find(f => f.name === fieldName);
+    return (field && mappedName(field.attributes)) ?? this.toSnakeCase(fieldName);
+  }
+
   /**
    * Convert a string from PascalCase to snake_case
    */
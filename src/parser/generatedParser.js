@@ -142,7 +142,13 @@ function peg$parse(input, options) {
       peg$startRuleFunction  = peg$parseSchema,
 
       peg$c0 = function(elements) {
-        return elements.filter(e => e !== null && e.type !== 'comment');
+        const blocks = elements.filter(e => e !== null && e.type !== 'comment');
+        // Comments after the last block are kept on it as afterComments
+        const afterComments = blocks.length > 0 ? commentsBefore(input.length) : undefined;
+        if (afterComments) {
+          blocks[blocks.length - 1].afterComments = afterComments;
+        }
+        return blocks;
       },
       peg$c1 = "datasource",
       peg$c2 = peg$literalExpectation("datasource", false),
@@ -150,31 +156,33 @@ function peg$parse(input, options) {
       peg$c4 = peg$literalExpectation("{", false),
       peg$c5 = "}",
       peg$c6 = peg$literalExpectation("}", false),
-      peg$c7 = function(identifier, assignments) {
+      peg$c7 = function(start, identifier, assignments, end) {
         const block = { type: "datasource", name: identifier, assignments: {} };
         assignments.forEach(a => {
           if (a) block.assignments[a.key] = a.value;
         });
-        return block;
+        block.assignmentComments = memberCommentMap(assignments);
+        return withBlockComments(block, start, end);
       },
       peg$c8 = "generator",
       peg$c9 = peg$literalExpectation("generator", false),
-      peg$c10 = function(identifier, assignments) {
+      peg$c10 = function(start, identifier, assignments, end) {
         const block = { type: "generator", name: identifier, assignments: {} };
         assignments.forEach(a => {
           if (a) block.assignments[a.key] = a.value;
         });
-        return block;
+        block.assignmentComments = memberCommentMap(assignments);
+        return withBlockComments(block, start, end);
       },
       peg$c11 = "model",
       peg$c12 = peg$literalExpectation("model", false),
-      peg$c13 = function(modelName, fields, modelAttributes) {
-        return {
+      peg$c13 = function(start, modelName, fields, modelAttributes, end) {
+        return withBlockComments({
           type: "model",
           name: modelName,
           fields: fields.filter(f => f !== null),
           attributes: modelAttributes.filter(a => a !== null)
-        };
+        }, start, end);
       },
       peg$c14 = "@@",
       peg$c15 = peg$literalExpectation("@@", false),
@@ -182,7 +190,7 @@ function peg$parse(input, options) {
       peg$c17 = peg$literalExpectation("(", false),
       peg$c18 = ")",
       peg$c19 = peg$literalExpectation(")", false),
-      peg$c20 = function(attributeName, argumentsGroup) {
+      peg$c20 = function(start, attributeName, argumentsGroup) {
         let finalArgs = null;
         if (argumentsGroup) {
           finalArgs = argumentsGroup[2]; // argValue is the result of ParsedAttributeArgument? at index 2
@@ -191,13 +199,13 @@ function peg$parse(input, options) {
         // Process arguments based on attribute type
         finalArgs = processAttributeArgs(attributeName, finalArgs);
 
-        return {
+        return Object.assign({
           name: attributeName,
           args: finalArgs
-        };
+        }, memberComments(start));
       },
-      peg$c21 = function(fieldName, fieldType, attributes) {
-        return { name: fieldName, type: fieldType, attributes: attributes };
+      peg$c21 = function(start, fieldName, fieldType, attributes) {
+        return withDocumentation({ name: fieldName, type: fieldType, attributes: attributes }, start);
       },
       peg$c22 = "[]",
       peg$c23 = peg$literalExpectation("[]", false),
@@ -212,7 +220,21 @@ function peg$parse(input, options) {
       },
       peg$c27 = "@",
       peg$c28 = peg$literalExpectation("@", false),
-      peg$c29 = function(attributeName, argumentsGroup) {
+      peg$c29 = ".",
+      peg$c30 = peg$literalExpectation(".", false),
+      peg$c31 = function(datasourceName, typeName, argumentsGroup) {
+        return {
+          name: datasourceName + "." + typeName,
+          args: argumentsGroup ? (argumentsGroup[2] || []) : null
+        };
+      },
+      peg$c32 = ",",
+      peg$c33 = peg$literalExpectation(",", false),
+      peg$c34 = function(first, next) { return next; },
+      peg$c35 = function(first, rest) {
+        return [first].concat(rest);
+      },
+      peg$c36 = function(attributeName, argumentsGroup) {
         let finalArgs = null;
         if (argumentsGroup) {
           finalArgs = argumentsGroup[2]; // argValue is the result of ParsedAttributeArgument? at index 2
@@ -231,54 +253,57 @@ function peg$parse(input, options) {
           args: finalArgs
         };
       },
-      peg$c30 = function(name, args) {
+      peg$c37 = function(name, args) {
             return {
               function: name,
               args: args || []
             };
           },
-      peg$c31 = "autoincrement",
-      peg$c32 = peg$literalExpectation("autoincrement", false),
-      peg$c33 = "now",
-      peg$c34 = peg$literalExpectation("now", false),
-      peg$c35 = "uuid",
-      peg$c36 = peg$literalExpectation("uuid", false),
-      peg$c37 = "cuid",
-      peg$c38 = peg$literalExpectation("cuid", false),
-      peg$c39 = "dbgenerated",
-      peg$c40 = peg$literalExpectation("dbgenerated", false),
-      peg$c41 = "sequence",
-      peg$c42 = peg$literalExpectation("sequence", false),
-      peg$c43 = "auto",
-      peg$c44 = peg$literalExpectation("auto", false),
-      peg$c45 = "nanoid",
-      peg$c46 = peg$literalExpectation("nanoid", false),
-      peg$c47 = "enum",
-      peg$c48 = peg$literalExpectation("enum", false),
-      peg$c49 = function(enumName, enumValues) {
-        return { type: "enum", name: enumName, values: enumValues.filter(v => v !== null) };
+      peg$c38 = "autoincrement",
+      peg$c39 = peg$literalExpectation("autoincrement", false),
+      peg$c40 = "now",
+      peg$c41 = peg$literalExpectation("now", false),
+      peg$c42 = "uuid",
+      peg$c43 = peg$literalExpectation("uuid", false),
+      peg$c44 = "cuid",
+      peg$c45 = peg$literalExpectation("cuid", false),
+      peg$c46 = "dbgenerated",
+      peg$c47 = peg$literalExpectation("dbgenerated", false),
+      peg$c48 = "sequence",
+      peg$c49 = peg$literalExpectation("sequence", false),
+      peg$c50 = "auto",
+      peg$c51 = peg$literalExpectation("auto", false),
+      peg$c52 = "nanoid",
+      peg$c53 = peg$literalExpectation("nanoid", false),
+      peg$c54 = "enum",
+      peg$c55 = peg$literalExpectation("enum", false),
+      peg$c56 = function(start, enumName, enumValues, end) {
+        const values = enumValues.filter(v => v !== null);
+        return withBlockComments({
+          type: "enum",
+          name: enumName,
+          values: values.map(v => v.key),
+          valueComments: memberCommentMap(values)
+        }, start, end);
       },
-      peg$c50 = function(valueName) { return valueName; },
-      peg$c51 = "type",
-      peg$c52 = peg$literalExpectation("type", false),
-      peg$c53 = function(typeName, fields) {
-        return { type: "type", name: typeName, fields: fields.filter(f => f !== null) };
+      peg$c57 = function(start, valueName) { return Object.assign({ key: valueName }, memberComments(start)); },
+      peg$c58 = "type",
+      peg$c59 = peg$literalExpectation("type", false),
+      peg$c60 = function(start, typeName, fields, end) {
+        return withBlockComments({ type: "type", name: typeName, fields: fields.filter(f => f !== null) }, start, end);
       },
-      peg$c54 = "view",
-      peg$c55 = peg$literalExpectation("view", false),
-      peg$c56 = function(viewName, fields, viewAttributes) {
-        return {
+      peg$c61 = "view",
+      peg$c62 = peg$literalExpectation("view", false),
+      peg$c63 = function(start, viewName, fields, viewAttributes, end) {
+        return withBlockComments({
           type: "view",
           name: viewName,
           fields: fields.filter(f => f !== null),
           attributes: viewAttributes.filter(a => a !== null)
-        };
+        }, start, end);
       },
-      peg$c57 = function(args) { return args; },
-      peg$c58 = ",",
-      peg$c59 = peg$literalExpectation(",", false),
-      peg$c60 = function(first, next) { return next; },
-      peg$c61 = function(first, args) {
+      peg$c64 = function(args) { return args; },
+      peg$c65 = function(first, args) {
         const result = {};
         result[first.name] = first.value;
         args.forEach(arg => {
@@ -286,28 +311,28 @@ function peg$parse(input, options) {
         });
         return result;
       },
-      peg$c62 = ":",
-      peg$c63 = peg$literalExpectation(":", false),
-      peg$c64 = function(argName, argValue) {
+      peg$c66 = ":",
+      peg$c67 = peg$literalExpectation(":", false),
+      peg$c68 = function(argName, argValue) {
         return { name: argName, value: argValue };
       },
-      peg$c65 = "fields",
-      peg$c66 = peg$literalExpectation("fields", false),
-      peg$c67 = "references",
-      peg$c68 = peg$literalExpectation("references", false),
-      peg$c69 = "name",
-      peg$c70 = peg$literalExpectation("name", false),
-      peg$c71 = "onDelete",
-      peg$c72 = peg$literalExpectation("onDelete", false),
-      peg$c73 = "onUpdate",
-      peg$c74 = peg$literalExpectation("onUpdate", false),
-      peg$c75 = function(name) { return name; },
-      peg$c76 = "[",
-      peg$c77 = peg$literalExpectation("[", false),
-      peg$c78 = function(firstId, nextId) { return nextId; },
-      peg$c79 = "]",
-      peg$c80 = peg$literalExpectation("]", false),
-      peg$c81 = function(firstId, restOfIds) {
+      peg$c69 = "fields",
+      peg$c70 = peg$literalExpectation("fields", false),
+      peg$c71 = "references",
+      peg$c72 = peg$literalExpectation("references", false),
+      peg$c73 = "name",
+      peg$c74 = peg$literalExpectation("name", false),
+      peg$c75 = "onDelete",
+      peg$c76 = peg$literalExpectation("onDelete", false),
+      peg$c77 = "onUpdate",
+      peg$c78 = peg$literalExpectation("onUpdate", false),
+      peg$c79 = function(name) { return name; },
+      peg$c80 = "[",
+      peg$c81 = peg$literalExpectation("[", false),
+      peg$c82 = function(firstId, nextId) { return nextId; },
+      peg$c83 = "]",
+      peg$c84 = peg$literalExpectation("]", false),
+      peg$c85 = function(firstId, restOfIds) {
         if (firstId === null) { // Handles empty list like []
           return [];
         }
@@ -315,92 +340,92 @@ function peg$parse(input, options) {
         restOfIds.forEach(id => all.push(id));
         return all;
       },
-      peg$c82 = "Cascade",
-      peg$c83 = peg$literalExpectation("Cascade", false),
-      peg$c84 = "Restrict",
-      peg$c85 = peg$literalExpectation("Restrict", false),
-      peg$c86 = "SetNull",
-      peg$c87 = peg$literalExpectation("SetNull", false),
-      peg$c88 = "NoAction",
-      peg$c89 = peg$literalExpectation("NoAction", false),
-      peg$c90 = "SetDefault",
-      peg$c91 = peg$literalExpectation("SetDefault", false),
-      peg$c92 = function(kw) { return kw; },
-      peg$c93 = function() {
+      peg$c86 = "Cascade",
+      peg$c87 = peg$literalExpectation("Cascade", false),
+      peg$c88 = "Restrict",
+      peg$c89 = peg$literalExpectation("Restrict", false),
+      peg$c90 = "SetNull",
+      peg$c91 = peg$literalExpectation("SetNull", false),
+      peg$c92 = "NoAction",
+      peg$c93 = peg$literalExpectation("NoAction", false),
+      peg$c94 = "SetDefault",
+      peg$c95 = peg$literalExpectation("SetDefault", false),
+      peg$c96 = function(kw) { return kw; },
+      peg$c97 = function() {
         return text(); // Revert to text() to see if it handles concatenation differently
       },
-      peg$c94 = function(content) { return "(" + (content !== null ? content : "") + ")"; },
-      peg$c95 = function(content) { return "[" + (content !== null ? content : "") + "]"; },
-      peg$c96 = "\\",
-      peg$c97 = peg$literalExpectation("\\", false),
-      peg$c98 = "//",
-      peg$c99 = peg$literalExpectation("//", false),
-      peg$c100 = peg$anyExpectation(),
-      peg$c101 = function(char) { return char; },
-      peg$c102 = function(escChar) { return "\\" + escChar; },
-      peg$c103 = "=",
-      peg$c104 = peg$literalExpectation("=", false),
-      peg$c105 = function(key, value) { // Allow more types for generator/datasource values
-        return { key: key, value: value };
+      peg$c98 = function(content) { return "(" + (content !== null ? content : "") + ")"; },
+      peg$c99 = function(content) { return "[" + (content !== null ? content : "") + "]"; },
+      peg$c100 = "\\",
+      peg$c101 = peg$literalExpectation("\\", false),
+      peg$c102 = "//",
+      peg$c103 = peg$literalExpectation("//", false),
+      peg$c104 = peg$anyExpectation(),
+      peg$c105 = function(char) { return char; },
+      peg$c106 = function(escChar) { return "\\" + escChar; },
+      peg$c107 = "=",
+      peg$c108 = peg$literalExpectation("=", false),
+      peg$c109 = function(start, key, value) { // Allow more types for generator/datasource values
+        return Object.assign({ key: key, value: value }, memberComments(start));
       },
-      peg$c106 = "env",
-      peg$c107 = peg$literalExpectation("env", false),
-      peg$c108 = function(varName) {
+      peg$c110 = "env",
+      peg$c111 = peg$literalExpectation("env", false),
+      peg$c112 = function(varName) {
         return `env("${varName}")`;
       },
-      peg$c109 = peg$otherExpectation("identifier"),
-      peg$c110 = /^[a-zA-Z_]/,
-      peg$c111 = peg$classExpectation([["a", "z"], ["A", "Z"], "_"], false, false),
-      peg$c112 = /^[a-zA-Z0-9_]/,
-      peg$c113 = peg$classExpectation([["a", "z"], ["A", "Z"], ["0", "9"], "_"], false, false),
-      peg$c114 = function() { return text(); },
-      peg$c115 = peg$otherExpectation("string"),
-      peg$c116 = "\"",
-      peg$c117 = peg$literalExpectation("\"", false),
-      peg$c118 = function(chars) { return chars.join(""); },
-      peg$c119 = "'",
-      peg$c120 = peg$literalExpectation("'", false),
-      peg$c121 = function(esc) { return esc; },
-      peg$c122 = "n",
-      peg$c123 = peg$literalExpectation("n", false),
-      peg$c124 = function() { return "\n"; },
-      peg$c125 = "r",
-      peg$c126 = peg$literalExpectation("r", false),
-      peg$c127 = function() { return "\r"; },
-      peg$c128 = "t",
-      peg$c129 = peg$literalExpectation("t", false),
-      peg$c130 = function() { return "\t"; },
-      peg$c131 = "b",
-      peg$c132 = peg$literalExpectation("b", false),
-      peg$c133 = function() { return "\b"; },
-      peg$c134 = "f",
-      peg$c135 = peg$literalExpectation("f", false),
-      peg$c136 = function() { return "\f"; },
-      peg$c137 = function() { return '"'; },
-      peg$c138 = function() { return "'"; },
-      peg$c139 = function() { return "\\"; },
-      peg$c140 = peg$otherExpectation("number"),
-      peg$c141 = ".",
-      peg$c142 = peg$literalExpectation(".", false),
-      peg$c143 = /^[0-9]/,
-      peg$c144 = peg$classExpectation([["0", "9"]], false, false),
-      peg$c145 = function(float) { return parseFloat(text()); },
-      peg$c146 = peg$otherExpectation("boolean"),
-      peg$c147 = "true",
-      peg$c148 = peg$literalExpectation("true", false),
-      peg$c149 = function() { return true; },
-      peg$c150 = "false",
-      peg$c151 = peg$literalExpectation("false", false),
-      peg$c152 = function() { return false; },
-      peg$c153 = peg$otherExpectation("whitespace"),
-      peg$c154 = peg$otherExpectation("mandatory_whitespace"),
-      peg$c155 = /^[ \t\n\r]/,
-      peg$c156 = peg$classExpectation([" ", "\t", "\n", "\r"], false, false),
-      peg$c157 = /^[^\n]/,
-      peg$c158 = peg$classExpectation(["\n"], true, false),
-      peg$c159 = "\n",
-      peg$c160 = peg$literalExpectation("\n", false),
-      peg$c161 = function() { return { type: "comment", value: text() }; },
+      peg$c113 = "",
+      peg$c114 = function() { return location().start.offset; },
+      peg$c115 = peg$otherExpectation("identifier"),
+      peg$c116 = /^[a-zA-Z_]/,
+      peg$c117 = peg$classExpectation([["a", "z"], ["A", "Z"], "_"], false, false),
+      peg$c118 = /^[a-zA-Z0-9_]/,
+      peg$c119 = peg$classExpectation([["a", "z"], ["A", "Z"], ["0", "9"], "_"], false, false),
+      peg$c120 = function() { return text(); },
+      peg$c121 = peg$otherExpectation("string"),
+      peg$c122 = "\"",
+      peg$c123 = peg$literalExpectation("\"", false),
+      peg$c124 = function(chars) { return chars.join(""); },
+      peg$c125 = "'",
+      peg$c126 = peg$literalExpectation("'", false),
+      peg$c127 = function(esc) { return esc; },
+      peg$c128 = "n",
+      peg$c129 = peg$literalExpectation("n", false),
+      peg$c130 = function() { return "\n"; },
+      peg$c131 = "r",
+      peg$c132 = peg$literalExpectation("r", false),
+      peg$c133 = function() { return "\r"; },
+      peg$c134 = "t",
+      peg$c135 = peg$literalExpectation("t", false),
+      peg$c136 = function() { return "\t"; },
+      peg$c137 = "b",
+      peg$c138 = peg$literalExpectation("b", false),
+      peg$c139 = function() { return "\b"; },
+      peg$c140 = "f",
+      peg$c141 = peg$literalExpectation("f", false),
+      peg$c142 = function() { return "\f"; },
+      peg$c143 = function() { return '"'; },
+      peg$c144 = function() { return "'"; },
+      peg$c145 = function() { return "\\"; },
+      peg$c146 = peg$otherExpectation("number"),
+      peg$c147 = /^[0-9]/,
+      peg$c148 = peg$classExpectation([["0", "9"]], false, false),
+      peg$c149 = function(float) { return parseNumberLiteral(text()); },
+      peg$c150 = peg$otherExpectation("boolean"),
+      peg$c151 = "true",
+      peg$c152 = peg$literalExpectation("true", false),
+      peg$c153 = function() { return true; },
+      peg$c154 = "false",
+      peg$c155 = peg$literalExpectation("false", false),
+      peg$c156 = function() { return false; },
+      peg$c157 = peg$otherExpectation("whitespace"),
+      peg$c158 = peg$otherExpectation("mandatory_whitespace"),
+      peg$c159 = /^[ \t\n\r]/,
+      peg$c160 = peg$classExpectation([" ", "\t", "\n", "\r"], false, false),
+      peg$c161 = /^[^\n]/,
+      peg$c162 = peg$classExpectation(["\n"], true, false),
+      peg$c163 = "\n",
+      peg$c164 = peg$literalExpectation("\n", false),
+      peg$c165 = function() { return { type: "comment", value: text() }; },
 
       peg$currPos          = 0,
       peg$savedPos         = 0,
@@ -602,57 +627,69 @@ function peg$parse(input, options) {
   }
 
   function peg$parseDatasourceBlock() {
-    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11;
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13;
 
     s0 = peg$currPos;
     s1 = peg$parse_();
     if (s1 !== peg$FAILED) {
-      if (input.substr(peg$currPos, 10) === peg$c1) {
-        s2 = peg$c1;
-        peg$currPos += 10;
-      } else {
-        s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c2); }
-      }
+      s2 = peg$parseOffset();
       if (s2 !== peg$FAILED) {
-        s3 = peg$parse_();
+        if (input.substr(peg$currPos, 10) === peg$c1) {
+          s3 = peg$c1;
+          peg$currPos += 10;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c2); }
+        }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parseIdentifier();
+          s4 = peg$parse_();
           if (s4 !== peg$FAILED) {
-            s5 = peg$parse_();
+            s5 = peg$parseIdentifier();
             if (s5 !== peg$FAILED) {
-              if (input.charCodeAt(peg$currPos) === 123) {
-                s6 = peg$c3;
-                peg$currPos++;
-              } else {
-                s6 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c4); }
-              }
+              s6 = peg$parse_();
               if (s6 !== peg$FAILED) {
-                s7 = peg$parse_();
+                if (input.charCodeAt(peg$currPos) === 123) {
+                  s7 = peg$c3;
+                  peg$currPos++;
+                } else {
+                  s7 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$c4); }
+                }
                 if (s7 !== peg$FAILED) {
-                  s8 = [];
-                  s9 = peg$parseAssignment();
-                  while (s9 !== peg$FAILED) {
-                    s8.push(s9);
-                    s9 = peg$parseAssignment();
-                  }
+                  s8 = peg$parse_();
                   if (s8 !== peg$FAILED) {
-                    s9 = peg$parse_();
+                    s9 = [];
+                    s10 = peg$parseAssignment();
+                    while (s10 !== peg$FAILED) {
+                      s9.push(s10);
+                      s10 = peg$parseAssignment();
+                    }
                     if (s9 !== peg$FAILED) {
-                      if (input.charCodeAt(peg$currPos) === 125) {
-                        s10 = peg$c5;
-                        peg$currPos++;
-                      } else {
-                        s10 = peg$FAILED;
-                        if (peg$silentFails === 0) { peg$fail(peg$c6); }
-                      }
+                      s10 = peg$parse_();
                       if (s10 !== peg$FAILED) {
-                        s11 = peg$parse_();
+                        s11 = peg$parseOffset();
                         if (s11 !== peg$FAILED) {
-                          peg$savedPos = s0;
-                          s1 = peg$c7(s4, s8);
-                          s0 = s1;
+                          if (input.charCodeAt(peg$currPos) === 125) {
+                            s12 = peg$c5;
+                            peg$currPos++;
+                          } else {
+                            s12 = peg$FAILED;
+                            if (peg$silentFails === 0) { peg$fail(peg$c6); }
+                          }
+                          if (s12 !== peg$FAILED) {
+                            s13 = peg$parse_();
+                            if (s13 !== peg$FAILED) {
+                              peg$savedPos = s0;
+                              s1 = peg$c7(s2, s5, s9, s11);
+                              s0 = s1;
+                            } else {
+                              peg$currPos = s0;
+                              s0 = peg$FAILED;
+                            }
+                          } else {
+                            peg$currPos = s0;
+                            s0 = peg$FAILED;
+                          }
                         } else {
                           peg$currPos = s0;
                           s0 = peg$FAILED;
@@ -702,57 +739,69 @@ function peg$parse(input, options) {
   }
 
   function peg$parseGeneratorBlock() {
-    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11;
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13;
 
     s0 = peg$currPos;
     s1 = peg$parse_();
     if (s1 !== peg$FAILED) {
-      if (input.substr(peg$currPos, 9) === peg$c8) {
-        s2 = peg$c8;
-        peg$currPos += 9;
-      } else {
-        s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c9); }
-      }
+      s2 = peg$parseOffset();
       if (s2 !== peg$FAILED) {
-        s3 = peg$parse_();
+        if (input.substr(peg$currPos, 9) === peg$c8) {
+          s3 = peg$c8;
+          peg$currPos += 9;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c9); }
+        }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parseIdentifier();
+          s4 = peg$parse_();
           if (s4 !== peg$FAILED) {
-            s5 = peg$parse_();
+            s5 = peg$parseIdentifier();
             if (s5 !== peg$FAILED) {
-              if (input.charCodeAt(peg$currPos) === 123) {
-                s6 = peg$c3;
-                peg$currPos++;
-              } else {
-                s6 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c4); }
-              }
+              s6 = peg$parse_();
               if (s6 !== peg$FAILED) {
-                s7 = peg$parse_();
+                if (input.charCodeAt(peg$currPos) === 123) {
+                  s7 = peg$c3;
+                  peg$currPos++;
+                } else {
+                  s7 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$c4); }
+                }
                 if (s7 !== peg$FAILED) {
-                  s8 = [];
-                  s9 = peg$parseAssignment();
-                  while (s9 !== peg$FAILED) {
-                    s8.push(s9);
-                    s9 = peg$parseAssignment();
-                  }
+                  s8 = peg$parse_();
                   if (s8 !== peg$FAILED) {
-                    s9 = peg$parse_();
+                    s9 = [];
+                    s10 = peg$parseAssignment();
+                    while (s10 !== peg$FAILED) {
+                      s9.push(s10);
+                      s10 = peg$parseAssignment();
+                    }
                     if (s9 !== peg$FAILED) {
-                      if (input.charCodeAt(peg$currPos) === 125) {
-                        s10 = peg$c5;
-                        peg$currPos++;
-                      } else {
-                        s10 = peg$FAILED;
-                        if (peg$silentFails === 0) { peg$fail(peg$c6); }
-                      }
+                      s10 = peg$parse_();
                       if (s10 !== peg$FAILED) {
-                        s11 = peg$parse_();
+                        s11 = peg$parseOffset();
                         if (s11 !== peg$FAILED) {
-                          peg$savedPos = s0;
-                          s1 = peg$c10(s4, s8);
-                          s0 = s1;
+                          if (input.charCodeAt(peg$currPos) === 125) {
+                            s12 = peg$c5;
+                            peg$currPos++;
+                          } else {
+                            s12 = peg$FAILED;
+                            if (peg$silentFails === 0) { peg$fail(peg$c6); }
+                          }
+                          if (s12 !== peg$FAILED) {
+                            s13 = peg$parse_();
+                            if (s13 !== peg$FAILED) {
+                              peg$savedPos = s0;
+                              s1 = peg$c10(s2, s5, s9, s11);
+                              s0 = s1;
+                            } else {
+                              peg$currPos = s0;
+                              s0 = peg$FAILED;
+                            }
+                          } else {
+                            peg$currPos = s0;
+                            s0 = peg$FAILED;
+                          }
                         } else {
                           peg$currPos = s0;
                           s0 = peg$FAILED;
@@ -802,66 +851,78 @@ function peg$parse(input, options) {
   }
 
   function peg$parseModelBlock() {
-    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13;
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13, s14, s15;
 
     s0 = peg$currPos;
     s1 = peg$parse_();
     if (s1 !== peg$FAILED) {
-      if (input.substr(peg$currPos, 5) === peg$c11) {
-        s2 = peg$c11;
-        peg$currPos += 5;
-      } else {
-        s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c12); }
-      }
+      s2 = peg$parseOffset();
       if (s2 !== peg$FAILED) {
-        s3 = peg$parse_();
+        if (input.substr(peg$currPos, 5) === peg$c11) {
+          s3 = peg$c11;
+          peg$currPos += 5;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c12); }
+        }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parseIdentifier();
+          s4 = peg$parse_();
           if (s4 !== peg$FAILED) {
-            s5 = peg$parse_();
+            s5 = peg$parseIdentifier();
             if (s5 !== peg$FAILED) {
-              if (input.charCodeAt(peg$currPos) === 123) {
-                s6 = peg$c3;
-                peg$currPos++;
-              } else {
-                s6 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c4); }
-              }
+              s6 = peg$parse_();
               if (s6 !== peg$FAILED) {
-                s7 = peg$parse_();
+                if (input.charCodeAt(peg$currPos) === 123) {
+                  s7 = peg$c3;
+                  peg$currPos++;
+                } else {
+                  s7 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$c4); }
+                }
                 if (s7 !== peg$FAILED) {
-                  s8 = [];
-                  s9 = peg$parseField();
-                  while (s9 !== peg$FAILED) {
-                    s8.push(s9);
-                    s9 = peg$parseField();
-                  }
+                  s8 = peg$parse_();
                   if (s8 !== peg$FAILED) {
-                    s9 = peg$parse_();
+                    s9 = [];
+                    s10 = peg$parseField();
+                    while (s10 !== peg$FAILED) {
+                      s9.push(s10);
+                      s10 = peg$parseField();
+                    }
                     if (s9 !== peg$FAILED) {
-                      s10 = [];
-                      s11 = peg$parseModelAttribute();
-                      while (s11 !== peg$FAILED) {
-                        s10.push(s11);
-                        s11 = peg$parseModelAttribute();
-                      }
+                      s10 = peg$parse_();
                       if (s10 !== peg$FAILED) {
-                        s11 = peg$parse_();
+                        s11 = [];
+                        s12 = peg$parseModelAttribute();
+                        while (s12 !== peg$FAILED) {
+                          s11.push(s12);
+                          s12 = peg$parseModelAttribute();
+                        }
                         if (s11 !== peg$FAILED) {
-                          if (input.charCodeAt(peg$currPos) === 125) {
-                            s12 = peg$c5;
-                            peg$currPos++;
-                          } else {
-                            s12 = peg$FAILED;
-                            if (peg$silentFails === 0) { peg$fail(peg$c6); }
-                          }
+                          s12 = peg$parse_();
                           if (s12 !== peg$FAILED) {
-                            s13 = peg$parse_();
+                            s13 = peg$parseOffset();
                             if (s13 !== peg$FAILED) {
-                              peg$savedPos = s0;
-                              s1 = peg$c13(s4, s8, s10);
-                              s0 = s1;
+                              if (input.charCodeAt(peg$currPos) === 125) {
+                                s14 = peg$c5;
+                                peg$currPos++;
+                              } else {
+                                s14 = peg$FAILED;
+                                if (peg$silentFails === 0) { peg$fail(peg$c6); }
+                              }
+                              if (s14 !== peg$FAILED) {
+                                s15 = peg$parse_();
+                                if (s15 !== peg$FAILED) {
+                                  peg$savedPos = s0;
+                                  s1 = peg$c13(s2, s5, s9, s11, s13);
+                                  s0 = s1;
+                                } else {
+                                  peg$currPos = s0;
+                                  s0 = peg$FAILED;
+                                }
+                              } else {
+                                peg$currPos = s0;
+                                s0 = peg$FAILED;
+                              }
                             } else {
                               peg$currPos = s0;
                               s0 = peg$FAILED;
@@ -919,80 +980,86 @@ function peg$parse(input, options) {
   }
 
   function peg$parseModelAttribute() {
-    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10;
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11;
 
     s0 = peg$currPos;
     s1 = peg$parse_();
     if (s1 !== peg$FAILED) {
-      if (input.substr(peg$currPos, 2) === peg$c14) {
-        s2 = peg$c14;
-        peg$currPos += 2;
-      } else {
-        s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c15); }
-      }
+      s2 = peg$parseOffset();
       if (s2 !== peg$FAILED) {
-        s3 = peg$parseIdentifier();
+        if (input.substr(peg$currPos, 2) === peg$c14) {
+          s3 = peg$c14;
+          peg$currPos += 2;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c15); }
+        }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parse_();
+          s4 = peg$parseIdentifier();
           if (s4 !== peg$FAILED) {
-            s5 = peg$currPos;
-            if (input.charCodeAt(peg$currPos) === 40) {
-              s6 = peg$c16;
-              peg$currPos++;
-            } else {
-              s6 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c17); }
-            }
-            if (s6 !== peg$FAILED) {
-              s7 = peg$parse_();
+            s5 = peg$parse_();
+            if (s5 !== peg$FAILED) {
+              s6 = peg$currPos;
+              if (input.charCodeAt(peg$currPos) === 40) {
+                s7 = peg$c16;
+                peg$currPos++;
+              } else {
+                s7 = peg$FAILED;
+                if (peg$silentFails === 0) { peg$fail(peg$c17); }
+              }
               if (s7 !== peg$FAILED) {
-                s8 = peg$parseParsedAttributeArgument();
-                if (s8 === peg$FAILED) {
-                  s8 = null;
-                }
+                s8 = peg$parse_();
                 if (s8 !== peg$FAILED) {
-                  s9 = peg$parse_();
+                  s9 = peg$parseParsedAttributeArgument();
+                  if (s9 === peg$FAILED) {
+                    s9 = null;
+                  }
                   if (s9 !== peg$FAILED) {
-                    if (input.charCodeAt(peg$currPos) === 41) {
-                      s10 = peg$c18;
-                      peg$currPos++;
-                    } else {
-                      s10 = peg$FAILED;
-                      if (peg$silentFails === 0) { peg$fail(peg$c19); }
-                    }
+                    s10 = peg$parse_();
                     if (s10 !== peg$FAILED) {
-                      s6 = [s6, s7, s8, s9, s10];
-                      s5 = s6;
+                      if (input.charCodeAt(peg$currPos) === 41) {
+                        s11 = peg$c18;
+                        peg$currPos++;
+                      } else {
+                        s11 = peg$FAILED;
+                        if (peg$silentFails === 0) { peg$fail(peg$c19); }
+                      }
+                      if (s11 !== peg$FAILED) {
+                        s7 = [s7, s8, s9, s10, s11];
+                        s6 = s7;
+                      } else {
+                        peg$currPos = s6;
+                        s6 = peg$FAILED;
+                      }
                     } else {
-                      peg$currPos = s5;
-                      s5 = peg$FAILED;
+                      peg$currPos = s6;
+                      s6 = peg$FAILED;
                     }
                   } else {
-                    peg$currPos = s5;
-                    s5 = peg$FAILED;
+                    peg$currPos = s6;
+                    s6 = peg$FAILED;
                   }
                 } else {
-                  peg$currPos = s5;
-                  s5 = peg$FAILED;
+                  peg$currPos = s6;
+                  s6 = peg$FAILED;
                 }
               } else {
-                peg$currPos = s5;
-                s5 = peg$FAILED;
+                peg$currPos = s6;
+                s6 = peg$FAILED;
+              }
+              if (s6 === peg$FAILED) {
+                s6 = null;
               }
-            } else {
-              peg$currPos = s5;
-              s5 = peg$FAILED;
-            }
-            if (s5 === peg$FAILED) {
-              s5 = null;
-            }
-            if (s5 !== peg$FAILED) {
-              s6 = peg$parse_();
               if (s6 !== peg$FAILED) {
-                peg$savedPos = s0;
-                s1 = peg$c20(s3, s5);
-                s0 = s1;
+                s7 = peg$parse_();
+                if (s7 !== peg$FAILED) {
+                  peg$savedPos = s0;
+                  s1 = peg$c20(s2, s4, s6);
+                  s0 = s1;
+                } else {
+                  peg$currPos = s0;
+                  s0 = peg$FAILED;
+                }
               } else {
                 peg$currPos = s0;
                 s0 = peg$FAILED;
@@ -1022,31 +1089,37 @@ function peg$parse(input, options) {
   }
 
   function peg$parseField() {
-    var s0, s1, s2, s3, s4, s5, s6, s7;
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8;
 
     s0 = peg$currPos;
     s1 = peg$parse_();
     if (s1 !== peg$FAILED) {
-      s2 = peg$parseIdentifier();
+      s2 = peg$parseOffset();
       if (s2 !== peg$FAILED) {
-        s3 = peg$parse_();
+        s3 = peg$parseIdentifier();
         if (s3 !== peg$FAILED) {
-          s4 = peg$parseFieldType();
+          s4 = peg$parse_();
           if (s4 !== peg$FAILED) {
-            s5 = peg$parse_();
+            s5 = peg$parseFieldType();
             if (s5 !== peg$FAILED) {
-              s6 = [];
-              s7 = peg$parseFieldAttribute();
-              while (s7 !== peg$FAILED) {
-                s6.push(s7);
-                s7 = peg$parseFieldAttribute();
-              }
+              s6 = peg$parse_();
               if (s6 !== peg$FAILED) {
-                s7 = peg$parse_();
+                s7 = [];
+                s8 = peg$parseFieldAttribute();
+                while (s8 !== peg$FAILED) {
+                  s7.push(s8);
+                  s8 = peg$parseFieldAttribute();
+                }
                 if (s7 !== peg$FAILED) {
-                  peg$savedPos = s0;
-                  s1 = peg$c21(s2, s4, s6);
-                  s0 = s1;
+                  s8 = peg$parse_();
+                  if (s8 !== peg$FAILED) {
+                    peg$savedPos = s0;
+                    s1 = peg$c21(s2, s3, s5, s7);
+                    s0 = s1;
+                  } else {
+                    peg$currPos = s0;
+                    s0 = peg$FAILED;
+                  }
                 } else {
                   peg$currPos = s0;
                   s0 = peg$FAILED;
@@ -1126,7 +1199,247 @@ function peg$parse(input, options) {
     return s0;
   }
 
-  function peg$parseFieldAttribute() {
+  function peg$parseFieldAttribute() {
+    var s0;
+
+    s0 = peg$parseNativeTypeAttribute();
+    if (s0 === peg$FAILED) {
+      s0 = peg$parseNamedFieldAttribute();
+    }
+
+    return s0;
+  }
+
+  function peg$parseNativeTypeAttribute() {
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12;
+
+    s0 = peg$currPos;
+    s1 = peg$parse_();
+    if (s1 !== peg$FAILED) {
+      if (input.charCodeAt(peg$currPos) === 64) {
+        s2 = peg$c27;
+        peg$currPos++;
+      } else {
+        s2 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c28); }
+      }
+      if (s2 !== peg$FAILED) {
+        s3 = peg$parseIdentifier();
+        if (s3 !== peg$FAILED) {
+          if (input.charCodeAt(peg$currPos) === 46) {
+            s4 = peg$c29;
+            peg$currPos++;
+          } else {
+            s4 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c30); }
+          }
+          if (s4 !== peg$FAILED) {
+            s5 = peg$parseIdentifier();
+            if (s5 !== peg$FAILED) {
+              s6 = peg$parse_();
+              if (s6 !== peg$FAILED) {
+                s7 = peg$currPos;
+                if (input.charCodeAt(peg$currPos) === 40) {
+                  s8 = peg$c16;
+                  peg$currPos++;
+                } else {
+                  s8 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$c17); }
+                }
+                if (s8 !== peg$FAILED) {
+                  s9 = peg$parse_();
+                  if (s9 !== peg$FAILED) {
+                    s10 = peg$parseNativeTypeArguments();
+                    if (s10 === peg$FAILED) {
+                      s10 = null;
+                    }
+                    if (s10 !== peg$FAILED) {
+                      s11 = peg$parse_();
+                      if (s11 !== peg$FAILED) {
+                        if (input.charCodeAt(peg$currPos) === 41) {
+                          s12 = peg$c18;
+                          peg$currPos++;
+                        } else {
+                          s12 = peg$FAILED;
+                          if (peg$silentFails === 0) { peg$fail(peg$c19); }
+                        }
+                        if (s12 !== peg$FAILED) {
+                          s8 = [s8, s9, s10, s11, s12];
+                          s7 = s8;
+                        } else {
+                          peg$currPos = s7;
+                          s7 = peg$FAILED;
+                        }
+                      } else {
+                        peg$currPos = s7;
+                        s7 = peg$FAILED;
+                      }
+                    } else {
+                      peg$currPos = s7;
+                      s7 = peg$FAILED;
+                    }
+                  } else {
+                    peg$currPos = s7;
+                    s7 = peg$FAILED;
+                  }
+                } else {
+                  peg$currPos = s7;
+                  s7 = peg$FAILED;
+                }
+                if (s7 === peg$FAILED) {
+                  s7 = null;
+                }
+                if (s7 !== peg$FAILED) {
+                  s8 = peg$parse_();
+                  if (s8 !== peg$FAILED) {
+                    peg$savedPos = s0;
+                    s1 = peg$c31(s3, s5, s7);
+                    s0 = s1;
+                  } else {
+                    peg$currPos = s0;
+                    s0 = peg$FAILED;
+                  }
+                } else {
+                  peg$currPos = s0;
+                  s0 = peg$FAILED;
+                }
+              } else {
+                peg$currPos = s0;
+                s0 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parseNativeTypeArguments() {
+    var s0, s1, s2, s3, s4, s5, s6, s7;
+
+    s0 = peg$currPos;
+    s1 = peg$parseNativeTypeArgument();
+    if (s1 !== peg$FAILED) {
+      s2 = [];
+      s3 = peg$currPos;
+      s4 = peg$parse_();
+      if (s4 !== peg$FAILED) {
+        if (input.charCodeAt(peg$currPos) === 44) {
+          s5 = peg$c32;
+          peg$currPos++;
+        } else {
+          s5 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c33); }
+        }
+        if (s5 !== peg$FAILED) {
+          s6 = peg$parse_();
+          if (s6 !== peg$FAILED) {
+            s7 = peg$parseNativeTypeArgument();
+            if (s7 !== peg$FAILED) {
+              peg$savedPos = s3;
+              s4 = peg$c34(s1, s7);
+              s3 = s4;
+            } else {
+              peg$currPos = s3;
+              s3 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s3;
+        s3 = peg$FAILED;
+      }
+      while (s3 !== peg$FAILED) {
+        s2.push(s3);
+        s3 = peg$currPos;
+        s4 = peg$parse_();
+        if (s4 !== peg$FAILED) {
+          if (input.charCodeAt(peg$currPos) === 44) {
+            s5 = peg$c32;
+            peg$currPos++;
+          } else {
+            s5 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c33); }
+          }
+          if (s5 !== peg$FAILED) {
+            s6 = peg$parse_();
+            if (s6 !== peg$FAILED) {
+              s7 = peg$parseNativeTypeArgument();
+              if (s7 !== peg$FAILED) {
+                peg$savedPos = s3;
+                s4 = peg$c34(s1, s7);
+                s3 = s4;
+              } else {
+                peg$currPos = s3;
+                s3 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s3;
+              s3 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      }
+      if (s2 !== peg$FAILED) {
+        peg$savedPos = s0;
+        s1 = peg$c35(s1, s2);
+        s0 = s1;
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parseNativeTypeArgument() {
+    var s0;
+
+    s0 = peg$parseNumberLiteral();
+    if (s0 === peg$FAILED) {
+      s0 = peg$parseStringLiteral();
+      if (s0 === peg$FAILED) {
+        s0 = peg$parseIdentifier();
+      }
+    }
+
+    return s0;
+  }
+
+  function peg$parseNamedFieldAttribute() {
     var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10;
 
     s0 = peg$currPos;
@@ -1199,7 +1512,7 @@ function peg$parse(input, options) {
               s6 = peg$parse_();
               if (s6 !== peg$FAILED) {
                 peg$savedPos = s0;
-                s1 = peg$c29(s3, s5);
+                s1 = peg$c36(s3, s5);
                 s0 = s1;
               } else {
                 peg$currPos = s0;
@@ -1283,7 +1596,7 @@ function peg$parse(input, options) {
                 }
                 if (s7 !== peg$FAILED) {
                   peg$savedPos = s0;
-                  s1 = peg$c30(s1, s5);
+                  s1 = peg$c37(s1, s5);
                   s0 = s1;
                 } else {
                   peg$currPos = s0;
@@ -1320,68 +1633,68 @@ function peg$parse(input, options) {
   function peg$parseDefaultFunctionName() {
     var s0;
 
-    if (input.substr(peg$currPos, 13) === peg$c31) {
-      s0 = peg$c31;
+    if (input.substr(peg$currPos, 13) === peg$c38) {
+      s0 = peg$c38;
       peg$currPos += 13;
     } else {
       s0 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c32); }
+      if (peg$silentFails === 0) { peg$fail(peg$c39); }
     }
     if (s0 === peg$FAILED) {
-      if (input.substr(peg$currPos, 3) === peg$c33) {
-        s0 = peg$c33;
+      if (input.substr(peg$currPos, 3) === peg$c40) {
+        s0 = peg$c40;
         peg$currPos += 3;
       } else {
         s0 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c34); }
+        if (peg$silentFails === 0) { peg$fail(peg$c41); }
       }
       if (s0 === peg$FAILED) {
-        if (input.substr(peg$currPos, 4) === peg$c35) {
-          s0 = peg$c35;
+        if (input.substr(peg$currPos, 4) === peg$c42) {
+          s0 = peg$c42;
           peg$currPos += 4;
         } else {
           s0 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c36); }
+          if (peg$silentFails === 0) { peg$fail(peg$c43); }
         }
         if (s0 === peg$FAILED) {
-          if (input.substr(peg$currPos, 4) === peg$c37) {
-            s0 = peg$c37;
+          if (input.substr(peg$currPos, 4) === peg$c44) {
+            s0 = peg$c44;
             peg$currPos += 4;
           } else {
             s0 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c38); }
+            if (peg$silentFails === 0) { peg$fail(peg$c45); }
           }
           if (s0 === peg$FAILED) {
-            if (input.substr(peg$currPos, 11) === peg$c39) {
-              s0 = peg$c39;
+            if (input.substr(peg$currPos, 11) === peg$c46) {
+              s0 = peg$c46;
               peg$currPos += 11;
             } else {
               s0 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c40); }
+              if (peg$silentFails === 0) { peg$fail(peg$c47); }
             }
             if (s0 === peg$FAILED) {
-              if (input.substr(peg$currPos, 8) === peg$c41) {
-                s0 = peg$c41;
+              if (input.substr(peg$currPos, 8) === peg$c48) {
+                s0 = peg$c48;
                 peg$currPos += 8;
               } else {
                 s0 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c42); }
+                if (peg$silentFails === 0) { peg$fail(peg$c49); }
               }
               if (s0 === peg$FAILED) {
-                if (input.substr(peg$currPos, 4) === peg$c43) {
-                  s0 = peg$c43;
+                if (input.substr(peg$currPos, 4) === peg$c50) {
+                  s0 = peg$c50;
                   peg$currPos += 4;
                 } else {
                   s0 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c44); }
+                  if (peg$silentFails === 0) { peg$fail(peg$c51); }
                 }
                 if (s0 === peg$FAILED) {
-                  if (input.substr(peg$currPos, 6) === peg$c45) {
-                    s0 = peg$c45;
+                  if (input.substr(peg$currPos, 6) === peg$c52) {
+                    s0 = peg$c52;
                     peg$currPos += 6;
                   } else {
                     s0 = peg$FAILED;
-                    if (peg$silentFails === 0) { peg$fail(peg$c46); }
+                    if (peg$silentFails === 0) { peg$fail(peg$c53); }
                   }
                 }
               }
@@ -1409,57 +1722,69 @@ function peg$parse(input, options) {
   }
 
   function peg$parseEnumBlock() {
-    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11;
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13;
 
     s0 = peg$currPos;
     s1 = peg$parse_();
     if (s1 !== peg$FAILED) {
-      if (input.substr(peg$currPos, 4) === peg$c47) {
-        s2 = peg$c47;
-        peg$currPos += 4;
-      } else {
-        s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c48); }
-      }
+      s2 = peg$parseOffset();
       if (s2 !== peg$FAILED) {
-        s3 = peg$parse_();
+        if (input.substr(peg$currPos, 4) === peg$c54) {
+          s3 = peg$c54;
+          peg$currPos += 4;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c55); }
+        }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parseIdentifier();
+          s4 = peg$parse_();
           if (s4 !== peg$FAILED) {
-            s5 = peg$parse_();
+            s5 = peg$parseIdentifier();
             if (s5 !== peg$FAILED) {
-              if (input.charCodeAt(peg$currPos) === 123) {
-                s6 = peg$c3;
-                peg$currPos++;
-              } else {
-                s6 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c4); }
-              }
+              s6 = peg$parse_();
               if (s6 !== peg$FAILED) {
-                s7 = peg$parse_();
+                if (input.charCodeAt(peg$currPos) === 123) {
+                  s7 = peg$c3;
+                  peg$currPos++;
+                } else {
+                  s7 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$c4); }
+                }
                 if (s7 !== peg$FAILED) {
-                  s8 = [];
-                  s9 = peg$parseEnumValueDefinition();
-                  while (s9 !== peg$FAILED) {
-                    s8.push(s9);
-                    s9 = peg$parseEnumValueDefinition();
-                  }
+                  s8 = peg$parse_();
                   if (s8 !== peg$FAILED) {
-                    s9 = peg$parse_();
+                    s9 = [];
+                    s10 = peg$parseEnumValueDefinition();
+                    while (s10 !== peg$FAILED) {
+                      s9.push(s10);
+                      s10 = peg$parseEnumValueDefinition();
+                    }
                     if (s9 !== peg$FAILED) {
-                      if (input.charCodeAt(peg$currPos) === 125) {
-                        s10 = peg$c5;
-                        peg$currPos++;
-                      } else {
-                        s10 = peg$FAILED;
-                        if (peg$silentFails === 0) { peg$fail(peg$c6); }
-                      }
+                      s10 = peg$parse_();
                       if (s10 !== peg$FAILED) {
-                        s11 = peg$parse_();
+                        s11 = peg$parseOffset();
                         if (s11 !== peg$FAILED) {
-                          peg$savedPos = s0;
-                          s1 = peg$c49(s4, s8);
-                          s0 = s1;
+                          if (input.charCodeAt(peg$currPos) === 125) {
+                            s12 = peg$c5;
+                            peg$currPos++;
+                          } else {
+                            s12 = peg$FAILED;
+                            if (peg$silentFails === 0) { peg$fail(peg$c6); }
+                          }
+                          if (s12 !== peg$FAILED) {
+                            s13 = peg$parse_();
+                            if (s13 !== peg$FAILED) {
+                              peg$savedPos = s0;
+                              s1 = peg$c56(s2, s5, s9, s11);
+                              s0 = s1;
+                            } else {
+                              peg$currPos = s0;
+                              s0 = peg$FAILED;
+                            }
+                          } else {
+                            peg$currPos = s0;
+                            s0 = peg$FAILED;
+                          }
                         } else {
                           peg$currPos = s0;
                           s0 = peg$FAILED;
@@ -1509,18 +1834,24 @@ function peg$parse(input, options) {
   }
 
   function peg$parseEnumValueDefinition() {
-    var s0, s1, s2, s3;
+    var s0, s1, s2, s3, s4;
 
     s0 = peg$currPos;
     s1 = peg$parse_();
     if (s1 !== peg$FAILED) {
-      s2 = peg$parseIdentifier();
+      s2 = peg$parseOffset();
       if (s2 !== peg$FAILED) {
-        s3 = peg$parse_();
+        s3 = peg$parseIdentifier();
         if (s3 !== peg$FAILED) {
-          peg$savedPos = s0;
-          s1 = peg$c50(s2);
-          s0 = s1;
+          s4 = peg$parse_();
+          if (s4 !== peg$FAILED) {
+            peg$savedPos = s0;
+            s1 = peg$c57(s2, s3);
+            s0 = s1;
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
         } else {
           peg$currPos = s0;
           s0 = peg$FAILED;
@@ -1538,57 +1869,69 @@ function peg$parse(input, options) {
   }
 
   function peg$parseTypeBlock() {
-    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11;
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13;
 
     s0 = peg$currPos;
     s1 = peg$parse_();
     if (s1 !== peg$FAILED) {
-      if (input.substr(peg$currPos, 4) === peg$c51) {
-        s2 = peg$c51;
-        peg$currPos += 4;
-      } else {
-        s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c52); }
-      }
+      s2 = peg$parseOffset();
       if (s2 !== peg$FAILED) {
-        s3 = peg$parse_();
+        if (input.substr(peg$currPos, 4) === peg$c58) {
+          s3 = peg$c58;
+          peg$currPos += 4;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c59); }
+        }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parseIdentifier();
+          s4 = peg$parse_();
           if (s4 !== peg$FAILED) {
-            s5 = peg$parse_();
+            s5 = peg$parseIdentifier();
             if (s5 !== peg$FAILED) {
-              if (input.charCodeAt(peg$currPos) === 123) {
-                s6 = peg$c3;
-                peg$currPos++;
-              } else {
-                s6 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c4); }
-              }
+              s6 = peg$parse_();
               if (s6 !== peg$FAILED) {
-                s7 = peg$parse_();
+                if (input.charCodeAt(peg$currPos) === 123) {
+                  s7 = peg$c3;
+                  peg$currPos++;
+                } else {
+                  s7 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$c4); }
+                }
                 if (s7 !== peg$FAILED) {
-                  s8 = [];
-                  s9 = peg$parseField();
-                  while (s9 !== peg$FAILED) {
-                    s8.push(s9);
-                    s9 = peg$parseField();
-                  }
+                  s8 = peg$parse_();
                   if (s8 !== peg$FAILED) {
-                    s9 = peg$parse_();
+                    s9 = [];
+                    s10 = peg$parseField();
+                    while (s10 !== peg$FAILED) {
+                      s9.push(s10);
+                      s10 = peg$parseField();
+                    }
                     if (s9 !== peg$FAILED) {
-                      if (input.charCodeAt(peg$currPos) === 125) {
-                        s10 = peg$c5;
-                        peg$currPos++;
-                      } else {
-                        s10 = peg$FAILED;
-                        if (peg$silentFails === 0) { peg$fail(peg$c6); }
-                      }
+                      s10 = peg$parse_();
                       if (s10 !== peg$FAILED) {
-                        s11 = peg$parse_();
+                        s11 = peg$parseOffset();
                         if (s11 !== peg$FAILED) {
-                          peg$savedPos = s0;
-                          s1 = peg$c53(s4, s8);
-                          s0 = s1;
+                          if (input.charCodeAt(peg$currPos) === 125) {
+                            s12 = peg$c5;
+                            peg$currPos++;
+                          } else {
+                            s12 = peg$FAILED;
+                            if (peg$silentFails === 0) { peg$fail(peg$c6); }
+                          }
+                          if (s12 !== peg$FAILED) {
+                            s13 = peg$parse_();
+                            if (s13 !== peg$FAILED) {
+                              peg$savedPos = s0;
+                              s1 = peg$c60(s2, s5, s9, s11);
+                              s0 = s1;
+                            } else {
+                              peg$currPos = s0;
+                              s0 = peg$FAILED;
+                            }
+                          } else {
+                            peg$currPos = s0;
+                            s0 = peg$FAILED;
+                          }
                         } else {
                           peg$currPos = s0;
                           s0 = peg$FAILED;
@@ -1638,66 +1981,78 @@ function peg$parse(input, options) {
   }
 
   function peg$parseViewBlock() {
-    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13;
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13, s14, s15;
 
     s0 = peg$currPos;
     s1 = peg$parse_();
     if (s1 !== peg$FAILED) {
-      if (input.substr(peg$currPos, 4) === peg$c54) {
-        s2 = peg$c54;
-        peg$currPos += 4;
-      } else {
-        s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c55); }
-      }
+      s2 = peg$parseOffset();
       if (s2 !== peg$FAILED) {
-        s3 = peg$parse_();
+        if (input.substr(peg$currPos, 4) === peg$c61) {
+          s3 = peg$c61;
+          peg$currPos += 4;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c62); }
+        }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parseIdentifier();
+          s4 = peg$parse_();
           if (s4 !== peg$FAILED) {
-            s5 = peg$parse_();
+            s5 = peg$parseIdentifier();
             if (s5 !== peg$FAILED) {
-              if (input.charCodeAt(peg$currPos) === 123) {
-                s6 = peg$c3;
-                peg$currPos++;
-              } else {
-                s6 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c4); }
-              }
+              s6 = peg$parse_();
               if (s6 !== peg$FAILED) {
-                s7 = peg$parse_();
+                if (input.charCodeAt(peg$currPos) === 123) {
+                  s7 = peg$c3;
+                  peg$currPos++;
+                } else {
+                  s7 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$c4); }
+                }
                 if (s7 !== peg$FAILED) {
-                  s8 = [];
-                  s9 = peg$parseField();
-                  while (s9 !== peg$FAILED) {
-                    s8.push(s9);
-                    s9 = peg$parseField();
-                  }
+                  s8 = peg$parse_();
                   if (s8 !== peg$FAILED) {
-                    s9 = peg$parse_();
+                    s9 = [];
+                    s10 = peg$parseField();
+                    while (s10 !== peg$FAILED) {
+                      s9.push(s10);
+                      s10 = peg$parseField();
+                    }
                     if (s9 !== peg$FAILED) {
-                      s10 = [];
-                      s11 = peg$parseModelAttribute();
-                      while (s11 !== peg$FAILED) {
-                        s10.push(s11);
-                        s11 = peg$parseModelAttribute();
-                      }
+                      s10 = peg$parse_();
                       if (s10 !== peg$FAILED) {
-                        s11 = peg$parse_();
+                        s11 = [];
+                        s12 = peg$parseModelAttribute();
+                        while (s12 !== peg$FAILED) {
+                          s11.push(s12);
+                          s12 = peg$parseModelAttribute();
+                        }
                         if (s11 !== peg$FAILED) {
-                          if (input.charCodeAt(peg$currPos) === 125) {
-                            s12 = peg$c5;
-                            peg$currPos++;
-                          } else {
-                            s12 = peg$FAILED;
-                            if (peg$silentFails === 0) { peg$fail(peg$c6); }
-                          }
+                          s12 = peg$parse_();
                           if (s12 !== peg$FAILED) {
-                            s13 = peg$parse_();
+                            s13 = peg$parseOffset();
                             if (s13 !== peg$FAILED) {
-                              peg$savedPos = s0;
-                              s1 = peg$c56(s4, s8, s10);
-                              s0 = s1;
+                              if (input.charCodeAt(peg$currPos) === 125) {
+                                s14 = peg$c5;
+                                peg$currPos++;
+                              } else {
+                                s14 = peg$FAILED;
+                                if (peg$silentFails === 0) { peg$fail(peg$c6); }
+                              }
+                              if (s14 !== peg$FAILED) {
+                                s15 = peg$parse_();
+                                if (s15 !== peg$FAILED) {
+                                  peg$savedPos = s0;
+                                  s1 = peg$c63(s2, s5, s9, s11, s13);
+                                  s0 = s1;
+                                } else {
+                                  peg$currPos = s0;
+                                  s0 = peg$FAILED;
+                                }
+                              } else {
+                                peg$currPos = s0;
+                                s0 = peg$FAILED;
+                              }
                             } else {
                               peg$currPos = s0;
                               s0 = peg$FAILED;
@@ -1767,7 +2122,7 @@ function peg$parse(input, options) {
           s4 = peg$parseEOF();
           if (s4 !== peg$FAILED) {
             peg$savedPos = s0;
-            s1 = peg$c57(s2);
+            s1 = peg$c64(s2);
             s0 = s1;
           } else {
             peg$currPos = s0;
@@ -1800,11 +2155,11 @@ function peg$parse(input, options) {
       s4 = peg$parse_();
       if (s4 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 44) {
-          s5 = peg$c58;
+          s5 = peg$c32;
           peg$currPos++;
         } else {
           s5 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c59); }
+          if (peg$silentFails === 0) { peg$fail(peg$c33); }
         }
         if (s5 !== peg$FAILED) {
           s6 = peg$parse_();
@@ -1812,7 +2167,7 @@ function peg$parse(input, options) {
             s7 = peg$parseNamedRelationArgument();
             if (s7 !== peg$FAILED) {
               peg$savedPos = s3;
-              s4 = peg$c60(s1, s7);
+              s4 = peg$c34(s1, s7);
               s3 = s4;
             } else {
               peg$currPos = s3;
@@ -1836,11 +2191,11 @@ function peg$parse(input, options) {
         s4 = peg$parse_();
         if (s4 !== peg$FAILED) {
           if (input.charCodeAt(peg$currPos) === 44) {
-            s5 = peg$c58;
+            s5 = peg$c32;
             peg$currPos++;
           } else {
             s5 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c59); }
+            if (peg$silentFails === 0) { peg$fail(peg$c33); }
           }
           if (s5 !== peg$FAILED) {
             s6 = peg$parse_();
@@ -1848,7 +2203,7 @@ function peg$parse(input, options) {
               s7 = peg$parseNamedRelationArgument();
               if (s7 !== peg$FAILED) {
                 peg$savedPos = s3;
-                s4 = peg$c60(s1, s7);
+                s4 = peg$c34(s1, s7);
                 s3 = s4;
               } else {
                 peg$currPos = s3;
@@ -1869,7 +2224,7 @@ function peg$parse(input, options) {
       }
       if (s2 !== peg$FAILED) {
         peg$savedPos = s0;
-        s1 = peg$c61(s1, s2);
+        s1 = peg$c65(s1, s2);
         s0 = s1;
       } else {
         peg$currPos = s0;
@@ -1892,11 +2247,11 @@ function peg$parse(input, options) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 58) {
-          s3 = peg$c62;
+          s3 = peg$c66;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c63); }
+          if (peg$silentFails === 0) { peg$fail(peg$c67); }
         }
         if (s3 !== peg$FAILED) {
           s4 = peg$parse_();
@@ -1904,7 +2259,7 @@ function peg$parse(input, options) {
             s5 = peg$parseRelationArgumentValue();
             if (s5 !== peg$FAILED) {
               peg$savedPos = s0;
-              s1 = peg$c64(s1, s5);
+              s1 = peg$c68(s1, s5);
               s0 = s1;
             } else {
               peg$currPos = s0;
@@ -1934,44 +2289,44 @@ function peg$parse(input, options) {
     var s0, s1;
 
     s0 = peg$currPos;
-    if (input.substr(peg$currPos, 6) === peg$c65) {
-      s1 = peg$c65;
+    if (input.substr(peg$currPos, 6) === peg$c69) {
+      s1 = peg$c69;
       peg$currPos += 6;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c66); }
+      if (peg$silentFails === 0) { peg$fail(peg$c70); }
     }
     if (s1 === peg$FAILED) {
-      if (input.substr(peg$currPos, 10) === peg$c67) {
-        s1 = peg$c67;
+      if (input.substr(peg$currPos, 10) === peg$c71) {
+        s1 = peg$c71;
         peg$currPos += 10;
       } else {
         s1 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c68); }
+        if (peg$silentFails === 0) { peg$fail(peg$c72); }
       }
       if (s1 === peg$FAILED) {
-        if (input.substr(peg$currPos, 4) === peg$c69) {
-          s1 = peg$c69;
+        if (input.substr(peg$currPos, 4) === peg$c73) {
+          s1 = peg$c73;
           peg$currPos += 4;
         } else {
           s1 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c70); }
+          if (peg$silentFails === 0) { peg$fail(peg$c74); }
         }
         if (s1 === peg$FAILED) {
-          if (input.substr(peg$currPos, 8) === peg$c71) {
-            s1 = peg$c71;
+          if (input.substr(peg$currPos, 8) === peg$c75) {
+            s1 = peg$c75;
             peg$currPos += 8;
           } else {
             s1 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c72); }
+            if (peg$silentFails === 0) { peg$fail(peg$c76); }
           }
           if (s1 === peg$FAILED) {
-            if (input.substr(peg$currPos, 8) === peg$c73) {
-              s1 = peg$c73;
+            if (input.substr(peg$currPos, 8) === peg$c77) {
+              s1 = peg$c77;
               peg$currPos += 8;
             } else {
               s1 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c74); }
+              if (peg$silentFails === 0) { peg$fail(peg$c78); }
             }
           }
         }
@@ -1979,7 +2334,7 @@ function peg$parse(input, options) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c75(s1);
+      s1 = peg$c79(s1);
     }
     s0 = s1;
 
@@ -2005,11 +2360,11 @@ function peg$parse(input, options) {
 
     s0 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 91) {
-      s1 = peg$c76;
+      s1 = peg$c80;
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c77); }
+      if (peg$silentFails === 0) { peg$fail(peg$c81); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
@@ -2024,11 +2379,11 @@ function peg$parse(input, options) {
           s6 = peg$parse_();
           if (s6 !== peg$FAILED) {
             if (input.charCodeAt(peg$currPos) === 44) {
-              s7 = peg$c58;
+              s7 = peg$c32;
               peg$currPos++;
             } else {
               s7 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c59); }
+              if (peg$silentFails === 0) { peg$fail(peg$c33); }
             }
             if (s7 !== peg$FAILED) {
               s8 = peg$parse_();
@@ -2036,7 +2391,7 @@ function peg$parse(input, options) {
                 s9 = peg$parseIdentifier();
                 if (s9 !== peg$FAILED) {
                   peg$savedPos = s5;
-                  s6 = peg$c78(s3, s9);
+                  s6 = peg$c82(s3, s9);
                   s5 = s6;
                 } else {
                   peg$currPos = s5;
@@ -2060,11 +2415,11 @@ function peg$parse(input, options) {
             s6 = peg$parse_();
             if (s6 !== peg$FAILED) {
               if (input.charCodeAt(peg$currPos) === 44) {
-                s7 = peg$c58;
+                s7 = peg$c32;
                 peg$currPos++;
               } else {
                 s7 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c59); }
+                if (peg$silentFails === 0) { peg$fail(peg$c33); }
               }
               if (s7 !== peg$FAILED) {
                 s8 = peg$parse_();
@@ -2072,7 +2427,7 @@ function peg$parse(input, options) {
                   s9 = peg$parseIdentifier();
                   if (s9 !== peg$FAILED) {
                     peg$savedPos = s5;
-                    s6 = peg$c78(s3, s9);
+                    s6 = peg$c82(s3, s9);
                     s5 = s6;
                   } else {
                     peg$currPos = s5;
@@ -2095,15 +2450,15 @@ function peg$parse(input, options) {
             s5 = peg$parse_();
             if (s5 !== peg$FAILED) {
               if (input.charCodeAt(peg$currPos) === 93) {
-                s6 = peg$c79;
+                s6 = peg$c83;
                 peg$currPos++;
               } else {
                 s6 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c80); }
+                if (peg$silentFails === 0) { peg$fail(peg$c84); }
               }
               if (s6 !== peg$FAILED) {
                 peg$savedPos = s0;
-                s1 = peg$c81(s3, s4);
+                s1 = peg$c85(s3, s4);
                 s0 = s1;
               } else {
                 peg$currPos = s0;
@@ -2137,44 +2492,44 @@ function peg$parse(input, options) {
     var s0, s1;
 
     s0 = peg$currPos;
-    if (input.substr(peg$currPos, 7) === peg$c82) {
-      s1 = peg$c82;
+    if (input.substr(peg$currPos, 7) === peg$c86) {
+      s1 = peg$c86;
       peg$currPos += 7;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c83); }
+      if (peg$silentFails === 0) { peg$fail(peg$c87); }
     }
     if (s1 === peg$FAILED) {
-      if (input.substr(peg$currPos, 8) === peg$c84) {
-        s1 = peg$c84;
+      if (input.substr(peg$currPos, 8) === peg$c88) {
+        s1 = peg$c88;
         peg$currPos += 8;
       } else {
         s1 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c85); }
+        if (peg$silentFails === 0) { peg$fail(peg$c89); }
       }
       if (s1 === peg$FAILED) {
-        if (input.substr(peg$currPos, 7) === peg$c86) {
-          s1 = peg$c86;
+        if (input.substr(peg$currPos, 7) === peg$c90) {
+          s1 = peg$c90;
           peg$currPos += 7;
         } else {
           s1 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c87); }
+          if (peg$silentFails === 0) { peg$fail(peg$c91); }
         }
         if (s1 === peg$FAILED) {
-          if (input.substr(peg$currPos, 8) === peg$c88) {
-            s1 = peg$c88;
+          if (input.substr(peg$currPos, 8) === peg$c92) {
+            s1 = peg$c92;
             peg$currPos += 8;
           } else {
             s1 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c89); }
+            if (peg$silentFails === 0) { peg$fail(peg$c93); }
           }
           if (s1 === peg$FAILED) {
-            if (input.substr(peg$currPos, 10) === peg$c90) {
-              s1 = peg$c90;
+            if (input.substr(peg$currPos, 10) === peg$c94) {
+              s1 = peg$c94;
               peg$currPos += 10;
             } else {
               s1 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c91); }
+              if (peg$silentFails === 0) { peg$fail(peg$c95); }
             }
           }
         }
@@ -2182,7 +2537,7 @@ function peg$parse(input, options) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c92(s1);
+      s1 = peg$c96(s1);
     }
     s0 = s1;
 
@@ -2205,7 +2560,7 @@ function peg$parse(input, options) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c93();
+      s1 = peg$c97();
     }
     s0 = s1;
 
@@ -2255,7 +2610,7 @@ function peg$parse(input, options) {
         }
         if (s3 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c94(s2);
+          s1 = peg$c98(s2);
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -2278,11 +2633,11 @@ function peg$parse(input, options) {
 
     s0 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 91) {
-      s1 = peg$c76;
+      s1 = peg$c80;
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c77); }
+      if (peg$silentFails === 0) { peg$fail(peg$c81); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parseRawArgumentContentString();
@@ -2291,15 +2646,15 @@ function peg$parse(input, options) {
       }
       if (s2 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 93) {
-          s3 = peg$c79;
+          s3 = peg$c83;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c80); }
+          if (peg$silentFails === 0) { peg$fail(peg$c84); }
         }
         if (s3 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c95(s2);
+          s1 = peg$c99(s2);
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -2341,35 +2696,35 @@ function peg$parse(input, options) {
       }
       if (s3 === peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 91) {
-          s3 = peg$c76;
+          s3 = peg$c80;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c77); }
+          if (peg$silentFails === 0) { peg$fail(peg$c81); }
         }
         if (s3 === peg$FAILED) {
           if (input.charCodeAt(peg$currPos) === 93) {
-            s3 = peg$c79;
+            s3 = peg$c83;
             peg$currPos++;
           } else {
             s3 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c80); }
+            if (peg$silentFails === 0) { peg$fail(peg$c84); }
           }
           if (s3 === peg$FAILED) {
             if (input.charCodeAt(peg$currPos) === 92) {
-              s3 = peg$c96;
+              s3 = peg$c100;
               peg$currPos++;
             } else {
               s3 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c97); }
+              if (peg$silentFails === 0) { peg$fail(peg$c101); }
             }
             if (s3 === peg$FAILED) {
-              if (input.substr(peg$currPos, 2) === peg$c98) {
-                s3 = peg$c98;
+              if (input.substr(peg$currPos, 2) === peg$c102) {
+                s3 = peg$c102;
                 peg$currPos += 2;
               } else {
                 s3 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c99); }
+                if (peg$silentFails === 0) { peg$fail(peg$c103); }
               }
             }
           }
@@ -2389,7 +2744,7 @@ function peg$parse(input, options) {
         peg$currPos++;
       } else {
         s3 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c100); }
+        if (peg$silentFails === 0) { peg$fail(peg$c104); }
       }
       if (s3 !== peg$FAILED) {
         s2 = [s2, s3];
@@ -2404,7 +2759,7 @@ function peg$parse(input, options) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c101(s1);
+      s1 = peg$c105(s1);
     }
     s0 = s1;
 
@@ -2416,11 +2771,11 @@ function peg$parse(input, options) {
 
     s0 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 92) {
-      s1 = peg$c96;
+      s1 = peg$c100;
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c97); }
+      if (peg$silentFails === 0) { peg$fail(peg$c101); }
     }
     if (s1 !== peg$FAILED) {
       if (input.length > peg$currPos) {
@@ -2428,11 +2783,11 @@ function peg$parse(input, options) {
         peg$currPos++;
       } else {
         s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c100); }
+        if (peg$silentFails === 0) { peg$fail(peg$c104); }
       }
       if (s2 !== peg$FAILED) {
         peg$savedPos = s0;
-        s1 = peg$c102(s2);
+        s1 = peg$c106(s2);
         s0 = s1;
       } else {
         peg$currPos = s0;
@@ -2447,41 +2802,47 @@ function peg$parse(input, options) {
   }
 
   function peg$parseAssignment() {
-    var s0, s1, s2, s3, s4, s5, s6, s7;
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8;
 
     s0 = peg$currPos;
     s1 = peg$parse_();
     if (s1 !== peg$FAILED) {
-      s2 = peg$parseIdentifier();
+      s2 = peg$parseOffset();
       if (s2 !== peg$FAILED) {
-        s3 = peg$parse_();
+        s3 = peg$parseIdentifier();
         if (s3 !== peg$FAILED) {
-          if (input.charCodeAt(peg$currPos) === 61) {
-            s4 = peg$c103;
-            peg$currPos++;
-          } else {
-            s4 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c104); }
-          }
+          s4 = peg$parse_();
           if (s4 !== peg$FAILED) {
-            s5 = peg$parse_();
+            if (input.charCodeAt(peg$currPos) === 61) {
+              s5 = peg$c107;
+              peg$currPos++;
+            } else {
+              s5 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$c108); }
+            }
             if (s5 !== peg$FAILED) {
-              s6 = peg$parseEnvFunction();
-              if (s6 === peg$FAILED) {
-                s6 = peg$parseStringLiteral();
-                if (s6 === peg$FAILED) {
-                  s6 = peg$parseBooleanLiteral();
-                  if (s6 === peg$FAILED) {
-                    s6 = peg$parseNumberLiteral();
+              s6 = peg$parse_();
+              if (s6 !== peg$FAILED) {
+                s7 = peg$parseEnvFunction();
+                if (s7 === peg$FAILED) {
+                  s7 = peg$parseStringLiteral();
+                  if (s7 === peg$FAILED) {
+                    s7 = peg$parseBooleanLiteral();
+                    if (s7 === peg$FAILED) {
+                      s7 = peg$parseNumberLiteral();
+                    }
                   }
                 }
-              }
-              if (s6 !== peg$FAILED) {
-                s7 = peg$parse_();
                 if (s7 !== peg$FAILED) {
-                  peg$savedPos = s0;
-                  s1 = peg$c105(s2, s6);
-                  s0 = s1;
+                  s8 = peg$parse_();
+                  if (s8 !== peg$FAILED) {
+                    peg$savedPos = s0;
+                    s1 = peg$c109(s2, s3, s7);
+                    s0 = s1;
+                  } else {
+                    peg$currPos = s0;
+                    s0 = peg$FAILED;
+                  }
                 } else {
                   peg$currPos = s0;
                   s0 = peg$FAILED;
@@ -2518,12 +2879,12 @@ function peg$parse(input, options) {
     var s0, s1, s2, s3, s4, s5, s6, s7;
 
     s0 = peg$currPos;
-    if (input.substr(peg$currPos, 3) === peg$c106) {
-      s1 = peg$c106;
+    if (input.substr(peg$currPos, 3) === peg$c110) {
+      s1 = peg$c110;
       peg$currPos += 3;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c107); }
+      if (peg$silentFails === 0) { peg$fail(peg$c111); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
@@ -2551,7 +2912,7 @@ function peg$parse(input, options) {
                 }
                 if (s7 !== peg$FAILED) {
                   peg$savedPos = s0;
-                  s1 = peg$c108(s5);
+                  s1 = peg$c112(s5);
                   s0 = s1;
                 } else {
                   peg$currPos = s0;
@@ -2585,40 +2946,54 @@ function peg$parse(input, options) {
     return s0;
   }
 
+  function peg$parseOffset() {
+    var s0, s1;
+
+    s0 = peg$currPos;
+    s1 = peg$c113;
+    if (s1 !== peg$FAILED) {
+      peg$savedPos = s0;
+      s1 = peg$c114();
+    }
+    s0 = s1;
+
+    return s0;
+  }
+
   function peg$parseIdentifier() {
     var s0, s1, s2, s3;
 
     peg$silentFails++;
     s0 = peg$currPos;
-    if (peg$c110.test(input.charAt(peg$currPos))) {
+    if (peg$c116.test(input.charAt(peg$currPos))) {
       s1 = input.charAt(peg$currPos);
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c111); }
+      if (peg$silentFails === 0) { peg$fail(peg$c117); }
     }
     if (s1 !== peg$FAILED) {
       s2 = [];
-      if (peg$c112.test(input.charAt(peg$currPos))) {
+      if (peg$c118.test(input.charAt(peg$currPos))) {
         s3 = input.charAt(peg$currPos);
         peg$currPos++;
       } else {
         s3 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c113); }
+        if (peg$silentFails === 0) { peg$fail(peg$c119); }
       }
       while (s3 !== peg$FAILED) {
         s2.push(s3);
-        if (peg$c112.test(input.charAt(peg$currPos))) {
+        if (peg$c118.test(input.charAt(peg$currPos))) {
           s3 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c113); }
+          if (peg$silentFails === 0) { peg$fail(peg$c119); }
         }
       }
       if (s2 !== peg$FAILED) {
         peg$savedPos = s0;
-        s1 = peg$c114();
+        s1 = peg$c120();
         s0 = s1;
       } else {
         peg$currPos = s0;
@@ -2631,7 +3006,7 @@ function peg$parse(input, options) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c109); }
+      if (peg$silentFails === 0) { peg$fail(peg$c115); }
     }
 
     return s0;
@@ -2643,11 +3018,11 @@ function peg$parse(input, options) {
     peg$silentFails++;
     s0 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 34) {
-      s1 = peg$c116;
+      s1 = peg$c122;
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c117); }
+      if (peg$silentFails === 0) { peg$fail(peg$c123); }
     }
     if (s1 !== peg$FAILED) {
       s2 = [];
@@ -2658,15 +3033,15 @@ function peg$parse(input, options) {
       }
       if (s2 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 34) {
-          s3 = peg$c116;
+          s3 = peg$c122;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c117); }
+          if (peg$silentFails === 0) { peg$fail(peg$c123); }
         }
         if (s3 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c118(s2);
+          s1 = peg$c124(s2);
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -2683,11 +3058,11 @@ function peg$parse(input, options) {
     if (s0 === peg$FAILED) {
       s0 = peg$currPos;
       if (input.charCodeAt(peg$currPos) === 39) {
-        s1 = peg$c119;
+        s1 = peg$c125;
         peg$currPos++;
       } else {
         s1 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c120); }
+        if (peg$silentFails === 0) { peg$fail(peg$c126); }
       }
       if (s1 !== peg$FAILED) {
         s2 = [];
@@ -2698,15 +3073,15 @@ function peg$parse(input, options) {
         }
         if (s2 !== peg$FAILED) {
           if (input.charCodeAt(peg$currPos) === 39) {
-            s3 = peg$c119;
+            s3 = peg$c125;
             peg$currPos++;
           } else {
             s3 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c120); }
+            if (peg$silentFails === 0) { peg$fail(peg$c126); }
           }
           if (s3 !== peg$FAILED) {
             peg$savedPos = s0;
-            s1 = peg$c118(s2);
+            s1 = peg$c124(s2);
             s0 = s1;
           } else {
             peg$currPos = s0;
@@ -2724,7 +3099,7 @@ function peg$parse(input, options) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c115); }
+      if (peg$silentFails === 0) { peg$fail(peg$c121); }
     }
 
     return s0;
@@ -2737,19 +3112,19 @@ function peg$parse(input, options) {
     s1 = peg$currPos;
     peg$silentFails++;
     if (input.charCodeAt(peg$currPos) === 34) {
-      s2 = peg$c116;
+      s2 = peg$c122;
       peg$currPos++;
     } else {
       s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c117); }
+      if (peg$silentFails === 0) { peg$fail(peg$c123); }
     }
     if (s2 === peg$FAILED) {
       if (input.charCodeAt(peg$currPos) === 92) {
-        s2 = peg$c96;
+        s2 = peg$c100;
         peg$currPos++;
       } else {
         s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c97); }
+        if (peg$silentFails === 0) { peg$fail(peg$c101); }
       }
     }
     peg$silentFails--;
@@ -2765,11 +3140,11 @@ function peg$parse(input, options) {
         peg$currPos++;
       } else {
         s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c100); }
+        if (peg$silentFails === 0) { peg$fail(peg$c104); }
       }
       if (s2 !== peg$FAILED) {
         peg$savedPos = s0;
-        s1 = peg$c101(s2);
+        s1 = peg$c105(s2);
         s0 = s1;
       } else {
         peg$currPos = s0;
@@ -2782,17 +3157,17 @@ function peg$parse(input, options) {
     if (s0 === peg$FAILED) {
       s0 = peg$currPos;
       if (input.charCodeAt(peg$currPos) === 92) {
-        s1 = peg$c96;
+        s1 = peg$c100;
         peg$currPos++;
       } else {
         s1 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c97); }
+        if (peg$silentFails === 0) { peg$fail(peg$c101); }
       }
       if (s1 !== peg$FAILED) {
         s2 = peg$parseEscapeSequence();
         if (s2 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c121(s2);
+          s1 = peg$c127(s2);
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -2814,19 +3189,19 @@ function peg$parse(input, options) {
     s1 = peg$currPos;
     peg$silentFails++;
     if (input.charCodeAt(peg$currPos) === 39) {
-      s2 = peg$c119;
+      s2 = peg$c125;
       peg$currPos++;
     } else {
       s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c120); }
+      if (peg$silentFails === 0) { peg$fail(peg$c126); }
     }
     if (s2 === peg$FAILED) {
       if (input.charCodeAt(peg$currPos) === 92) {
-        s2 = peg$c96;
+        s2 = peg$c100;
         peg$currPos++;
       } else {
         s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c97); }
+        if (peg$silentFails === 0) { peg$fail(peg$c101); }
       }
     }
     peg$silentFails--;
@@ -2842,11 +3217,11 @@ function peg$parse(input, options) {
         peg$currPos++;
       } else {
         s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c100); }
+        if (peg$silentFails === 0) { peg$fail(peg$c104); }
       }
       if (s2 !== peg$FAILED) {
         peg$savedPos = s0;
-        s1 = peg$c101(s2);
+        s1 = peg$c105(s2);
         s0 = s1;
       } else {
         peg$currPos = s0;
@@ -2859,17 +3234,17 @@ function peg$parse(input, options) {
     if (s0 === peg$FAILED) {
       s0 = peg$currPos;
       if (input.charCodeAt(peg$currPos) === 92) {
-        s1 = peg$c96;
+        s1 = peg$c100;
         peg$currPos++;
       } else {
         s1 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c97); }
+        if (peg$silentFails === 0) { peg$fail(peg$c101); }
       }
       if (s1 !== peg$FAILED) {
         s2 = peg$parseEscapeSequence();
         if (s2 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c121(s2);
+          s1 = peg$c127(s2);
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -2889,113 +3264,113 @@ function peg$parse(input, options) {
 
     s0 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 110) {
-      s1 = peg$c122;
+      s1 = peg$c128;
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c123); }
+      if (peg$silentFails === 0) { peg$fail(peg$c129); }
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c124();
+      s1 = peg$c130();
     }
     s0 = s1;
     if (s0 === peg$FAILED) {
       s0 = peg$currPos;
       if (input.charCodeAt(peg$currPos) === 114) {
-        s1 = peg$c125;
+        s1 = peg$c131;
         peg$currPos++;
       } else {
         s1 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c126); }
+        if (peg$silentFails === 0) { peg$fail(peg$c132); }
       }
       if (s1 !== peg$FAILED) {
         peg$savedPos = s0;
-        s1 = peg$c127();
+        s1 = peg$c133();
       }
       s0 = s1;
       if (s0 === peg$FAILED) {
         s0 = peg$currPos;
         if (input.charCodeAt(peg$currPos) === 116) {
-          s1 = peg$c128;
+          s1 = peg$c134;
           peg$currPos++;
         } else {
           s1 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c129); }
+          if (peg$silentFails === 0) { peg$fail(peg$c135); }
         }
         if (s1 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c130();
+          s1 = peg$c136();
         }
         s0 = s1;
         if (s0 === peg$FAILED) {
           s0 = peg$currPos;
           if (input.charCodeAt(peg$currPos) === 98) {
-            s1 = peg$c131;
+            s1 = peg$c137;
             peg$currPos++;
           } else {
             s1 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c132); }
+            if (peg$silentFails === 0) { peg$fail(peg$c138); }
           }
           if (s1 !== peg$FAILED) {
             peg$savedPos = s0;
-            s1 = peg$c133();
+            s1 = peg$c139();
           }
           s0 = s1;
           if (s0 === peg$FAILED) {
             s0 = peg$currPos;
             if (input.charCodeAt(peg$currPos) === 102) {
-              s1 = peg$c134;
+              s1 = peg$c140;
               peg$currPos++;
             } else {
               s1 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c135); }
+              if (peg$silentFails === 0) { peg$fail(peg$c141); }
             }
             if (s1 !== peg$FAILED) {
               peg$savedPos = s0;
-              s1 = peg$c136();
+              s1 = peg$c142();
             }
             s0 = s1;
             if (s0 === peg$FAILED) {
               s0 = peg$currPos;
               if (input.charCodeAt(peg$currPos) === 34) {
-                s1 = peg$c116;
+                s1 = peg$c122;
                 peg$currPos++;
               } else {
                 s1 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c117); }
+                if (peg$silentFails === 0) { peg$fail(peg$c123); }
               }
               if (s1 !== peg$FAILED) {
                 peg$savedPos = s0;
-                s1 = peg$c137();
+                s1 = peg$c143();
               }
               s0 = s1;
               if (s0 === peg$FAILED) {
                 s0 = peg$currPos;
                 if (input.charCodeAt(peg$currPos) === 39) {
-                  s1 = peg$c119;
+                  s1 = peg$c125;
                   peg$currPos++;
                 } else {
                   s1 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c120); }
+                  if (peg$silentFails === 0) { peg$fail(peg$c126); }
                 }
                 if (s1 !== peg$FAILED) {
                   peg$savedPos = s0;
-                  s1 = peg$c138();
+                  s1 = peg$c144();
                 }
                 s0 = s1;
                 if (s0 === peg$FAILED) {
                   s0 = peg$currPos;
                   if (input.charCodeAt(peg$currPos) === 92) {
-                    s1 = peg$c96;
+                    s1 = peg$c100;
                     peg$currPos++;
                   } else {
                     s1 = peg$FAILED;
-                    if (peg$silentFails === 0) { peg$fail(peg$c97); }
+                    if (peg$silentFails === 0) { peg$fail(peg$c101); }
                   }
                   if (s1 !== peg$FAILED) {
                     peg$savedPos = s0;
-                    s1 = peg$c139();
+                    s1 = peg$c145();
                   }
                   s0 = s1;
                 }
@@ -3019,30 +3394,30 @@ function peg$parse(input, options) {
     if (s2 !== peg$FAILED) {
       s3 = peg$currPos;
       if (input.charCodeAt(peg$currPos) === 46) {
-        s4 = peg$c141;
+        s4 = peg$c29;
         peg$currPos++;
       } else {
         s4 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c142); }
+        if (peg$silentFails === 0) { peg$fail(peg$c30); }
       }
       if (s4 !== peg$FAILED) {
         s5 = [];
-        if (peg$c143.test(input.charAt(peg$currPos))) {
+        if (peg$c147.test(input.charAt(peg$currPos))) {
           s6 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
           s6 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c144); }
+          if (peg$silentFails === 0) { peg$fail(peg$c148); }
         }
         if (s6 !== peg$FAILED) {
           while (s6 !== peg$FAILED) {
             s5.push(s6);
-            if (peg$c143.test(input.charAt(peg$currPos))) {
+            if (peg$c147.test(input.charAt(peg$currPos))) {
               s6 = input.charAt(peg$currPos);
               peg$currPos++;
             } else {
               s6 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c144); }
+              if (peg$silentFails === 0) { peg$fail(peg$c148); }
             }
           }
         } else {
@@ -3075,37 +3450,37 @@ function peg$parse(input, options) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c145(s1);
+      s1 = peg$c149(s1);
     }
     s0 = s1;
     if (s0 === peg$FAILED) {
       s0 = peg$currPos;
       s1 = peg$currPos;
       if (input.charCodeAt(peg$currPos) === 46) {
-        s2 = peg$c141;
+        s2 = peg$c29;
         peg$currPos++;
       } else {
         s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c142); }
+        if (peg$silentFails === 0) { peg$fail(peg$c30); }
       }
       if (s2 !== peg$FAILED) {
         s3 = [];
-        if (peg$c143.test(input.charAt(peg$currPos))) {
+        if (peg$c147.test(input.charAt(peg$currPos))) {
           s4 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
           s4 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c144); }
+          if (peg$silentFails === 0) { peg$fail(peg$c148); }
         }
         if (s4 !== peg$FAILED) {
           while (s4 !== peg$FAILED) {
             s3.push(s4);
-            if (peg$c143.test(input.charAt(peg$currPos))) {
+            if (peg$c147.test(input.charAt(peg$currPos))) {
               s4 = input.charAt(peg$currPos);
               peg$currPos++;
             } else {
               s4 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c144); }
+              if (peg$silentFails === 0) { peg$fail(peg$c148); }
             }
           }
         } else {
@@ -3124,14 +3499,14 @@ function peg$parse(input, options) {
       }
       if (s1 !== peg$FAILED) {
         peg$savedPos = s0;
-        s1 = peg$c145(s1);
+        s1 = peg$c149(s1);
       }
       s0 = s1;
     }
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c140); }
+      if (peg$silentFails === 0) { peg$fail(peg$c146); }
     }
 
     return s0;
@@ -3141,22 +3516,22 @@ function peg$parse(input, options) {
     var s0, s1;
 
     s0 = [];
-    if (peg$c143.test(input.charAt(peg$currPos))) {
+    if (peg$c147.test(input.charAt(peg$currPos))) {
       s1 = input.charAt(peg$currPos);
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c144); }
+      if (peg$silentFails === 0) { peg$fail(peg$c148); }
     }
     if (s1 !== peg$FAILED) {
       while (s1 !== peg$FAILED) {
         s0.push(s1);
-        if (peg$c143.test(input.charAt(peg$currPos))) {
+        if (peg$c147.test(input.charAt(peg$currPos))) {
           s1 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
           s1 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c144); }
+          if (peg$silentFails === 0) { peg$fail(peg$c148); }
         }
       }
     } else {
@@ -3171,37 +3546,37 @@ function peg$parse(input, options) {
 
     peg$silentFails++;
     s0 = peg$currPos;
-    if (input.substr(peg$currPos, 4) === peg$c147) {
-      s1 = peg$c147;
+    if (input.substr(peg$currPos, 4) === peg$c151) {
+      s1 = peg$c151;
       peg$currPos += 4;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c148); }
+      if (peg$silentFails === 0) { peg$fail(peg$c152); }
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c149();
+      s1 = peg$c153();
     }
     s0 = s1;
     if (s0 === peg$FAILED) {
       s0 = peg$currPos;
-      if (input.substr(peg$currPos, 5) === peg$c150) {
-        s1 = peg$c150;
+      if (input.substr(peg$currPos, 5) === peg$c154) {
+        s1 = peg$c154;
         peg$currPos += 5;
       } else {
         s1 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c151); }
+        if (peg$silentFails === 0) { peg$fail(peg$c155); }
       }
       if (s1 !== peg$FAILED) {
         peg$savedPos = s0;
-        s1 = peg$c152();
+        s1 = peg$c156();
       }
       s0 = s1;
     }
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c146); }
+      if (peg$silentFails === 0) { peg$fail(peg$c150); }
     }
 
     return s0;
@@ -3226,7 +3601,7 @@ function peg$parse(input, options) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c153); }
+      if (peg$silentFails === 0) { peg$fail(peg$c157); }
     }
 
     return s0;
@@ -3255,7 +3630,7 @@ function peg$parse(input, options) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c154); }
+      if (peg$silentFails === 0) { peg$fail(peg$c158); }
     }
 
     return s0;
@@ -3265,22 +3640,22 @@ function peg$parse(input, options) {
     var s0, s1;
 
     s0 = [];
-    if (peg$c155.test(input.charAt(peg$currPos))) {
+    if (peg$c159.test(input.charAt(peg$currPos))) {
       s1 = input.charAt(peg$currPos);
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c156); }
+      if (peg$silentFails === 0) { peg$fail(peg$c160); }
     }
     if (s1 !== peg$FAILED) {
       while (s1 !== peg$FAILED) {
         s0.push(s1);
-        if (peg$c155.test(input.charAt(peg$currPos))) {
+        if (peg$c159.test(input.charAt(peg$currPos))) {
           s1 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
           s1 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c156); }
+          if (peg$silentFails === 0) { peg$fail(peg$c160); }
         }
       }
     } else {
@@ -3294,46 +3669,46 @@ function peg$parse(input, options) {
     var s0, s1, s2, s3;
 
     s0 = peg$currPos;
-    if (input.substr(peg$currPos, 2) === peg$c98) {
-      s1 = peg$c98;
+    if (input.substr(peg$currPos, 2) === peg$c102) {
+      s1 = peg$c102;
       peg$currPos += 2;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c99); }
+      if (peg$silentFails === 0) { peg$fail(peg$c103); }
     }
     if (s1 !== peg$FAILED) {
       s2 = [];
-      if (peg$c157.test(input.charAt(peg$currPos))) {
+      if (peg$c161.test(input.charAt(peg$currPos))) {
         s3 = input.charAt(peg$currPos);
         peg$currPos++;
       } else {
         s3 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c158); }
+        if (peg$silentFails === 0) { peg$fail(peg$c162); }
       }
       while (s3 !== peg$FAILED) {
         s2.push(s3);
-        if (peg$c157.test(input.charAt(peg$currPos))) {
+        if (peg$c161.test(input.charAt(peg$currPos))) {
           s3 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c158); }
+          if (peg$silentFails === 0) { peg$fail(peg$c162); }
         }
       }
       if (s2 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 10) {
-          s3 = peg$c159;
+          s3 = peg$c163;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c160); }
+          if (peg$silentFails === 0) { peg$fail(peg$c164); }
         }
         if (s3 === peg$FAILED) {
           s3 = peg$parseEOF();
         }
         if (s3 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c161();
+          s1 = peg$c165();
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -3361,7 +3736,7 @@ function peg$parse(input, options) {
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c100); }
+      if (peg$silentFails === 0) { peg$fail(peg$c104); }
     }
     peg$silentFails--;
     if (s1 === peg$FAILED) {
@@ -3380,7 +3755,8 @@ function peg$parse(input, options) {
 
     // Helper function to process attribute arguments
     function processAttributeArgs(attributeName, rawArgs) {
-      if (!rawArgs) return null;
+      // false and 0 are arguments too, as in @default(false)
+      if (rawArgs === null || rawArgs === undefined) return null;
 
       // Handle specific attribute types
       switch (attributeName) {
@@ -3432,6 +3808,12 @@ function peg$parse(input, options) {
       const onUpdateMatch = remainingString.match(/onUpdate:\s*([A-Za-z]+)/);
       if (onUpdateMatch && onUpdateMatch[1]) {
         relationArgs.onUpdate = onUpdateMatch[1];
+        remainingString = remainingString.replace(onUpdateMatch[0], '');
+      }
+
+      const mapMatch = remainingString.match(/map:\s*"([^"]*)"/);
+      if (mapMatch && mapMatch[1]) {
+        relationArgs.map = mapMatch[1];
       }
 
       return Object.keys(relationArgs).length > 0 ? relationArgs : rawArgs;
@@ -3456,6 +3838,11 @@ function peg$parse(input, options) {
         remainingString = remainingString.replace(nameMatch[0], '');
       }
 
+      const mapMatch = remainingString.match(/map:\s*"([^"]*)"/);
+      if (mapMatch && mapMatch[1]) {
+        indexArgs.map = mapMatch[1];
+      }
+
       return Object.keys(indexArgs).length > 0 ? indexArgs : rawArgs;
     }
 
@@ -3494,6 +3881,159 @@ function peg$parse(input, options) {
       return Object.keys(checkArgs).length > 0 ? checkArgs : rawArgs;
     }
 
+    // Parse a number literal, keeping its text when a JavaScript number cannot hold it exactly
+    // (BigInt defaults beyond 2^53, Decimal defaults with more than 15 significant digits)
+    function parseNumberLiteral(literal) {
+      const value = parseFloat(literal);
+      const exact = literal.includes(".")
+        ? literal.replace(".", "").replace(/^0+/, "").replace(/0+$/, "").length <= 15
+        : Number.isSafeInteger(value);
+      return exact ? value : literal;
+    }
+
+    // Lines of the input and the offset each starts at, split once per parse so the comment
+    // helpers below look lines up instead of re-splitting the input before every declaration
+    const inputLines = input.split("\n");
+    const lineStarts = [0];
+    for (let i = 0; i < inputLines.length - 1; i++) {
+      lineStarts.push(lineStarts[i] + inputLines[i].length + 1);
+    }
+
+    // Index of the line offset is on
+    function lineIndex(offset) {
+      let low = 0;
+      let high = lineStarts.length - 1;
+      while (low < high) {
+        const middle = (low + high + 1) >> 1;
+        if (lineStarts[middle] <= offset) low = middle;
+        else high = middle - 1;
+      }
+      return low;
+    }
+
+    // The text of offset's line before offset
+    function lineTextBefore(offset) {
+      return input.slice(lineStarts[lineIndex(offset)], offset);
+    }
+
+    // Attach the /// doc comment lines directly above a declaration as its documentation,
+    // and the other comment lines above it as its comments
+    // offset is where the declaration starts; other comments and blank lines end the doc block
+    function withDocumentation(node, offset) {
+      let above = lineIndex(offset);
+      const declarationLine = lineTextBefore(offset);
+      const docs = [];
+      while (/^\s*$/.test(declarationLine) && above > 0 && /^\s*\/\/\//.test(inputLines[above - 1])) {
+        above--;
+        docs.unshift(inputLines[above].trim().slice(3).replace(/^ /, ""));
+      }
+      if (docs.length > 0) {
+        node.documentation = docs.join("\n");
+      }
+      if (/^\s*$/.test(declarationLine)) {
+        withComments(node, above, offset);
+      }
+      return located(node, offset);
+    }
+
+    // Attach the comment lines above a declaration, back to the previous line of code, as comments,
+    // and a comment after it on the same line as lineComment; both are kept as written, slashes included
+    // above is the number of input lines above the declaration; blank lines between comments are dropped
+    function withComments(node, above, offset) {
+      const comments = commentLines(above);
+      if (comments) {
+        node.comments = comments;
+      }
+      const lineComment = commentAfter(offset);
+      if (lineComment) {
+        node.lineComment = lineComment;
+      }
+      return node;
+    }
+
+    // Comments of a member the AST keeps as a plain value, such as an enum value or a datasource assignment
+    function memberComments(offset) {
+      return /^\s*$/.test(lineTextBefore(offset)) ? withComments({}, lineIndex(offset), offset) : {};
+    }
+
+    // Comment lines above offset, such as those before the closing brace of a block or at the end of the schema
+    function commentsBefore(offset) {
+      const lastLine = lineTextBefore(offset);
+      return commentLines(lineIndex(offset), /^\s*$/.test(lastLine) ? undefined : lastLine);
+    }
+
+    // The comment lines at the end of the first count input lines (followed by lastLine, when given),
+    // back to the last line of code, or undefined when there are none
+    // Blank lines between groups of comments are kept as one empty string; others are dropped
+    function commentLines(count, lastLine) {
+      const lineAt = i => i === count ? lastLine : inputLines[i];
+      const comments = [];
+      let i = lastLine === undefined ? count : count + 1;
+      while (i > 0 && /^\s*(\/\/.*)?$/.test(lineAt(i - 1))) {
+        const line = lineAt(--i).trim();
+        if (line !== "" || (comments.length > 0 && comments[0] !== "")) {
+          comments.unshift(line);
+        }
+      }
+      if (comments[0] === "") {
+        comments.shift();
+      }
+      return comments.length > 0 ? comments : undefined;
+    }
+
+    // The // comment ending the line that offset is on, skipping // inside string literals
+    function commentAfter(offset) {
+      const end = input.indexOf("\n", offset);
+      const line = input.slice(offset, end === -1 ? input.length : end);
+      let quote = null;
+      for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quote) {
+          if (char === "\\") i++;
+          else if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+          quote = char;
+        } else if (line.startsWith("//", i)) {
+          return line.slice(i).trim();
+        }
+      }
+      return undefined;
+    }
+
+    // The comments of members in a map by member name, or undefined when no member has any
+    function memberCommentMap(members) {
+      const map = {};
+      members.forEach(member => {
+        if (member && (member.comments || member.lineComment)) {
+          map[member.key] = Object.assign({}, member.comments && { comments: member.comments }, member.lineComment && { lineComment: member.lineComment });
+        }
+      });
+      return Object.keys(map).length > 0 ? map : undefined;
+    }
+
+    // Documentation and comments of a block; end is where its closing brace is
+    // Comments before the closing brace are kept as endComments, and undefined member comment maps are dropped
+    function withBlockComments(node, start, end) {
+      Object.keys(node).forEach(key => {
+        if (node[key] === undefined) delete node[key];
+      });
+      const endComments = commentsBefore(end);
+      if (endComments) {
+        node.endComments = endComments;
+      }
+      return withDocumentation(node, start);
+    }
+
+    // Report where a declaration starts to the locate option, when the caller passes one
+    // Positions stay out of the AST itself, which the generated client embeds as JSON
+    function located(node, offset) {
+      if (typeof options.locate === "function") {
+        const line = lineIndex(offset);
+        options.locate(node, { line: line + 1, column: offset - lineStarts[line] + 1 });
+      }
+      return node;
+    }
+
 
   peg$result = peg$startRuleFunction();
 
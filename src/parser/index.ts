@@ -3,6 +3,7 @@
  */
 
 import * as fs from 'node:fs';
+import * as path from 'node:path';
 
 // Import the generated parser
 let parser: any = null;
@@ -30,11 +31,118 @@ export async function parseSchema(schema: string): Promise<any[]> {
 }
 
 /**
- * Parse a Prisma schema file
+ * Where a declaration of a schema is written
  */
-export async function parseSchemaFile(filePath: string): Promise<any[]> {
-  const schema = fs.readFileSync(filePath, 'utf-8');
-  return parseSchema(schema);
+export interface SchemaLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Error in one file of a schema, such as a syntax error or a duplicate definition
+ * The message starts with the file and position so it reads well on its own; reason is the bare message
+ */
+export class SchemaFileError extends Error {
+  constructor(readonly reason: string, readonly file: string, readonly line?: number, readonly column?: number) {
+    super(`${file}${line !== undefined ? `:${line}:${column}` : ''}: ${reason}`);
+    this.name = 'SchemaFileError';
+  }
+}
+
+/**
+ * Thrown when a model, view, enum or type name, a generator or the datasource is declared twice
+ */
+export class DuplicateDefinitionError extends SchemaFileError {
+  constructor(reason: string, file: string, line?: number, column?: number) {
+    super(reason, file, line, column);
+    this.name = 'DuplicateDefinitionError';
+  }
+}
+
+// Positions of the nodes read by parseSchemaFile, kept beside the AST so it stays plain data
+const locations = new WeakMap<object, SchemaLocation>();
+
+/**
+ * Where a model, view, enum, type, field, datasource or generator read by parseSchemaFile is declared
+ */
+export function schemaLocation(node: object): SchemaLocation | undefined {
+  return locations.get(node);
+}
+
+/**
+ * The files of a schema: the file itself, or for a schema folder such as prisma/schema
+ * every .prisma file in it and its subfolders, in path order
+ */
+export function schemaFilePaths(schemaPath: string): string[] {
+  if (!fs.statSync(schemaPath).isDirectory()) {
+    return [schemaPath];
+  }
+  return fs.readdirSync(schemaPath, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(entry => {
+      const entryPath = path.join(schemaPath, entry.name);
+      if (entry.isDirectory()) {
+        return schemaFilePaths(entryPath);
+      }
+      return entry.name.endsWith('.prisma') ? [entryPath] : [];
+    });
+}
+
+/**
+ * The text of a schema file, or of all files of a schema folder one after another
+ */
+export function readSchemaContent(schemaPath: string): string {
+  return schemaFilePaths(schemaPath).map(file => fs.readFileSync(file, 'utf-8')).join('\n');
+}
+
+/**
+ * Parse a Prisma schema file or schema folder
+ * The files of a folder are merged into one AST, so relations can point at models in other files
+ * Throws a SchemaFileError naming the file for syntax errors, and a DuplicateDefinitionError for names defined twice
+ */
+export async function parseSchemaFile(schemaPath: string): Promise<any[]> {
+  const p = await loadParser();
+  const files = schemaFilePaths(schemaPath);
+  if (files.length === 0) {
+    throw new Error(`No .prisma files found in schema folder: ${schemaPath}`);
+  }
+
+  const ast: any[] = [];
+  const declarations = new Map<string, any>();
+  for (const file of files) {
+    let nodes: any[];
+    try {
+      nodes = p.parse(fs.readFileSync(file, 'utf-8'), {
+        locate: (node: object, position: { line: number; column: number }) => locations.set(node, { file, ...position })
+      });
+    } catch (error: any) {
+      if (!error.location) {
+        throw error;
+      }
+      throw new SchemaFileError(error.message, file, error.location.start.line, error.location.start.column);
+    }
+
+    for (const node of nodes) {
+      // Models, views, enums and types share one namespace; a schema has a single datasource
+      const key = node.type === 'datasource' ? 'datasource' : node.type === 'generator' ? `generator ${node.name}` : node.name;
+      const previous = declarations.get(key);
+      if (previous) {
+        const first = schemaLocation(previous)!;
+        const location = schemaLocation(node)!;
+        const what = node.type === 'datasource' ? 'datasource' : `${node.type} "${node.name}"`;
+        throw new DuplicateDefinitionError(
+          `${what} conflicts with ${previous.type} "${previous.name}" declared at ${first.file}:${first.line}`,
+          file,
+          location.line,
+          location.column
+        );
+      }
+      declarations.set(key, node);
+      ast.push(node);
+    }
+  }
+  return ast;
 }
 
 /**
@@ -0,0 +1,229 @@
+/**
+ * Prisma schema printer
+ * Turns a parsed AST back into schema source in one canonical layout: two-space indents,
+ * aligned field and assignment columns, attributes in a fixed order and comments where they were
+ */
+
+/**
+ * Comments the parser keeps on declarations, as written with their slashes
+ */
+export interface PslComments {
+  comments?: string[]; // Comment lines above the declaration
+  lineComment?: string; // Comment after the declaration on the same line
+}
+
+export interface PslAttributeAst extends PslComments {
+  name: string;
+  args: any;
+}
+
+export interface PslFieldAst extends PslComments {
+  name: string;
+  type: {
+    name: string;
+    optional: boolean;
+    isArray: boolean;
+  };
+  attributes: PslAttributeAst[];
+  documentation?: string;
+}
+
+/**
+ * A top-level block: datasource, generator, model, view, composite type or enum
+ */
+export interface PslBlockAst extends PslComments {
+  type: 'datasource' | 'generator' | 'model' | 'view' | 'type' | 'enum';
+  name: string;
+  documentation?: string;
+  assignments?: Record<string, unknown>;
+  assignmentComments?: Record<string, PslComments>;
+  fields?: PslFieldAst[];
+  attributes?: PslAttributeAst[];
+  values?: string[];
+  valueComments?: Record<string, PslComments>;
+  endComments?: string[]; // Comment lines before the closing brace
+  afterComments?: string[]; // Comment lines after the block, at the end of the schema
+}
+
+/**
+ * Attribute order in printed fields and blocks; native type attributes (@db.*) come after @map,
+ * and attributes not listed keep their order after the listed ones
+ */
+const FIELD_ATTRIBUTE_ORDER = ['id', 'unique', 'default', 'updatedAt', 'relation', 'map', 'db', 'ignore'];
+const BLOCK_ATTRIBUTE_ORDER = ['id', 'unique', 'index', 'fulltext', 'check', 'map', 'schema', 'ignore'];
+
+/**
+ * Attributes whose single string argument is a string literal, such as @map("user_id")
+ */
+const STRING_ARGUMENT_ATTRIBUTES = new Set(['map', 'schema', 'relation']);
+
+/**
+ * Field types whose string defaults are string literals; the string defaults of other types,
+ * such as enum values or exact BigInt and Decimal numbers, are written as they are
+ */
+const STRING_DEFAULT_TYPES = new Set(['String', 'DateTime', 'Json', 'Bytes']);
+
+/**
+ * Print a schema AST as Prisma schema source
+ */
+export function printSchema(ast: PslBlockAst[]): string {
+  const blocks = ast.map(node => {
+    const block = [...leadingLines(node, ''), printBlock(node)].join('\n');
+    return node.afterComments ? `${block}\n\n${node.afterComments.join('\n')}` : block;
+  });
+  return blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '';
+}
+
+function printBlock(node: PslBlockAst): string {
+  const header = withLineComment(`${node.type} ${node.name} {`, node.lineComment);
+  const sections: string[][] = [];
+
+  if (node.type === 'datasource' || node.type === 'generator') {
+    sections.push(printAssignments(node.assignments ?? {}, node.assignmentComments ?? {}));
+  } else if (node.type === 'enum') {
+    sections.push((node.values ?? []).flatMap(value => {
+      const comments = node.valueComments?.[value] ?? {};
+      return [...indentComments(comments.comments, '  '), withLineComment(`  ${value}`, comments.lineComment)];
+    }));
+  } else {
+    sections.push(printFields(node.fields ?? []));
+    sections.push(sortAttributes(node.attributes ?? [], BLOCK_ATTRIBUTE_ORDER).flatMap(attribute => [
+      ...indentComments(attribute.comments, '  '),
+      withLineComment(`  ${printAttribute(attribute, '@@')}`, attribute.lineComment)
+    ]));
+  }
+
+  // A blank line separates the fields from the block attributes, as in `prisma format`
+  const body = sections.filter(lines => lines.length > 0).map(lines => lines.join('\n')).join('\n\n');
+  const endComments = indentComments(node.endComments, '  ').join('\n');
+  return [header, body, endComments, '}'].filter(part => part !== '').join('\n');
+}
+
+function printAssignments(assignments: Record<string, unknown>, comments: Record<string, PslComments>): string[] {
+  const width = Math.max(0, ...Object.keys(assignments).map(key => key.length));
+  return Object.entries(assignments).flatMap(([key, value]) => [
+    ...indentComments(comments[key]?.comments, '  '),
+    withLineComment(`  ${key.padEnd(width)} = ${printAssignmentValue(value)}`, comments[key]?.lineComment)
+  ]);
+}
+
+function printAssignmentValue(value: unknown): string {
+  // env("DATABASE_URL") is kept as text by the parser
+  if (typeof value === 'string' && /^env\(".*"\)$/.test(value)) {
+    return value;
+  }
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+function printFields(fields: PslFieldAst[]): string[] {
+  const rows = fields.map(field => ({
+    field,
+    type: `${field.type.name}${field.type.isArray ? '[]' : ''}${field.type.optional ? '?' : ''}`,
+    attributes: sortAttributes(field.attributes, FIELD_ATTRIBUTE_ORDER).map(attribute => printAttribute(attribute, '@', field))
+  }));
+  const nameWidth = Math.max(0, ...rows.map(row => row.field.name.length));
+  const typeWidth = Math.max(0, ...rows.map(row => row.type.length));
+
+  return rows.flatMap(({ field, type, attributes }) => {
+    const line = `  ${field.name.padEnd(nameWidth)} ${type.padEnd(typeWidth)} ${attributes.join(' ')}`.trimEnd();
+    return [...leadingLines(field, '  '), withLineComment(line, field.lineComment)];
+  });
+}
+
+// Comment lines, then /// documentation lines, above a declaration
+function leadingLines(node: { comments?: string[]; documentation?: string }, indent: string): string[] {
+  return [
+    ...indentComments(node.comments, indent),
+    ...(node.documentation?.split('\n').map(line => `${indent}/// ${line}`.trimEnd()) ?? [])
+  ];
+}
+
+// Comment lines at an indent; the empty strings between groups of comments stay blank lines
+function indentComments(comments: string[] | undefined, indent: string): string[] {
+  return (comments ?? []).map(line => line === '' ? '' : `${indent}${line}`);
+}
+
+function withLineComment(line: string, lineComment: string | undefined): string {
+  return lineComment ? `${line} ${lineComment}` : line;
+}
+
+function sortAttributes(attributes: PslAttributeAst[], order: string[]): PslAttributeAst[] {
+  const rank = (attribute: PslAttributeAst) => {
+    const index = order.indexOf(attribute.name.includes('.') ? 'db' : attribute.name);
+    return index === -1 ? order.length : index;
+  };
+  // Array.prototype.sort is stable, so attributes of the same rank keep their order
+  return [...attributes].sort((a, b) => rank(a) - rank(b));
+}
+
+function printAttribute(attribute: PslAttributeAst, prefix: '@' | '@@', field?: PslFieldAst): string {
+  const args = printArguments(attribute, field);
+  return `${prefix}${attribute.name}${args === null ? '' : `(${args})`}`;
+}
+
+function printArguments(attribute: PslAttributeAst, field?: PslFieldAst): string | null {
+  const { name, args } = attribute;
+  if (args === null || args === undefined) {
+    return null;
+  }
+  if (name.includes('.')) {
+    // Native type arguments, such as the 10, 2 of @db.Decimal(10, 2)
+    return (args as Array<string | number>).join(', ');
+  }
+  if (name === 'default') {
+    return printDefault(args, field);
+  }
+  if (typeof args === 'string') {
+    // Other string arguments are kept as written, like [id, email] in @@id([id, email])
+    return STRING_ARGUMENT_ATTRIBUTES.has(name) ? JSON.stringify(args) : args;
+  }
+  if (typeof args !== 'object') {
+    return String(args);
+  }
+
+  // Arguments the parser has split up, such as those of @relation, @@index and @@check
+  switch (name) {
+    case 'relation':
+      return printNamedArguments(args, ['name', 'fields', 'references', 'map', 'onDelete', 'onUpdate']);
+    case 'check':
+      return [args.constraint, printNamedArguments(args, ['name'])].filter(part => part).join(', ');
+    default:
+      return [
+        args.fields ? `[${args.fields.join(', ')}]` : '',
+        printNamedArguments(args, ['name', 'map'])
+      ].filter(part => part).join(', ');
+  }
+}
+
+function printNamedArguments(args: Record<string, unknown>, keys: string[]): string {
+  return keys
+    .filter(key => args[key] !== undefined)
+    .map(key => {
+      const value = args[key];
+      if (Array.isArray(value)) {
+        return `${key}: [${value.join(', ')}]`;
+      }
+      // Names are string literals; referential actions like Cascade are keywords
+      return `${key}: ${key === 'name' || key === 'map' ? JSON.stringify(value) : value}`;
+    })
+    .join(', ');
+}
+
+function printDefault(value: any, field?: PslFieldAst): string {
+  if (value && typeof value === 'object' && 'function' in value) {
+    // Default functions: now(), autoincrement(), dbgenerated("..."), nanoid(16)
+    const args = value.args;
+    const printed = Array.isArray(args)
+      ? (args.length > 0 ? `[${args.join(', ')}]` : '')
+      : typeof args === 'string' ? JSON.stringify(args) : String(args);
+    return `${value.function}(${printed})`;
+  }
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  // Lists like ["a", "b"] are kept as written
+  if (field?.type.isArray && value.trim().startsWith('[')) {
+    return value;
+  }
+  return field && STRING_DEFAULT_TYPES.has(field.type.name) ? JSON.stringify(value) : value;
+}
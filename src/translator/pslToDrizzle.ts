@@ -1,4 +1,6 @@
 // src/translator/pslToDrizzle.ts
+import { mappedName } from '../generator/mapped-names';
+import { nativeType } from '../generator/native-types';
 
 // Helper function to convert PascalCase to snake_case (e.g., UserProfile -> user_profile)
 function pascalToSnakeCase(str: string): string {
@@ -7,6 +9,11 @@ function pascalToSnakeCase(str: string): string {
     .replace(/^_/, '');
 }
 
+// Helper function to turn a /// doc comment into // comment lines (e.g., above a table or column)
+function docCommentLines(documentation: string | undefined, indent = ''): string[] {
+  return documentation ? documentation.split('\n').map(line => `${indent}// ${line}`.trimEnd()) : [];
+}
+
 // Helper function to convert PascalCase to camelCase (e.g., UserProfile -> userProfile)
 function pascalToCamelCase(str: string): string {
   if (!str) return '';
@@ -44,6 +51,7 @@ interface PslFieldAst {
     isArray: boolean;
   };
   attributes: PslAttributeAst[];
+  documentation?: string; // Text of the /// comments above the field
 }
 
 interface PslModelAst {
@@ -51,18 +59,21 @@ interface PslModelAst {
   name: string; // PascalCase
   fields: PslFieldAst[];
   attributes: PslAttributeAst[]; // Model-level attributes like @@index, @@unique
+  documentation?: string;
 }
 
 interface PslEnumAst {
   type: 'enum';
   name: string; // PascalCase
   values: string[];
+  documentation?: string;
 }
 
 interface PslTypeAst {
   type: 'type';
   name: string; // PascalCase
   fields: PslFieldAst[];
+  documentation?: string;
 }
 
 interface PslViewAst {
@@ -106,7 +117,7 @@ export function translatePslToDrizzleSchema(pslAst: PslAstNode[]): string {
   for (const enumDef of enumAsts) {
     const enumNamePascal = enumDef.name;
     const valuesString = enumDef.values.map(v => `'${v}'`).join(' | ');
-    enumTypeDefinitions.push(`export type ${enumNamePascal} = ${valuesString};\n`);
+    enumTypeDefinitions.push([...docCommentLines(enumDef.documentation), `export type ${enumNamePascal} = ${valuesString};\n`].join('\n'));
   }
 
   // Process composite types
@@ -130,6 +141,12 @@ export function translatePslToDrizzleSchema(pslAst: PslAstNode[]): string {
         case 'Float':
           fieldType = 'number';
           break;
+        case 'BigInt':
+          fieldType = 'bigint';
+          break;
+        case 'Decimal':
+          fieldType = 'string'; // Exact decimal text
+          break;
         case 'Boolean':
           fieldType = 'boolean';
           break;
@@ -159,10 +176,10 @@ export function translatePslToDrizzleSchema(pslAst: PslAstNode[]): string {
         fieldType = `${fieldType} | null`;
       }
 
-      return `  ${field.name}: ${fieldType};`;
+      return [...docCommentLines(field.documentation, '  '), `  ${field.name}: ${fieldType};`].join('\n');
     }).join('\n');
 
-    typeDefinitions.push(`export type ${typeNamePascal} = {\n${fieldsString}\n};\n`);
+    typeDefinitions.push([...docCommentLines(typeDef.documentation), `export type ${typeNamePascal} = {\n${fieldsString}\n};\n`].join('\n'));
   }
 
   const tableDefinitions: string[] = [];
@@ -172,7 +189,7 @@ export function translatePslToDrizzleSchema(pslAst: PslAstNode[]): string {
   for (const model of modelAsts) {
     const modelNamePascal = model.name;
     const constNameCamel = pascalToCamelCase(modelNamePascal); // e.g., user, postOffice
-    const tableNameSnake = pascalToSnakeCase(modelNamePascal); // e.g., user, post_office
+    const tableNameSnake = mappedName(model.attributes) ?? pascalToSnakeCase(modelNamePascal); // e.g., user, post_office, or the @@map name
 
     // --- Pass 1: Collect Foreign Key Info from @relation attributes ---
     const foreignKeyData = new Map<string, { referencedTableConst: string, referencedField: string, optionsString: string }>();
@@ -225,15 +242,21 @@ export function translatePslToDrizzleSchema(pslAst: PslAstNode[]): string {
         continue;
       }
 
-      const columnNameSnake = pascalToSnakeCase(field.name);
+      const columnNameSnake = mappedName(field.attributes) ?? pascalToSnakeCase(field.name); // @map overrides the snake_case name
       let columnType = '';
       let columnBuilder = '';
 
       switch (field.type.name) {
-        case 'String':
+        case 'String': {
           imports.add("import { text } from 'drizzle-orm/sqlite-core';");
-          columnType = `text('${columnNameSnake}')`;
+          // @db.VarChar(n) and @db.Char(n) carry over as the column length
+          const native = nativeType(field.attributes);
+          const length = native && /char$/i.test(native.name) ? native.args[0] : undefined;
+          columnType = typeof length === 'number'
+            ? `text('${columnNameSnake}', { length: ${length} })`
+            : `text('${columnNameSnake}')`;
           break;
+        }
         case 'Int':
           imports.add("import { integer } from 'drizzle-orm/sqlite-core';");
           columnType = `integer('${columnNameSnake}')`;
@@ -251,6 +274,16 @@ export function translatePslToDrizzleSchema(pslAst: PslAstNode[]): string {
           imports.add("import { real } from 'drizzle-orm/sqlite-core';");
           columnType = `real('${columnNameSnake}')`;
           break;
+        case 'BigInt':
+          // 64-bit INTEGER column, read as bigint by drivers with safe integers enabled
+          imports.add("import { integer } from 'drizzle-orm/sqlite-core';");
+          columnType = `integer('${columnNameSnake}').$type<bigint>()`;
+          break;
+        case 'Decimal':
+          // Exact decimal text; a NUMERIC column would round values through a float
+          imports.add("import { text } from 'drizzle-orm/sqlite-core';");
+          columnType = `text('${columnNameSnake}')`;
+          break;
         case 'Json':
           imports.add("import { text } from 'drizzle-orm/sqlite-core';");
           columnType = `text('${columnNameSnake}', { mode: 'json' })`; // Drizzle specific mode for JSON
@@ -306,6 +339,10 @@ export function translatePslToDrizzleSchema(pslAst: PslAstNode[]): string {
             else if (attr.args.name === 'uuid') columnBuilder += '.default(sql`(uuid())`)';
             else if (attr.args.name === 'cuid') columnBuilder += '.default(sql`(cuid())`)';
             // autoincrement is handled by primaryKey logic
+          } else if (field.type.name === 'BigInt' && /^\d+$/.test(String(attr.args))) {
+            columnBuilder += `.default(${attr.args}n)`;
+          } else if (field.type.name === 'Decimal' && typeof attr.args === 'number') {
+            columnBuilder += `.default("${attr.args}")`;
           } else if (typeof attr.args === 'string') {
             columnBuilder += `.default("${attr.args.replace(/"/g, '\\"')}")`;
           } else if (typeof attr.args === 'boolean' || typeof attr.args === 'number') {
@@ -325,7 +362,7 @@ export function translatePslToDrizzleSchema(pslAst: PslAstNode[]): string {
 
       // Apply PK and notNull (after all other modifiers)
       if (isPk) {
-        if (field.type.name === 'Int' && isAutoIncrement) {
+        if ((field.type.name === 'Int' || field.type.name === 'BigInt') && isAutoIncrement) {
           columnBuilder += '.primaryKey({ autoIncrement: true })'; // Simple string append
         } else {
           columnBuilder += '.primaryKey()'; // Simple string append
@@ -334,7 +371,7 @@ export function translatePslToDrizzleSchema(pslAst: PslAstNode[]): string {
         columnBuilder += '.notNull()'; // Simple string append
       }
 
-      columnDefinitions.push(`${columnBuilder},`);
+      columnDefinitions.push(...docCommentLines(field.documentation, '  '), `${columnBuilder},`);
     }
 
     // Remove trailing comma from the last column definition if any
@@ -378,9 +415,10 @@ export function translatePslToDrizzleSchema(pslAst: PslAstNode[]): string {
       }
     }
 
-    tableDefinitions.push(
+    tableDefinitions.push([
+      ...docCommentLines(model.documentation),
       `export const ${constNameCamel} = sqliteTable('${tableNameSnake}', {\n${columnsString}\n});\n`
-    );
+    ].join('\n'));
   }
 
   const relationsDefinitions: string[] = [];
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClientGenerator } from '../../src/generator';
+import { translatePslToDrizzleSchema } from '../../src/translator/pslToDrizzle';
+
+const parser = require('../../src/parser/generatedParser.js');
+
+const SCHEMA = `
+/// A registered user
+/// Users own posts
+model User {
+  id    Int    @id @default(autoincrement())
+  /// Login address, unique per user
+  email String @unique
+  // An ordinary comment stays out of the docs
+  name  String?
+  role  Role   @default(USER)
+}
+
+/// Access level of a user
+enum Role {
+  USER
+  ADMIN
+}
+
+/// A postal address
+type Address {
+  /// Street and number
+  street String
+}
+`;
+
+describe('/// doc comments', () => {
+  const ast = parser.parse(SCHEMA);
+  const node = (name: string) => ast.find((n: any) => n.name === name);
+  const field = (name: string) => node('User').fields.find((f: any) => f.name === name);
+
+  it('attaches doc comments to models, fields, enums and types', () => {
+    expect(node('User').documentation).toBe('A registered user\nUsers own posts');
+    expect(field('email').documentation).toBe('Login address, unique per user');
+    expect(node('Role').documentation).toBe('Access level of a user');
+    expect(node('Address').documentation).toBe('A postal address');
+    expect(node('Address').fields[0].documentation).toBe('Street and number');
+  });
+
+  it('leaves undocumented nodes without documentation', () => {
+    expect(field('id')).not.toHaveProperty('documentation');
+    // A // comment is not documentation
+    expect(field('name')).not.toHaveProperty('documentation');
+    // A trailing /// comment does not document the next line
+    const trailing = parser.parse('model Tag {\n  id Int @id /// primary key\n  label String\n}');
+    expect(trailing[0].fields[1]).not.toHaveProperty('documentation');
+  });
+
+  it('emits JSDoc in the generated client', async () => {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drismify-doc-comments-'));
+    try {
+      await new ClientGenerator({ outputDir, generateTypes: true, generateJs: false }).generateFromAst(ast);
+      const types = fs.readFileSync(path.join(outputDir, 'types.ts'), 'utf-8');
+      const userClient = fs.readFileSync(path.join(outputDir, 'models', 'user.ts'), 'utf-8');
+
+      expect(types).toContain('/**\n * A registered user\n * Users own posts\n */\nexport type User = {');
+      expect(types).toContain('  /**\n   * Login address, unique per user\n   */\n  email: string;');
+      expect(types).toContain('/**\n * Access level of a user\n */\nexport type Role');
+      expect(types).toContain('/**\n * A postal address\n */\nexport type Address');
+      expect(userClient).toContain(' * User model client\n * A registered user\n * Users own posts\n');
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  it('emits comments in the Drizzle schema', () => {
+    const drizzle = translatePslToDrizzleSchema(ast);
+
+    expect(drizzle).toContain('// A registered user\n// Users own posts\nexport const user = sqliteTable(');
+    expect(drizzle).toContain('  // Login address, unique per user\n  email: text(');
+    expect(drizzle).toContain('// Access level of a user\nexport type Role');
+  });
+});
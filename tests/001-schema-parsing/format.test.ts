@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { printSchema } from '../../src/parser/printer';
+import { formatSchema, formatSchemaSource } from '../../src/cli/format';
+import { SQLiteAdapter } from '../../src/adapters/sqlite-adapter';
+import { introspectDatabase } from '../../src/cli/introspect';
+
+const parser = require('../../src/parser/generatedParser.js');
+
+const UNFORMATTED = `// Connection
+datasource db {
+  provider = "sqlite" // local only
+  url = env("DATABASE_URL")
+}
+
+/// A registered user
+model User {
+  // Primary key
+  id Int @default(autoincrement()) @id
+  email String @map("email_address") @unique // login
+  active Boolean @default(false)
+  role Role @default(USER)
+  posts Post[]
+  @@map("users")
+  @@index([email], map: "users_email_idx")
+  // More fields go here
+}
+
+model Post {
+  id Int @id
+  authorId Int
+  author User @relation(onDelete: Cascade, fields: [authorId], references: [id])
+}
+
+enum Role {
+  USER // default
+  ADMIN
+}
+
+// End of schema
+`;
+
+const FORMATTED = `// Connection
+datasource db {
+  provider = "sqlite" // local only
+  url      = env("DATABASE_URL")
+}
+
+/// A registered user
+model User {
+  // Primary key
+  id     Int     @id @default(autoincrement())
+  email  String  @unique @map("email_address") // login
+  active Boolean @default(false)
+  role   Role    @default(USER)
+  posts  Post[]
+
+  @@index([email], map: "users_email_idx")
+  @@map("users")
+  // More fields go here
+}
+
+model Post {
+  id       Int  @id
+  authorId Int
+  author   User @relation(fields: [authorId], references: [id], onDelete: Cascade)
+}
+
+enum Role {
+  USER // default
+  ADMIN
+}
+
+// End of schema
+`;
+
+describe('Schema formatting', () => {
+  describe('parser comments', () => {
+    const ast = parser.parse(UNFORMATTED);
+    const [datasource, user, , role] = ast;
+
+    it('keeps comments on the declarations they belong to', () => {
+      expect(datasource.comments).toEqual(['// Connection']);
+      expect(datasource.assignmentComments).toEqual({ provider: { lineComment: '// local only' } });
+      expect(user.documentation).toBe('A registered user');
+      expect(user.fields[0].comments).toEqual(['// Primary key']);
+      expect(user.fields[1].lineComment).toBe('// login');
+      expect(user.endComments).toEqual(['// More fields go here']);
+      expect(role.valueComments).toEqual({ USER: { lineComment: '// default' } });
+      expect(role.values).toEqual(['USER', 'ADMIN']);
+      expect(role.afterComments).toEqual(['// End of schema']);
+      expect(user.fields[2]).not.toHaveProperty('comments');
+    });
+
+    it('ignores // inside strings and keeps blank lines between comment groups', () => {
+      const [model] = parser.parse('// Header\n\n// Users\nmodel User {\n  id String @id @default("a//b")\n}\n');
+
+      expect(model.comments).toEqual(['// Header', '', '// Users']);
+      expect(model.fields[0]).not.toHaveProperty('lineComment');
+    });
+
+    it('keeps false and zero defaults', () => {
+      expect(user.fields[2].attributes).toEqual([{ name: 'default', args: false }]);
+      expect(parser.parse('model A {\n  n Int @id @default(0)\n}')[0].fields[0].attributes[1].args).toBe(0);
+    });
+  });
+
+  describe('printSchema', () => {
+    it('aligns columns, orders attributes and keeps comments', () => {
+      expect(printSchema(parser.parse(UNFORMATTED))).toBe(FORMATTED);
+    });
+
+    it('prints ASTs built in code', () => {
+      const schema = printSchema([{
+        type: 'model',
+        name: 'Tag',
+        fields: [
+          { name: 'id', type: { name: 'BigInt', optional: false, isArray: false }, attributes: [{ name: 'id', args: null }] },
+          { name: 'label', type: { name: 'String', optional: true, isArray: false }, attributes: [{ name: 'default', args: 'say "hi"' }, { name: 'db.VarChar', args: [40] }] }
+        ],
+        attributes: [{ name: 'unique', args: { fields: ['id', 'label'], name: 'tag_key' } }]
+      }]);
+
+      expect(schema).toBe([
+        'model Tag {',
+        '  id    BigInt  @id',
+        '  label String? @default("say \\"hi\\"") @db.VarChar(40)',
+        '',
+        '  @@unique([id, label], name: "tag_key")',
+        '}',
+        ''
+      ].join('\n'));
+    });
+  });
+
+  describe('formatSchema', () => {
+    it('formats source so that formatting again changes nothing', async () => {
+      expect(await formatSchemaSource(UNFORMATTED)).toBe(FORMATTED);
+      expect(await formatSchemaSource(FORMATTED)).toBe(FORMATTED);
+      expect(await formatSchemaSource('// Only a comment\n')).toBe('// Only a comment\n');
+    });
+
+    it('checks and formats each file of a schema folder', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'drismify-format-'));
+      try {
+        fs.writeFileSync(path.join(dir, 'formatted.prisma'), 'enum Role {\n  USER\n}\n');
+        fs.writeFileSync(path.join(dir, 'user.prisma'), 'model User {\n    id Int @id\n  name String?\n}\n');
+
+        const check = await formatSchema({ schemaPath: dir, check: true });
+        expect(check.changed).toEqual([path.join(dir, 'user.prisma')]);
+        expect(fs.readFileSync(path.join(dir, 'user.prisma'), 'utf-8')).toContain('    id Int @id');
+
+        await formatSchema({ schemaPath: dir });
+        expect(fs.readFileSync(path.join(dir, 'user.prisma'), 'utf-8')).toBe('model User {\n  id   Int     @id\n  name String?\n}\n');
+        expect((await formatSchema({ schemaPath: dir, check: true })).changed).toEqual([]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('names the file of a syntax error', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'drismify-format-'));
+      try {
+        fs.writeFileSync(path.join(dir, 'broken.prisma'), 'model Broken {\n  id Int @id\n');
+        await expect(formatSchema({ schemaPath: dir })).rejects.toThrow(`${path.join(dir, 'broken.prisma')}:`);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  it('writes introspected schemas in the formatted layout', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'drismify-format-introspect-'));
+    const dbPath = path.join(dir, 'app.db');
+    try {
+      const adapter = new SQLiteAdapter({ filename: dbPath });
+      await adapter.connect();
+      await adapter.execute('CREATE TABLE author (id INTEGER PRIMARY KEY, name TEXT NOT NULL, active BOOLEAN DEFAULT 1)');
+      await adapter.execute('CREATE TABLE book (id INTEGER PRIMARY KEY, author_id INTEGER NOT NULL REFERENCES author(id) ON DELETE CASCADE, title VARCHAR(200))');
+      await adapter.disconnect();
+
+      const schema = await introspectDatabase({ url: dbPath, provider: 'sqlite', output: path.join(dir, 'schema.prisma'), overwrite: true, saveComments: true });
+
+      expect(await formatSchemaSource(schema)).toBe(schema);
+      expect(schema).toContain('  authorId Int     @map("author_id")');
+      expect(schema).toContain('  books  Book[]   @relation("fk_book_author_id_author_id")');
+      expect(schema).toContain('  author   Author  @relation(name: "fk_book_author_id_author_id", fields: [authorId], references: [id], onDelete: Cascade)');
+      expect(schema).toContain('// Relation explanations:\n// Book.authorId -> Author.id\n');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
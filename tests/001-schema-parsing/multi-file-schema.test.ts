@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  parseSchemaFile,
+  schemaFilePaths,
+  schemaLocation,
+  SchemaFileError,
+  DuplicateDefinitionError
+} from '../../src/parser';
+import { ClientGenerator } from '../../src/generator';
+import { MigrationGenerator } from '../../src/migrations/migration-generator';
+import { validateSchema } from '../../src/cli/validate';
+
+const FILES: Record<string, string> = {
+  'schema.prisma': `datasource db {
+  provider = "sqlite"
+  url      = "file:./dev.db"
+}
+
+generator client {
+  provider = "drismify-client-js"
+  output   = "../generated/client"
+}
+`,
+  'user.prisma': `model User {
+  id    Int    @id @default(autoincrement())
+  email String @unique
+  role  Role   @default(USER)
+  posts Post[]
+}
+
+enum Role {
+  USER
+  ADMIN
+}
+`,
+  'blog/post.prisma': `model Post {
+  id       Int    @id @default(autoincrement())
+  title    String
+  authorId Int
+  author   User   @relation(fields: [authorId], references: [id])
+}
+`,
+  'README.md': 'Not a schema file\n'
+};
+
+describe('Multi-file schema folders', () => {
+  let root: string;
+  let schemaDir: string;
+
+  const write = (name: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(schemaDir, name)), { recursive: true });
+    fs.writeFileSync(path.join(schemaDir, name), content);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'drismify-multi-file-'));
+    schemaDir = path.join(root, 'prisma', 'schema');
+    for (const [name, content] of Object.entries(FILES)) {
+      write(name, content);
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('lists the .prisma files of the folder and its subfolders in path order', () => {
+    expect(schemaFilePaths(schemaDir).map(file => path.relative(schemaDir, file))).toEqual([
+      path.join('blog', 'post.prisma'),
+      'schema.prisma',
+      'user.prisma'
+    ]);
+    const single = path.join(schemaDir, 'user.prisma');
+    expect(schemaFilePaths(single)).toEqual([single]);
+  });
+
+  it('merges the files into one AST with relations across files', async () => {
+    const ast = await parseSchemaFile(schemaDir);
+
+    expect(ast.map(node => `${node.type} ${node.name}`)).toEqual([
+      'model Post',
+      'datasource db',
+      'generator client',
+      'model User',
+      'enum Role'
+    ]);
+    const post = ast.find(node => node.name === 'Post');
+    const author = post.fields.find((field: any) => field.name === 'author');
+    expect(author.type.name).toBe('User');
+    expect(ast.some(node => node.type === 'model' && node.name === author.type.name)).toBe(true);
+  });
+
+  it('records the file and position of each declaration outside the AST', async () => {
+    const ast = await parseSchemaFile(schemaDir);
+    const user = ast.find(node => node.name === 'User');
+    const email = user.fields.find((field: any) => field.name === 'email');
+
+    expect(schemaLocation(user)).toEqual({ file: path.join(schemaDir, 'user.prisma'), line: 1, column: 1 });
+    expect(schemaLocation(email)).toEqual({ file: path.join(schemaDir, 'user.prisma'), line: 3, column: 3 });
+    expect(schemaLocation(ast.find(node => node.type === 'generator'))!.line).toBe(6);
+    expect(JSON.stringify(user)).not.toContain('user.prisma');
+  });
+
+  it('rejects names defined in two files, naming both', async () => {
+    write('legacy.prisma', '\nenum Role {\n  GUEST\n}\n');
+
+    const error = await parseSchemaFile(schemaDir).catch(e => e);
+    expect(error).toBeInstanceOf(DuplicateDefinitionError);
+    expect(error.file).toBe(path.join(schemaDir, 'user.prisma'));
+    expect(error.line).toBe(8);
+    expect(error.message).toContain('user.prisma:8:1');
+    expect(error.message).toContain(`enum "Role" conflicts with enum "Role" declared at ${path.join(schemaDir, 'legacy.prisma')}:2`);
+  });
+
+  it('allows only one datasource', async () => {
+    write('other.prisma', 'datasource other {\n  provider = "sqlite"\n  url = "file:./other.db"\n}\n');
+
+    await expect(parseSchemaFile(schemaDir)).rejects.toThrow('datasource conflicts with datasource "other"');
+  });
+
+  it('reports syntax errors with the file and line', async () => {
+    write('broken.prisma', 'model Broken {\n  id Int @id\n  name String @\n}\n');
+
+    const error = await parseSchemaFile(schemaDir).catch(e => e);
+    expect(error).toBeInstanceOf(SchemaFileError);
+    expect(error.file).toBe(path.join(schemaDir, 'broken.prisma'));
+    expect(error.line).toBe(3);
+    expect(error.message.startsWith(`${path.join(schemaDir, 'broken.prisma')}:3:`)).toBe(true);
+  });
+
+  it('validates a schema folder with file-aware positions', async () => {
+    expect((await validateSchema({ schemaPath: schemaDir })).valid).toBe(true);
+
+    write('blog/comment.prisma', 'model Comment {\n  id   Int  @id\n  post Posts @relation(fields: [id], references: [id])\n}\n');
+    const unknownType = await validateSchema({ schemaPath: schemaDir });
+    expect(unknownType.valid).toBe(false);
+    expect(unknownType.errors).toEqual([{
+      message: 'Field "post" in model "Comment" has unknown type "Posts"',
+      code: 'UNKNOWN_FIELD_TYPE',
+      file: path.join(schemaDir, 'blog', 'comment.prisma'),
+      line: 3,
+      column: 3
+    }]);
+
+    fs.rmSync(path.join(schemaDir, 'blog', 'comment.prisma'));
+    write('copy.prisma', FILES['user.prisma']);
+    const duplicate = await validateSchema({ schemaPath: schemaDir });
+    expect(duplicate.errors[0].code).toBe('DUPLICATE_DEFINITION');
+    expect(duplicate.errors[0].file).toBe(path.join(schemaDir, 'user.prisma'));
+    expect(duplicate.errors[0].message).toStartWith('model "User" conflicts with model "User" declared at');
+  });
+
+  it('generates the client and migrations from a schema folder', async () => {
+    const outputDir = path.join(root, 'generated', 'client');
+    await new ClientGenerator({ outputDir, generateTypes: true, generateJs: false }).generateFromSchemaFile(schemaDir);
+    expect(fs.existsSync(path.join(outputDir, 'models', 'user.ts'))).toBe(true);
+    expect(fs.existsSync(path.join(outputDir, 'models', 'post.ts'))).toBe(true);
+
+    const migrations = new MigrationGenerator({ migrationsDir: path.join(root, 'prisma', 'migrations') });
+    const migrationPath = await migrations.generateMigrationFromSchemaFile(schemaDir, 'init');
+    const sql = fs.readFileSync(migrationPath!, 'utf-8');
+    expect(sql).toContain('CREATE TABLE "user"');
+    expect(sql).toContain('CREATE TABLE "post"');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ObjectId } from 'mongodb';
+import { nativeSqlType, nativeType, nativeTypeAttribute, nativeTypeFields, sqliteAffinity } from '../../src/generator';
+import { SchemaDiffer } from '../../src/migrations/schema-differ';
+import { translatePslToDrizzleSchema } from '../../src/translator/pslToDrizzle';
+import { SQLiteAdapter } from '../../src/adapters/sqlite-adapter';
+import { MongoDBAdapter } from '../../src/adapters/mongodb-adapter';
+import { introspectDatabase } from '../../src/cli/introspect';
+
+const parser = require('../../src/parser/generatedParser.js');
+
+const SCHEMA = `
+model Product {
+  id     Int     @id @default(autoincrement())
+  sku    String  @db.VarChar(32) @unique
+  name   String  @db.Text
+  code   String  @db.Char(8)
+  price  Decimal @db.Decimal(10, 2)
+  weight Float   @db.DoublePrecision
+  note   String? @db.VarChar(max)
+}
+`;
+
+describe('@db.* native types', () => {
+  const ast = parser.parse(SCHEMA);
+  const fields = ast[0].fields;
+  const field = (name: string) => fields.find((f: any) => f.name === name);
+
+  it('parses native type attributes with their arguments', () => {
+    expect(field('sku').attributes).toEqual([{ name: 'db.VarChar', args: [32] }, { name: 'unique', args: null }]);
+    expect(field('price').attributes).toEqual([{ name: 'db.Decimal', args: [10, 2] }]);
+    expect(field('name').attributes).toEqual([{ name: 'db.Text', args: null }]);
+    expect(field('note').attributes).toEqual([{ name: 'db.VarChar', args: ['max'] }]);
+
+    const mongo = parser.parse('model User {\n  id String @id @default(auto()) @map("_id") @db.ObjectId\n}');
+    expect(mongo[0].fields[0].attributes.map((attr: any) => attr.name)).toEqual(['id', 'default', 'map', 'db.ObjectId']);
+  });
+
+  it('reads native types and their SQL spelling', () => {
+    expect(nativeType(field('price').attributes)).toEqual({ name: 'Decimal', args: [10, 2] });
+    expect(nativeType(field('id').attributes)).toBeUndefined();
+    expect(nativeSqlType(nativeType(field('weight').attributes)!)).toBe('DOUBLE PRECISION');
+    expect(nativeTypeAttribute('varchar(255)')).toBe('@db.VarChar(255)');
+    expect(nativeTypeAttribute('DOUBLE PRECISION')).toBe('@db.DoublePrecision');
+    expect(nativeTypeAttribute('DECIMAL(10,2)')).toBe('@db.Decimal(10, 2)');
+    expect(sqliteAffinity('VARCHAR(32)')).toBe('TEXT');
+    expect(sqliteAffinity('DECIMAL(10, 2)')).toBe('NUMERIC');
+    expect(nativeTypeFields(fields, 'VarChar')).toEqual(['sku', 'note']);
+  });
+
+  it('creates columns with native types that keep the storage affinity', () => {
+    const [change] = new SchemaDiffer().diffSchemas([], ast);
+
+    expect(change.sql).toContain('sku VARCHAR(32) NOT NULL');
+    expect(change.sql).toContain('name TEXT NOT NULL');
+    expect(change.sql).toContain('code CHAR(8) NOT NULL');
+    expect(change.sql).toContain('weight DOUBLE PRECISION NOT NULL');
+    // DECIMAL has NUMERIC affinity, which would store Decimal text as floats
+    expect(change.sql).toContain('price TEXT NOT NULL');
+  });
+
+  it('carries character lengths into the Drizzle schema', () => {
+    const drizzle = translatePslToDrizzleSchema(ast);
+
+    expect(drizzle).toContain(`text('sku', { length: 32 })`);
+    expect(drizzle).toContain(`text('code', { length: 8 })`);
+    expect(drizzle).toContain(`text('name')`);
+  });
+
+  it('introspects columns declared with non-default types', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'drismify-native-types-'));
+    const dbPath = path.join(dir, 'native.db');
+    try {
+      const adapter = new SQLiteAdapter({ filename: dbPath });
+      await adapter.connect();
+      await adapter.execute('CREATE TABLE item (id INTEGER PRIMARY KEY, title VARCHAR(120) NOT NULL, body TEXT, price DECIMAL(10,2), quantity BIGINT)');
+      await adapter.disconnect();
+
+      const schema = await introspectDatabase({ url: dbPath, provider: 'sqlite', output: path.join(dir, 'schema.prisma'), overwrite: true });
+
+      expect(schema).toContain('title    String   @db.VarChar(120)');
+      expect(schema).toContain('body     String?\n');
+      expect(schema).toContain('price    Decimal? @db.Decimal(10, 2)');
+      expect(schema).toContain('quantity BigInt?  @db.BigInt');
+      // The introspected schema parses again
+      expect(() => parser.parse(schema)).not.toThrow();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('converts @db.ObjectId values for MongoDB', () => {
+    const adapter = new MongoDBAdapter({ url: 'mongodb://localhost:27017', database: 'drismify_test' });
+    const id = '64b7f0c2a1b2c3d4e5f60718';
+    const objectIdFields = nativeTypeFields(parser.parse('model Post {\n  id String @id @map("_id") @db.ObjectId\n  authorId String @db.ObjectId\n}')[0].fields, 'ObjectId');
+
+    expect(objectIdFields).toEqual(['id', 'authorId']);
+    expect(adapter.buildFilter({ authorId: id, title: id }, objectIdFields)).toEqual({ authorId: new ObjectId(id), title: id });
+    expect(adapter.buildFilter({ OR: [{ authorId: { in: [id] } }] }, objectIdFields))
+      .toEqual({ $and: [{ $or: [{ authorId: { $in: [new ObjectId(id)] } }] }] });
+
+    const document = adapter.buildDocument({ authorId: id, title: 'Hello' }, objectIdFields);
+    expect(document.authorId).toBeInstanceOf(ObjectId);
+    expect(adapter.readDocument(document, objectIdFields)).toEqual({ authorId: id, title: 'Hello' });
+  });
+});
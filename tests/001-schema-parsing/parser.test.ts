@@ -5,6 +5,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { getFixture } from '../utils/test-utils';
+import { SchemaDiffer } from '../../src/migrations/schema-differ';
 
 // Import the parser
 let parser: any;
@@ -145,6 +146,25 @@ describe('Prisma Schema Parser', () => {
       expect(ast[1].fields[1].attributes[0].args).toHaveProperty('fields');
       expect(ast[1].fields[1].attributes[0].args).toHaveProperty('references');
     });
+
+    it('should keep false and zero default arguments', () => {
+      const schema = `
+        model Setting {
+          id      Int     @id
+          enabled Boolean @default(false)
+          retries Int     @default(0)
+        }
+      `;
+
+      const ast = parser.parse(schema);
+
+      expect(ast[0].fields[1].attributes).toEqual([{ name: 'default', args: false }]);
+      expect(ast[0].fields[2].attributes).toEqual([{ name: 'default', args: 0 }]);
+
+      const [change] = new SchemaDiffer().diffSchemas([], ast);
+      expect(change.sql).toContain('enabled INTEGER NOT NULL DEFAULT false');
+      expect(change.sql).toContain('retries INTEGER NOT NULL DEFAULT 0');
+    });
   });
 
   describe('Enum Parsing', () => {
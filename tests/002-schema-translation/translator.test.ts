@@ -40,7 +40,7 @@ describe('Prisma Schema to Drizzle Schema Translator', () => {
       expect(drizzleSchema).toContain('id: integer(\'id\').primaryKey()');
       expect(drizzleSchema).toContain('title: text(\'title\').notNull()');
       expect(drizzleSchema).toContain('content: text(\'content\')');
-      expect(drizzleSchema).toContain('published: integer(\'published\', { mode: \'boolean\' }).notNull()');
+      expect(drizzleSchema).toContain('published: integer(\'published\', { mode: \'boolean\' }).default(false).notNull()');
       expect(drizzleSchema).toContain('authorId: integer(\'author_id\').references(() => user.id).notNull()');
 
       // Check that the drizzle schema contains the relations
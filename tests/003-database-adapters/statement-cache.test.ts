@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SQLiteAdapter, TursoAdapter } from '../../src/adapters';
+import { normalizeSql } from '../../src/adapters/statement-cache';
+import { MigrationManager } from '../../src/migrations';
+
+describe('Prepared statement cache', () => {
+  describe('normalizeSql', () => {
+    it('collapses whitespace outside quotes', () => {
+      expect(normalizeSql('  SELECT *\n  FROM   users\tWHERE id = $1 ')).toBe('SELECT * FROM users WHERE id = $1');
+      expect(normalizeSql("SELECT 'a  b', \"x  y\" FROM t")).toBe("SELECT 'a  b', \"x  y\" FROM t");
+    });
+
+    it('only trims text with comments', () => {
+      expect(normalizeSql(' SELECT 1 -- one\n  + 1 ')).toBe('SELECT 1 -- one\n  + 1');
+    });
+  });
+
+  describe('SQLiteAdapter', () => {
+    let adapter: SQLiteAdapter;
+
+    beforeEach(async () => {
+      adapter = new SQLiteAdapter({ filename: ':memory:', statementCacheSize: 2 });
+      await adapter.connect();
+      await adapter.execute('CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)');
+      await adapter.execute('INSERT INTO users (name) VALUES ($1)', ['Alice']);
+    });
+
+    afterEach(async () => {
+      await adapter.disconnect();
+    });
+
+    it('reuses statements for the same normalized SQL', async () => {
+      const before = adapter.getStatementCacheStats();
+      await adapter.execute('SELECT * FROM users WHERE id = $1', [1]);
+      const result = await adapter.execute('SELECT *\n  FROM users\n  WHERE id = $1', [1]);
+
+      expect(result.data).toEqual([{ id: 1, name: 'Alice' }]);
+      expect(adapter.getStatementCacheStats()).toEqual({
+        hits: before.hits + 1,
+        misses: before.misses + 1,
+        size: 2,
+        capacity: 2
+      });
+    });
+
+    it('evicts the least recently used statement', async () => {
+      await adapter.execute('SELECT id FROM users');
+      await adapter.execute('SELECT name FROM users');
+      await adapter.execute('SELECT id FROM users');
+      await adapter.execute('SELECT id, name FROM users');
+
+      const { hits, misses } = adapter.getStatementCacheStats();
+      await adapter.execute('SELECT id FROM users');
+      expect(adapter.getStatementCacheStats().hits).toBe(hits + 1);
+      await adapter.execute('SELECT name FROM users');
+      expect(adapter.getStatementCacheStats().misses).toBe(misses + 1);
+    });
+
+    it('uses the cache inside transactions', async () => {
+      await adapter.execute('SELECT name FROM users WHERE id = $1', [1]);
+      const { hits } = adapter.getStatementCacheStats();
+
+      const result = await adapter.transaction(tx => tx.execute('SELECT name FROM users WHERE id = $1', [1]));
+
+      expect(result.data).toEqual([{ name: 'Alice' }]);
+      expect(adapter.getStatementCacheStats().hits).toBe(hits + 1);
+    });
+
+    it('is cleared by schema changes', async () => {
+      await adapter.execute('SELECT * FROM users');
+      await adapter.execute('ALTER TABLE users ADD COLUMN email TEXT');
+
+      expect(adapter.getStatementCacheStats().size).toBe(0);
+      const result = await adapter.execute('SELECT * FROM users');
+      expect(result.data).toEqual([{ id: 1, name: 'Alice', email: null }]);
+    });
+
+    it('can be disabled', async () => {
+      const uncached = new SQLiteAdapter({ filename: ':memory:', statementCacheSize: 0 });
+      await uncached.connect();
+      await uncached.execute('SELECT 1');
+      await uncached.execute('SELECT 1');
+
+      expect(uncached.getStatementCacheStats()).toEqual({ hits: 0, misses: 2, size: 0, capacity: 0 });
+      await uncached.disconnect();
+    });
+  });
+
+  describe('TursoAdapter', () => {
+    it('has no statement cache, since libsql prepares nothing', async () => {
+      const adapter = new TursoAdapter({ url: 'file::memory:', statementCacheSize: 2 });
+      await adapter.connect();
+      const result = await adapter.execute('SELECT  $1  AS value', [2]);
+
+      expect(result.data[0].value).toBe(2);
+      expect('getStatementCacheStats' in adapter).toBe(false);
+      expect('clearStatementCache' in adapter).toBe(false);
+      await adapter.disconnect();
+    });
+  });
+
+  describe('MigrationManager', () => {
+    let migrationsDir: string;
+
+    beforeEach(() => {
+      migrationsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drismify-statement-cache-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(migrationsDir, { recursive: true, force: true });
+    });
+
+    it('clears the cache after applying a migration', async () => {
+      const manager = new MigrationManager({ migrationsDir, connectionOptions: { filename: ':memory:' } });
+      await manager.initialize();
+      const adapter = manager.getAdapter() as SQLiteAdapter;
+
+      await adapter.execute(`SELECT name FROM _drismify_migrations`);
+      expect(adapter.getStatementCacheStats().size).toBeGreaterThan(0);
+
+      const sql = '-- Add posts\nCREATE TABLE posts (id INTEGER PRIMARY KEY)';
+      const result = await manager.applyMigration({
+        name: 'add_posts',
+        timestamp: 1,
+        filePath: path.join(migrationsDir, '1_add_posts.sql'),
+        filename: '1_add_posts.sql',
+        sql,
+        checksum: 'checksum'
+      });
+
+      expect(result.success).toBe(true);
+      // Only the INSERT recording the migration is cached again
+      expect(adapter.getStatementCacheStats().size).toBe(1);
+      await manager.close();
+    });
+  });
+});
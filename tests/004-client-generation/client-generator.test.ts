@@ -119,6 +119,15 @@ describe('Client Generator', () => {
       const typesContent = fs.readFileSync(path.join(outputDir, 'types.ts'), 'utf-8');
       expect(typesContent).toContain('export type Role =');
       expect(typesContent).toContain('\'USER\' | \'ADMIN\' | \'MODERATOR\'');
+
+      // Check the fluent relation accessors
+      expect(typesContent).toContain('export type PostFluent = {');
+      expect(typesContent).toContain('author(args?: { select?: UserSelectInput; include?: UserIncludeInput }): Promise<User | null> & UserFluent;');
+      const postContent = fs.readFileSync(path.join(outputDir, 'models/post.ts'), 'utf-8');
+      expect(postContent).toContain('}): Promise<Post | null> & PostFluent {');
+
+      // Check the relation _count selection
+      expect(typesContent).toContain('_count?: boolean | { select?: { comments?: boolean | { where?: CommentWhereInput }');
     });
   });
   
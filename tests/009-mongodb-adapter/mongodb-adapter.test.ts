@@ -848,3 +848,44 @@ describe('MongoDB Adapter (Unit Tests)', () => {
     }).toThrow('URL is required for MongoDB connection');
   });
 });
+
+describe('MongoDB filter translation', () => {
+  const testConfig = getMongoDBConfig('test');
+  const adapter = new MongoDBAdapter({ url: testConfig.url, database: testConfig.database });
+
+  it('translates string operators to escaped regexes', () => {
+    expect(adapter.buildFilter({ name: { contains: 'a.b' } })).toEqual({ name: { $regex: 'a\\.b', $options: '' } });
+    expect(adapter.buildFilter({ name: { startsWith: '50%' } })).toEqual({ name: { $regex: '^50%', $options: '' } });
+    expect(adapter.buildFilter({ name: { endsWith: '(x)' } })).toEqual({ name: { $regex: '\\(x\\)$', $options: '' } });
+  });
+
+  it('adds the i option in insensitive mode', () => {
+    expect(adapter.buildFilter({ email: { equals: 'Bob@Example.com', mode: 'insensitive' } }))
+      .toEqual({ email: { $regex: '^Bob@Example\\.com$', $options: 'i' } });
+    expect(adapter.buildFilter({ name: { in: ['Alice', 'bob'], mode: 'insensitive' } }))
+      .toEqual({ name: { $in: [/^Alice$/i, /^bob$/i] } });
+    expect(adapter.buildFilter({ name: { not: 'alice', mode: 'insensitive' } }))
+      .toEqual({ name: { $not: /^alice$/i } });
+  });
+
+  it('keeps several regex operators on one field', () => {
+    expect(adapter.buildFilter({ name: { startsWith: 'a', endsWith: 'z', mode: 'insensitive' } })).toEqual({
+      name: { $regex: '^a', $options: 'i' },
+      $and: [{ name: { $regex: 'z$', $options: 'i' } }]
+    });
+  });
+
+  it('translates comparisons and logical operators', () => {
+    expect(adapter.buildFilter({
+      published: true,
+      OR: [{ views: { gte: 10 } }, { title: { contains: 'news', mode: 'insensitive' } }],
+      NOT: { authorId: { in: [1, 2] } }
+    })).toEqual({
+      published: true,
+      $and: [
+        { $or: [{ views: { $gte: 10 } }, { title: { $regex: 'news', $options: 'i' } }] },
+        { $nor: [{ authorId: { $in: [1, 2] } }] }
+      ]
+    });
+  });
+});
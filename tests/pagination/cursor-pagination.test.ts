@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createBlogClient, type BlogClient } from '../utils/relation-test-client';
+
+describe('Cursor pagination', () => {
+  let client: BlogClient;
+
+  const ids = (records: any[]) => records.map(r => r.id);
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+
+    await client.adapter.execute(`INSERT INTO user (id, email, name) VALUES (1, 'a@example.com', 'A')`);
+    // Views repeat so that ordering by views alone needs the id tie-breaker
+    await client.adapter.execute(`INSERT INTO post (id, title, published, views, authorId) VALUES
+      (1, 'p1', 1, 10, 1),
+      (2, 'p2', 0, 30, 1),
+      (3, 'p3', 1, 20, 1),
+      (4, 'p4', 1, 10, 1),
+      (5, 'p5', 0, 30, 1),
+      (6, 'p6', 1, 20, 1),
+      (7, 'p7', 1, 10, 1)`);
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  it('starts the page at the cursor row, ordered by id by default', async () => {
+    const posts = await client.post.findMany({ cursor: { id: 3 }, take: 3 });
+
+    expect(ids(posts)).toEqual([3, 4, 5]);
+  });
+
+  it('skips the cursor row with skip: 1', async () => {
+    const posts = await client.post.findMany({ cursor: { id: 3 }, take: 2, skip: 1 });
+
+    expect(ids(posts)).toEqual([4, 5]);
+  });
+
+  it('pages through a non-unique ordering without gaps or duplicates', async () => {
+    const seen: number[] = [];
+    let page = await client.post.findMany({ orderBy: { views: 'asc' }, take: 2 });
+
+    while (page.length > 0) {
+      seen.push(...ids(page));
+      const last = page[page.length - 1];
+      page = await client.post.findMany({ orderBy: { views: 'asc' }, cursor: { id: last.id }, skip: 1, take: 2 });
+    }
+
+    expect(seen).toEqual([1, 4, 7, 3, 6, 2, 5]);
+  });
+
+  it('supports multi-column orderings with mixed directions', async () => {
+    const orderBy = [{ published: 'desc' }, { views: 'desc' }];
+    const all = await client.post.findMany({ orderBy: [...orderBy, { id: 'asc' }] });
+    const page = await client.post.findMany({ orderBy, cursor: { id: 6 }, take: 3 });
+
+    const start = ids(all).indexOf(6);
+    expect(ids(page)).toEqual(ids(all).slice(start, start + 3));
+  });
+
+  it('pages from a cursor row that holds NULL in an ordered column', async () => {
+    await client.adapter.execute(`INSERT INTO user (id, email, name, country) VALUES
+      (2, 'b@example.com', 'B', 'DE'),
+      (3, 'c@example.com', 'C', NULL),
+      (4, 'd@example.com', 'D', 'AT')`);
+
+    // NULL sorts first in ascending and last in descending order
+    expect(ids(await client.user.findMany({ orderBy: { country: 'asc' }, cursor: { id: 1 } }))).toEqual([1, 3, 4, 2]);
+    expect(ids(await client.user.findMany({ orderBy: { country: 'asc' }, cursor: { id: 3 }, skip: 1 }))).toEqual([4, 2]);
+    expect(ids(await client.user.findMany({ orderBy: { country: 'desc' }, cursor: { id: 1 } }))).toEqual([1, 3]);
+    expect(ids(await client.user.findMany({ orderBy: [{ country: 'desc' }, { id: 'desc' }], cursor: { id: 3 } }))).toEqual([3, 1]);
+
+    const seen: number[] = [];
+    let page = await client.user.findMany({ orderBy: { country: 'asc' }, take: 1 });
+    while (page.length > 0) {
+      seen.push(...ids(page));
+      page = await client.user.findMany({ orderBy: { country: 'asc' }, cursor: { id: page[0].id }, skip: 1, take: 1 });
+    }
+    expect(seen).toEqual([1, 3, 4, 2]);
+  });
+
+  it('combines the cursor with a where filter', async () => {
+    const posts = await client.post.findMany({ where: { published: true }, cursor: { id: 4 } });
+
+    expect(ids(posts)).toEqual([4, 6, 7]);
+  });
+
+  it('reads the page before the cursor with a negative take', async () => {
+    const posts = await client.post.findMany({ orderBy: { views: 'asc' }, cursor: { id: 3 }, skip: 1, take: -2 });
+
+    expect(ids(posts)).toEqual([4, 7]);
+  });
+
+  it('returns no rows when the cursor does not exist', async () => {
+    const posts = await client.post.findMany({ cursor: { id: 999 }, take: 5 });
+
+    expect(posts).toEqual([]);
+  });
+
+  it('allows skip without take', async () => {
+    const posts = await client.post.findMany({ orderBy: { id: 'asc' }, skip: 5 });
+
+    expect(ids(posts)).toEqual([6, 7]);
+  });
+});
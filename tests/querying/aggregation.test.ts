@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createBlogClient, seedBlogData, type BlogClient } from '../utils/relation-test-client';
+import { applyExtension } from '../../src/extensions';
+import { aggregationExtension } from '../../src/extensions/aggregation';
+
+describe('Aggregation', () => {
+  let client: BlogClient;
+  let prisma: any;
+  let queries: string[];
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+    await seedBlogData(client);
+    prisma = applyExtension(client, aggregationExtension);
+
+    const execute = client.adapter.execute.bind(client.adapter);
+    client.adapter.execute = (query: string, params?: unknown[]) => {
+      queries.push(query);
+      return execute(query, params);
+    };
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  it('aggregates in a single SQL query', async () => {
+    queries = [];
+    const result = await prisma.post.aggregate({
+      _sum: ['views'],
+      _avg: ['views'],
+      _min: ['views', 'title'],
+      _max: ['views'],
+      _count: true,
+    });
+
+    expect(result).toEqual({
+      _sum: { views: 65 },
+      _avg: { views: 16.25 },
+      _min: { views: 5, title: 'Alice One' },
+      _max: { views: 30 },
+      _count: 4,
+    });
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toContain('SUM(views)');
+  });
+
+  it('applies where, orderBy, take and skip before aggregating', async () => {
+    expect(await prisma.post.aggregate({ where: { authorId: 1 }, _sum: ['views'], _count: ['published'] }))
+      .toEqual({ _sum: { views: 60 }, _avg: null, _min: null, _max: null, _count: { published: 3 } });
+    expect((await prisma.post.aggregate({ orderBy: { views: 'desc' }, take: 2, _sum: ['views'] }))._sum).toEqual({ views: 50 });
+    expect((await prisma.post.aggregate({ cursor: { id: 3 }, _count: true }))._count).toBe(2);
+  });
+
+  it('returns null aggregates for an empty selection', async () => {
+    expect(await prisma.post.aggregate({ where: { views: { gt: 1000 } }, _sum: ['views'], _max: ['title'], _count: true }))
+      .toEqual({ _sum: { views: null }, _avg: null, _min: null, _max: { title: null }, _count: 0 });
+    expect(await prisma.post.aggregate()).toEqual({ _sum: null, _avg: null, _min: null, _max: null, _count: null });
+  });
+
+  it('counts distinct values', async () => {
+    const result = await prisma.user.aggregate({ _countDistinct: ['country'], _count: ['country'] });
+
+    expect(result._countDistinct).toEqual({ country: 2 });
+    expect(result._count).toEqual({ country: 3 });
+  });
+
+  it('groups with GROUP BY, keeping the result shape', async () => {
+    queries = [];
+    const groups = await prisma.post.groupBy({
+      by: ['authorId'],
+      _sum: ['views'],
+      _count: true,
+      orderBy: { authorId: 'asc' },
+    });
+
+    expect(groups).toEqual([
+      { authorId: 1, _sum: { views: 60 }, _avg: null, _min: null, _max: null, _count: 3 },
+      { authorId: 2, _sum: { views: 5 }, _avg: null, _min: null, _max: null, _count: 1 },
+    ]);
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toContain('GROUP BY authorId');
+  });
+
+  it('filters groups with having and orders them by aggregates', async () => {
+    const byViews = await prisma.post.groupBy({
+      by: ['authorId', 'published'],
+      _sum: ['views'],
+      having: { views: { _sum: { gte: 10 } } },
+      orderBy: [{ _sum: { views: 'desc' } }],
+    });
+    const busiest = await prisma.comment.groupBy({
+      by: ['postId'],
+      _count: true,
+      having: { OR: [{ postId: 4 }, { postId: { _count: { gt: 1 } } }] },
+      orderBy: { _count: 'desc' },
+    });
+
+    expect(byViews.map((group: any) => [group.authorId, group.published, group._sum.views])).toEqual([[1, 1, 40], [1, 0, 20]]);
+    expect(busiest.map((group: any) => [group.postId, group._count])).toEqual([[1, 2], [4, 1]]);
+  });
+
+  it('applies take and skip to groups', async () => {
+    const groups = await prisma.user.groupBy({ by: ['country'], _countDistinct: ['name'], orderBy: { country: 'asc' }, skip: 1, take: 1 });
+
+    expect(groups).toEqual([
+      { country: 'US', _sum: null, _avg: null, _min: null, _max: null, _count: null, _countDistinct: { name: 1 } },
+    ]);
+  });
+
+  it('rejects unknown fields and non-numeric sums', async () => {
+    await expect(prisma.post.aggregate({ _sum: ['title'] })).rejects.toThrow("Cannot use 'title' in _sum");
+    await expect(prisma.post.aggregate({ _max: ['views) FROM user; --'] })).rejects.toThrow('is not a scalar field of Post');
+    await expect(prisma.post.groupBy({ by: ['author'] })).rejects.toThrow("Cannot use 'author' in groupBy");
+    await expect(prisma.post.groupBy({ by: ['authorId'], orderBy: { views: 'asc' } })).rejects.toThrow("Cannot order groups by 'views'");
+    await expect(prisma.post.groupBy({ by: ['authorId'], having: { views: { gt: 1 } } })).rejects.toThrow("Cannot filter 'views' in having");
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createBlogClient, seedBlogData, type BlogClient } from '../utils/relation-test-client';
+import { BaseViewClient } from '../../src/client/view-client';
+import type { PslViewAst } from '../../src/generator';
+
+const parser = require('../../src/parser/generatedParser.js');
+
+describe('distinct', () => {
+  let client: BlogClient;
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+    await seedBlogData(client);
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  it('returns one row per distinct value', async () => {
+    const users = await client.user.findMany({ distinct: ['country'], orderBy: { country: 'asc' } });
+
+    expect(users.map(u => u.country)).toEqual(['DE', 'US']);
+  });
+
+  it('keeps the first row of each group in the requested order', async () => {
+    const asc = await client.user.findMany({ distinct: ['country'], orderBy: [{ country: 'asc' }, { name: 'asc' }] });
+    const desc = await client.user.findMany({ distinct: ['country'], orderBy: [{ country: 'asc' }, { name: 'desc' }] });
+
+    expect(asc.map(u => u.name)).toEqual(['Alice', 'Bob']);
+    expect(desc.map(u => u.name)).toEqual(['Carol', 'Bob']);
+  });
+
+  it('keeps the lowest primary key when no orderBy is given', async () => {
+    const posts = await client.post.findMany({ distinct: ['authorId'] });
+
+    expect(posts.map(p => p.id).sort()).toEqual([1, 4]);
+  });
+
+  it('supports several distinct fields together with where, select and take', async () => {
+    const posts = await client.post.findMany({
+      where: { authorId: 1 },
+      distinct: ['authorId', 'published'],
+      orderBy: { views: 'desc' },
+      select: { id: true, published: true },
+      take: 5
+    });
+
+    expect(posts).toEqual([
+      { id: 3, published: 1 },
+      { id: 2, published: 0 }
+    ]);
+  });
+
+  it('applies distinct in findFirst', async () => {
+    const post = await client.post.findFirst({ distinct: ['authorId'], orderBy: { views: 'desc' }, skip: 1 });
+
+    expect(post?.id).toBe(4);
+  });
+
+  it('rejects unknown or relation fields', async () => {
+    await expect(client.post.findMany({ distinct: ['missing'] as any })).rejects.toThrow("Cannot use 'missing' in distinct");
+    await expect(client.post.findMany({ distinct: ['author'] as any })).rejects.toThrow("Cannot use 'author' in distinct");
+  });
+
+  it('applies distinct in view clients', async () => {
+    await client.adapter.execute('CREATE VIEW post_summary AS SELECT id, title, authorId, views FROM post');
+    const viewAst = (parser.parse(`
+      view PostSummary {
+        id       Int @unique
+        title    String
+        authorId Int
+        views    Int
+      }
+    `) as PslViewAst[])[0];
+    const postSummary = new BaseViewClient<any, any, any, any, any>(client, viewAst, 'post_summary');
+
+    const rows = await postSummary.findMany({ distinct: ['authorId'], orderBy: { views: 'asc' } });
+
+    expect(rows).toEqual([
+      { id: 4, title: expect.any(String), authorId: 2, views: 5 },
+      { id: 1, title: expect.any(String), authorId: 1, views: 10 }
+    ]);
+    await expect(postSummary.findMany({ distinct: ['missing'] as any })).rejects.toThrow("Cannot use 'missing' in distinct");
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { createBlogClient, seedBlogData, type BlogClient } from '../utils/relation-test-client';
+
+async function collect<R>(iterable: AsyncIterable<R>): Promise<R[]> {
+  const records: R[] = [];
+  for await (const record of iterable) {
+    records.push(record);
+  }
+  return records;
+}
+
+describe('findManyStream', () => {
+  let client: BlogClient;
+  let queries: string[];
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+    await seedBlogData(client);
+
+    const execute = client.adapter.execute.bind(client.adapter);
+    client.adapter.execute = (query: string, params?: unknown[]) => {
+      queries.push(query);
+      return execute(query, params);
+    };
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  beforeEach(() => {
+    queries = [];
+  });
+
+  it('yields every record in primary key order', async () => {
+    const posts = await collect(client.post.findManyStream({ batchSize: 3 }));
+
+    expect(posts.map(p => p.id)).toEqual([1, 2, 3, 4]);
+    expect(posts[0]).toEqual(await client.post.findUnique({ where: { id: 1 } }));
+  });
+
+  it('reads one batch per query', async () => {
+    await collect(client.post.findManyStream({ batchSize: 3 }));
+    expect(queries).toHaveLength(2);
+
+    queries = [];
+    await collect(client.post.findManyStream({ batchSize: 2 }));
+    // The second batch is full, so a third query confirms the end
+    expect(queries).toHaveLength(3);
+  });
+
+  it('applies where, orderBy and select', async () => {
+    const streamed = await collect(client.post.findManyStream({
+      where: { views: { gte: 10 } },
+      orderBy: { views: 'desc' },
+      select: { title: true },
+      batchSize: 1
+    }));
+
+    expect(streamed).toEqual(await client.post.findMany({
+      where: { views: { gte: 10 } },
+      orderBy: { views: 'desc' },
+      select: { title: true }
+    }));
+    expect(streamed).toHaveLength(3);
+  });
+
+  it('orders by optional fields without skipping NULL values', async () => {
+    for (const direction of ['asc', 'desc'] as const) {
+      const streamed = await collect(client.comment.findManyStream({
+        orderBy: [{ authorId: direction }],
+        batchSize: 1
+      }));
+      const expected = await client.comment.findMany({ orderBy: [{ authorId: direction }, { id: 'asc' }] });
+
+      expect(streamed.map(c => c.id)).toEqual(expected.map(c => c.id));
+      expect(streamed).toHaveLength(4);
+    }
+  });
+
+  it('loads included relations for each batch', async () => {
+    const posts = await collect(client.post.findManyStream({
+      where: { authorId: 1 },
+      include: { author: true, _count: true },
+      batchSize: 2
+    }));
+
+    expect(posts.map(p => p.author.name)).toEqual(['Alice', 'Alice', 'Alice']);
+    expect(posts.map(p => p._count.comments)).toEqual([2, 0, 1]);
+  });
+
+  it('stops when the caller breaks out of the loop', async () => {
+    const seen: number[] = [];
+    for await (const post of client.post.findManyStream({ batchSize: 2 })) {
+      seen.push(post.id);
+      if (seen.length === 1) break;
+    }
+
+    expect(seen).toEqual([1]);
+    expect(queries).toHaveLength(1);
+  });
+
+  it('rejects an invalid batchSize', async () => {
+    await expect(collect(client.post.findManyStream({ batchSize: 0 })))
+      .rejects.toThrow('findManyStream batchSize must be a positive integer');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createBlogClient, seedBlogData, type BlogClient } from '../utils/relation-test-client';
+
+describe('findUnique batching', () => {
+  let client: BlogClient;
+  let queries: string[];
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+    await seedBlogData(client);
+
+    const execute = client.adapter.execute.bind(client.adapter);
+    client.adapter.execute = (query: string, params?: unknown[]) => {
+      queries.push(query);
+      return execute(query, params);
+    };
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  it('coalesces concurrent calls into one IN query', async () => {
+    queries = [];
+    const users = await Promise.all([3, 1, 99, 1].map(id => client.user.findUnique({ where: { id } })));
+
+    expect(users.map(user => user?.name ?? null)).toEqual(['Carol', 'Alice', null, 'Alice']);
+    expect(users[1]).not.toBe(users[3]);
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toContain('WHERE id IN ($1, $2, $3)');
+  });
+
+  it('coalesces calls made a few awaits apart in the same tick', async () => {
+    queries = [];
+    const after = async (hops: number, id: number) => {
+      for (let i = 0; i < hops; i++) await null;
+      return client.user.findUnique({ where: { id } });
+    };
+    const users = await Promise.all([after(1, 1), after(2, 2), after(3, 3)]);
+
+    expect(users.map(user => user?.name)).toEqual(['Alice', 'Bob', 'Carol']);
+    expect(queries).toHaveLength(1);
+  });
+
+  it('falls back to setTimeout without setImmediate', async () => {
+    // Edge and Workers runtimes have no setImmediate
+    const { setImmediate } = globalThis;
+    delete (globalThis as any).setImmediate;
+    try {
+      queries = [];
+      const users = await Promise.all([1, 2].map(id => client.user.findUnique({ where: { id } })));
+
+      expect(users.map(user => user?.name)).toEqual(['Alice', 'Bob']);
+      expect(queries).toHaveLength(1);
+    } finally {
+      globalThis.setImmediate = setImmediate;
+    }
+  });
+
+  it('batches by unique field and select shape', async () => {
+    queries = [];
+    const [byEmail, byId, selected, other] = await Promise.all([
+      client.user.findUnique({ where: { email: 'bob@example.com' } }),
+      client.user.findUnique({ where: { id: 2 } }),
+      client.user.findUnique({ where: { id: 1 }, select: { name: true } }),
+      client.user.findUnique({ where: { id: 3 }, select: { name: true } }),
+    ]);
+
+    expect(byEmail).toMatchObject({ id: 2 });
+    expect(byId).toMatchObject({ email: 'bob@example.com' });
+    expect(selected).toEqual({ name: 'Alice' });
+    expect(other).toEqual({ name: 'Carol' });
+    expect(queries).toHaveLength(3);
+  });
+
+  it('loads included relations once for the whole batch', async () => {
+    queries = [];
+    const posts = await Promise.all([1, 4].map(id => client.post.findUnique({ where: { id }, include: { author: true } })));
+
+    expect(posts.map(post => post.author.name)).toEqual(['Alice', 'Bob']);
+    expect(queries).toHaveLength(2);
+  });
+
+  it('runs other where shapes and sequential calls on their own', async () => {
+    queries = [];
+    await client.user.findUnique({ where: { id: 1 } });
+    await client.user.findUnique({ where: { id: 2 } });
+    await Promise.all([
+      client.user.findUnique({ where: { id: { equals: 1 } } }),
+      client.user.findUnique({ where: { id: 1, email: 'alice@example.com' } }),
+    ]);
+
+    expect(queries).toHaveLength(4);
+  });
+
+  it('batches calls with bigint values in include', async () => {
+    queries = [];
+    const include = { posts: { where: { views: { gt: 5n } }, orderBy: { id: 'asc' } } };
+    const users = await Promise.all([1, 2].map(id => client.user.findUnique({ where: { id }, include })));
+
+    expect(users.map(user => user.posts.map((post: any) => post.id))).toEqual([[1, 2, 3], []]);
+    expect(queries).toHaveLength(2);
+  });
+
+  it('rejects every call of a failing batch', async () => {
+    const results = await Promise.allSettled([1, 2].map(id => client.user.findUnique({ where: { id }, select: { missing: true } as any })));
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createBlogClient, seedBlogData, type BlogClient } from '../utils/relation-test-client';
+
+describe('Fluent relation traversal', () => {
+  let client: BlogClient;
+  let queries: string[];
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+    await seedBlogData(client);
+
+    const execute = client.adapter.execute.bind(client.adapter);
+    client.adapter.execute = (query: string, params?: unknown[]) => {
+      queries.push(query);
+      return execute(query, params);
+    };
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  const chain = (promise: Promise<unknown>) => promise as Promise<unknown> & Record<string, (args?: Record<string, unknown>) => any>;
+
+  it('loads a to-many relation of a unique record in one query', async () => {
+    queries = [];
+    const posts = await chain(client.user.findUnique({ where: { id: 1 } }))
+      .posts({ where: { published: true }, orderBy: { views: 'desc' }, select: { title: true } });
+
+    expect(posts).toEqual([{ title: 'Alice Three' }, { title: 'Alice One' }]);
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toContain('IN (SELECT id FROM user');
+  });
+
+  it('follows to-one relations in either direction and chains them', async () => {
+    queries = [];
+    const author = await chain(client.post.findUnique({ where: { id: 4 } })).author();
+    const bio = await chain(chain(client.comment.findUnique({ where: { id: 4 } })).post()).author().profile({ select: { bio: true } });
+
+    expect(author).toMatchObject({ id: 2, name: 'Bob' });
+    expect(bio).toEqual({ bio: 'Bob bio' });
+    expect(queries).toHaveLength(2);
+  });
+
+  it('uses the ordering and skip of findFirst to pick the parent', async () => {
+    const comments = await chain(client.post.findFirst({ where: { authorId: 1 }, orderBy: { views: 'desc' }, skip: 2 }))
+      .comments({ orderBy: { id: 'asc' }, include: { author: { select: { name: true } } } });
+    const top = await chain(client.post.findFirst({ orderBy: { views: 'desc' } })).comments();
+
+    expect(comments.map((c: any) => [c.content, c.author.name])).toEqual([['Nice', 'Bob'], ['Great', 'Carol']]);
+    expect(top.map((c: any) => c.content)).toEqual(['Thanks']);
+  });
+
+  it('returns null or an empty list when the parent does not exist', async () => {
+    expect(await chain(client.user.findUnique({ where: { id: 99 } })).posts()).toEqual([]);
+    expect(await chain(client.user.findUnique({ where: { id: 99 } })).profile()).toBeNull();
+    expect(await chain(client.user.findUnique({ where: { id: 3 } })).profile()).toBeNull();
+  });
+
+  it('still resolves the parent record when it is awaited', async () => {
+    const query = chain(client.user.findUnique({ where: { id: 2 } }));
+    const posts = await query.posts();
+
+    expect(posts.map((post: any) => post.id)).toEqual([4]);
+    expect(await query).toMatchObject({ id: 2, email: 'bob@example.com' });
+    expect(await client.user.findFirst({ where: { country: 'US' } })).toMatchObject({ id: 2 });
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BaseModelClient } from '../../src/client/model-client';
+import { SQLiteAdapter } from '../../src/adapters/sqlite-adapter';
+import { ClientGenerator, mappedName, quoteIdentifier, type PslModelAst } from '../../src/generator';
+import { SchemaDiffer } from '../../src/migrations/schema-differ';
+import { translatePslToDrizzleSchema } from '../../src/translator/pslToDrizzle';
+import { applyExtension } from '../../src/extensions';
+import { aggregationExtension } from '../../src/extensions/aggregation';
+
+const parser = require('../../src/parser/generatedParser.js');
+
+const LEGACY_SCHEMA = `
+model Author {
+  id       Int    @id @default(autoincrement()) @map("author_id")
+  fullName String @map("Full Name")
+  books    Book[]
+
+  @@map("legacy_authors")
+}
+
+model Book {
+  id       Int    @id @default(autoincrement())
+  title    String @map("book_title")
+  position Int    @map(name: "order")
+  author   Author @relation(fields: [authorId], references: [id])
+  authorId Int    @map("author_ref")
+
+  @@map("tbl_books")
+}
+`;
+
+type AnyModelClient = BaseModelClient<any, any, any, any, any, any, any, any>;
+
+describe('@map and @@map', () => {
+  const ast = parser.parse(LEGACY_SCHEMA);
+  const models = (ast as PslModelAst[]).filter(node => node.type === 'model');
+  const modelAst = (name: string) => models.find(model => model.name === name) as PslModelAst;
+
+  describe('mappedName', () => {
+    it('reads the positional and the named argument', () => {
+      expect(mappedName(modelAst('Author').attributes)).toBe('legacy_authors');
+      expect(mappedName(modelAst('Book').fields.find(f => f.name === 'position')!.attributes)).toBe('order');
+      expect(mappedName(modelAst('Book').fields.find(f => f.name === 'id')!.attributes)).toBeUndefined();
+    });
+
+    it('quotes identifiers that are not plain words', () => {
+      expect(quoteIdentifier('author_ref')).toBe('author_ref');
+      expect(quoteIdentifier('Full Name')).toBe('"Full Name"');
+      expect(quoteIdentifier('order')).toBe('"order"');
+    });
+  });
+
+  describe('model client', () => {
+    let adapter: SQLiteAdapter;
+    let author: AnyModelClient;
+    let book: AnyModelClient;
+    let prisma: any;
+
+    beforeAll(async () => {
+      adapter = new SQLiteAdapter({ filename: ':memory:' });
+      await adapter.connect();
+      await adapter.execute('CREATE TABLE legacy_authors (author_id INTEGER PRIMARY KEY AUTOINCREMENT, "Full Name" TEXT NOT NULL)');
+      await adapter.execute('CREATE TABLE tbl_books (id INTEGER PRIMARY KEY AUTOINCREMENT, book_title TEXT NOT NULL, "order" INTEGER NOT NULL, author_ref INTEGER NOT NULL)');
+
+      const client: Record<string, unknown> = { adapter, $getAdapter: () => adapter };
+      author = new BaseModelClient(client, modelAst('Author'), 'legacy_authors');
+      book = new BaseModelClient(client, modelAst('Book'), 'tbl_books');
+      client.author = author;
+      client.book = book;
+      prisma = applyExtension(client, aggregationExtension);
+
+      await author.create({ fullName: 'Ursula' });
+      await author.create({ fullName: 'Terry' });
+      await book.createMany([
+        { title: 'Earthsea', position: 2, authorId: 1 },
+        { title: 'Dispossessed', position: 1, authorId: 1 },
+        { title: 'Mort', position: 3, authorId: 2 }
+      ]);
+    });
+
+    afterAll(async () => {
+      await adapter.disconnect();
+    });
+
+    it('writes mapped columns and returns records keyed by field', async () => {
+      const created = await book.create({ title: 'Lathe', position: 4, authorId: 1 });
+      expect(created).toEqual({ id: 4, title: 'Lathe', position: 4, authorId: 1 });
+
+      const raw = await adapter.execute('SELECT book_title, "order", author_ref FROM tbl_books WHERE id = 4');
+      expect(raw.data).toEqual([{ book_title: 'Lathe', order: 4, author_ref: 1 }]);
+
+      await book.delete({ where: { id: 4 } });
+    });
+
+    it('filters, orders and selects by field name', async () => {
+      const books = await book.findMany({
+        where: { authorId: 1, title: { contains: 'e' } },
+        orderBy: { position: 'asc' },
+        select: { title: true, position: true }
+      });
+
+      expect(books).toEqual([
+        { title: 'Dispossessed', position: 1 },
+        { title: 'Earthsea', position: 2 }
+      ]);
+    });
+
+    it('loads relations and counts through mapped keys', async () => {
+      const authors = await author.findMany({
+        include: { books: { orderBy: { position: 'asc' } }, _count: true },
+        orderBy: { fullName: 'desc' }
+      });
+
+      expect(authors.map(a => a.fullName)).toEqual(['Ursula', 'Terry']);
+      expect(authors[0].books.map((b: any) => b.title)).toEqual(['Dispossessed', 'Earthsea']);
+      expect(authors[0]._count.books).toBe(2);
+
+      const mort = await book.findFirst({ where: { title: 'Mort' }, include: { author: true } });
+      expect(mort.author).toEqual({ id: 2, fullName: 'Terry' });
+    });
+
+    it('filters on relations', async () => {
+      const books = await book.findMany({ where: { author: { fullName: 'Terry' } } });
+      expect(books.map(b => b.title)).toEqual(['Mort']);
+    });
+
+    it('updates and upserts mapped columns', async () => {
+      const updated = await book.update({ where: { id: 3 }, data: { position: { increment: 10 } } });
+      expect(updated.position).toBe(13);
+
+      const upserted = await author.upsert({
+        where: { id: 2 },
+        create: { fullName: 'Nobody' },
+        update: { fullName: 'Terry P.' }
+      });
+      expect(upserted).toEqual({ id: 2, fullName: 'Terry P.' });
+    });
+
+    it('paginates with a cursor and streams in batches', async () => {
+      const page = await book.findMany({ cursor: { id: 1 }, skip: 1, orderBy: { position: 'asc' } });
+      expect(page.map(b => b.id)).toEqual([3]);
+
+      const streamed: number[] = [];
+      for await (const record of book.findManyStream({ orderBy: { position: 'desc' }, batchSize: 1 })) {
+        streamed.push(record.id);
+      }
+      expect(streamed).toEqual([3, 1, 2]);
+    });
+
+    it('aggregates and groups by field name', async () => {
+      const aggregate = await prisma.book.aggregate({ where: { authorId: 1 }, _sum: ['position'], _max: ['title'] });
+      expect(aggregate._sum).toEqual({ position: 3 });
+      expect(aggregate._max).toEqual({ title: 'Earthsea' });
+
+      const groups = await prisma.book.groupBy({
+        by: ['authorId'],
+        _sum: ['position'],
+        having: { position: { _sum: { gt: 5 } } },
+        orderBy: { authorId: 'asc' }
+      });
+      expect(groups.map((g: any) => [g.authorId, g._sum.position])).toEqual([[2, 13]]);
+    });
+  });
+
+  describe('schema tooling', () => {
+    it('creates tables and foreign keys with mapped names', () => {
+      const changes = new SchemaDiffer().diffSchemas([], ast);
+      const books = changes.find(change => change.tableName === 'tbl_books')!;
+
+      expect(changes.map(change => change.tableName)).toEqual(['legacy_authors', 'tbl_books']);
+      expect(books.sql).toContain('book_title TEXT NOT NULL');
+      expect(books.sql).toContain('"order" INTEGER NOT NULL');
+      expect(books.sql).toContain('FOREIGN KEY ("author_ref") REFERENCES "legacy_authors"("author_id")');
+    });
+
+    it('adds mapped columns to mapped tables', () => {
+      const updated = parser.parse(LEGACY_SCHEMA.replace('fullName String @map("Full Name")', 'fullName String @map("Full Name")\n  bornIn   String? @map("born_in")'));
+      const changes = new SchemaDiffer().diffSchemas(ast, updated);
+
+      expect(changes.map(change => change.sql)).toEqual(['ALTER TABLE legacy_authors ADD COLUMN born_in TEXT;']);
+    });
+
+    it('uses mapped names in the Drizzle schema', () => {
+      const drizzle = translatePslToDrizzleSchema(ast);
+
+      expect(drizzle).toContain(`sqliteTable('legacy_authors'`);
+      expect(drizzle).toContain(`text('Full Name')`);
+      expect(drizzle).toContain(`integer('author_ref')`);
+    });
+
+    it('generates model clients for the mapped table', async () => {
+      const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drismify-mapped-names-'));
+      try {
+        await new ClientGenerator({ outputDir, generateTypes: true, generateJs: false }).generateFromAst(ast);
+        const bookClient = fs.readFileSync(path.join(outputDir, 'models/book.ts'), 'utf-8');
+        expect(bookClient).toContain(`super(client, modelAst, 'tbl_books'`);
+      } finally {
+        fs.rmSync(outputDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createBlogClient, seedBlogData, type BlogClient } from '../utils/relation-test-client';
+import { BaseViewClient } from '../../src/client/view-client';
+import { NotFoundError } from '../../src/client/errors';
+import type { PslViewAst } from '../../src/generator';
+
+const parser = require('../../src/parser/generatedParser.js');
+
+describe('NotFoundError', () => {
+  let client: BlogClient;
+
+  const rejection = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+    } catch (error) {
+      return error as NotFoundError;
+    }
+    throw new Error('Expected the operation to fail');
+  };
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+    await seedBlogData(client);
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  it('returns the record from findUniqueOrThrow and findFirstOrThrow', async () => {
+    expect(await client.user.findUniqueOrThrow({ where: { id: 1 }, select: { name: true } })).toEqual({ name: 'Alice' });
+    expect((await client.post.findFirstOrThrow({ where: { authorId: 2 } })).id).toBe(4);
+    expect((await client.post.findFirstOrThrow()).id).toBe(1);
+  });
+
+  it('throws a P2025 error carrying the model name and where', async () => {
+    const error = await rejection(client.user.findUniqueOrThrow({ where: { id: 99 } }));
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.code).toBe('P2025');
+    expect(error.modelName).toBe('User');
+    expect(error.where).toEqual({ id: 99 });
+    expect(error.message).toBe('No User found for where {"id":99}');
+  });
+
+  it('throws from findFirstOrThrow', async () => {
+    const error = await rejection(client.post.findFirstOrThrow({ where: { views: { gt: 1000 } } }));
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.modelName).toBe('Post');
+  });
+
+  it('throws from update and delete on a missing record', async () => {
+    const updateError = await rejection(client.post.update({ where: { id: 99 }, data: { title: 'x' } }));
+    const deleteError = await rejection(client.post.delete({ where: { id: 99 } }));
+
+    expect(updateError).toBeInstanceOf(NotFoundError);
+    expect(updateError.meta).toEqual({ modelName: 'Post', cause: 'Record to update not found' });
+    expect(deleteError).toBeInstanceOf(NotFoundError);
+    expect(deleteError.meta).toEqual({ modelName: 'Post', cause: 'Record to delete does not exist' });
+  });
+
+  it('throws from view clients', async () => {
+    await client.adapter.execute('CREATE VIEW author_name AS SELECT id, name FROM user');
+    const viewAst = (parser.parse(`
+      view AuthorName {
+        id   Int    @unique
+        name String?
+      }
+    `) as PslViewAst[])[0];
+    const authorName = new BaseViewClient<any, any, any, any, any>(client, viewAst, 'author_name');
+
+    expect(await authorName.findUniqueOrThrow({ where: { id: 2 } })).toEqual({ id: 2, name: 'Bob' });
+    const error = await rejection(authorName.findFirstOrThrow({ where: { name: 'Nobody' } }));
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.modelName).toBe('AuthorName');
+    expect(await rejection(authorName.findUniqueOrThrow({ where: { id: 99 } }))).toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createBlogClient, seedBlogData, type BlogClient } from '../utils/relation-test-client';
+
+describe('orderBy', () => {
+  let client: BlogClient;
+
+  const ids = (records: any[]) => records.map(r => r.id);
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+    await seedBlogData(client);
+    await client.adapter.execute(`UPDATE user SET country = NULL WHERE id = 3`);
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  it('orders by a field of a to-one relation', async () => {
+    const posts = await client.post.findMany({ orderBy: [{ author: { name: 'desc' } }, { id: 'asc' }] });
+
+    expect(ids(posts)).toEqual([4, 1, 2, 3]);
+  });
+
+  it('orders through nested to-one relations', async () => {
+    const comments = await client.comment.findMany({ orderBy: [{ post: { author: { name: 'desc' } } }, { id: 'asc' }] });
+
+    expect(ids(comments)).toEqual([4, 1, 2, 3]);
+  });
+
+  it('orders by a to-one relation on the back-relation side', async () => {
+    const users = await client.user.findMany({ orderBy: { profile: { id: 'desc' } } });
+
+    expect(ids(users)).toEqual([2, 1, 3]);
+  });
+
+  it('orders by the number of related records', async () => {
+    const users = await client.user.findMany({ orderBy: { posts: { _count: 'desc' } } });
+    const posts = await client.post.findMany({ orderBy: [{ comments: { _count: 'desc' } }, { id: 'asc' }] });
+
+    expect(ids(users)).toEqual([1, 2, 3]);
+    expect(ids(posts)).toEqual([1, 3, 4, 2]);
+  });
+
+  it('places nulls first or last', async () => {
+    const nullsLast = await client.user.findMany({ orderBy: [{ country: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }] });
+    const nullsFirst = await client.user.findMany({ orderBy: [{ country: { sort: 'desc', nulls: 'first' } }, { id: 'asc' }] });
+
+    expect(ids(nullsLast)).toEqual([1, 2, 3]);
+    expect(ids(nullsFirst)).toEqual([3, 2, 1]);
+  });
+
+  it('applies relation orderings to included relations', async () => {
+    const user = await client.user.findUnique({
+      where: { id: 1 },
+      include: { posts: { orderBy: { comments: { _count: 'desc' } }, take: 2 } }
+    });
+
+    expect(ids(user!.posts)).toEqual([1, 3]);
+  });
+
+  it('works with findFirst and distinct', async () => {
+    const post = await client.post.findFirst({ orderBy: { author: { name: 'desc' } } });
+    const perAuthor = await client.post.findMany({ distinct: ['authorId'], orderBy: [{ comments: { _count: 'asc' } }, { id: 'asc' }] });
+
+    expect(post?.id).toBe(4);
+    expect(ids(perAuthor)).toEqual([2, 4]);
+  });
+
+  it('rejects unknown fields and invalid values', async () => {
+    await expect(client.post.findMany({ orderBy: { 'title; DROP TABLE post': 'asc' } as any }))
+      .rejects.toThrow("Cannot order by 'title; DROP TABLE post'");
+    await expect(client.post.findMany({ orderBy: { title: 'sideways' } as any })).rejects.toThrow('Invalid sort direction');
+    await expect(client.post.findMany({ orderBy: { title: { sort: 'asc', nulls: 'middle' } } as any })).rejects.toThrow('Invalid nulls placement');
+    await expect(client.user.findMany({ orderBy: { posts: { title: 'asc' } } as any })).rejects.toThrow("Cannot order by list relation 'posts'");
+    await expect(client.post.findMany({ orderBy: { author: { missing: 'asc' } } as any })).rejects.toThrow("Cannot order by 'missing'");
+  });
+
+  it('rejects relation orderings for cursor pagination', async () => {
+    await expect(client.post.findMany({ orderBy: { author: { name: 'asc' } } as any, cursor: { id: 1 } }))
+      .rejects.toThrow('Cursor pagination on Post only supports ordering by scalar fields');
+  });
+});
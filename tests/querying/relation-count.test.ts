@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createBlogClient, seedBlogData, type BlogClient } from '../utils/relation-test-client';
+
+describe('Relation _count', () => {
+  let client: BlogClient;
+  let queries: string[];
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+    await seedBlogData(client);
+
+    const execute = client.adapter.execute.bind(client.adapter);
+    client.adapter.execute = (query: string, params?: unknown[]) => {
+      queries.push(query);
+      return execute(query, params);
+    };
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  it('includes relation counts with one grouped query per relation', async () => {
+    queries = [];
+    const posts = await client.post.findMany({
+      orderBy: { id: 'asc' },
+      include: { _count: { select: { comments: true } } },
+    });
+
+    expect(posts.map(post => [post.id, post.title, post._count])).toEqual([
+      [1, 'Alice One', { comments: 2 }],
+      [2, 'Alice Two', { comments: 0 }],
+      [3, 'Alice Three', { comments: 1 }],
+      [4, 'Bob One', { comments: 1 }],
+    ]);
+    expect(queries).toHaveLength(2);
+    expect(queries[1]).toContain('GROUP BY postId');
+  });
+
+  it('selects only the counts when _count is the only selected field', async () => {
+    const user = await client.user.findUnique({
+      where: { id: 1 },
+      select: { name: true, _count: { select: { posts: true, comments: true } } },
+    });
+    const counts = await client.user.findFirst({ where: { id: 3 }, select: { _count: { select: { posts: true } } } });
+
+    expect(user).toEqual({ name: 'Alice', _count: { posts: 3, comments: 1 } });
+    expect(counts).toEqual({ _count: { posts: 0 } });
+  });
+
+  it('filters the counted records with where', async () => {
+    const users = await client.user.findMany({
+      where: { id: { in: [1, 2] } },
+      orderBy: { id: 'asc' },
+      select: { id: true, _count: { select: { posts: { where: { published: true } } } } },
+    });
+
+    expect(users).toEqual([
+      { id: 1, _count: { posts: 2 } },
+      { id: 2, _count: { posts: 0 } },
+    ]);
+  });
+
+  it('counts every to-many relation for _count: true, also in nested relations', async () => {
+    const user = await client.user.findUnique({
+      where: { id: 2 },
+      include: { _count: true, posts: { select: { title: true, _count: true } } },
+    });
+
+    expect(user._count).toEqual({ posts: 1, comments: 1 });
+    expect(user.posts).toEqual([{ title: 'Bob One', _count: { comments: 1 } }]);
+  });
+
+  it('rejects counts of to-one relations', async () => {
+    await expect(client.post.findMany({ include: { _count: { select: { author: true } } } }))
+      .rejects.toThrow("Cannot count 'author': it is not a to-many relation of Post");
+  });
+});
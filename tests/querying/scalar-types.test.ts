@@ -0,0 +1,302 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BaseModelClient } from '../../src/client/model-client';
+import { Decimal } from '../../src/client/scalars';
+import { SQLiteAdapter } from '../../src/adapters/sqlite-adapter';
+import { TursoAdapter } from '../../src/adapters/turso-adapter';
+import { ClientGenerator, type PslModelAst } from '../../src/generator';
+import { SchemaDiffer } from '../../src/migrations/schema-differ';
+import { translatePslToDrizzleSchema } from '../../src/translator/pslToDrizzle';
+import { applyExtension } from '../../src/extensions';
+import { aggregationExtension } from '../../src/extensions/aggregation';
+
+const parser = require('../../src/parser/generatedParser.js');
+
+const SCHEMA = `
+model Account {
+  id       BigInt  @id @default(autoincrement())
+  balance  Decimal @default(0.10)
+  quota    BigInt  @default(9007199254740993)
+  rate     Decimal?
+  label    String
+}
+`;
+
+// Beyond Number.MAX_SAFE_INTEGER, and more digits than a double holds
+const BIG = 9007199254740993n;
+const PRECISE = '12345678901234567890.123456789';
+
+type AnyModelClient = BaseModelClient<any, any, any, any, any, any, any, any>;
+
+describe('BigInt and Decimal', () => {
+  const ast = parser.parse(SCHEMA);
+  const models = (ast as PslModelAst[]).filter(node => node.type === 'model');
+
+  describe('Decimal', () => {
+    it('keeps every digit and normalizes trailing zeros', () => {
+      expect(new Decimal(PRECISE).toString()).toBe(PRECISE);
+      expect(new Decimal('1.50').toString()).toBe('1.5');
+      expect(new Decimal('-0.0012e3').toString()).toBe('-1.2');
+      expect(new Decimal(12n).toString()).toBe('12');
+      expect(JSON.stringify({ total: new Decimal('2.50') })).toBe('{"total":"2.5"}');
+    });
+
+    it('compares and rounds exactly', () => {
+      expect(new Decimal('0.1').equals('0.10')).toBe(true);
+      expect(new Decimal('10').comparedTo('9.99')).toBe(1);
+      expect(new Decimal('2.345').toFixed(2)).toBe('2.35');
+      expect(new Decimal('-2.345').toFixed(2)).toBe('-2.35');
+      expect(new Decimal('3').toFixed(2)).toBe('3.00');
+    });
+
+    it('adds and divides exactly', () => {
+      expect(new Decimal('0.1').plus('0.2').toString()).toBe('0.3');
+      expect(new Decimal(PRECISE).plus('-0.123456789').toString()).toBe('12345678901234567890');
+      expect(new Decimal('19.75').dividedBy(2).toString()).toBe('9.875');
+      expect(new Decimal('1').dividedBy(3).toString()).toBe('0.33333333333333333333');
+      expect(new Decimal('-2').dividedBy('3', 2).toString()).toBe('-0.67');
+      expect(() => new Decimal('1').dividedBy(0)).toThrow('division by zero');
+    });
+
+    it('rejects values that are not numbers', () => {
+      expect(() => new Decimal('abc')).toThrow('Invalid Decimal value');
+      expect(() => new Decimal(NaN)).toThrow('Invalid Decimal value');
+    });
+  });
+
+  describe('schema tooling', () => {
+    it('parses defaults without rounding them', () => {
+      const fields = models[0].fields;
+      const defaultOf = (name: string) => fields.find(f => f.name === name)!.attributes.find(a => a.name === 'default')!.args;
+
+      expect(defaultOf('quota')).toBe('9007199254740993');
+      expect(defaultOf('balance')).toBe(0.1);
+    });
+
+    it('creates INTEGER and TEXT columns with exact defaults', () => {
+      const [change] = new SchemaDiffer().diffSchemas([], ast);
+
+      expect(change.sql).toContain('id INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT');
+      expect(change.sql).toContain("balance TEXT NOT NULL DEFAULT '0.1'");
+      expect(change.sql).toContain('quota INTEGER NOT NULL DEFAULT 9007199254740993');
+      expect(change.sql).toContain('rate TEXT');
+    });
+
+    it('types the Drizzle columns', () => {
+      const drizzle = translatePslToDrizzleSchema(ast);
+
+      expect(drizzle).toContain(`integer('quota').$type<bigint>().default(9007199254740993n).notNull()`);
+      expect(drizzle).toContain(`text('balance').default("0.1").notNull()`);
+    });
+
+    it('generates bigint and Decimal types', async () => {
+      const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'drismify-scalar-types-'));
+      try {
+        await new ClientGenerator({ outputDir, generateTypes: true, generateJs: false }).generateFromAst(ast);
+        const types = fs.readFileSync(path.join(outputDir, 'types.ts'), 'utf-8');
+
+        expect(types).toContain(`import { Decimal } from '../../src/client/scalars';`);
+        expect(types).toContain('  quota: bigint;');
+        expect(types).toContain('  rate?: Decimal;');
+        expect(types).toContain('quota?: bigint | BigIntFieldUpdateOperationsInput;');
+      } finally {
+        fs.rmSync(outputDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('SQLite', () => {
+    let adapter: SQLiteAdapter;
+    let account: AnyModelClient;
+    let prisma: any;
+
+    beforeAll(async () => {
+      adapter = new SQLiteAdapter({ filename: ':memory:' });
+      await adapter.connect();
+      for (const change of new SchemaDiffer().diffSchemas([], ast)) {
+        await adapter.execute(change.sql);
+      }
+
+      const client: Record<string, unknown> = { adapter, $getAdapter: () => adapter };
+      account = new BaseModelClient(client, models[0], 'account');
+      client.account = account;
+      prisma = applyExtension(client, aggregationExtension);
+
+      await account.createMany([
+        { label: 'a', balance: '9.5', quota: 10n, rate: null },
+        { label: 'b', balance: '10.25', quota: BIG, rate: null },
+        { label: 'c', balance: new Decimal(PRECISE), quota: 3n, rate: '0.050' }
+      ]);
+    });
+
+    afterAll(async () => {
+      await adapter.disconnect();
+    });
+
+    it('round-trips values beyond double precision', async () => {
+      const created = await account.create({ label: 'd', quota: BIG + 1n, balance: PRECISE });
+      expect(created.quota).toBe(BIG + 1n);
+      expect(created.balance).toBeInstanceOf(Decimal);
+      expect(created.balance.toString()).toBe(PRECISE);
+
+      const found = await account.findUnique({ where: { id: created.id } });
+      expect(found.quota).toBe(BIG + 1n);
+      expect(found.balance.equals(PRECISE)).toBe(true);
+
+      await account.delete({ where: { id: created.id } });
+    });
+
+    it('stores canonical Decimal text and applies defaults', async () => {
+      const raw = await adapter.execute('SELECT label, balance, rate FROM account ORDER BY id');
+      expect(raw.data).toEqual([
+        { label: 'a', balance: '9.5', rate: null },
+        { label: 'b', balance: '10.25', rate: null },
+        { label: 'c', balance: PRECISE, rate: '0.05' }
+      ]);
+
+      const defaulted = await account.create({ label: 'e' });
+      expect(defaulted.balance.toString()).toBe('0.1');
+      expect(defaulted.quota).toBe(BIG);
+      await account.delete({ where: { id: defaulted.id } });
+    });
+
+    it('filters BigInt and Decimal fields', async () => {
+      expect((await account.findMany({ where: { quota: BIG } })).map(a => a.label)).toEqual(['b']);
+      expect((await account.findMany({ where: { quota: { gt: 5n } }, orderBy: { id: 'asc' } })).map(a => a.label)).toEqual(['a', 'b']);
+      expect((await account.findMany({ where: { balance: '10.250' } })).map(a => a.label)).toEqual(['b']);
+      expect((await account.findMany({ where: { rate: { equals: new Decimal('0.05') } } })).map(a => a.label)).toEqual(['c']);
+      // Compared by value, not as text
+      expect((await account.findMany({ where: { balance: { gte: '10' } }, orderBy: { id: 'asc' } })).map(a => a.label)).toEqual(['b', 'c']);
+    });
+
+    it('orders and paginates Decimal fields by value', async () => {
+      const ordered = await account.findMany({ orderBy: { balance: 'desc' } });
+      expect(ordered.map(a => a.label)).toEqual(['c', 'b', 'a']);
+
+      const page = await account.findMany({ cursor: { label: 'a' }, skip: 1, orderBy: { balance: 'asc' } });
+      expect(page.map(a => a.label)).toEqual(['b', 'c']);
+    });
+
+    it('updates with exact values and integer arithmetic', async () => {
+      const updated = await account.update({
+        where: { label: 'a' },
+        data: { quota: { increment: BIG }, balance: '0.30' }
+      });
+      expect(updated.quota).toBe(BIG + 10n);
+      expect(updated.balance.toString()).toBe('0.3');
+
+      await expect(account.update({ where: { label: 'a' }, data: { balance: { increment: 1 } } }))
+        .rejects.toThrow('arithmetic on Decimal fields');
+
+      await account.update({ where: { label: 'a' }, data: { quota: 10n, balance: '9.5' } });
+    });
+
+    it('aggregates into bigint and Decimal values', async () => {
+      const aggregate = await prisma.account.aggregate({
+        _sum: ['quota', 'balance', 'rate'],
+        _avg: ['balance'],
+        _max: ['balance'],
+        _min: ['balance']
+      });
+
+      expect(aggregate._sum.quota).toBe(BIG + 13n);
+      // Computed from the stored text, not on floating point numbers
+      expect(aggregate._sum.balance).toBeInstanceOf(Decimal);
+      expect(aggregate._sum.balance.toString()).toBe('12345678901234567909.873456789');
+      expect(aggregate._sum.rate.toString()).toBe('0.05');
+      expect(aggregate._avg.balance.toString()).toBe('4115226300411522636.62448559633333333333');
+      expect(aggregate._min.balance.toString()).toBe('9.5');
+      expect(aggregate._max.balance.toString()).toBe(PRECISE);
+
+      const groups = await prisma.account.groupBy({ by: ['label'], _sum: ['balance'], _max: ['rate'], orderBy: { label: 'asc' } });
+      expect(groups.map(group => [group.label, group._sum.balance.toString(), group._max.rate?.toString() ?? null])).toEqual([
+        ['a', '9.5', null],
+        ['b', '10.25', null],
+        ['c', PRECISE, '0.05']
+      ]);
+    });
+
+    it('groups by BigInt and Decimal fields', async () => {
+      const groups = await prisma.account.groupBy({ by: ['quota', 'balance'], _count: true, orderBy: { quota: 'asc' } });
+
+      expect(groups.map(group => [group.quota, group.balance])).toEqual([
+        [3n, new Decimal(PRECISE)],
+        [10n, new Decimal('9.5')],
+        [BIG, new Decimal('10.25')]
+      ]);
+      expect(groups[0].balance).toBeInstanceOf(Decimal);
+    });
+
+    it('sums Decimal values without floating point error', async () => {
+      await account.createMany([
+        { label: 'x', balance: '0.1', quota: 0n },
+        { label: 'y', balance: '0.2', quota: 0n }
+      ]);
+
+      const aggregate = await prisma.account.aggregate({ where: { label: { in: ['x', 'y'] } }, _sum: ['balance'] });
+      expect(aggregate._sum.balance.toString()).toBe('0.3');
+
+      const empty = await prisma.account.aggregate({ where: { label: 'none' }, _sum: ['balance'], _max: ['balance'] });
+      expect(empty._sum).toEqual({ balance: null });
+      expect(empty._max).toEqual({ balance: null });
+
+      await account.deleteMany({ where: { label: { in: ['x', 'y'] } } });
+    });
+
+    it('aggregates negative and wide Decimal values exactly in SQL', async () => {
+      const values = ['-0.45', '-0.4', '123456789012345678901234567890.123', '-99999999999999999999.9999999999', '0.000001'];
+      await account.createMany(values.map((balance, i) => ({ label: `n${i}`, balance, quota: 0n })));
+
+      const queries: string[] = [];
+      const execute = adapter.execute.bind(adapter);
+      adapter.execute = ((query: string, params?: unknown[]) => {
+        queries.push(query);
+        return execute(query, params);
+      }) as typeof adapter.execute;
+      try {
+        const where = { label: { startsWith: 'n' } };
+        const aggregate = await prisma.account.aggregate({ where, _sum: ['balance'], _avg: ['balance'], _min: ['balance'], _max: ['balance'] });
+        expect(aggregate._sum.balance.toString()).toBe('123456788912345678901234567889.2730010001');
+        expect(aggregate._avg.balance.toString()).toBe('24691357782469135780246913577.85460020002');
+        expect(aggregate._min.balance.toString()).toBe('-99999999999999999999.9999999999');
+        expect(aggregate._max.balance.toString()).toBe('123456789012345678901234567890.123');
+
+        const negative = await prisma.account.aggregate({ where: { label: { in: ['n0', 'n1'] } }, _min: ['balance'], _max: ['balance'] });
+        expect([negative._min.balance.toString(), negative._max.balance.toString()]).toEqual(['-0.45', '-0.4']);
+        expect(queries.some(query => query.includes('GROUP_CONCAT'))).toBe(false);
+      } finally {
+        adapter.execute = execute;
+        await account.deleteMany({ where: { label: { startsWith: 'n' } } });
+      }
+    });
+  });
+
+  describe('Turso', () => {
+    let adapter: TursoAdapter;
+
+    beforeAll(async () => {
+      adapter = new TursoAdapter({ url: 'file::memory:' });
+      await adapter.connect();
+      await adapter.execute('CREATE TABLE account (id INTEGER PRIMARY KEY, quota INTEGER NOT NULL, balance TEXT NOT NULL)');
+    });
+
+    afterAll(async () => {
+      await adapter.disconnect();
+    });
+
+    it('round-trips values beyond double precision', async () => {
+      const client: Record<string, unknown> = { adapter, $getAdapter: () => adapter };
+      const model = parser.parse('model Account {\n  id Int @id\n  quota BigInt\n  balance Decimal\n}')[0];
+      const account: AnyModelClient = new BaseModelClient(client, model, 'account');
+
+      await adapter.execute('INSERT INTO account (id, quota, balance) VALUES ($1, $2, $3)', [1, BIG, new Decimal(PRECISE)]);
+      const found = await account.findUnique({ where: { id: 1 } });
+
+      expect(found.id).toBe(1);
+      expect(found.quota).toBe(BIG);
+      expect(found.balance.toString()).toBe(PRECISE);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createBlogClient, type BlogClient } from '../utils/relation-test-client';
+import { BaseViewClient } from '../../src/client/view-client';
+import type { PslViewAst } from '../../src/generator';
+
+const parser = require('../../src/parser/generatedParser.js');
+
+describe('String filters', () => {
+  let client: BlogClient;
+
+  const titles = (records: any[]) => records.map(r => r.title).sort();
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+
+    await client.adapter.execute(`INSERT INTO user (id, email, name) VALUES (1, 'alice@example.com', 'Alice')`);
+    await client.adapter.execute(`INSERT INTO post (id, title, authorId) VALUES
+      (1, 'Hello World', 1),
+      (2, 'hello again', 1),
+      (3, '100% done', 1),
+      (4, '1000 done', 1),
+      (5, 'snake_case', 1),
+      (6, 'snakeXcase', 1),
+      (7, 'Über alles', 1),
+      (8, 'über uns', 1),
+      (9, 'glob*star?', 1)`);
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  it('matches case-sensitively by default', async () => {
+    // Breaking change from the plain LIKE these compiled to, which ignored the case of ASCII letters
+    expect(titles(await client.post.findMany({ where: { title: { contains: 'hello' } } }))).toEqual(['hello again']);
+    expect(titles(await client.post.findMany({ where: { title: { endsWith: 'WORLD' } } }))).toEqual([]);
+    expect(titles(await client.post.findMany({ where: { title: { startsWith: 'hello' } } }))).toEqual(['hello again']);
+    expect(titles(await client.post.findMany({ where: { title: { startsWith: 'Über' } } }))).toEqual(['Über alles']);
+  });
+
+  it('matches case-insensitively with mode: insensitive', async () => {
+    const posts = await client.post.findMany({ where: { title: { contains: 'HELLO', mode: 'insensitive' } } });
+
+    expect(titles(posts)).toEqual(['Hello World', 'hello again']);
+  });
+
+  it('folds only ASCII letters in insensitive mode', async () => {
+    // SQLite's lower() leaves other letters as they are unless the ICU extension is loaded
+    expect(titles(await client.post.findMany({ where: { title: { startsWith: 'über', mode: 'insensitive' } } }))).toEqual(['über uns']);
+  });
+
+  it('supports insensitive equals, not and in', async () => {
+    expect(titles(await client.post.findMany({ where: { title: { equals: 'HELLO WORLD', mode: 'insensitive' } } }))).toEqual(['Hello World']);
+    expect(titles(await client.post.findMany({ where: { title: { in: ['hello world', 'SNAKE_CASE'], mode: 'insensitive' } } })))
+      .toEqual(['Hello World', 'snake_case']);
+    expect(await client.post.count({ where: { title: { not: 'HELLO WORLD', mode: 'insensitive' } } })).toBe(8);
+  });
+
+  it('treats % and _ as literal characters', async () => {
+    expect(titles(await client.post.findMany({ where: { title: { startsWith: '100%' } } }))).toEqual(['100% done']);
+    expect(titles(await client.post.findMany({ where: { title: { contains: '_', mode: 'insensitive' } } }))).toEqual(['snake_case']);
+    expect(titles(await client.post.findMany({ where: { title: { endsWith: 'E_CASE', mode: 'insensitive' } } }))).toEqual(['snake_case']);
+  });
+
+  it('treats glob wildcards as literal characters', async () => {
+    expect(titles(await client.post.findMany({ where: { title: { endsWith: '*star?' } } }))).toEqual(['glob*star?']);
+    expect(await client.post.count({ where: { title: { contains: '?' } } })).toBe(1);
+  });
+
+  it('keeps placeholder numbering across mixed filters', async () => {
+    const posts = await client.post.findMany({
+      where: {
+        OR: [
+          { title: { startsWith: 'HELLO', mode: 'insensitive' } },
+          { title: { in: ['100% DONE'], mode: 'insensitive' } }
+        ],
+        id: { not: 2 }
+      }
+    });
+
+    expect(titles(posts)).toEqual(['100% done', 'Hello World']);
+  });
+
+  it('applies the same rules in view clients', async () => {
+    await client.adapter.execute('CREATE VIEW post_title AS SELECT id, title FROM post');
+    const viewAst = (parser.parse(`
+      view PostTitle {
+        id    Int    @unique
+        title String
+      }
+    `) as PslViewAst[])[0];
+    const postTitle = new BaseViewClient<any, any, any, any, any>(client, viewAst, 'post_title');
+
+    expect(titles(await postTitle.findMany({ where: { title: { contains: 'hello' } } }))).toEqual(['hello again']);
+    expect(titles(await postTitle.findMany({ where: { title: { contains: 'hello', mode: 'insensitive' } } })))
+      .toEqual(['Hello World', 'hello again']);
+    expect(titles(await postTitle.findMany({ where: { title: { contains: '0%' } } }))).toEqual(['100% done']);
+  });
+});
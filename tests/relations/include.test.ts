@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createBlogClient, seedBlogData, type BlogClient } from '../utils/relation-test-client';
+
+describe('Relation include', () => {
+  let client: BlogClient;
+  let queries: string[] = [];
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+    await seedBlogData(client);
+
+    // Record every statement so batching can be asserted
+    const execute = client.adapter.execute.bind(client.adapter);
+    client.adapter.execute = (async (query: string, params?: unknown[]) => {
+      queries.push(query);
+      return execute(query, params);
+    }) as typeof client.adapter.execute;
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  it('loads a many-to-one relation', async () => {
+    const post = await client.post.findUnique({ where: { id: 4 }, include: { author: true } });
+
+    expect(post.title).toBe('Bob One');
+    expect(post.author).toEqual({ id: 2, email: 'bob@example.com', name: 'Bob', country: 'US' });
+  });
+
+  it('loads a one-to-many relation as an array', async () => {
+    const user = await client.user.findFirst({ where: { id: 1 }, include: { posts: true } });
+
+    expect(user.posts.map((p: any) => p.id).sort()).toEqual([1, 2, 3]);
+  });
+
+  it('loads a one-to-one back-relation or null', async () => {
+    const users = await client.user.findMany({ orderBy: { id: 'asc' }, include: { profile: true } });
+
+    expect(users[0].profile.bio).toBe('Alice bio');
+    expect(users[1].profile.bio).toBe('Bob bio');
+    expect(users[2].profile).toBeNull();
+  });
+
+  it('returns an empty array when a parent has no related rows', async () => {
+    const user = await client.user.findUnique({ where: { id: 3 }, include: { posts: true } });
+
+    expect(user.posts).toEqual([]);
+  });
+
+  it('sets null for an optional relation with a null foreign key', async () => {
+    const comment = await client.comment.findUnique({ where: { id: 3 }, include: { author: true } });
+
+    expect(comment.author).toBeNull();
+  });
+
+  it('batches each relation level into a single query', async () => {
+    queries = [];
+    const users = await client.user.findMany({
+      include: { posts: { include: { comments: { include: { author: true } } } } },
+    });
+
+    // One query for users, then one per relation level
+    expect(queries).toHaveLength(4);
+    expect(queries[1]).toContain('IN (');
+
+    const alice = users.find((u: any) => u.id === 1);
+    const firstPost = alice.posts.find((p: any) => p.id === 1);
+    expect(firstPost.comments.map((c: any) => c.author.name).sort()).toEqual(['Bob', 'Carol']);
+  });
+
+  it('ignores relations set to false', async () => {
+    const user = await client.user.findUnique({ where: { id: 1 }, include: { posts: false } });
+
+    expect(user).not.toHaveProperty('posts');
+  });
+});
+
+describe('Relation include over many parents', () => {
+  const USER_COUNT = 1200;
+  let client: BlogClient;
+  let calls: Array<{ query: string; params: unknown[] }> = [];
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+    await client.adapter.execute(`
+      WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < ${USER_COUNT})
+      INSERT INTO user (id, email) SELECT i, 'user' || i || '@example.com' FROM n
+    `);
+    await client.adapter.execute(`
+      WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < ${USER_COUNT * 2})
+      INSERT INTO post (id, title, authorId) SELECT i, 'Post ' || i, (i + 1) / 2 FROM n
+    `);
+
+    const execute = client.adapter.execute.bind(client.adapter);
+    client.adapter.execute = (async (query: string, params: unknown[] = []) => {
+      calls.push({ query, params });
+      return execute(query, params);
+    }) as typeof client.adapter.execute;
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  const keyQueries = () => calls.filter(call => call.query.includes('IN ('));
+
+  it('splits the parent keys of a relation over several queries', async () => {
+    calls = [];
+    const users = await client.user.findMany({ orderBy: { id: 'asc' }, include: { posts: { orderBy: { id: 'desc' }, take: 1 } } });
+
+    expect(users).toHaveLength(USER_COUNT);
+    expect(users[0].posts.map((p: any) => p.id)).toEqual([2]);
+    expect(users[USER_COUNT - 1].posts.map((p: any) => p.id)).toEqual([USER_COUNT * 2]);
+    expect(keyQueries().length).toBeGreaterThan(1);
+    expect(Math.max(...keyQueries().map(call => call.params.length))).toBeLessThanOrEqual(500);
+  });
+
+  it('splits the parent keys of relation counts over several queries', async () => {
+    calls = [];
+    const users = await client.user.findMany({ include: { _count: { select: { posts: true } } } });
+
+    expect(users.every((u: any) => u._count.posts === 2)).toBe(true);
+    expect(keyQueries().length).toBeGreaterThan(1);
+    expect(Math.max(...keyQueries().map(call => call.params.length))).toBeLessThanOrEqual(500);
+  });
+
+  it('splits a findUnique batch over several queries', async () => {
+    calls = [];
+    const posts = await Promise.all(
+      Array.from({ length: USER_COUNT }, (_, i) => client.post.findUnique({ where: { id: i + 1 } }))
+    );
+
+    expect(posts.map((p: any) => p.id)).toEqual(Array.from({ length: USER_COUNT }, (_, i) => i + 1));
+    expect(keyQueries().length).toBeGreaterThan(1);
+    expect(Math.max(...keyQueries().map(call => call.params.length))).toBeLessThanOrEqual(500);
+  });
+});
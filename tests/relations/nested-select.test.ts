@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createBlogClient, seedBlogData, type BlogClient } from '../utils/relation-test-client';
+
+describe('Nested relation select', () => {
+  let client: BlogClient;
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+    await seedBlogData(client);
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  it('selects scalar fields alongside a relation without leaking join columns', async () => {
+    const post = await client.post.findUnique({
+      where: { id: 1 },
+      select: { title: true, author: { select: { name: true } } },
+    });
+
+    expect(post).toEqual({ title: 'Alice One', author: { name: 'Alice' } });
+  });
+
+  it('filters and orders the related rows of each parent', async () => {
+    const users = await client.user.findMany({
+      orderBy: { id: 'asc' },
+      select: {
+        name: true,
+        posts: { where: { published: true }, orderBy: { views: 'desc' }, select: { title: true } },
+      },
+    });
+
+    expect(users).toEqual([
+      { name: 'Alice', posts: [{ title: 'Alice Three' }, { title: 'Alice One' }] },
+      { name: 'Bob', posts: [] },
+      { name: 'Carol', posts: [] },
+    ]);
+  });
+
+  it('paginates related rows per parent with take and skip', async () => {
+    const users = await client.user.findMany({
+      where: { id: { in: [1, 2] } },
+      orderBy: { id: 'asc' },
+      select: { id: true, posts: { orderBy: { views: 'asc' }, take: 1, skip: 1, select: { id: true } } },
+    });
+
+    expect(users[0]).toEqual({ id: 1, posts: [{ id: 2 }] });
+    expect(users[1]).toEqual({ id: 2, posts: [] });
+  });
+
+  it('applies take to every parent, not the whole batch', async () => {
+    const users = await client.user.findMany({
+      orderBy: { id: 'asc' },
+      include: { posts: { take: 1, orderBy: { id: 'desc' } } },
+    });
+
+    expect(users[0].posts.map((p: any) => p.id)).toEqual([3]);
+    expect(users[1].posts.map((p: any) => p.id)).toEqual([4]);
+  });
+
+  it('supports nested selections several levels deep', async () => {
+    const user = await client.user.findFirst({
+      where: { id: 2 },
+      select: {
+        email: true,
+        posts: {
+          select: {
+            title: true,
+            comments: { select: { content: true, author: { select: { name: true } } } },
+          },
+        },
+      },
+    });
+
+    expect(user).toEqual({
+      email: 'bob@example.com',
+      posts: [{ title: 'Bob One', comments: [{ content: 'Hmm', author: { name: 'Alice' } }] }],
+    });
+  });
+
+  it('returns only relations when no scalar field is selected', async () => {
+    const profile = await client.profile.findUnique({ where: { id: 2 }, select: { user: true } });
+
+    expect(profile).toEqual({ user: { id: 2, email: 'bob@example.com', name: 'Bob', country: 'US' } });
+  });
+});
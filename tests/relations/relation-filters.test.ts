@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createBlogClient, seedBlogData, type BlogClient } from '../utils/relation-test-client';
+
+describe('Relation filters', () => {
+  let client: BlogClient;
+
+  const ids = (records: any[]) => records.map(r => r.id).sort();
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+    await seedBlogData(client);
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  it('filters with some on a to-many relation', async () => {
+    const users = await client.user.findMany({ where: { posts: { some: { published: true } } } });
+
+    expect(ids(users)).toEqual([1]);
+  });
+
+  it('filters with none on a to-many relation', async () => {
+    const users = await client.user.findMany({ where: { posts: { none: { published: true } } } });
+
+    expect(ids(users)).toEqual([2, 3]);
+  });
+
+  it('filters with every on a to-many relation, including users without posts', async () => {
+    const users = await client.user.findMany({ where: { posts: { every: { views: { lt: 25 } } } } });
+
+    expect(ids(users)).toEqual([2, 3]);
+  });
+
+  it('treats an empty some filter as "has any related row"', async () => {
+    const users = await client.user.findMany({ where: { posts: { some: {} } } });
+
+    expect(ids(users)).toEqual([1, 2]);
+  });
+
+  it('filters with is and isNot on a to-one relation', async () => {
+    const germanPosts = await client.post.findMany({ where: { author: { is: { country: 'DE' } } } });
+    const otherPosts = await client.post.findMany({ where: { author: { isNot: { country: 'DE' } } } });
+
+    expect(ids(germanPosts)).toEqual([1, 2, 3]);
+    expect(ids(otherPosts)).toEqual([4]);
+  });
+
+  it('accepts a plain where object on a to-one relation', async () => {
+    const posts = await client.post.findMany({ where: { author: { name: 'Bob' } } });
+
+    expect(ids(posts)).toEqual([4]);
+  });
+
+  it('matches a missing optional to-one relation with is: null', async () => {
+    const anonymous = await client.comment.findMany({ where: { author: { is: null } } });
+    const withProfile = await client.user.findMany({ where: { profile: { isNot: null } } });
+
+    expect(ids(anonymous)).toEqual([3]);
+    expect(ids(withProfile)).toEqual([1, 2]);
+  });
+
+  it('nests relation filters and combines them with scalar conditions', async () => {
+    const users = await client.user.findMany({
+      where: {
+        country: 'DE',
+        posts: { some: { comments: { some: { author: { is: { name: 'Bob' } } } } } },
+      },
+    });
+
+    expect(ids(users)).toEqual([1]);
+  });
+
+  it('keeps placeholders aligned inside OR groups', async () => {
+    const users = await client.user.findMany({
+      where: {
+        OR: [
+          { name: 'Carol' },
+          { posts: { some: { title: { startsWith: 'Bob' } } } },
+        ],
+      },
+    });
+
+    expect(ids(users)).toEqual([2, 3]);
+  });
+
+  it('works in count', async () => {
+    const count = await client.post.count({ where: { comments: { some: {} } } });
+
+    expect(count).toBe(3);
+  });
+});
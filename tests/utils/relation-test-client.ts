@@ -0,0 +1,109 @@
+/**
+ * Relation test client
+ * Builds model clients for a small blog schema on an in-memory SQLite database
+ */
+
+import { BaseModelClient } from '../../src/client/model-client';
+import { SQLiteAdapter } from '../../src/adapters/sqlite-adapter';
+import type { PslModelAst } from '../../src/generator';
+
+const parser = require('../../src/parser/generatedParser.js');
+
+export const BLOG_SCHEMA = `
+model User {
+  id       Int       @id @default(autoincrement())
+  email    String    @unique
+  name     String?
+  country  String?
+  profile  Profile?
+  posts    Post[]
+  comments Comment[]
+}
+
+model Profile {
+  id     Int    @id @default(autoincrement())
+  bio    String
+  user   User   @relation(fields: [userId], references: [id])
+  userId Int    @unique
+}
+
+model Post {
+  id        Int       @id @default(autoincrement())
+  title     String
+  published Boolean   @default(false)
+  views     Int       @default(0)
+  author    User      @relation(fields: [authorId], references: [id])
+  authorId  Int
+  comments  Comment[]
+}
+
+model Comment {
+  id       Int     @id @default(autoincrement())
+  content  String
+  post     Post    @relation(fields: [postId], references: [id])
+  postId   Int
+  author   User?   @relation(fields: [authorId], references: [id])
+  authorId Int?
+}
+`;
+
+type AnyModelClient = BaseModelClient<any, any, any, any, any, any, any, any>;
+
+export type BlogClient = {
+  adapter: SQLiteAdapter;
+  user: AnyModelClient;
+  profile: AnyModelClient;
+  post: AnyModelClient;
+  comment: AnyModelClient;
+  $getAdapter: () => SQLiteAdapter;
+  [key: string]: unknown;
+};
+
+/**
+ * Create a connected blog client with empty tables
+ */
+export async function createBlogClient(): Promise<BlogClient> {
+  const adapter = new SQLiteAdapter({ filename: ':memory:' });
+  await adapter.connect();
+
+  await adapter.execute('CREATE TABLE user (id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT NOT NULL UNIQUE, name TEXT, country TEXT)');
+  await adapter.execute('CREATE TABLE profile (id INTEGER PRIMARY KEY AUTOINCREMENT, bio TEXT NOT NULL, userId INTEGER NOT NULL UNIQUE)');
+  await adapter.execute('CREATE TABLE post (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT NOT NULL, published BOOLEAN NOT NULL DEFAULT 0, views INTEGER NOT NULL DEFAULT 0, authorId INTEGER NOT NULL)');
+  await adapter.execute('CREATE TABLE comment (id INTEGER PRIMARY KEY AUTOINCREMENT, content TEXT NOT NULL, postId INTEGER NOT NULL, authorId INTEGER)');
+
+  const models = (parser.parse(BLOG_SCHEMA) as PslModelAst[]).filter(node => node.type === 'model');
+  const modelAst = (name: string) => models.find(model => model.name === name) as PslModelAst;
+
+  const client = { adapter, $getAdapter: () => adapter } as BlogClient;
+  client.user = new BaseModelClient(client, modelAst('User'), 'user');
+  client.profile = new BaseModelClient(client, modelAst('Profile'), 'profile');
+  client.post = new BaseModelClient(client, modelAst('Post'), 'post');
+  client.comment = new BaseModelClient(client, modelAst('Comment'), 'comment');
+
+  return client;
+}
+
+/**
+ * Insert a fixed set of users, profiles, posts and comments
+ */
+export async function seedBlogData(client: BlogClient): Promise<void> {
+  const { adapter } = client;
+
+  await adapter.execute(`INSERT INTO user (id, email, name, country) VALUES
+    (1, 'alice@example.com', 'Alice', 'DE'),
+    (2, 'bob@example.com', 'Bob', 'US'),
+    (3, 'carol@example.com', 'Carol', 'DE')`);
+  await adapter.execute(`INSERT INTO profile (id, bio, userId) VALUES
+    (1, 'Alice bio', 1),
+    (2, 'Bob bio', 2)`);
+  await adapter.execute(`INSERT INTO post (id, title, published, views, authorId) VALUES
+    (1, 'Alice One', 1, 10, 1),
+    (2, 'Alice Two', 0, 20, 1),
+    (3, 'Alice Three', 1, 30, 1),
+    (4, 'Bob One', 0, 5, 2)`);
+  await adapter.execute(`INSERT INTO comment (id, content, postId, authorId) VALUES
+    (1, 'Nice', 1, 2),
+    (2, 'Great', 1, 3),
+    (3, 'Thanks', 3, NULL),
+    (4, 'Hmm', 4, 1)`);
+}
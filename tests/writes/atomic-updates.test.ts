@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { BaseModelClient } from '../../src/client/model-client';
+import { SQLiteAdapter } from '../../src/adapters/sqlite-adapter';
+import type { PslModelAst } from '../../src/generator';
+
+const parser = require('../../src/parser/generatedParser.js');
+
+const SCHEMA = `
+model Counter {
+  id      Int      @id @default(autoincrement())
+  name    String   @unique
+  hits    Int      @default(0)
+  score   Float    @default(0)
+  tags    String[]
+  history Json?
+}
+`;
+
+describe('Atomic update operators', () => {
+  let adapter: SQLiteAdapter;
+  let counter: BaseModelClient<any, any, any, any, any, any, any, any>;
+
+  beforeAll(async () => {
+    adapter = new SQLiteAdapter({ filename: ':memory:' });
+    await adapter.connect();
+    await adapter.execute(`CREATE TABLE counter (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL UNIQUE, hits INTEGER NOT NULL DEFAULT 0, score REAL NOT NULL DEFAULT 0, tags TEXT, history TEXT)`);
+    await adapter.execute(`INSERT INTO counter (id, name, hits, score, tags) VALUES
+      (1, 'a', 10, 10, '["x"]'),
+      (2, 'b', 20, 5, NULL),
+      (3, 'c', 30, 1, '[]')`);
+
+    const [modelAst] = parser.parse(SCHEMA) as PslModelAst[];
+    counter = new BaseModelClient({ adapter, $getAdapter: () => adapter }, modelAst, 'counter');
+  });
+
+  afterAll(async () => {
+    await adapter.disconnect();
+  });
+
+  it('applies arithmetic operators in the UPDATE statement', async () => {
+    expect(await counter.update({ where: { id: 1 }, data: { hits: { increment: 5 } } })).toMatchObject({ hits: 15 });
+    expect(await counter.update({ where: { id: 1 }, data: { hits: { decrement: 3 } } })).toMatchObject({ hits: 12 });
+    expect(await counter.update({ where: { id: 1 }, data: { hits: { multiply: 2 } } })).toMatchObject({ hits: 24 });
+    expect(await counter.update({ where: { id: 1 }, data: { hits: { divide: 5 } } })).toMatchObject({ hits: 4 });
+    expect(await counter.update({ where: { id: 1 }, data: { hits: { set: 1 }, name: 'a' } })).toMatchObject({ hits: 1, name: 'a' });
+  });
+
+  it('divides Float fields without integer truncation', async () => {
+    const updated = await counter.update({ where: { id: 1 }, data: { score: { divide: 4 } } });
+
+    expect(updated.score).toBe(2.5);
+  });
+
+  it('never loses concurrent increments', async () => {
+    await Promise.all(Array.from({ length: 20 }, () =>
+      counter.update({ where: { id: 2 }, data: { hits: { increment: 1 } } })
+    ));
+
+    expect((await counter.findUnique({ where: { id: 2 } }))?.hits).toBe(40);
+  });
+
+  it('runs writes inside an open transaction as part of it', async () => {
+    const hits = await adapter.transaction(async () => {
+      const updated = await counter.update({ where: { id: 2 }, data: { hits: { increment: 1 } } });
+      return updated.hits;
+    });
+    expect(hits).toBe(41);
+
+    await expect(adapter.transaction(async () => {
+      await counter.update({ where: { id: 2 }, data: { hits: { increment: 1 } } });
+      throw new Error('abort');
+    })).rejects.toThrow('abort');
+    expect((await counter.findUnique({ where: { id: 2 } }))?.hits).toBe(41);
+
+    await counter.update({ where: { id: 2 }, data: { hits: 40 } });
+  });
+
+  it('applies operators in updateMany', async () => {
+    await counter.updateMany({ where: { hits: { gte: 30 } }, data: { hits: { increment: 100 }, score: { multiply: 2 } } });
+
+    const rows = await counter.findMany({ orderBy: { id: 'asc' } });
+    expect(rows.map(r => r.hits)).toEqual([1, 140, 130]);
+    expect(rows.map(r => r.score)).toEqual([2.5, 10, 2]);
+  });
+
+  it('pushes onto scalar lists and Json arrays', async () => {
+    await counter.update({ where: { id: 1 }, data: { tags: { push: 'y' } } });
+    await counter.update({ where: { id: 2 }, data: { tags: { push: ['p', 'q'] }, history: { push: { at: 1 } } } });
+
+    const rows = await counter.findMany({ where: { id: { in: [1, 2] } }, orderBy: { id: 'asc' } });
+    expect(JSON.parse(rows[0].tags)).toEqual(['x', 'y']);
+    expect(JSON.parse(rows[1].tags)).toEqual(['p', 'q']);
+    expect(JSON.parse(rows[1].history)).toEqual([{ at: 1 }]);
+  });
+
+  it('replaces a list with set or a plain array', async () => {
+    await counter.update({ where: { id: 3 }, data: { tags: { set: ['s'] } } });
+    expect(JSON.parse((await counter.findUnique({ where: { id: 3 } }))?.tags)).toEqual(['s']);
+
+    await counter.update({ where: { id: 3 }, data: { tags: ['t', 'u'] } });
+    expect(JSON.parse((await counter.findUnique({ where: { id: 3 } }))?.tags)).toEqual(['t', 'u']);
+  });
+
+  it('rejects operators that do not fit the field type', async () => {
+    await expect(counter.update({ where: { id: 3 }, data: { name: { increment: 1 } } })).rejects.toThrow("Cannot increment 'name'");
+    await expect(counter.update({ where: { id: 3 }, data: { hits: { push: 1 } } })).rejects.toThrow("Cannot push to 'hits'");
+  });
+
+  it('applies operators in the update branch of a native upsert', async () => {
+    const upserted = await counter.upsert({
+      where: { name: 'c' },
+      create: { name: 'c' },
+      update: { hits: { increment: 1 } }
+    });
+
+    expect(upserted.hits).toBe(131);
+  });
+});
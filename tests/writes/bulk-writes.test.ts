@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { createBlogClient, seedBlogData, type BlogClient } from '../utils/relation-test-client';
+
+describe('Bulk writes', () => {
+  let client: BlogClient;
+
+  beforeEach(async () => {
+    client = await createBlogClient();
+    await seedBlogData(client);
+  });
+
+  afterEach(async () => {
+    await client.adapter.disconnect();
+  });
+
+  it('returns the created records from createManyAndReturn', async () => {
+    const posts = await client.post.createManyAndReturn({
+      data: [
+        { title: 'New One', authorId: 1 },
+        { title: 'New Two', authorId: 2, views: 7 },
+        { title: 'New Three', authorId: 2, views: 8 }
+      ]
+    });
+
+    expect(posts).toEqual([
+      { id: 5, title: 'New One', published: 0, views: 0, authorId: 1 },
+      { id: 6, title: 'New Two', published: 0, views: 7, authorId: 2 },
+      { id: 7, title: 'New Three', published: 0, views: 8, authorId: 2 }
+    ]);
+    expect(await client.post.count()).toBe(7);
+  });
+
+  it('applies select and include to createManyAndReturn', async () => {
+    const posts = await client.post.createManyAndReturn({
+      data: [{ title: 'Selected', authorId: 3 }],
+      select: { title: true, author: { select: { name: true } } }
+    });
+
+    expect(posts).toEqual([{ title: 'Selected', author: { name: 'Carol' } }]);
+  });
+
+  it('rolls back every row when one insert fails', async () => {
+    const attempt = client.user.createManyAndReturn({
+      data: [
+        { email: 'dave@example.com', name: 'Dave' },
+        { email: 'alice@example.com', name: 'Duplicate' }
+      ]
+    });
+
+    await expect(attempt).rejects.toThrow();
+    expect(await client.user.count()).toBe(3);
+  });
+
+  it('splits more rows than one INSERT can bind over several statements in one transaction', async () => {
+    // 3 values per row: more than the 250000 parameters a SQLite statement can bind here
+    const data = Array.from({ length: 90000 }, (_, i) => ({ title: `Bulk ${i}`, authorId: 1, views: i }));
+    const posts = await client.post.createManyAndReturn({ data });
+
+    expect(posts).toHaveLength(90000);
+    expect(posts[89999]).toMatchObject({ title: 'Bulk 89999', views: 89999 });
+    expect(await client.post.count()).toBe(90004);
+
+    const failing = client.post.createManyAndReturn({ data: [...data, { title: null, authorId: 1, views: 0 }] });
+    await expect(failing).rejects.toThrow();
+    expect(await client.post.count()).toBe(90004);
+  });
+
+  it('returns the updated records from updateManyAndReturn', async () => {
+    const posts = await client.post.updateManyAndReturn({
+      where: { authorId: 1, published: false },
+      data: { published: true, views: { increment: 1 } },
+      select: { id: true, published: true, views: true }
+    });
+
+    expect(posts).toEqual([{ id: 2, published: 1, views: 21 }]);
+  });
+
+  it('reports the number of affected rows', async () => {
+    expect(await client.post.updateMany({ where: { authorId: 1 }, data: { views: 0 } })).toEqual({ count: 3 });
+    expect(await client.post.updateMany({ where: { authorId: 99 }, data: { views: 0 } })).toEqual({ count: 0 });
+    expect(await client.comment.deleteMany({ where: { postId: 1 } })).toEqual({ count: 2 });
+    expect(await client.comment.deleteMany()).toEqual({ count: 2 });
+    expect(await client.user.createMany([
+      { email: 'e@example.com', name: 'E' },
+      { email: 'f@example.com', name: 'F' }
+    ])).toEqual({ count: 2 });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createBlogClient, seedBlogData, type BlogClient } from '../utils/relation-test-client';
+import {
+  ForeignKeyConstraintError,
+  KnownRequestError,
+  NullConstraintError,
+  UniqueConstraintError,
+  WriteConflictError
+} from '../../src/client/errors';
+import { translateMongoError, translateSqliteError } from '../../src/adapters/errors';
+
+describe('Structured database errors', () => {
+  let client: BlogClient;
+
+  const rejection = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+    } catch (error) {
+      return error as KnownRequestError;
+    }
+    throw new Error('Expected the operation to fail');
+  };
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+    await seedBlogData(client);
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  it('raises P2002 with the target columns and model name on unique violations', async () => {
+    const error = await rejection(client.user.create({ email: 'alice@example.com', name: 'Copy' }));
+
+    expect(error).toBeInstanceOf(UniqueConstraintError);
+    expect(error).toBeInstanceOf(KnownRequestError);
+    expect(error.code).toBe('P2002');
+    expect(error.meta.target).toEqual(['email']);
+    expect(error.modelName).toBe('User');
+    expect(error.message).toContain('UNIQUE constraint failed');
+  });
+
+  it('reports primary key and compound unique columns', async () => {
+    await client.adapter.execute('CREATE TABLE membership (teamId INTEGER, userId INTEGER, UNIQUE (teamId, userId))');
+    await client.adapter.execute('INSERT INTO membership VALUES (1, 1)');
+
+    const compound = await rejection(client.adapter.execute('INSERT INTO membership VALUES (1, 1)'));
+    const primaryKey = await rejection(client.post.create({ id: 1, title: 'Again', authorId: 1 }));
+
+    expect(compound.meta.target).toEqual(['teamId', 'userId']);
+    expect(compound.modelName).toBeUndefined();
+    expect(primaryKey).toBeInstanceOf(UniqueConstraintError);
+    expect(primaryKey.meta).toEqual({ target: ['id'], modelName: 'Post' });
+  });
+
+  it('raises P2011 for null constraint violations in updates and bulk writes', async () => {
+    const update = await rejection(client.post.update({ where: { id: 1 }, data: { title: null } }));
+    const bulk = await rejection(client.comment.createMany([{ content: null, postId: 1 }]));
+
+    expect(update).toBeInstanceOf(NullConstraintError);
+    expect(update.code).toBe('P2011');
+    expect(update.meta).toEqual({ target: ['title'], modelName: 'Post' });
+    expect(bulk).toBeInstanceOf(NullConstraintError);
+    expect(bulk.modelName).toBe('Comment');
+  });
+
+  it('raises P2003 for foreign key violations', async () => {
+    await client.adapter.execute('PRAGMA foreign_keys = ON');
+    await client.adapter.execute('CREATE TABLE tag (id INTEGER PRIMARY KEY, postId INTEGER REFERENCES post(id))');
+
+    const error = await rejection(client.adapter.execute('INSERT INTO tag (postId) VALUES (99)'));
+
+    expect(error).toBeInstanceOf(ForeignKeyConstraintError);
+    expect(error.code).toBe('P2003');
+  });
+
+  it('keeps structured errors when they are raised inside a transaction', async () => {
+    const error = await rejection(client.adapter.transaction(tx =>
+      tx.execute("INSERT INTO user (email) VALUES ('bob@example.com')")
+    ));
+
+    expect(error).toBeInstanceOf(UniqueConstraintError);
+    expect(await client.user.count()).toBe(3);
+  });
+
+  it('translates driver errors by code', () => {
+    const busy = translateSqliteError({ code: 'SQLITE_BUSY', message: 'database is locked' }, 'TursoDB');
+    const libsql = translateSqliteError(
+      { code: 'SQLITE_CONSTRAINT_UNIQUE', message: 'SQLITE_CONSTRAINT_UNIQUE: UNIQUE constraint failed: user.email' },
+      'TursoDB'
+    ) as KnownRequestError;
+
+    expect(busy).toBeInstanceOf(WriteConflictError);
+    expect((busy as KnownRequestError).code).toBe('P2034');
+    expect(libsql.message).toBe('UNIQUE constraint failed: user.email');
+    expect(libsql.meta.target).toEqual(['email']);
+    expect(translateSqliteError({ code: 'SQLITE_READONLY', message: 'readonly' }, 'SQLite').message)
+      .toBe('SQLite error: Database is in readonly mode');
+  });
+
+  it('translates MongoDB server errors', () => {
+    const duplicate = translateMongoError({
+      code: 11000,
+      message: 'E11000 duplicate key error collection: test.users index: email_1 dup key: { email: "a@b.c" }',
+      keyPattern: { email: 1 },
+      keyValue: { email: 'a@b.c' }
+    }) as KnownRequestError;
+    const conflict = translateMongoError({ code: 112, message: 'WriteConflict error' }) as KnownRequestError;
+
+    expect(duplicate).toBeInstanceOf(UniqueConstraintError);
+    expect(duplicate.meta.target).toEqual(['email']);
+    expect(conflict).toBeInstanceOf(WriteConflictError);
+    expect(conflict.code).toBe('P2034');
+    expect(translateMongoError({ code: 13, message: 'not allowed' }).message).toBe('MongoDB error: Unauthorized');
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { BaseModelClient } from '../../src/client/model-client';
+import { SQLiteAdapter } from '../../src/adapters/sqlite-adapter';
+import type { PslModelAst } from '../../src/generator';
+
+const parser = require('../../src/parser/generatedParser.js');
+
+const SCHEMA = `
+model Article {
+  id        Int      @id @default(autoincrement())
+  slug      String   @unique
+  title     String
+  updatedAt DateTime @updatedAt
+  notes     Note[]   @relation(name: "ArticleNotes")
+}
+
+model Note {
+  id        Int      @id @default(autoincrement())
+  body      String
+  editedAt  DateTime? @updatedAt
+  article   Article  @relation(name: "ArticleNotes", fields: [articleId], references: [id])
+  articleId Int
+}
+`;
+
+const LONG_AGO = '2000-01-01 00:00:00';
+
+describe('@updatedAt', () => {
+  let adapter: SQLiteAdapter;
+  let article: BaseModelClient<any, any, any, any, any, any, any, any>;
+  let note: BaseModelClient<any, any, any, any, any, any, any, any>;
+  let startedAt: number;
+
+  // A stamp is UTC text in the CURRENT_TIMESTAMP format with milliseconds, taken during the current test
+  const expectStamped = (value: unknown) => {
+    expect(value).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}\.\d{3}$/);
+    const time = Date.parse(`${(value as string).replace(' ', 'T')}Z`);
+    expect(time).toBeGreaterThanOrEqual(startedAt);
+    expect(time).toBeLessThanOrEqual(Date.now());
+  };
+
+  beforeAll(async () => {
+    adapter = new SQLiteAdapter({ filename: ':memory:' });
+    await adapter.connect();
+    await adapter.execute('CREATE TABLE article (id INTEGER PRIMARY KEY AUTOINCREMENT, slug TEXT NOT NULL UNIQUE, title TEXT NOT NULL, updatedAt TIMESTAMP NOT NULL)');
+    await adapter.execute('CREATE TABLE note (id INTEGER PRIMARY KEY AUTOINCREMENT, body TEXT NOT NULL, editedAt TIMESTAMP, articleId INTEGER NOT NULL)');
+
+    const models = parser.parse(SCHEMA) as PslModelAst[];
+    const client: Record<string, unknown> = { adapter, $getAdapter: () => adapter };
+    article = new BaseModelClient(client, models[0], 'article');
+    note = new BaseModelClient(client, models[1], 'note');
+    client.article = article;
+    client.note = note;
+  });
+
+  afterAll(async () => {
+    await adapter.disconnect();
+  });
+
+  beforeEach(async () => {
+    await adapter.execute('DELETE FROM note');
+    await adapter.execute('DELETE FROM article');
+    await adapter.execute(`INSERT INTO article (id, slug, title, updatedAt) VALUES (1, 'first', 'First', '${LONG_AGO}')`);
+    await adapter.execute(`INSERT INTO note (id, body, editedAt, articleId) VALUES (1, 'Old', '${LONG_AGO}', 1)`);
+    startedAt = Date.now();
+  });
+
+  it('stamps created records', async () => {
+    const created = await article.create({ slug: 'second', title: 'Second' });
+    expectStamped(created.updatedAt);
+
+    const [one, two] = await article.createManyAndReturn({
+      data: [{ slug: 'third', title: 'Third' }, { slug: 'fourth', title: 'Fourth' }]
+    });
+    expectStamped(one.updatedAt);
+    expect(two.updatedAt).toBe(one.updatedAt);
+
+    await note.createMany([{ body: 'New', articleId: 1 }]);
+    expectStamped((await note.findFirst({ where: { body: 'New' } })).editedAt);
+  });
+
+  it('stamps updated records', async () => {
+    expectStamped((await article.update({ where: { id: 1 }, data: { title: 'Renamed' } })).updatedAt);
+
+    await adapter.execute(`UPDATE article SET updatedAt = '${LONG_AGO}'`);
+    await article.updateMany({ where: { slug: 'first' }, data: { title: 'Again' } });
+    expectStamped((await article.findUnique({ where: { id: 1 } })).updatedAt);
+
+    const [returned] = await note.updateManyAndReturn({ where: { articleId: 1 }, data: { body: 'Edited' } });
+    expectStamped(returned.editedAt);
+  });
+
+  it('stamps both branches of an upsert', async () => {
+    const updated = await article.upsert({
+      where: { slug: 'first' },
+      create: { slug: 'first', title: 'Created' },
+      update: { title: 'Updated' }
+    });
+    expect(updated.title).toBe('Updated');
+    expectStamped(updated.updatedAt);
+
+    const created = await article.upsert({
+      where: { slug: 'new' },
+      create: { slug: 'new', title: 'Created' },
+      update: { title: 'Updated' }
+    });
+    expect(created.title).toBe('Created');
+    expectStamped(created.updatedAt);
+  });
+
+  it('stamps records written by nested writes', async () => {
+    await article.update({
+      where: { id: 1 },
+      data: { notes: { create: [{ body: 'Nested' }], updateMany: { where: { body: 'Old' }, data: { body: 'Older' } } } }
+    });
+
+    const notes = await note.findMany({ orderBy: { id: 'asc' } });
+    expect(notes.map(n => n.body)).toEqual(['Older', 'Nested']);
+    notes.forEach(n => expectStamped(n.editedAt));
+  });
+
+  it('keeps values the caller sets explicitly', async () => {
+    const explicit = '2020-06-01T12:00:00.000Z';
+
+    expect((await article.create({ slug: 'dated', title: 'Dated', updatedAt: explicit })).updatedAt).toBe(explicit);
+    expect((await article.update({ where: { id: 1 }, data: { title: 'Kept', updatedAt: explicit } })).updatedAt).toBe(explicit);
+    expect((await note.update({ where: { id: 1 }, data: { body: 'Cleared', editedAt: null } })).editedAt).toBeNull();
+  });
+
+  it('stamps updates that only write related records', async () => {
+    await article.update({ where: { id: 1 }, data: { notes: { create: [{ body: 'Related' }] } } });
+    expectStamped((await article.findUnique({ where: { id: 1 } })).updatedAt);
+
+    await adapter.execute(`UPDATE article SET updatedAt = '${LONG_AGO}'`);
+    expectStamped((await article.update({ where: { id: 1 }, data: {} })).updatedAt);
+  });
+
+  it('writes stamps in the format of @default(now())', async () => {
+    const currentTimestamp = async () => (await adapter.execute('SELECT CURRENT_TIMESTAMP AS now')).data[0].now;
+    const before = await currentTimestamp();
+    const stamped = (await article.update({ where: { id: 1 }, data: { title: 'Compared' } })).updatedAt;
+    const after = await currentTimestamp();
+
+    // Compared as text, as SQL does, so it sorts among CURRENT_TIMESTAMP values by time;
+    // CURRENT_TIMESTAMP drops the milliseconds of its second
+    expect(stamped >= before && stamped.slice(0, 19) <= after).toBe(true);
+  });
+
+  it('gives updates milliseconds apart different stamps', async () => {
+    const first = (await article.update({ where: { id: 1 }, data: { title: 'One' } })).updatedAt;
+    await Bun.sleep(2);
+    const second = (await article.update({ where: { id: 1 }, data: { title: 'Two' } })).updatedAt;
+
+    expect(second > first).toBe(true);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { BaseModelClient } from '../../src/client/model-client';
+import { SQLiteAdapter } from '../../src/adapters/sqlite-adapter';
+import { UniqueConstraintError } from '../../src/client/errors';
+import type { PslModelAst } from '../../src/generator';
+import { createBlogClient, seedBlogData, type BlogClient } from '../utils/relation-test-client';
+
+const parser = require('../../src/parser/generatedParser.js');
+
+const SCHEMA = `
+model Account {
+  id     Int    @id @default(autoincrement())
+  email  String @unique
+  name   String
+  logins Int    @default(0)
+}
+
+model Membership {
+  id     Int    @id @default(autoincrement())
+  teamId Int
+  userId Int
+  role   String
+
+  @@unique([teamId, userId])
+}
+`;
+
+describe('upsert', () => {
+  let adapter: SQLiteAdapter;
+  let account: BaseModelClient<any, any, any, any, any, any, any, any>;
+  let membership: BaseModelClient<any, any, any, any, any, any, any, any>;
+  let queries: string[] = [];
+
+  beforeAll(async () => {
+    adapter = new SQLiteAdapter({ filename: ':memory:' });
+    await adapter.connect();
+    await adapter.execute('CREATE TABLE account (id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT NOT NULL UNIQUE, name TEXT NOT NULL, logins INTEGER NOT NULL DEFAULT 0)');
+    await adapter.execute('CREATE TABLE membership (id INTEGER PRIMARY KEY AUTOINCREMENT, teamId INTEGER NOT NULL, userId INTEGER NOT NULL, role TEXT NOT NULL, UNIQUE (teamId, userId))');
+
+    const models = parser.parse(SCHEMA) as PslModelAst[];
+    const client: Record<string, unknown> = { adapter, $getAdapter: () => adapter };
+    account = new BaseModelClient(client, models[0], 'account');
+    membership = new BaseModelClient(client, models[1], 'membership');
+
+    // Record every statement so the single-statement path can be asserted
+    const execute = adapter.execute.bind(adapter);
+    adapter.execute = (async (query: string, params?: unknown[]) => {
+      queries.push(query);
+      return execute(query, params);
+    }) as typeof adapter.execute;
+  });
+
+  afterAll(async () => {
+    await adapter.disconnect();
+  });
+
+  it('inserts when no record matches, in one statement', async () => {
+    queries = [];
+    const created = await account.upsert({
+      where: { email: 'ann@example.com' },
+      create: { email: 'ann@example.com', name: 'Ann', logins: 1 },
+      update: { logins: 99 }
+    });
+
+    expect(created).toEqual({ id: 1, email: 'ann@example.com', name: 'Ann', logins: 1 });
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toContain('ON CONFLICT (email) DO UPDATE');
+  });
+
+  it('updates the existing record on conflict', async () => {
+    const updated = await account.upsert({
+      where: { email: 'ann@example.com' },
+      create: { email: 'ann@example.com', name: 'Ann', logins: 1 },
+      update: { name: 'Annie', logins: 2 }
+    });
+
+    expect(updated).toEqual({ id: 1, email: 'ann@example.com', name: 'Annie', logins: 2 });
+    expect(await account.count()).toBe(1);
+  });
+
+  it('returns the existing record unchanged for an empty update', async () => {
+    const existing = await account.upsert({
+      where: { email: 'ann@example.com' },
+      create: { email: 'ann@example.com', name: 'Other' },
+      update: {}
+    });
+
+    expect(existing.name).toBe('Annie');
+  });
+
+  it('raises a structured error for a conflict on another unique column', async () => {
+    const error = await account.upsert({
+      where: { email: 'bob@example.com' },
+      create: { id: 1, email: 'bob@example.com', name: 'Bob' },
+      update: { logins: 1 }
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(UniqueConstraintError);
+    expect(error.meta).toEqual({ target: ['id'], modelName: 'Account' });
+    expect(await account.count()).toBe(1);
+  });
+
+  it('supports compound unique keys', async () => {
+    const where = { teamId_userId: { teamId: 1, userId: 7 } };
+    queries = [];
+
+    await membership.upsert({ where, create: { teamId: 1, userId: 7, role: 'member' }, update: { role: 'admin' } });
+    const promoted = await membership.upsert({ where, create: { teamId: 1, userId: 7, role: 'member' }, update: { role: 'admin' } });
+
+    expect(promoted).toEqual({ id: 1, teamId: 1, userId: 7, role: 'admin' });
+    expect(queries).toHaveLength(2);
+    expect(queries[0]).toContain('ON CONFLICT (teamId, userId)');
+  });
+
+  it('applies select to the returned record', async () => {
+    const selected = await account.upsert({
+      where: { email: 'ann@example.com' },
+      create: { email: 'ann@example.com', name: 'Ann' },
+      update: { logins: 3 },
+      select: { email: true, logins: true }
+    });
+
+    expect(selected).toEqual({ email: 'ann@example.com', logins: 3 });
+  });
+
+  it('falls back to read-then-write when where is not a unique constraint', async () => {
+    queries = [];
+    const updated = await account.upsert({
+      where: { name: 'Annie' },
+      create: { email: 'new@example.com', name: 'Annie' },
+      update: { logins: 4 }
+    });
+    const created = await account.upsert({
+      where: { name: 'Nobody' },
+      create: { email: 'nobody@example.com', name: 'Nobody' },
+      update: { logins: 4 }
+    });
+
+    expect(updated).toMatchObject({ id: 1, logins: 4 });
+    expect(created).toMatchObject({ email: 'nobody@example.com', logins: 0 });
+    expect(queries.some(query => query.includes('ON CONFLICT'))).toBe(false);
+  });
+
+  it('falls back when the create data does not carry the where value', async () => {
+    const record = await account.upsert({
+      where: { id: 1 },
+      create: { email: 'x@example.com', name: 'X' },
+      update: { logins: 5 }
+    });
+
+    expect(record).toMatchObject({ id: 1, email: 'ann@example.com', logins: 5 });
+  });
+});
+
+describe('upsert with relations', () => {
+  let client: BlogClient;
+
+  beforeAll(async () => {
+    client = await createBlogClient();
+    await seedBlogData(client);
+  });
+
+  afterAll(async () => {
+    await client.adapter.disconnect();
+  });
+
+  it('loads included relations on the upserted record', async () => {
+    const user = await client.user.upsert({
+      where: { email: 'alice@example.com' },
+      create: { email: 'alice@example.com', name: 'Alice' },
+      update: { name: 'Alicia' },
+      include: { profile: true }
+    });
+
+    expect(user.name).toBe('Alicia');
+    expect(user.profile).toMatchObject({ userId: 1 });
+  });
+});